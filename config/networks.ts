@@ -0,0 +1,185 @@
+import fs from "fs";
+import {EventEmitter} from "events";
+import {ethers} from "ethers";
+import {
+    EthereumProvider,
+    HardhatRuntimeEnvironment,
+    HttpNetworkUserConfig,
+    JsonRpcRequest,
+    JsonRpcResponse,
+    RequestArguments
+} from "hardhat/types";
+import {HardhatPluginError} from "hardhat/plugins";
+
+type Env = Record<string, string | undefined>;
+type LiveNetwork = { chainId: number, envPrefix: string, infuraSubdomain: string };
+
+/**
+ * The networks that hold real funds.  Each can be pointed at a custom node with <PREFIX>_RPC_URL, and otherwise
+ * connects through Infura with INFURA_API_KEY.
+ */
+export const liveNetworks: Record<string, LiveNetwork> = {
+    "palm": {chainId: 11297108109, envPrefix: "PALM", infuraSubdomain: "palm-mainnet"},
+    "palm-testnet": {chainId: 11297108099, envPrefix: "PALM_TESTNET", infuraSubdomain: "palm-testnet"}
+};
+
+const pluginName = "palm-ecosystem-fund";
+const accountVariables = ["PRIVATE_KEY", "MNEMONIC", "KEYSTORE_FILE"];
+const privateKeyFormat = new RegExp(/^(0x)?[0-9a-fA-F]{64}$/);
+const gasPriceFormat = new RegExp(/^(\d+(\.\d+)?)\s*(wei|gwei)?$/i);
+
+/**
+ * Parses a gas price setting: "auto" to let the node decide, or a fixed amount in wei (the default unit) or gwei.
+ */
+export function parseGasPrice(value: string): "auto" | number {
+    if (value.trim().toLowerCase() === "auto") {
+        return "auto";
+    }
+    const match = gasPriceFormat.exec(value.trim());
+    if (!match) {
+        throw new Error(`expecting "auto", or an amount of wei or gwei such as "10 gwei"`);
+    }
+    const [, amount, , unit = "wei"] = match;
+    return ethers.utils.parseUnits(amount, unit.toLowerCase()).toNumber();
+}
+
+/**
+ * Builds the Hardhat config of a live network from environment variables.  This never throws, so that a missing or
+ * invalid variable only matters when the network is actually used; see validateNetworkEnv().
+ */
+export function liveNetworkConfig(name: string, env: Env = process.env): HttpNetworkUserConfig {
+    const {envPrefix, infuraSubdomain} = liveNetworks[name];
+    let gasPrice: "auto" | number = "auto";
+    try {
+        gasPrice = parseGasPrice(env[`${envPrefix}_GAS_PRICE`] ?? "auto");
+    } catch (e) {
+        // Reported by validateNetworkEnv()
+    }
+
+    // Hardhat rejects a malformed private key when loading the config, even for other networks
+    let accounts: HttpNetworkUserConfig["accounts"] = [];
+    if (env.PRIVATE_KEY && privateKeyFormat.test(env.PRIVATE_KEY)) {
+        accounts = [env.PRIVATE_KEY];
+    } else if (env.MNEMONIC && ethers.utils.isValidMnemonic(env.MNEMONIC)) {
+        accounts = {mnemonic: env.MNEMONIC, ...(env.MNEMONIC_PATH ? {path: env.MNEMONIC_PATH} : {})};
+    }
+
+    // The chain ID is checked by ChainIdCheckingProvider rather than Hardhat, which fails with an unhelpful "could
+    // not detect network" error from ethers
+    return {
+        url: env[`${envPrefix}_RPC_URL`] || `https://${infuraSubdomain}.infura.io/v3/${env.INFURA_API_KEY ?? ""}`,
+        accounts,
+        gasPrice
+    };
+}
+
+/**
+ * Lists everything wrong with the environment variables of a live network, naming each variable involved.
+ */
+export function validateNetworkEnv(name: string, env: Env = process.env): string[] {
+    const {envPrefix} = liveNetworks[name];
+    const problems: string[] = [];
+
+    const rpcUrl = env[`${envPrefix}_RPC_URL`];
+    if (rpcUrl) {
+        if (!/^https?:\/\/\S+$/.test(rpcUrl)) {
+            problems.push(`Invalid ${envPrefix}_RPC_URL: expecting an http(s) URL`);
+        }
+    } else if (!env.INFURA_API_KEY) {
+        problems.push(`Missing ${envPrefix}_RPC_URL or INFURA_API_KEY: set one of them to connect to ${name}`);
+    }
+
+    const gasPrice = env[`${envPrefix}_GAS_PRICE`];
+    if (gasPrice) {
+        try {
+            parseGasPrice(gasPrice);
+        } catch (e) {
+            problems.push(`Invalid ${envPrefix}_GAS_PRICE: ${(e as Error).message}`);
+        }
+    }
+
+    // No account source is fine, as tasks can be passed a --keystore instead
+    const accountSources = accountVariables.filter(variable => !!env[variable]);
+    if (accountSources.length > 1) {
+        problems.push(`Conflicting ${accountSources.join(", ")}: set only one of them`);
+    } else if (env.PRIVATE_KEY && !privateKeyFormat.test(env.PRIVATE_KEY)) {
+        problems.push("Invalid PRIVATE_KEY: expecting a 32 byte hex string");
+    } else if (env.MNEMONIC && !ethers.utils.isValidMnemonic(env.MNEMONIC)) {
+        problems.push("Invalid MNEMONIC: expecting a BIP-39 mnemonic phrase");
+    } else if (env.KEYSTORE_FILE) {
+        if (!fs.existsSync(env.KEYSTORE_FILE)) {
+            problems.push(`Invalid KEYSTORE_FILE: ${env.KEYSTORE_FILE} does not exist`);
+        }
+        if (env.KEYSTORE_PASSWORD === undefined) {
+            problems.push("Missing KEYSTORE_PASSWORD: set it to decrypt KEYSTORE_FILE");
+        }
+    }
+
+    return problems;
+}
+
+/**
+ * Makes sure the node we are connected to runs the chain we expect, before anything is read from or sent to it.
+ * Requests for the chain ID itself are let through, so that ethers can detect the network and report our error.
+ */
+export class ChainIdCheckingProvider extends EventEmitter implements EthereumProvider {
+    private verified = false;
+
+    constructor(private readonly provider: EthereumProvider, private readonly network: string, private readonly chainId: number) {
+        super();
+    }
+
+    async request(args: RequestArguments): Promise<unknown> {
+        if (!this.verified && args.method !== "eth_chainId" && args.method !== "net_version") {
+            const actualChainId = Number(await this.provider.request({method: "eth_chainId"}));
+            if (actualChainId !== this.chainId) {
+                const {envPrefix} = liveNetworks[this.network] ?? {envPrefix: this.network.toUpperCase()};
+                throw new HardhatPluginError(pluginName, `Network ${this.network} expects chain ID ${this.chainId}, but the node is on chain ${actualChainId}: check ${envPrefix}_RPC_URL`);
+            }
+            this.verified = true;
+        }
+        return this.provider.request(args);
+    }
+
+    send(method: string, params?: unknown[]): Promise<unknown> {
+        return this.request({method, params});
+    }
+
+    sendAsync(payload: JsonRpcRequest, callback: (error: unknown, response: JsonRpcResponse) => void) {
+        this.request(payload).then(
+            result => callback(null, {jsonrpc: "2.0", id: payload.id, result}),
+            (error: unknown) => {
+                const {code = -32603, message = String(error)} = typeof error === "object" && error !== null ? error as Partial<NonNullable<JsonRpcResponse["error"]>> : {};
+                callback(error, {jsonrpc: "2.0", id: payload.id, error: {code, message}});
+            }
+        );
+    }
+}
+
+/**
+ * Checks the environment when a live network is selected, and fails with every problem at once.  A keystore file is
+ * only decrypted here, as decrypting it is slow and must not happen when working against a local network.  The
+ * provider is only created on first use, so the accounts can still be filled in.
+ */
+export function configureLiveNetwork(hre: HardhatRuntimeEnvironment, env: Env = process.env) {
+    const {name, config} = hre.network;
+    if (!(name in liveNetworks)) {
+        return;
+    }
+    const problems = validateNetworkEnv(name, env);
+    if (problems.length > 0) {
+        throw new HardhatPluginError(pluginName, `Invalid configuration for network ${name}:\n${problems.map(problem => `\t${problem}`).join("\n")}`);
+    }
+    if (env.KEYSTORE_FILE && "url" in config) {
+        let wallet: ethers.Wallet;
+        try {
+            wallet = ethers.Wallet.fromEncryptedJsonSync(fs.readFileSync(env.KEYSTORE_FILE, "utf8"), env.KEYSTORE_PASSWORD as string);
+        } catch (e) {
+            throw new HardhatPluginError(pluginName, `Could not decrypt KEYSTORE_FILE ${env.KEYSTORE_FILE}: ${(e as Error).message}`);
+        }
+        config.accounts = [wallet.privateKey];
+    } else if (env.PRIVATE_KEY) {
+        console.warn(`Signing with the raw PRIVATE_KEY from the environment is discouraged on ${name}: pass --keystore, or set KEYSTORE_FILE instead`);
+    }
+    hre.network.provider = new ChainIdCheckingProvider(hre.network.provider, name, liveNetworks[name].chainId);
+}
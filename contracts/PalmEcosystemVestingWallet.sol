@@ -4,6 +4,7 @@ pragma solidity ^0.8.9;
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
 import "@openzeppelin/contracts/finance/VestingWallet.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
 
 // Import this file to use console.log
 //import "hardhat/console.sol";
@@ -11,24 +12,112 @@ import "@openzeppelin/contracts/finance/VestingWallet.sol";
 contract PalmEcosystemVestingWallet is Ownable, Pausable, VestingWallet {
     event BeneficiaryUpdated(address indexed previousBeneficiary, address indexed newBeneficiary);
     event DurationUpdated(uint64 previousDuration, uint64 newDuration);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event DurationRebased(uint64 previousDuration, uint64 newDuration, uint256 vestedFraction);
+    event MinDelayUpdated(uint64 previousDelay, uint64 newDelay);
+    event ChangeQueued(bytes32 indexed id, bytes data, uint256 readyTimestamp);
+    event ChangeExecuted(bytes32 indexed id, bytes data);
+    event ChangeCancelled(bytes32 indexed id);
+    event PauserUpdated(address indexed previousPauser, address indexed newPauser);
+    event SharesUpdated(address[] beneficiaries, uint256[] shares);
+    event EtherDistributed(address indexed beneficiary, uint256 amount);
+    event ERC20Distributed(address indexed token, address indexed beneficiary, uint256 amount);
 
-    address private currentBeneficiary;
+    uint256 private constant FRACTION_SCALE = 1e36;
+    uint256 private constant MAX_BENEFICIARIES = 20;
+
+    address[] private beneficiaryAccounts;
+    uint256[] private beneficiaryShares;
+    uint256 private sharesTotal;
     uint64 private currentDuration;
+    address private currentPendingOwner;
+    uint64 private immutable vestingCliff;
+    uint64 private immutable vestingUnlockInterval;
+    uint64 private lastRebaseTimestamp;
+    uint256 private lastRebaseFraction;
+    uint64 private currentMinDelay;
+    mapping(bytes32 => uint256) private queuedChanges;
+    address private currentPauser;
+    // VestingWallet keeps its release accounting private, so releases are tracked here instead
+    uint256 private etherReleased;
+    mapping(address => uint256) private erc20Released;
+    mapping(address => uint256) private etherReleasedTo;
+    mapping(address => mapping(address => uint256)) private erc20ReleasedTo;
 
-    constructor(address beneficiaryAddress, uint64 startTimestamp, uint64 durationSeconds) VestingWallet(beneficiaryAddress, startTimestamp, durationSeconds) {
-        currentBeneficiary = beneficiaryAddress;
+    // Pass the start as the cliff for no cliff, and an unlock interval of 0 to vest continuously
+    constructor(
+        address beneficiaryAddress,
+        uint64 startTimestamp,
+        uint64 durationSeconds,
+        uint64 cliffTimestamp,
+        uint64 unlockIntervalSeconds
+    ) VestingWallet(beneficiaryAddress, startTimestamp, durationSeconds) {
+        require(cliffTimestamp >= startTimestamp && cliffTimestamp <= startTimestamp + durationSeconds, "Cliff must be between start and end");
+        beneficiaryAccounts.push(beneficiaryAddress);
+        beneficiaryShares.push(1);
+        sharesTotal = 1;
         currentDuration = durationSeconds;
+        vestingCliff = cliffTimestamp;
+        vestingUnlockInterval = unlockIntervalSeconds;
+    }
+
+    // Once there is a minimum delay, the schedule can only be changed by queueing the change and executing it after the
+    // delay, when the contract calls itself.  Without one, the owner can still change it directly.
+    modifier onlyOwnerOrQueued() {
+        if (_msgSender() != address(this)) {
+            _checkOwner();
+            require(currentMinDelay == 0, "Change must be queued");
+        }
+        _;
     }
 
+    // Each release is split between the beneficiaries in proportion to their shares at the time.  A beneficiary that
+    // can't receive funds blocks releases until the owner replaces it.
     function release() public override whenNotPaused {
-        super.release();
+        uint256 amount = vestedAmount(uint64(block.timestamp)) - released();
+        etherReleased += amount;
+        emit EtherReleased(amount);
+        uint256[] memory amounts = _split(amount);
+        for (uint256 i = 0; i < amounts.length; i++) {
+            address account = beneficiaryAccounts[i];
+            etherReleasedTo[account] += amounts[i];
+            emit EtherDistributed(account, amounts[i]);
+            Address.sendValue(payable(account), amounts[i]);
+        }
     }
 
     function release(address token) public override whenNotPaused {
-        super.release(token);
+        uint256 amount = vestedAmount(token, uint64(block.timestamp)) - released(token);
+        erc20Released[token] += amount;
+        emit ERC20Released(token, amount);
+        uint256[] memory amounts = _split(amount);
+        for (uint256 i = 0; i < amounts.length; i++) {
+            address account = beneficiaryAccounts[i];
+            erc20ReleasedTo[token][account] += amounts[i];
+            emit ERC20Distributed(token, account, amounts[i]);
+            SafeERC20.safeTransfer(IERC20(token), account, amounts[i]);
+        }
+    }
+
+    function released() public view override returns (uint256) {
+        return etherReleased;
+    }
+
+    function released(address token) public view override returns (uint256) {
+        return erc20Released[token];
+    }
+
+    function releasedTo(address beneficiaryAddress) public view returns (uint256) {
+        return etherReleasedTo[beneficiaryAddress];
+    }
+
+    function releasedTo(address token, address beneficiaryAddress) public view returns (uint256) {
+        return erc20ReleasedTo[token][beneficiaryAddress];
     }
 
-    function pause() external onlyOwner {
+    // A guardian key can pause in an emergency without waiting on the owner, but only the owner can unpause
+    function pause() external {
+        require(owner() == _msgSender() || currentPauser == _msgSender(), "Caller is not the owner or pauser");
         _pause();
     }
 
@@ -36,26 +125,233 @@ contract PalmEcosystemVestingWallet is Ownable, Pausable, VestingWallet {
         _unpause();
     }
 
+    function pauser() public view returns (address) {
+        return currentPauser;
+    }
+
+    // Setting the pauser to the zero address revokes the role
+    function setPauser(address newPauser) external onlyOwner {
+        require(newPauser != currentPauser, "New pauser must differ from current pauser");
+        address prevPauser = currentPauser;
+        currentPauser = newPauser;
+        emit PauserUpdated(prevPauser, newPauser);
+    }
+
+    function pendingOwner() public view returns (address) {
+        return currentPendingOwner;
+    }
+
+    // Ownership only changes hands once the new owner accepts it, so it can't be lost to a mistyped address.  Starting
+    // a transfer to the zero address cancels a pending one.
+    function transferOwnership(address newOwner) public override onlyOwner {
+        currentPendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner(), newOwner);
+    }
+
+    function acceptOwnership() external {
+        require(currentPendingOwner == _msgSender(), "Ownable2Step: caller is not the new owner");
+        _transferOwnership(currentPendingOwner);
+    }
+
+    function _transferOwnership(address newOwner) internal override {
+        delete currentPendingOwner;
+        super._transferOwnership(newOwner);
+    }
+
+    // The first beneficiary, the only one unless shares have been set
     function beneficiary() public view override returns (address) {
-        return currentBeneficiary;
+        return beneficiaryAccounts[0];
     }
 
-    function setBeneficiary(address newBeneficiary) external onlyOwner whenPaused {
+    function beneficiaries() public view returns (address[] memory, uint256[] memory) {
+        return (beneficiaryAccounts, beneficiaryShares);
+    }
+
+    function totalShares() public view returns (uint256) {
+        return sharesTotal;
+    }
+
+    // Replaces all the beneficiaries with a single one
+    function setBeneficiary(address newBeneficiary) external onlyOwnerOrQueued whenPaused {
         require(newBeneficiary != address(0), "Beneficiary is zero address");
-        require(newBeneficiary != currentBeneficiary, "New beneficiary must differ from current beneficiary");
-        address prevBeneficiary = currentBeneficiary;
-        currentBeneficiary = newBeneficiary;
+        require(beneficiaryAccounts.length > 1 || newBeneficiary != beneficiaryAccounts[0], "New beneficiary must differ from current beneficiary");
+        address prevBeneficiary = beneficiaryAccounts[0];
+        delete beneficiaryAccounts;
+        delete beneficiaryShares;
+        beneficiaryAccounts.push(newBeneficiary);
+        beneficiaryShares.push(1);
+        sharesTotal = 1;
         emit BeneficiaryUpdated(prevBeneficiary, newBeneficiary);
     }
 
+    // Replaces the beneficiaries with a weighted set.  New shares only apply to later releases: what has already been
+    // released stays with whoever received it.
+    function setShares(address[] calldata accounts, uint256[] calldata shares) external onlyOwnerOrQueued whenPaused {
+        require(accounts.length > 0 && accounts.length == shares.length, "Every beneficiary needs a share");
+        require(accounts.length <= MAX_BENEFICIARIES, "Too many beneficiaries");
+        uint256 total = 0;
+        for (uint256 i = 0; i < accounts.length; i++) {
+            require(accounts[i] != address(0), "Beneficiary is zero address");
+            require(shares[i] > 0, "Shares must be greater than zero");
+            for (uint256 j = 0; j < i; j++) {
+                require(accounts[j] != accounts[i], "Duplicate beneficiary");
+            }
+            total += shares[i];
+        }
+        beneficiaryAccounts = accounts;
+        beneficiaryShares = shares;
+        sharesTotal = total;
+        emit SharesUpdated(accounts, shares);
+    }
+
     function duration() public view override returns (uint256) {
         return currentDuration;
     }
 
-    function setDuration(uint64 newDuration) external onlyOwner whenPaused {
+    function setDuration(uint64 newDuration) external onlyOwnerOrQueued whenPaused {
         require(newDuration != currentDuration, "New duration must differ from current duration");
+        require(start() + newDuration >= vestingCliff, "Vesting must not end before the cliff");
+        require(start() + newDuration > lastRebaseTimestamp, "Vesting must not end before the last rebase");
         uint64 prevDuration = currentDuration;
         currentDuration = newDuration;
         emit DurationUpdated(prevDuration, newDuration);
     }
+
+    // Unlike setDuration, which moves the end of the whole curve and so can make a lump vest at once or un-vest funds,
+    // this keeps the share vested so far and only vests the rest over the time left until the new end.
+    function rebaseDuration(uint64 newDuration) external onlyOwnerOrQueued whenPaused {
+        require(newDuration != currentDuration, "New duration must differ from current duration");
+        require(start() + newDuration >= vestingCliff, "Vesting must not end before the cliff");
+        require(start() + newDuration > block.timestamp, "Vesting must not end before the rebase");
+        uint256 vestedFraction = 0;
+        if (block.timestamp > start()) {
+            // Rounding up means the rebase never takes back anything already vested
+            (uint256 numerator, uint256 denominator) = _vestedShare(uint64(block.timestamp));
+            vestedFraction = Math.mulDiv(FRACTION_SCALE, numerator, denominator, Math.Rounding.Up);
+            lastRebaseTimestamp = uint64(block.timestamp);
+            lastRebaseFraction = vestedFraction;
+        }
+        uint64 prevDuration = currentDuration;
+        currentDuration = newDuration;
+        emit DurationRebased(prevDuration, newDuration, vestedFraction);
+    }
+
+    function minDelay() public view returns (uint256) {
+        return currentMinDelay;
+    }
+
+    // Once set, changing the delay is itself queued, so it can't be lowered to rush a change through
+    function setMinDelay(uint64 newDelay) external onlyOwnerOrQueued {
+        require(newDelay != currentMinDelay, "New delay must differ from current delay");
+        uint64 prevDelay = currentMinDelay;
+        currentMinDelay = newDelay;
+        emit MinDelayUpdated(prevDelay, newDelay);
+    }
+
+    // When a change with this id (the hash of its call data) can be executed, 0 if it is not queued
+    function queuedChange(bytes32 id) public view returns (uint256) {
+        return queuedChanges[id];
+    }
+
+    // Queues a call to setBeneficiary, setShares, setDuration, rebaseDuration or setMinDelay, to be executed once the minimum
+    // delay has passed.  The call is only checked when it is executed.
+    function queueChange(bytes calldata data) external onlyOwner returns (bytes32) {
+        require(data.length >= 4 && _isQueueable(bytes4(data[:4])), "Change cannot be queued");
+        bytes32 id = keccak256(data);
+        require(queuedChanges[id] == 0, "Change already queued");
+        uint256 readyTimestamp = block.timestamp + currentMinDelay;
+        queuedChanges[id] = readyTimestamp;
+        emit ChangeQueued(id, data, readyTimestamp);
+        return id;
+    }
+
+    function executeChange(bytes calldata data) external onlyOwner {
+        bytes32 id = keccak256(data);
+        uint256 readyTimestamp = queuedChanges[id];
+        require(readyTimestamp != 0, "Change not queued");
+        require(block.timestamp >= readyTimestamp, "Change not ready");
+        delete queuedChanges[id];
+        Address.functionCall(address(this), data);
+        emit ChangeExecuted(id, data);
+    }
+
+    function cancelChange(bytes32 id) external onlyOwner {
+        require(queuedChanges[id] != 0, "Change not queued");
+        delete queuedChanges[id];
+        emit ChangeCancelled(id);
+    }
+
+    function _isQueueable(bytes4 selector) private pure returns (bool) {
+        return selector == this.setBeneficiary.selector
+            || selector == this.setShares.selector
+            || selector == this.setDuration.selector
+            || selector == this.rebaseDuration.selector
+            || selector == this.setMinDelay.selector;
+    }
+
+    function cliff() public view returns (uint256) {
+        return vestingCliff;
+    }
+
+    function unlockInterval() public view returns (uint256) {
+        return vestingUnlockInterval;
+    }
+
+    function rebaseTimestamp() public view returns (uint256) {
+        return lastRebaseTimestamp;
+    }
+
+    // The share of the allocation vested at the last rebase, out of 1e36
+    function rebaseFraction() public view returns (uint256) {
+        return lastRebaseFraction;
+    }
+
+    // Nothing vests before the cliff, when everything vested since the start unlocks at once.  With an unlock interval,
+    // vesting is rounded down to the last whole interval since the start, so funds unlock in steps.  After a rebase the
+    // share vested at the rebase is kept, and the rest vests from the rebase to the end.  Before the rebase, the original
+    // curve is reported up to that share.
+    function _vestingSchedule(uint256 totalAllocation, uint64 timestamp) internal view override returns (uint256) {
+        (uint256 numerator, uint256 denominator) = _vestedShare(timestamp);
+        return Math.mulDiv(totalAllocation, numerator, denominator);
+    }
+
+    // mulDiv keeps the product of the amount and a share from overflowing, however large the shares are.  Rounding down
+    // leaves up to one wei per beneficiary undistributed, which goes to the first beneficiary
+    function _split(uint256 amount) private view returns (uint256[] memory amounts) {
+        amounts = new uint256[](beneficiaryShares.length);
+        uint256 distributed = 0;
+        for (uint256 i = 0; i < amounts.length; i++) {
+            amounts[i] = Math.mulDiv(amount, beneficiaryShares[i], sharesTotal);
+            distributed += amounts[i];
+        }
+        amounts[0] += amount - distributed;
+    }
+
+    function _vestedShare(uint64 timestamp) private view returns (uint256, uint256) {
+        if (timestamp < vestingCliff) {
+            return (0, 1);
+        }
+        uint256 end = start() + duration();
+        if (timestamp > end) {
+            return (1, 1);
+        }
+        uint256 unlocked = vestingUnlockInterval == 0 ? timestamp : timestamp - ((timestamp - start()) % vestingUnlockInterval);
+        if (lastRebaseTimestamp == 0) {
+            return (unlocked - start(), duration());
+        }
+        if (timestamp < lastRebaseTimestamp) {
+            if ((unlocked - start()) * FRACTION_SCALE < lastRebaseFraction * duration()) {
+                return (unlocked - start(), duration());
+            }
+            return (lastRebaseFraction, FRACTION_SCALE);
+        }
+        if (unlocked <= lastRebaseTimestamp) {
+            return (lastRebaseFraction, FRACTION_SCALE);
+        }
+        uint256 remaining = end - lastRebaseTimestamp;
+        return (
+            lastRebaseFraction * remaining + (FRACTION_SCALE - lastRebaseFraction) * (unlocked - lastRebaseTimestamp),
+            FRACTION_SCALE * remaining
+        );
+    }
 }
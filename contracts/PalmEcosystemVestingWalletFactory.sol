@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: ISC
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/utils/Create2.sol";
+import "./PalmEcosystemVestingWallet.sol";
+
+contract PalmEcosystemVestingWalletFactory {
+    event VestingWalletCreated(
+        address indexed wallet,
+        address indexed creator,
+        address indexed beneficiary,
+        uint64 startTimestamp,
+        uint64 durationSeconds,
+        uint64 cliffTimestamp,
+        uint64 unlockIntervalSeconds,
+        bytes32 salt
+    );
+
+    // The wallet's address only depends on its creator, its constructor arguments and the salt, so it can be handed out
+    // before the wallet is created.  The factory is the wallet's first owner, and hands it over to the creator, who must
+    // accept.  Hashing the creator into the salt stops anyone else from creating the wallet first and owning it.
+    function createVestingWallet(
+        address beneficiaryAddress,
+        uint64 startTimestamp,
+        uint64 durationSeconds,
+        uint64 cliffTimestamp,
+        uint64 unlockIntervalSeconds,
+        bytes32 salt
+    ) external returns (address) {
+        PalmEcosystemVestingWallet wallet = new PalmEcosystemVestingWallet{salt: _creatorSalt(msg.sender, salt)}(beneficiaryAddress, startTimestamp, durationSeconds, cliffTimestamp, unlockIntervalSeconds);
+        wallet.transferOwnership(msg.sender);
+        emit VestingWalletCreated(address(wallet), msg.sender, beneficiaryAddress, startTimestamp, durationSeconds, cliffTimestamp, unlockIntervalSeconds, salt);
+        return address(wallet);
+    }
+
+    function predictVestingWalletAddress(
+        address creator,
+        address beneficiaryAddress,
+        uint64 startTimestamp,
+        uint64 durationSeconds,
+        uint64 cliffTimestamp,
+        uint64 unlockIntervalSeconds,
+        bytes32 salt
+    ) external view returns (address) {
+        bytes memory initCode = abi.encodePacked(
+            type(PalmEcosystemVestingWallet).creationCode,
+            abi.encode(beneficiaryAddress, startTimestamp, durationSeconds, cliffTimestamp, unlockIntervalSeconds)
+        );
+        return Create2.computeAddress(_creatorSalt(creator, salt), keccak256(initCode));
+    }
+
+    function _creatorSalt(address creator, bytes32 salt) private pure returns (bytes32) {
+        return keccak256(abi.encode(creator, salt));
+    }
+}
@@ -1,21 +1,20 @@
 require('dotenv').config();
-import { HardhatUserConfig } from "hardhat/config";
+import { extendEnvironment, HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "./tasks"
+import { configureLiveNetwork, liveNetworkConfig } from "./config/networks";
+
+extendEnvironment(hre => configureLiveNetwork(hre));
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.9",
+  solidity: {
+    version: "0.8.9",
+    // The factory carries the wallet's creation code, which is too large for the contract size limit unoptimized
+    settings: {optimizer: {enabled: true, runs: 200}}
+  },
   networks: {
-    "palm": {
-      url: `https://palm-mainnet.infura.io/v3/${process.env.INFURA_API_KEY}`,
-      accounts: [process.env.PRIVATE_KEY as string],
-      gasPrice: 10000
-    },
-    "palm-testnet": {
-      url: `https://palm-testnet.infura.io/v3/${process.env.INFURA_API_KEY}`,
-      accounts: [process.env.PRIVATE_KEY as string],
-      gasPrice: 10000
-    }
+    "palm": liveNetworkConfig("palm"),
+    "palm-testnet": liveNetworkConfig("palm-testnet")
   }
 };
 
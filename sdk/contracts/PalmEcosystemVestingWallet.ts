@@ -0,0 +1,1419 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  ContractTransaction,
+  Overrides,
+  PopulatedTransaction,
+  Signer,
+  utils,
+} from "ethers";
+import type {
+  FunctionFragment,
+  Result,
+  EventFragment,
+} from "@ethersproject/abi";
+import type { Listener, Provider } from "@ethersproject/providers";
+import type {
+  TypedEventFilter,
+  TypedEvent,
+  TypedListener,
+  OnEvent,
+  PromiseOrValue,
+} from "./common";
+
+export interface PalmEcosystemVestingWalletInterface extends utils.Interface {
+  functions: {
+    "acceptOwnership()": FunctionFragment;
+    "beneficiaries()": FunctionFragment;
+    "beneficiary()": FunctionFragment;
+    "cancelChange(bytes32)": FunctionFragment;
+    "cliff()": FunctionFragment;
+    "duration()": FunctionFragment;
+    "executeChange(bytes)": FunctionFragment;
+    "minDelay()": FunctionFragment;
+    "owner()": FunctionFragment;
+    "pause()": FunctionFragment;
+    "paused()": FunctionFragment;
+    "pauser()": FunctionFragment;
+    "pendingOwner()": FunctionFragment;
+    "queueChange(bytes)": FunctionFragment;
+    "queuedChange(bytes32)": FunctionFragment;
+    "rebaseDuration(uint64)": FunctionFragment;
+    "rebaseFraction()": FunctionFragment;
+    "rebaseTimestamp()": FunctionFragment;
+    "release(address)": FunctionFragment;
+    "release()": FunctionFragment;
+    "released()": FunctionFragment;
+    "released(address)": FunctionFragment;
+    "releasedTo(address,address)": FunctionFragment;
+    "releasedTo(address)": FunctionFragment;
+    "renounceOwnership()": FunctionFragment;
+    "setBeneficiary(address)": FunctionFragment;
+    "setDuration(uint64)": FunctionFragment;
+    "setMinDelay(uint64)": FunctionFragment;
+    "setPauser(address)": FunctionFragment;
+    "setShares(address[],uint256[])": FunctionFragment;
+    "start()": FunctionFragment;
+    "totalShares()": FunctionFragment;
+    "transferOwnership(address)": FunctionFragment;
+    "unlockInterval()": FunctionFragment;
+    "unpause()": FunctionFragment;
+    "vestedAmount(uint64)": FunctionFragment;
+    "vestedAmount(address,uint64)": FunctionFragment;
+  };
+
+  getFunction(
+    nameOrSignatureOrTopic:
+      | "acceptOwnership"
+      | "beneficiaries"
+      | "beneficiary"
+      | "cancelChange"
+      | "cliff"
+      | "duration"
+      | "executeChange"
+      | "minDelay"
+      | "owner"
+      | "pause"
+      | "paused"
+      | "pauser"
+      | "pendingOwner"
+      | "queueChange"
+      | "queuedChange"
+      | "rebaseDuration"
+      | "rebaseFraction"
+      | "rebaseTimestamp"
+      | "release(address)"
+      | "release()"
+      | "released()"
+      | "released(address)"
+      | "releasedTo(address,address)"
+      | "releasedTo(address)"
+      | "renounceOwnership"
+      | "setBeneficiary"
+      | "setDuration"
+      | "setMinDelay"
+      | "setPauser"
+      | "setShares"
+      | "start"
+      | "totalShares"
+      | "transferOwnership"
+      | "unlockInterval"
+      | "unpause"
+      | "vestedAmount(uint64)"
+      | "vestedAmount(address,uint64)"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "beneficiaries",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "beneficiary",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelChange",
+    values: [PromiseOrValue<BytesLike>]
+  ): string;
+  encodeFunctionData(functionFragment: "cliff", values?: undefined): string;
+  encodeFunctionData(functionFragment: "duration", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "executeChange",
+    values: [PromiseOrValue<BytesLike>]
+  ): string;
+  encodeFunctionData(functionFragment: "minDelay", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pauser", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queueChange",
+    values: [PromiseOrValue<BytesLike>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queuedChange",
+    values: [PromiseOrValue<BytesLike>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rebaseDuration",
+    values: [PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rebaseFraction",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rebaseTimestamp",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "release(address)",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(functionFragment: "release()", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "released()",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "released(address)",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releasedTo(address,address)",
+    values: [PromiseOrValue<string>, PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releasedTo(address)",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setBeneficiary",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDuration",
+    values: [PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMinDelay",
+    values: [PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPauser",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setShares",
+    values: [PromiseOrValue<string>[], PromiseOrValue<BigNumberish>[]]
+  ): string;
+  encodeFunctionData(functionFragment: "start", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "totalShares",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unlockInterval",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "vestedAmount(uint64)",
+    values: [PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "vestedAmount(address,uint64)",
+    values: [PromiseOrValue<string>, PromiseOrValue<BigNumberish>]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "beneficiaries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "beneficiary",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "cliff", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "duration", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "executeChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "minDelay", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pauser", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "queueChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "queuedChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rebaseDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rebaseFraction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rebaseTimestamp",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "release(address)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "release()", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "released()", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "released(address)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "releasedTo(address,address)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "releasedTo(address)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setBeneficiary",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMinDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPauser", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "setShares", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "start", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "totalShares",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unlockInterval",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "vestedAmount(uint64)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "vestedAmount(address,uint64)",
+    data: BytesLike
+  ): Result;
+
+  events: {
+    "BeneficiaryUpdated(address,address)": EventFragment;
+    "ChangeCancelled(bytes32)": EventFragment;
+    "ChangeExecuted(bytes32,bytes)": EventFragment;
+    "ChangeQueued(bytes32,bytes,uint256)": EventFragment;
+    "DurationRebased(uint64,uint64,uint256)": EventFragment;
+    "DurationUpdated(uint64,uint64)": EventFragment;
+    "ERC20Distributed(address,address,uint256)": EventFragment;
+    "ERC20Released(address,uint256)": EventFragment;
+    "EtherDistributed(address,uint256)": EventFragment;
+    "EtherReleased(uint256)": EventFragment;
+    "MinDelayUpdated(uint64,uint64)": EventFragment;
+    "OwnershipTransferStarted(address,address)": EventFragment;
+    "OwnershipTransferred(address,address)": EventFragment;
+    "Paused(address)": EventFragment;
+    "PauserUpdated(address,address)": EventFragment;
+    "SharesUpdated(address[],uint256[])": EventFragment;
+    "Unpaused(address)": EventFragment;
+  };
+
+  getEvent(nameOrSignatureOrTopic: "BeneficiaryUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ChangeCancelled"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ChangeExecuted"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ChangeQueued"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "DurationRebased"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "DurationUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ERC20Distributed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ERC20Released"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "EtherDistributed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "EtherReleased"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "MinDelayUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "OwnershipTransferStarted"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "OwnershipTransferred"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Paused"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "PauserUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SharesUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Unpaused"): EventFragment;
+}
+
+export interface BeneficiaryUpdatedEventObject {
+  previousBeneficiary: string;
+  newBeneficiary: string;
+}
+export type BeneficiaryUpdatedEvent = TypedEvent<
+  [string, string],
+  BeneficiaryUpdatedEventObject
+>;
+
+export type BeneficiaryUpdatedEventFilter =
+  TypedEventFilter<BeneficiaryUpdatedEvent>;
+
+export interface ChangeCancelledEventObject {
+  id: string;
+}
+export type ChangeCancelledEvent = TypedEvent<
+  [string],
+  ChangeCancelledEventObject
+>;
+
+export type ChangeCancelledEventFilter = TypedEventFilter<ChangeCancelledEvent>;
+
+export interface ChangeExecutedEventObject {
+  id: string;
+  data: string;
+}
+export type ChangeExecutedEvent = TypedEvent<
+  [string, string],
+  ChangeExecutedEventObject
+>;
+
+export type ChangeExecutedEventFilter = TypedEventFilter<ChangeExecutedEvent>;
+
+export interface ChangeQueuedEventObject {
+  id: string;
+  data: string;
+  readyTimestamp: BigNumber;
+}
+export type ChangeQueuedEvent = TypedEvent<
+  [string, string, BigNumber],
+  ChangeQueuedEventObject
+>;
+
+export type ChangeQueuedEventFilter = TypedEventFilter<ChangeQueuedEvent>;
+
+export interface DurationRebasedEventObject {
+  previousDuration: BigNumber;
+  newDuration: BigNumber;
+  vestedFraction: BigNumber;
+}
+export type DurationRebasedEvent = TypedEvent<
+  [BigNumber, BigNumber, BigNumber],
+  DurationRebasedEventObject
+>;
+
+export type DurationRebasedEventFilter = TypedEventFilter<DurationRebasedEvent>;
+
+export interface DurationUpdatedEventObject {
+  previousDuration: BigNumber;
+  newDuration: BigNumber;
+}
+export type DurationUpdatedEvent = TypedEvent<
+  [BigNumber, BigNumber],
+  DurationUpdatedEventObject
+>;
+
+export type DurationUpdatedEventFilter = TypedEventFilter<DurationUpdatedEvent>;
+
+export interface ERC20DistributedEventObject {
+  token: string;
+  beneficiary: string;
+  amount: BigNumber;
+}
+export type ERC20DistributedEvent = TypedEvent<
+  [string, string, BigNumber],
+  ERC20DistributedEventObject
+>;
+
+export type ERC20DistributedEventFilter =
+  TypedEventFilter<ERC20DistributedEvent>;
+
+export interface ERC20ReleasedEventObject {
+  token: string;
+  amount: BigNumber;
+}
+export type ERC20ReleasedEvent = TypedEvent<
+  [string, BigNumber],
+  ERC20ReleasedEventObject
+>;
+
+export type ERC20ReleasedEventFilter = TypedEventFilter<ERC20ReleasedEvent>;
+
+export interface EtherDistributedEventObject {
+  beneficiary: string;
+  amount: BigNumber;
+}
+export type EtherDistributedEvent = TypedEvent<
+  [string, BigNumber],
+  EtherDistributedEventObject
+>;
+
+export type EtherDistributedEventFilter =
+  TypedEventFilter<EtherDistributedEvent>;
+
+export interface EtherReleasedEventObject {
+  amount: BigNumber;
+}
+export type EtherReleasedEvent = TypedEvent<
+  [BigNumber],
+  EtherReleasedEventObject
+>;
+
+export type EtherReleasedEventFilter = TypedEventFilter<EtherReleasedEvent>;
+
+export interface MinDelayUpdatedEventObject {
+  previousDelay: BigNumber;
+  newDelay: BigNumber;
+}
+export type MinDelayUpdatedEvent = TypedEvent<
+  [BigNumber, BigNumber],
+  MinDelayUpdatedEventObject
+>;
+
+export type MinDelayUpdatedEventFilter = TypedEventFilter<MinDelayUpdatedEvent>;
+
+export interface OwnershipTransferStartedEventObject {
+  previousOwner: string;
+  newOwner: string;
+}
+export type OwnershipTransferStartedEvent = TypedEvent<
+  [string, string],
+  OwnershipTransferStartedEventObject
+>;
+
+export type OwnershipTransferStartedEventFilter =
+  TypedEventFilter<OwnershipTransferStartedEvent>;
+
+export interface OwnershipTransferredEventObject {
+  previousOwner: string;
+  newOwner: string;
+}
+export type OwnershipTransferredEvent = TypedEvent<
+  [string, string],
+  OwnershipTransferredEventObject
+>;
+
+export type OwnershipTransferredEventFilter =
+  TypedEventFilter<OwnershipTransferredEvent>;
+
+export interface PausedEventObject {
+  account: string;
+}
+export type PausedEvent = TypedEvent<[string], PausedEventObject>;
+
+export type PausedEventFilter = TypedEventFilter<PausedEvent>;
+
+export interface PauserUpdatedEventObject {
+  previousPauser: string;
+  newPauser: string;
+}
+export type PauserUpdatedEvent = TypedEvent<
+  [string, string],
+  PauserUpdatedEventObject
+>;
+
+export type PauserUpdatedEventFilter = TypedEventFilter<PauserUpdatedEvent>;
+
+export interface SharesUpdatedEventObject {
+  beneficiaries: string[];
+  shares: BigNumber[];
+}
+export type SharesUpdatedEvent = TypedEvent<
+  [string[], BigNumber[]],
+  SharesUpdatedEventObject
+>;
+
+export type SharesUpdatedEventFilter = TypedEventFilter<SharesUpdatedEvent>;
+
+export interface UnpausedEventObject {
+  account: string;
+}
+export type UnpausedEvent = TypedEvent<[string], UnpausedEventObject>;
+
+export type UnpausedEventFilter = TypedEventFilter<UnpausedEvent>;
+
+export interface PalmEcosystemVestingWallet extends BaseContract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  interface: PalmEcosystemVestingWalletInterface;
+
+  queryFilter<TEvent extends TypedEvent>(
+    event: TypedEventFilter<TEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TEvent>>;
+
+  listeners<TEvent extends TypedEvent>(
+    eventFilter?: TypedEventFilter<TEvent>
+  ): Array<TypedListener<TEvent>>;
+  listeners(eventName?: string): Array<Listener>;
+  removeAllListeners<TEvent extends TypedEvent>(
+    eventFilter: TypedEventFilter<TEvent>
+  ): this;
+  removeAllListeners(eventName?: string): this;
+  off: OnEvent<this>;
+  on: OnEvent<this>;
+  once: OnEvent<this>;
+  removeListener: OnEvent<this>;
+
+  functions: {
+    acceptOwnership(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    beneficiaries(overrides?: CallOverrides): Promise<[string[], BigNumber[]]>;
+
+    beneficiary(overrides?: CallOverrides): Promise<[string]>;
+
+    cancelChange(
+      id: PromiseOrValue<BytesLike>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    cliff(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    duration(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    executeChange(
+      data: PromiseOrValue<BytesLike>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    minDelay(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    owner(overrides?: CallOverrides): Promise<[string]>;
+
+    pause(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    paused(overrides?: CallOverrides): Promise<[boolean]>;
+
+    pauser(overrides?: CallOverrides): Promise<[string]>;
+
+    pendingOwner(overrides?: CallOverrides): Promise<[string]>;
+
+    queueChange(
+      data: PromiseOrValue<BytesLike>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    queuedChange(
+      id: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    rebaseDuration(
+      newDuration: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    rebaseFraction(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    rebaseTimestamp(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    "release(address)"(
+      token: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    "release()"(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    "released()"(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    "released(address)"(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    "releasedTo(address,address)"(
+      token: PromiseOrValue<string>,
+      beneficiaryAddress: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    "releasedTo(address)"(
+      beneficiaryAddress: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    renounceOwnership(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    setBeneficiary(
+      newBeneficiary: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    setDuration(
+      newDuration: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    setMinDelay(
+      newDelay: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    setPauser(
+      newPauser: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    setShares(
+      accounts: PromiseOrValue<string>[],
+      shares: PromiseOrValue<BigNumberish>[],
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    start(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    totalShares(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    transferOwnership(
+      newOwner: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    unlockInterval(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    unpause(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    "vestedAmount(uint64)"(
+      timestamp: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    "vestedAmount(address,uint64)"(
+      token: PromiseOrValue<string>,
+      timestamp: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+  };
+
+  acceptOwnership(
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  beneficiaries(overrides?: CallOverrides): Promise<[string[], BigNumber[]]>;
+
+  beneficiary(overrides?: CallOverrides): Promise<string>;
+
+  cancelChange(
+    id: PromiseOrValue<BytesLike>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  cliff(overrides?: CallOverrides): Promise<BigNumber>;
+
+  duration(overrides?: CallOverrides): Promise<BigNumber>;
+
+  executeChange(
+    data: PromiseOrValue<BytesLike>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  minDelay(overrides?: CallOverrides): Promise<BigNumber>;
+
+  owner(overrides?: CallOverrides): Promise<string>;
+
+  pause(
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  paused(overrides?: CallOverrides): Promise<boolean>;
+
+  pauser(overrides?: CallOverrides): Promise<string>;
+
+  pendingOwner(overrides?: CallOverrides): Promise<string>;
+
+  queueChange(
+    data: PromiseOrValue<BytesLike>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  queuedChange(
+    id: PromiseOrValue<BytesLike>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  rebaseDuration(
+    newDuration: PromiseOrValue<BigNumberish>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  rebaseFraction(overrides?: CallOverrides): Promise<BigNumber>;
+
+  rebaseTimestamp(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "release(address)"(
+    token: PromiseOrValue<string>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  "release()"(
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  "released()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "released(address)"(
+    token: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "releasedTo(address,address)"(
+    token: PromiseOrValue<string>,
+    beneficiaryAddress: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "releasedTo(address)"(
+    beneficiaryAddress: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  renounceOwnership(
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  setBeneficiary(
+    newBeneficiary: PromiseOrValue<string>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  setDuration(
+    newDuration: PromiseOrValue<BigNumberish>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  setMinDelay(
+    newDelay: PromiseOrValue<BigNumberish>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  setPauser(
+    newPauser: PromiseOrValue<string>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  setShares(
+    accounts: PromiseOrValue<string>[],
+    shares: PromiseOrValue<BigNumberish>[],
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  start(overrides?: CallOverrides): Promise<BigNumber>;
+
+  totalShares(overrides?: CallOverrides): Promise<BigNumber>;
+
+  transferOwnership(
+    newOwner: PromiseOrValue<string>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  unlockInterval(overrides?: CallOverrides): Promise<BigNumber>;
+
+  unpause(
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  "vestedAmount(uint64)"(
+    timestamp: PromiseOrValue<BigNumberish>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "vestedAmount(address,uint64)"(
+    token: PromiseOrValue<string>,
+    timestamp: PromiseOrValue<BigNumberish>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  callStatic: {
+    acceptOwnership(overrides?: CallOverrides): Promise<void>;
+
+    beneficiaries(overrides?: CallOverrides): Promise<[string[], BigNumber[]]>;
+
+    beneficiary(overrides?: CallOverrides): Promise<string>;
+
+    cancelChange(
+      id: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    cliff(overrides?: CallOverrides): Promise<BigNumber>;
+
+    duration(overrides?: CallOverrides): Promise<BigNumber>;
+
+    executeChange(
+      data: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    minDelay(overrides?: CallOverrides): Promise<BigNumber>;
+
+    owner(overrides?: CallOverrides): Promise<string>;
+
+    pause(overrides?: CallOverrides): Promise<void>;
+
+    paused(overrides?: CallOverrides): Promise<boolean>;
+
+    pauser(overrides?: CallOverrides): Promise<string>;
+
+    pendingOwner(overrides?: CallOverrides): Promise<string>;
+
+    queueChange(
+      data: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    queuedChange(
+      id: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    rebaseDuration(
+      newDuration: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    rebaseFraction(overrides?: CallOverrides): Promise<BigNumber>;
+
+    rebaseTimestamp(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "release(address)"(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "release()"(overrides?: CallOverrides): Promise<void>;
+
+    "released()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "released(address)"(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "releasedTo(address,address)"(
+      token: PromiseOrValue<string>,
+      beneficiaryAddress: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "releasedTo(address)"(
+      beneficiaryAddress: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    renounceOwnership(overrides?: CallOverrides): Promise<void>;
+
+    setBeneficiary(
+      newBeneficiary: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setDuration(
+      newDuration: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setMinDelay(
+      newDelay: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setPauser(
+      newPauser: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setShares(
+      accounts: PromiseOrValue<string>[],
+      shares: PromiseOrValue<BigNumberish>[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    start(overrides?: CallOverrides): Promise<BigNumber>;
+
+    totalShares(overrides?: CallOverrides): Promise<BigNumber>;
+
+    transferOwnership(
+      newOwner: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    unlockInterval(overrides?: CallOverrides): Promise<BigNumber>;
+
+    unpause(overrides?: CallOverrides): Promise<void>;
+
+    "vestedAmount(uint64)"(
+      timestamp: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "vestedAmount(address,uint64)"(
+      token: PromiseOrValue<string>,
+      timestamp: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+  };
+
+  filters: {
+    "BeneficiaryUpdated(address,address)"(
+      previousBeneficiary?: PromiseOrValue<string> | null,
+      newBeneficiary?: PromiseOrValue<string> | null
+    ): BeneficiaryUpdatedEventFilter;
+    BeneficiaryUpdated(
+      previousBeneficiary?: PromiseOrValue<string> | null,
+      newBeneficiary?: PromiseOrValue<string> | null
+    ): BeneficiaryUpdatedEventFilter;
+
+    "ChangeCancelled(bytes32)"(
+      id?: PromiseOrValue<BytesLike> | null
+    ): ChangeCancelledEventFilter;
+    ChangeCancelled(
+      id?: PromiseOrValue<BytesLike> | null
+    ): ChangeCancelledEventFilter;
+
+    "ChangeExecuted(bytes32,bytes)"(
+      id?: PromiseOrValue<BytesLike> | null,
+      data?: null
+    ): ChangeExecutedEventFilter;
+    ChangeExecuted(
+      id?: PromiseOrValue<BytesLike> | null,
+      data?: null
+    ): ChangeExecutedEventFilter;
+
+    "ChangeQueued(bytes32,bytes,uint256)"(
+      id?: PromiseOrValue<BytesLike> | null,
+      data?: null,
+      readyTimestamp?: null
+    ): ChangeQueuedEventFilter;
+    ChangeQueued(
+      id?: PromiseOrValue<BytesLike> | null,
+      data?: null,
+      readyTimestamp?: null
+    ): ChangeQueuedEventFilter;
+
+    "DurationRebased(uint64,uint64,uint256)"(
+      previousDuration?: null,
+      newDuration?: null,
+      vestedFraction?: null
+    ): DurationRebasedEventFilter;
+    DurationRebased(
+      previousDuration?: null,
+      newDuration?: null,
+      vestedFraction?: null
+    ): DurationRebasedEventFilter;
+
+    "DurationUpdated(uint64,uint64)"(
+      previousDuration?: null,
+      newDuration?: null
+    ): DurationUpdatedEventFilter;
+    DurationUpdated(
+      previousDuration?: null,
+      newDuration?: null
+    ): DurationUpdatedEventFilter;
+
+    "ERC20Distributed(address,address,uint256)"(
+      token?: PromiseOrValue<string> | null,
+      beneficiary?: PromiseOrValue<string> | null,
+      amount?: null
+    ): ERC20DistributedEventFilter;
+    ERC20Distributed(
+      token?: PromiseOrValue<string> | null,
+      beneficiary?: PromiseOrValue<string> | null,
+      amount?: null
+    ): ERC20DistributedEventFilter;
+
+    "ERC20Released(address,uint256)"(
+      token?: PromiseOrValue<string> | null,
+      amount?: null
+    ): ERC20ReleasedEventFilter;
+    ERC20Released(
+      token?: PromiseOrValue<string> | null,
+      amount?: null
+    ): ERC20ReleasedEventFilter;
+
+    "EtherDistributed(address,uint256)"(
+      beneficiary?: PromiseOrValue<string> | null,
+      amount?: null
+    ): EtherDistributedEventFilter;
+    EtherDistributed(
+      beneficiary?: PromiseOrValue<string> | null,
+      amount?: null
+    ): EtherDistributedEventFilter;
+
+    "EtherReleased(uint256)"(amount?: null): EtherReleasedEventFilter;
+    EtherReleased(amount?: null): EtherReleasedEventFilter;
+
+    "MinDelayUpdated(uint64,uint64)"(
+      previousDelay?: null,
+      newDelay?: null
+    ): MinDelayUpdatedEventFilter;
+    MinDelayUpdated(
+      previousDelay?: null,
+      newDelay?: null
+    ): MinDelayUpdatedEventFilter;
+
+    "OwnershipTransferStarted(address,address)"(
+      previousOwner?: PromiseOrValue<string> | null,
+      newOwner?: PromiseOrValue<string> | null
+    ): OwnershipTransferStartedEventFilter;
+    OwnershipTransferStarted(
+      previousOwner?: PromiseOrValue<string> | null,
+      newOwner?: PromiseOrValue<string> | null
+    ): OwnershipTransferStartedEventFilter;
+
+    "OwnershipTransferred(address,address)"(
+      previousOwner?: PromiseOrValue<string> | null,
+      newOwner?: PromiseOrValue<string> | null
+    ): OwnershipTransferredEventFilter;
+    OwnershipTransferred(
+      previousOwner?: PromiseOrValue<string> | null,
+      newOwner?: PromiseOrValue<string> | null
+    ): OwnershipTransferredEventFilter;
+
+    "Paused(address)"(account?: null): PausedEventFilter;
+    Paused(account?: null): PausedEventFilter;
+
+    "PauserUpdated(address,address)"(
+      previousPauser?: PromiseOrValue<string> | null,
+      newPauser?: PromiseOrValue<string> | null
+    ): PauserUpdatedEventFilter;
+    PauserUpdated(
+      previousPauser?: PromiseOrValue<string> | null,
+      newPauser?: PromiseOrValue<string> | null
+    ): PauserUpdatedEventFilter;
+
+    "SharesUpdated(address[],uint256[])"(
+      beneficiaries?: null,
+      shares?: null
+    ): SharesUpdatedEventFilter;
+    SharesUpdated(
+      beneficiaries?: null,
+      shares?: null
+    ): SharesUpdatedEventFilter;
+
+    "Unpaused(address)"(account?: null): UnpausedEventFilter;
+    Unpaused(account?: null): UnpausedEventFilter;
+  };
+
+  estimateGas: {
+    acceptOwnership(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    beneficiaries(overrides?: CallOverrides): Promise<BigNumber>;
+
+    beneficiary(overrides?: CallOverrides): Promise<BigNumber>;
+
+    cancelChange(
+      id: PromiseOrValue<BytesLike>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    cliff(overrides?: CallOverrides): Promise<BigNumber>;
+
+    duration(overrides?: CallOverrides): Promise<BigNumber>;
+
+    executeChange(
+      data: PromiseOrValue<BytesLike>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    minDelay(overrides?: CallOverrides): Promise<BigNumber>;
+
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+
+    pause(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    paused(overrides?: CallOverrides): Promise<BigNumber>;
+
+    pauser(overrides?: CallOverrides): Promise<BigNumber>;
+
+    pendingOwner(overrides?: CallOverrides): Promise<BigNumber>;
+
+    queueChange(
+      data: PromiseOrValue<BytesLike>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    queuedChange(
+      id: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    rebaseDuration(
+      newDuration: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    rebaseFraction(overrides?: CallOverrides): Promise<BigNumber>;
+
+    rebaseTimestamp(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "release(address)"(
+      token: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    "release()"(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    "released()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "released(address)"(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "releasedTo(address,address)"(
+      token: PromiseOrValue<string>,
+      beneficiaryAddress: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "releasedTo(address)"(
+      beneficiaryAddress: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    renounceOwnership(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    setBeneficiary(
+      newBeneficiary: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    setDuration(
+      newDuration: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    setMinDelay(
+      newDelay: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    setPauser(
+      newPauser: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    setShares(
+      accounts: PromiseOrValue<string>[],
+      shares: PromiseOrValue<BigNumberish>[],
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    start(overrides?: CallOverrides): Promise<BigNumber>;
+
+    totalShares(overrides?: CallOverrides): Promise<BigNumber>;
+
+    transferOwnership(
+      newOwner: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    unlockInterval(overrides?: CallOverrides): Promise<BigNumber>;
+
+    unpause(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    "vestedAmount(uint64)"(
+      timestamp: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "vestedAmount(address,uint64)"(
+      token: PromiseOrValue<string>,
+      timestamp: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    acceptOwnership(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    beneficiaries(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    beneficiary(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    cancelChange(
+      id: PromiseOrValue<BytesLike>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    cliff(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    duration(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    executeChange(
+      data: PromiseOrValue<BytesLike>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    minDelay(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    pause(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    paused(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    pauser(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    pendingOwner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    queueChange(
+      data: PromiseOrValue<BytesLike>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    queuedChange(
+      id: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    rebaseDuration(
+      newDuration: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    rebaseFraction(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    rebaseTimestamp(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "release(address)"(
+      token: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    "release()"(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    "released()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "released(address)"(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "releasedTo(address,address)"(
+      token: PromiseOrValue<string>,
+      beneficiaryAddress: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "releasedTo(address)"(
+      beneficiaryAddress: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    renounceOwnership(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    setBeneficiary(
+      newBeneficiary: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    setDuration(
+      newDuration: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    setMinDelay(
+      newDelay: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    setPauser(
+      newPauser: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    setShares(
+      accounts: PromiseOrValue<string>[],
+      shares: PromiseOrValue<BigNumberish>[],
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    start(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    totalShares(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    transferOwnership(
+      newOwner: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    unlockInterval(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    unpause(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    "vestedAmount(uint64)"(
+      timestamp: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "vestedAmount(address,uint64)"(
+      token: PromiseOrValue<string>,
+      timestamp: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+  };
+}
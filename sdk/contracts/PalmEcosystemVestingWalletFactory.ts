@@ -0,0 +1,262 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  ContractTransaction,
+  Overrides,
+  PopulatedTransaction,
+  Signer,
+  utils,
+} from "ethers";
+import type {
+  FunctionFragment,
+  Result,
+  EventFragment,
+} from "@ethersproject/abi";
+import type { Listener, Provider } from "@ethersproject/providers";
+import type {
+  TypedEventFilter,
+  TypedEvent,
+  TypedListener,
+  OnEvent,
+  PromiseOrValue,
+} from "./common";
+
+export interface PalmEcosystemVestingWalletFactoryInterface
+  extends utils.Interface {
+  functions: {
+    "createVestingWallet(address,uint64,uint64,uint64,uint64,bytes32)": FunctionFragment;
+    "predictVestingWalletAddress(address,address,uint64,uint64,uint64,uint64,bytes32)": FunctionFragment;
+  };
+
+  getFunction(
+    nameOrSignatureOrTopic:
+      | "createVestingWallet"
+      | "predictVestingWalletAddress"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "createVestingWallet",
+    values: [
+      PromiseOrValue<string>,
+      PromiseOrValue<BigNumberish>,
+      PromiseOrValue<BigNumberish>,
+      PromiseOrValue<BigNumberish>,
+      PromiseOrValue<BigNumberish>,
+      PromiseOrValue<BytesLike>
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "predictVestingWalletAddress",
+    values: [
+      PromiseOrValue<string>,
+      PromiseOrValue<string>,
+      PromiseOrValue<BigNumberish>,
+      PromiseOrValue<BigNumberish>,
+      PromiseOrValue<BigNumberish>,
+      PromiseOrValue<BigNumberish>,
+      PromiseOrValue<BytesLike>
+    ]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "createVestingWallet",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "predictVestingWalletAddress",
+    data: BytesLike
+  ): Result;
+
+  events: {
+    "VestingWalletCreated(address,address,address,uint64,uint64,uint64,uint64,bytes32)": EventFragment;
+  };
+
+  getEvent(nameOrSignatureOrTopic: "VestingWalletCreated"): EventFragment;
+}
+
+export interface VestingWalletCreatedEventObject {
+  wallet: string;
+  creator: string;
+  beneficiary: string;
+  startTimestamp: BigNumber;
+  durationSeconds: BigNumber;
+  cliffTimestamp: BigNumber;
+  unlockIntervalSeconds: BigNumber;
+  salt: string;
+}
+export type VestingWalletCreatedEvent = TypedEvent<
+  [string, string, string, BigNumber, BigNumber, BigNumber, BigNumber, string],
+  VestingWalletCreatedEventObject
+>;
+
+export type VestingWalletCreatedEventFilter =
+  TypedEventFilter<VestingWalletCreatedEvent>;
+
+export interface PalmEcosystemVestingWalletFactory extends BaseContract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  interface: PalmEcosystemVestingWalletFactoryInterface;
+
+  queryFilter<TEvent extends TypedEvent>(
+    event: TypedEventFilter<TEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TEvent>>;
+
+  listeners<TEvent extends TypedEvent>(
+    eventFilter?: TypedEventFilter<TEvent>
+  ): Array<TypedListener<TEvent>>;
+  listeners(eventName?: string): Array<Listener>;
+  removeAllListeners<TEvent extends TypedEvent>(
+    eventFilter: TypedEventFilter<TEvent>
+  ): this;
+  removeAllListeners(eventName?: string): this;
+  off: OnEvent<this>;
+  on: OnEvent<this>;
+  once: OnEvent<this>;
+  removeListener: OnEvent<this>;
+
+  functions: {
+    createVestingWallet(
+      beneficiaryAddress: PromiseOrValue<string>,
+      startTimestamp: PromiseOrValue<BigNumberish>,
+      durationSeconds: PromiseOrValue<BigNumberish>,
+      cliffTimestamp: PromiseOrValue<BigNumberish>,
+      unlockIntervalSeconds: PromiseOrValue<BigNumberish>,
+      salt: PromiseOrValue<BytesLike>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    predictVestingWalletAddress(
+      creator: PromiseOrValue<string>,
+      beneficiaryAddress: PromiseOrValue<string>,
+      startTimestamp: PromiseOrValue<BigNumberish>,
+      durationSeconds: PromiseOrValue<BigNumberish>,
+      cliffTimestamp: PromiseOrValue<BigNumberish>,
+      unlockIntervalSeconds: PromiseOrValue<BigNumberish>,
+      salt: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<[string]>;
+  };
+
+  createVestingWallet(
+    beneficiaryAddress: PromiseOrValue<string>,
+    startTimestamp: PromiseOrValue<BigNumberish>,
+    durationSeconds: PromiseOrValue<BigNumberish>,
+    cliffTimestamp: PromiseOrValue<BigNumberish>,
+    unlockIntervalSeconds: PromiseOrValue<BigNumberish>,
+    salt: PromiseOrValue<BytesLike>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  predictVestingWalletAddress(
+    creator: PromiseOrValue<string>,
+    beneficiaryAddress: PromiseOrValue<string>,
+    startTimestamp: PromiseOrValue<BigNumberish>,
+    durationSeconds: PromiseOrValue<BigNumberish>,
+    cliffTimestamp: PromiseOrValue<BigNumberish>,
+    unlockIntervalSeconds: PromiseOrValue<BigNumberish>,
+    salt: PromiseOrValue<BytesLike>,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  callStatic: {
+    createVestingWallet(
+      beneficiaryAddress: PromiseOrValue<string>,
+      startTimestamp: PromiseOrValue<BigNumberish>,
+      durationSeconds: PromiseOrValue<BigNumberish>,
+      cliffTimestamp: PromiseOrValue<BigNumberish>,
+      unlockIntervalSeconds: PromiseOrValue<BigNumberish>,
+      salt: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    predictVestingWalletAddress(
+      creator: PromiseOrValue<string>,
+      beneficiaryAddress: PromiseOrValue<string>,
+      startTimestamp: PromiseOrValue<BigNumberish>,
+      durationSeconds: PromiseOrValue<BigNumberish>,
+      cliffTimestamp: PromiseOrValue<BigNumberish>,
+      unlockIntervalSeconds: PromiseOrValue<BigNumberish>,
+      salt: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<string>;
+  };
+
+  filters: {
+    "VestingWalletCreated(address,address,address,uint64,uint64,uint64,uint64,bytes32)"(
+      wallet?: PromiseOrValue<string> | null,
+      creator?: PromiseOrValue<string> | null,
+      beneficiary?: PromiseOrValue<string> | null,
+      startTimestamp?: null,
+      durationSeconds?: null,
+      cliffTimestamp?: null,
+      unlockIntervalSeconds?: null,
+      salt?: null
+    ): VestingWalletCreatedEventFilter;
+    VestingWalletCreated(
+      wallet?: PromiseOrValue<string> | null,
+      creator?: PromiseOrValue<string> | null,
+      beneficiary?: PromiseOrValue<string> | null,
+      startTimestamp?: null,
+      durationSeconds?: null,
+      cliffTimestamp?: null,
+      unlockIntervalSeconds?: null,
+      salt?: null
+    ): VestingWalletCreatedEventFilter;
+  };
+
+  estimateGas: {
+    createVestingWallet(
+      beneficiaryAddress: PromiseOrValue<string>,
+      startTimestamp: PromiseOrValue<BigNumberish>,
+      durationSeconds: PromiseOrValue<BigNumberish>,
+      cliffTimestamp: PromiseOrValue<BigNumberish>,
+      unlockIntervalSeconds: PromiseOrValue<BigNumberish>,
+      salt: PromiseOrValue<BytesLike>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    predictVestingWalletAddress(
+      creator: PromiseOrValue<string>,
+      beneficiaryAddress: PromiseOrValue<string>,
+      startTimestamp: PromiseOrValue<BigNumberish>,
+      durationSeconds: PromiseOrValue<BigNumberish>,
+      cliffTimestamp: PromiseOrValue<BigNumberish>,
+      unlockIntervalSeconds: PromiseOrValue<BigNumberish>,
+      salt: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    createVestingWallet(
+      beneficiaryAddress: PromiseOrValue<string>,
+      startTimestamp: PromiseOrValue<BigNumberish>,
+      durationSeconds: PromiseOrValue<BigNumberish>,
+      cliffTimestamp: PromiseOrValue<BigNumberish>,
+      unlockIntervalSeconds: PromiseOrValue<BigNumberish>,
+      salt: PromiseOrValue<BytesLike>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    predictVestingWalletAddress(
+      creator: PromiseOrValue<string>,
+      beneficiaryAddress: PromiseOrValue<string>,
+      startTimestamp: PromiseOrValue<BigNumberish>,
+      durationSeconds: PromiseOrValue<BigNumberish>,
+      cliffTimestamp: PromiseOrValue<BigNumberish>,
+      unlockIntervalSeconds: PromiseOrValue<BigNumberish>,
+      salt: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+  };
+}
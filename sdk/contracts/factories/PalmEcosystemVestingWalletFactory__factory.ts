@@ -0,0 +1,219 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import { Signer, utils, Contract, ContractFactory, Overrides } from "ethers";
+import type { Provider, TransactionRequest } from "@ethersproject/providers";
+import type { PromiseOrValue } from "../common";
+import type {
+  PalmEcosystemVestingWalletFactory,
+  PalmEcosystemVestingWalletFactoryInterface,
+} from "../PalmEcosystemVestingWalletFactory";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "wallet",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "beneficiary",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "startTimestamp",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "durationSeconds",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "cliffTimestamp",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "unlockIntervalSeconds",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+    ],
+    name: "VestingWalletCreated",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "beneficiaryAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "startTimestamp",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "durationSeconds",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "cliffTimestamp",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "unlockIntervalSeconds",
+        type: "uint64",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+    ],
+    name: "createVestingWallet",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "beneficiaryAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "startTimestamp",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "durationSeconds",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "cliffTimestamp",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "unlockIntervalSeconds",
+        type: "uint64",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+    ],
+    name: "predictVestingWalletAddress",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+];
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b506137f4806100206000396000f3fe608060405234801561001057600080fd5b50600436106100365760003560e01c80636cc775481461003b5780639b5399761461006a575b600080fd5b61004e610049366004610301565b61007d565b6040516001600160a01b03909116815260200160405180910390f35b61004e610078366004610380565b610161565b60008060405180602001610090906102bf565b601f1982820381018352601f9091011660408190526100bb908a908a908a908a908a906020016103ed565b60408051601f19818403018152908290526100d99291602001610462565b60405160208183030381529060405290506101546100f78a85610282565b82516020840120604080516001600160f81b03196020808301919091523060601b6bffffffffffffffffffffffff191660218301526035820194909452605580820193909352815180820390930183526075019052805191012090565b9998505050505050505050565b60008061016e3384610282565b888888888860405161017f906102bf565b61018d9594939291906103ed565b8190604051809103906000f59050801580156101ad573d6000803e3d6000fd5b5060405163f2fde38b60e01b81523360048201529091506001600160a01b0382169063f2fde38b90602401600060405180830381600087803b1580156101f257600080fd5b505af1158015610206573d6000803e3d6000fd5b50506040805167ffffffffffffffff8b811682528a8116602083015289811682840152881660608201526080810187905290516001600160a01b038c811694503393508516917fc09e8efe0ba052523cf8b3c6e68bbc0af61e8f9a24e2d57474f4cad118b8757b919081900360a00190a4979650505050505050565b604080516001600160a01b038416602082015290810182905260009060600160405160208183030381529060405280519060200120905092915050565b61333f806200048083390190565b80356001600160a01b03811681146102e457600080fd5b919050565b803567ffffffffffffffff811681146102e457600080fd5b600080600080600080600060e0888a03121561031c57600080fd5b610325886102cd565b9650610333602089016102cd565b9550610341604089016102e9565b945061034f606089016102e9565b935061035d608089016102e9565b925061036b60a089016102e9565b915060c0880135905092959891949750929550565b60008060008060008060c0878903121561039957600080fd5b6103a2876102cd565b95506103b0602088016102e9565b94506103be604088016102e9565b93506103cc606088016102e9565b92506103da608088016102e9565b915060a087013590509295509295509295565b6001600160a01b0395909516855267ffffffffffffffff938416602086015291831660408501528216606084015216608082015260a00190565b6000815160005b81811015610448576020818501810151868301520161042e565b81811115610457576000828601525b509290920192915050565b60006104776104718386610427565b84610427565b94935050505056fe6101206040523480156200001257600080fd5b506040516200333f3803806200333f8339810160408190526200003591620002bd565b848484620000433362000223565b6000805460ff60a01b191690556001600160a01b038316620000bf5760405162461bcd60e51b815260206004820152602a60248201527f56657374696e6757616c6c65743a2062656e6566696369617279206973207a65604482015269726f206164647265737360b01b60648201526084015b60405180910390fd5b6001600160a01b039092166080526001600160401b0390811660a05290811660c05284811690831610801590620001135750620000fd83856200033a565b6001600160401b0316826001600160401b031611155b6200016d5760405162461bcd60e51b815260206004820152602360248201527f436c696666206d757374206265206265747765656e20737461727420616e6420604482015262195b9960ea1b6064820152608401620000b6565b6003805460018082019092557fc2575a0e9e593c00f959f8c92f12db2869c3395a3b0502d05e2516446f71f85b0180546001600160a01b0319166001600160a01b0397909716969096179095556004805480870182556000919091527f8a35acfbc15ff81a39ae7d344fd709f28e8600b4aa8c65c6b64bfe7fe36bd19b01859055600594909455600680546001600160401b0319166001600160401b03938416179055811660e052909116610100525062000374565b60068054600160401b600160e01b03191690556200024d8162000250602090811b62001c9a17901c565b50565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b80516001600160401b0381168114620002b857600080fd5b919050565b600080600080600060a08688031215620002d657600080fd5b85516001600160a01b0381168114620002ee57600080fd5b9450620002fe60208701620002a0565b93506200030e60408701620002a0565b92506200031e60608701620002a0565b91506200032e60808701620002a0565b90509295509295909350565b60006001600160401b038281168482168083038211156200036b57634e487b7160e01b600052601160045260246000fd5b01949350505050565b60805160a05160c05160e05161010051612f69620003d6600039600081816104120152818161229f01526122c601526000818161032401528181610dad015281816117b8015261220a01526000505060006116c1015260005050612f696000f3fe60806040526004361061021e5760003560e01c8063715018a61161012357806396132521116100ab578063c63c4e9b1161006f578063c63c4e9b14610685578063e30c3978146106a3578063f2fde38b146106c8578063f8f1ef77146106e8578063fd636b261461070857600080fd5b806396132521146105f25780639852595c146106075780639fd0506d1461063d578063ab87ab531461065b578063be9a65551461067057600080fd5b806381a0a4aa116100f257806381a0a4aa1461056a5780638456cb591461058a57806386d1a69f1461059f5780638b4a9202146105b45780638da5cb5b146105d457600080fd5b8063715018a61461050057806379ba5097146105155780637d7b16591461052a578063810ec23b1461054a57600080fd5b806328bb7414116101a65780633a98ef39116101755780633a98ef391461046c5780633f4ba83a146104815780634b852c03146104965780635449b798146104b65780635c975abb146104d657600080fd5b806328bb7414146103b65780632d88af4a146103e3578063343054cd1461040357806338af3eed1461043f57600080fd5b806312e72374116101ed57806312e72374146102df57806313d033c01461031557806319165587146103515780631c31f710146103735780631d29bd5a1461039357600080fd5b8063075a3b571461022a57806308a3809d146102835780630a17b06b146102a15780630fb5a6b4146102c157600080fd5b3661022557005b600080fd5b34801561023657600080fd5b50610270610245366004612907565b6001600160a01b039182166000908152600f6020908152604080832093909416825291909152205490565b6040519081526020015b60405180910390f35b34801561028f57600080fd5b506007546001600160401b0316610270565b3480156102ad57600080fd5b506102706102bc366004612951565b610728565b3480156102cd57600080fd5b506006546001600160401b0316610270565b3480156102eb57600080fd5b506102706102fa36600461296c565b6001600160a01b03166000908152600e602052604090205490565b34801561032157600080fd5b507f00000000000000000000000000000000000000000000000000000000000000006001600160401b0316610270565b34801561035d57600080fd5b5061037161036c36600461296c565b61074c565b005b34801561037f57600080fd5b5061037161038e36600461296c565b610937565b34801561039f57600080fd5b506103a8610b73565b60405161027a929190612987565b3480156103c257600080fd5b506102706103d1366004612a0b565b6000908152600a602052604090205490565b3480156103ef57600080fd5b506103716103fe36600461296c565b610c30565b34801561040f57600080fd5b507f00000000000000000000000000000000000000000000000000000000000000006001600160401b0316610270565b34801561044b57600080fd5b50610454610cfb565b6040516001600160a01b03909116815260200161027a565b34801561047857600080fd5b50600554610270565b34801561048d57600080fd5b50610371610d2b565b3480156104a257600080fd5b506103716104b1366004612951565b610d3d565b3480156104c257600080fd5b506103716104d1366004612a0b565b610ef6565b3480156104e257600080fd5b50600054600160a01b900460ff16604051901515815260200161027a565b34801561050c57600080fd5b50610371610f88565b34801561052157600080fd5b50610371610f9a565b34801561053657600080fd5b50610371610545366004612951565b61102a565b34801561055657600080fd5b50610270610565366004612a24565b61112c565b34801561057657600080fd5b50610270610585366004612a4e565b6111d1565b34801561059657600080fd5b5061037161133c565b3480156105ab57600080fd5b506103716113bd565b3480156105c057600080fd5b506103716105cf366004612a4e565b611564565b3480156105e057600080fd5b506000546001600160a01b0316610454565b3480156105fe57600080fd5b50600c54610270565b34801561061357600080fd5b5061027061062236600461296c565b6001600160a01b03166000908152600d602052604090205490565b34801561064957600080fd5b50600b546001600160a01b0316610454565b34801561066757600080fd5b50600854610270565b34801561067c57600080fd5b506102706116b7565b34801561069157600080fd5b506009546001600160401b0316610270565b3480156106af57600080fd5b50600654600160401b90046001600160a01b0316610454565b3480156106d457600080fd5b506103716106e336600461296c565b6116e4565b3480156106f457600080fd5b50610371610703366004612951565b611748565b34801561071457600080fd5b50610371610723366004612b0a565b611961565b6000610746610736600c5490565b6107409047612b8b565b83611cea565b92915050565b610754611d10565b6001600160a01b0381166000908152600d6020526040812054610777834261112c565b6107819190612ba3565b6001600160a01b0383166000908152600d60205260408120805492935083929091906107ae908490612b8b565b90915550506040518181526001600160a01b038316907fc0e523490dd523c33b1878c9eb14ff46991e3f5b2cd33710918618f2a39cba1b9060200160405180910390a260006107fc82611d5d565b905060005b81518110156109315760006003828154811061081f5761081f612bba565b60009182526020909120015483516001600160a01b03909116915083908390811061084c5761084c612bba565b6020908102919091018101516001600160a01b038088166000908152600f84526040808220928616825291909352822080549192909161088d908490612b8b565b92505081905550806001600160a01b0316856001600160a01b03167fe11fb810155d1e288b49c8619d9dbb4549d8f1fd6dda3c5b14aacbfd10b53b738585815181106108db576108db612bba565b60200260200101516040516108f291815260200190565b60405180910390a361091e858285858151811061091157610911612bba565b6020026020010151611e70565b508061092981612bd0565b915050610801565b50505050565b33301461097857610946611ec2565b6009546001600160401b0316156109785760405162461bcd60e51b815260040161096f90612beb565b60405180910390fd5b610980611f1c565b6001600160a01b0381166109d65760405162461bcd60e51b815260206004820152601b60248201527f42656e6566696369617279206973207a65726f20616464726573730000000000604482015260640161096f565b60035460011080610a12575060036000815481106109f6576109f6612bba565b6000918252602090912001546001600160a01b03828116911614155b610a7b5760405162461bcd60e51b815260206004820152603460248201527f4e65772062656e6566696369617279206d757374206469666665722066726f6d6044820152732063757272656e742062656e656669636961727960601b606482015260840161096f565b60006003600081548110610a9157610a91612bba565b60009182526020822001546001600160a01b03169150610ab39060039061281a565b610abf6004600061281a565b6003805460018082019092557fc2575a0e9e593c00f959f8c92f12db2869c3395a3b0502d05e2516446f71f85b0180546001600160a01b0319166001600160a01b0385811691821790925560048054808501825560009182527f8a35acfbc15ff81a39ae7d344fd709f28e8600b4aa8c65c6b64bfe7fe36bd19b018490556005939093556040519092918416917fe72eaf6addaa195f3c83095031dd08f3a96808dcf047babed1fe4e4f69d6c62291a35050565b6060806003600481805480602002602001604051908101604052809291908181526020018280548015610bcf57602002820191906000526020600020905b81546001600160a01b03168152600190910190602001808311610bb1575b5050505050915080805480602002602001604051908101604052809291908181526020018280548015610c2157602002820191906000526020600020905b815481526020019060010190808311610c0d575b50505050509050915091509091565b610c38611ec2565b600b546001600160a01b0382811691161415610ca95760405162461bcd60e51b815260206004820152602a60248201527f4e657720706175736572206d757374206469666665722066726f6d206375727260448201526932b73a103830bab9b2b960b11b606482015260840161096f565b600b80546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f1ff153f4b082245afbf3211a8d2d207da4c5df490e965f9a9ad141b0cd001dda90600090a35050565b60006003600081548110610d1157610d11612bba565b6000918252602090912001546001600160a01b0316919050565b610d33611ec2565b610d3b611f6c565b565b333014610d7557610d4c611ec2565b6009546001600160401b031615610d755760405162461bcd60e51b815260040161096f90612beb565b610d7d611f1c565b6006546001600160401b0382811691161415610dab5760405162461bcd60e51b815260040161096f90612c1a565b7f00000000000000000000000000000000000000000000000000000000000000006001600160401b0316816001600160401b0316610de76116b7565b610df19190612b8b565b1015610e0f5760405162461bcd60e51b815260040161096f90612c68565b6007546001600160401b03908116908216610e286116b7565b610e329190612b8b565b11610e935760405162461bcd60e51b815260206004820152602b60248201527f56657374696e67206d757374206e6f7420656e64206265666f7265207468652060448201526a6c6173742072656261736560a81b606482015260840161096f565b600680546001600160401b0383811667ffffffffffffffff1983168117909355604080519190921680825260208201939093527fdbc9137db57ec697253ec813ea7317f5e6d9db017a4b00ba6b464a638d0f74e091015b60405180910390a15050565b610efe611ec2565b6000818152600a6020526040902054610f4d5760405162461bcd60e51b815260206004820152601160248201527010da185b99d9481b9bdd081c5d595d5959607a1b604482015260640161096f565b6000818152600a60205260408082208290555182917fef2393afd41f32c607a123de95d703349edd33ea1d86af21535ea8040ec7d98491a250565b610f90611ec2565b610d3b6000611fc1565b6006546001600160a01b03600160401b90910416331461100e5760405162461bcd60e51b815260206004820152602960248201527f4f776e61626c6532537465703a2063616c6c6572206973206e6f7420746865206044820152683732bb9037bbb732b960b91b606482015260840161096f565b600654610d3b90600160401b90046001600160a01b0316611fc1565b33301461106257611039611ec2565b6009546001600160401b0316156110625760405162461bcd60e51b815260040161096f90612beb565b6009546001600160401b03828116911614156110d15760405162461bcd60e51b815260206004820152602860248201527f4e65772064656c6179206d757374206469666665722066726f6d2063757272656044820152676e742064656c617960c01b606482015260840161096f565b600980546001600160401b0383811667ffffffffffffffff1983168117909355604080519190921680825260208201939093527fbb4b43ba4bcd564168991e800efc5c979409acc7d53061388c6cbae0448c90be9101610eea565b6001600160a01b0382166000908152600d60205260408120546111ca906040516370a0823160e01b81523060048201526001600160a01b038616906370a082319060240160206040518083038186803b15801561118857600080fd5b505afa15801561119c573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906111c09190612cad565b6107409190612b8b565b9392505050565b60006111db611ec2565b6004821080159061120657506112066111f8600460008587612cc6565b61120191612cf0565b611fe0565b6112525760405162461bcd60e51b815260206004820152601760248201527f4368616e67652063616e6e6f7420626520717565756564000000000000000000604482015260640161096f565b60008383604051611264929190612d20565b60405180910390209050600a6000828152602001908152602001600020546000146112c95760405162461bcd60e51b815260206004820152601560248201527410da185b99d948185b1c9958591e481c5d595d5959605a1b604482015260640161096f565b6009546000906112e2906001600160401b031642612b8b565b6000838152600a6020526040908190208290555190915082907f1a18849b91d03bb42f289e0bf0222c3e98a9ff96d288fa2b496f5bd28b3339fa9061132c90889088908690612d59565b60405180910390a2509392505050565b6000546001600160a01b031633148061135f5750600b546001600160a01b031633145b6113b55760405162461bcd60e51b815260206004820152602160248201527f43616c6c6572206973206e6f7420746865206f776e6572206f722070617573656044820152603960f91b606482015260840161096f565b610d3b612067565b6113c5611d10565b60006113d0600c5490565b6113d942610728565b6113e39190612ba3565b905080600c60008282546113f79190612b8b565b90915550506040518181527fda9d4e5f101b8b9b1c5b76d0c5a9f7923571acfc02376aa076b75a8c080c956b9060200160405180910390a1600061143a82611d5d565b905060005b815181101561155f5760006003828154811061145d5761145d612bba565b60009182526020909120015483516001600160a01b03909116915083908390811061148a5761148a612bba565b6020026020010151600e6000836001600160a01b03166001600160a01b0316815260200190815260200160002060008282546114c69190612b8b565b92505081905550806001600160a01b03167f2aaa7923c74576791f293c17c5b1617a0c94ad8beb3c351bef807fd87842684384848151811061150a5761150a612bba565b602002602001015160405161152191815260200190565b60405180910390a261154c8184848151811061153f5761153f612bba565b60200260200101516120aa565b508061155781612bd0565b91505061143f565b505050565b61156c611ec2565b6000828260405161157e929190612d20565b60408051918290039091206000818152600a6020529190912054909150806115dc5760405162461bcd60e51b815260206004820152601160248201527010da185b99d9481b9bdd081c5d595d5959607a1b604482015260640161096f565b8042101561161f5760405162461bcd60e51b815260206004820152601060248201526f4368616e6765206e6f7420726561647960801b604482015260640161096f565b600a6000838152602001908152602001600020600090556116763085858080601f0160208091040260200160405190810160405280939291908181526020018383808284376000920191909152506121c392505050565b50817f7944c1398aadca89f04a314765c097c8045e67da614a799c799428c352d6347385856040516116a9929190612d7d565b60405180910390a250505050565b6001600160401b037f00000000000000000000000000000000000000000000000000000000000000001690565b6116ec611ec2565b60068054600160401b600160e01b031916600160401b6001600160a01b0384811691820292909217909255600080546040519216917f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e227009190a350565b33301461178057611757611ec2565b6009546001600160401b0316156117805760405162461bcd60e51b815260040161096f90612beb565b611788611f1c565b6006546001600160401b03828116911614156117b65760405162461bcd60e51b815260040161096f90612c1a565b7f00000000000000000000000000000000000000000000000000000000000000006001600160401b0316816001600160401b03166117f26116b7565b6117fc9190612b8b565b101561181a5760405162461bcd60e51b815260040161096f90612c68565b42816001600160401b031661182d6116b7565b6118379190612b8b565b116118935760405162461bcd60e51b815260206004820152602660248201527f56657374696e67206d757374206e6f7420656e64206265666f7265207468652060448201526572656261736560d01b606482015260840161096f565b600061189d6116b7565b4211156118f6576000806118b042612205565b915091506118d06ec097ce7bc90715b34b9f1000000000838360016124bd565b6007805467ffffffffffffffff1916426001600160401b03161790556008819055925050505b600680546001600160401b0384811667ffffffffffffffff1983168117909355604080519190921680825260208201939093529081018390527f9cffd4f4870ac70bbbc352651d859833fccc57c70ae32f776f08b6cb255f5ced9060600160405180910390a1505050565b33301461199957611970611ec2565b6009546001600160401b0316156119995760405162461bcd60e51b815260040161096f90612beb565b6119a1611f1c565b82158015906119af57508281145b6119fb5760405162461bcd60e51b815260206004820152601f60248201527f45766572792062656e6566696369617279206e65656473206120736861726500604482015260640161096f565b6014831115611a455760405162461bcd60e51b8152602060048201526016602482015275546f6f206d616e792062656e6566696369617269657360501b604482015260640161096f565b6000805b84811015611c35576000868683818110611a6557611a65612bba565b9050602002016020810190611a7a919061296c565b6001600160a01b03161415611ad15760405162461bcd60e51b815260206004820152601b60248201527f42656e6566696369617279206973207a65726f20616464726573730000000000604482015260640161096f565b6000848483818110611ae557611ae5612bba565b9050602002013511611b395760405162461bcd60e51b815260206004820181905260248201527f536861726573206d7573742062652067726561746572207468616e207a65726f604482015260640161096f565b60005b81811015611bfc57868683818110611b5657611b56612bba565b9050602002016020810190611b6b919061296c565b6001600160a01b0316878783818110611b8657611b86612bba565b9050602002016020810190611b9b919061296c565b6001600160a01b03161415611bea5760405162461bcd60e51b81526020600482015260156024820152744475706c69636174652062656e656669636961727960581b604482015260640161096f565b80611bf481612bd0565b915050611b3c565b50838382818110611c0f57611c0f612bba565b9050602002013582611c219190612b8b565b915080611c2d81612bd0565b915050611a49565b50611c4260038686612838565b50611c4f6004848461289b565b5060058190556040517f0563e3bb73775f53f90c3419d04dcdc3fdad01453b5211d23f6dfadda29efb8890611c8b908790879087908790612d91565b60405180910390a15050505050565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6000806000611cf884612205565b91509150611d07858383612518565b95945050505050565b600054600160a01b900460ff1615610d3b5760405162461bcd60e51b815260206004820152601060248201526f14185d5cd8589b194e881c185d5cd95960821b604482015260640161096f565b6004546060906001600160401b03811115611d7a57611d7a612e13565b604051908082528060200260200182016040528015611da3578160200160208202803683370190505b5090506000805b8251811015611e3457611ddd8460048381548110611dca57611dca612bba565b9060005260206000200154600554612518565b838281518110611def57611def612bba565b602002602001018181525050828181518110611e0d57611e0d612bba565b602002602001015182611e209190612b8b565b915080611e2c81612bd0565b915050611daa565b50611e3f8184612ba3565b82600081518110611e5257611e52612bba565b60200260200101818151611e669190612b8b565b9052509092915050565b604080516001600160a01b038416602482015260448082018490528251808303909101815260649091019091526020810180516001600160e01b031663a9059cbb60e01b17905261155f9084906125c7565b6000546001600160a01b03163314610d3b5760405162461bcd60e51b815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e6572604482015260640161096f565b600054600160a01b900460ff16610d3b5760405162461bcd60e51b815260206004820152601460248201527314185d5cd8589b194e881b9bdd081c185d5cd95960621b604482015260640161096f565b611f74611f1c565b6000805460ff60a01b191690557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa335b6040516001600160a01b03909116815260200160405180910390a1565b60068054600160401b600160e01b0319169055611fdd81611c9a565b50565b60006001600160e01b031982166301c31f7160e41b148061201157506001600160e01b03198216637eb1b59360e11b145b8061202c57506001600160e01b03198216634b852c0360e01b145b8061204757506001600160e01b0319821663f8f1ef7760e01b145b8061074657506001600160e01b03198216637d7b165960e01b1492915050565b61206f611d10565b6000805460ff60a01b1916600160a01b1790557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a258611fa43390565b804710156120fa5760405162461bcd60e51b815260206004820152601d60248201527f416464726573733a20696e73756666696369656e742062616c616e6365000000604482015260640161096f565b6000826001600160a01b03168260405160006040518083038185875af1925050503d8060008114612147576040519150601f19603f3d011682016040523d82523d6000602084013e61214c565b606091505b505090508061155f5760405162461bcd60e51b815260206004820152603a60248201527f416464726573733a20756e61626c6520746f2073656e642076616c75652c207260448201527f6563697069656e74206d61792068617665207265766572746564000000000000606482015260840161096f565b60606111ca83836040518060400160405280601e81526020017f416464726573733a206c6f772d6c6576656c2063616c6c206661696c65640000815250612699565b6000807f00000000000000000000000000000000000000000000000000000000000000006001600160401b0316836001600160401b0316101561224e5750600092600192509050565b60006122626006546001600160401b031690565b61226a6116b7565b6122749190612b8b565b905080846001600160401b031611156122935750600193849350915050565b60006001600160401b037f0000000000000000000000000000000000000000000000000000000000000000161561232b577f00000000000000000000000000000000000000000000000000000000000000006001600160401b03166122f66116b7565b612309906001600160401b038816612ba3565b6123139190612e3f565b612326906001600160401b038716612ba3565b612336565b846001600160401b03165b6007549091506001600160401b0316612372576123516116b7565b61235b9082612ba3565b6006546001600160401b0316935093505050915091565b6007546001600160401b0390811690861610156123f9576006546001600160401b03166008546123a29190612e61565b6ec097ce7bc90715b34b9f10000000006123ba6116b7565b6123c49084612ba3565b6123ce9190612e61565b10156123dc576123516116b7565b5050600854936ec097ce7bc90715b34b9f10000000009350915050565b6007546001600160401b03168111612428575050600854936ec097ce7bc90715b34b9f10000000009350915050565b600754600090612441906001600160401b031684612ba3565b60075490915061245a906001600160401b031683612ba3565b600854612476906ec097ce7bc90715b34b9f1000000000612ba3565b6124809190612e61565b8160085461248e9190612e61565b6124989190612b8b565b6124b1826ec097ce7bc90715b34b9f1000000000612e61565b94509450505050915091565b6000806124cb868686612518565b905060018360028111156124e1576124e1612e80565b1480156124fe5750600084806124f9576124f9612e29565b868809115b15611d075761250e600182612b8b565b9695505050505050565b6000808060001985870985870292508281108382030391505080600014156125535783828161254957612549612e29565b04925050506111ca565b80841161255f57600080fd5b600084868809600260036001881981018916988990049182028318808302840302808302840302808302840302808302840302808302840302918202909203026000889003889004909101858311909403939093029303949094049190911702949350505050565b600061261c826040518060400160405280602081526020017f5361666545524332303a206c6f772d6c6576656c2063616c6c206661696c6564815250856001600160a01b03166126999092919063ffffffff16565b80519091501561155f578080602001905181019061263a9190612e96565b61155f5760405162461bcd60e51b815260206004820152602a60248201527f5361666545524332303a204552433230206f7065726174696f6e20646964206e6044820152691bdd081cdd58d8d9595960b21b606482015260840161096f565b60606126a884846000856126b0565b949350505050565b6060824710156127115760405162461bcd60e51b815260206004820152602660248201527f416464726573733a20696e73756666696369656e742062616c616e636520666f6044820152651c8818d85b1b60d21b606482015260840161096f565b6001600160a01b0385163b6127685760405162461bcd60e51b815260206004820152601d60248201527f416464726573733a2063616c6c20746f206e6f6e2d636f6e7472616374000000604482015260640161096f565b600080866001600160a01b031685876040516127849190612ee4565b60006040518083038185875af1925050503d80600081146127c1576040519150601f19603f3d011682016040523d82523d6000602084013e6127c6565b606091505b50915091506127d68282866127e1565b979650505050505050565b606083156127f05750816111ca565b8251156128005782518084602001fd5b8160405162461bcd60e51b815260040161096f9190612f00565b5080546000825590600052602060002090810190611fdd91906128d6565b82805482825590600052602060002090810192821561288b579160200282015b8281111561288b5781546001600160a01b0319166001600160a01b03843516178255602090920191600190910190612858565b506128979291506128d6565b5090565b82805482825590600052602060002090810192821561288b579160200282015b8281111561288b5782358255916020019190600101906128bb565b5b8082111561289757600081556001016128d7565b80356001600160a01b038116811461290257600080fd5b919050565b6000806040838503121561291a57600080fd5b612923836128eb565b9150612931602084016128eb565b90509250929050565b80356001600160401b038116811461290257600080fd5b60006020828403121561296357600080fd5b6111ca8261293a565b60006020828403121561297e57600080fd5b6111ca826128eb565b604080825283519082018190526000906020906060840190828701845b828110156129c95781516001600160a01b0316845292840192908401906001016129a4565b5050508381038285015284518082528583019183019060005b818110156129fe578351835292840192918401916001016129e2565b5090979650505050505050565b600060208284031215612a1d57600080fd5b5035919050565b60008060408385031215612a3757600080fd5b612a40836128eb565b91506129316020840161293a565b60008060208385031215612a6157600080fd5b82356001600160401b0380821115612a7857600080fd5b818501915085601f830112612a8c57600080fd5b813581811115612a9b57600080fd5b866020828501011115612aad57600080fd5b60209290920196919550909350505050565b60008083601f840112612ad157600080fd5b5081356001600160401b03811115612ae857600080fd5b6020830191508360208260051b8501011115612b0357600080fd5b9250929050565b60008060008060408587031215612b2057600080fd5b84356001600160401b0380821115612b3757600080fd5b612b4388838901612abf565b90965094506020870135915080821115612b5c57600080fd5b50612b6987828801612abf565b95989497509550505050565b634e487b7160e01b600052601160045260246000fd5b60008219821115612b9e57612b9e612b75565b500190565b600082821015612bb557612bb5612b75565b500390565b634e487b7160e01b600052603260045260246000fd5b6000600019821415612be457612be4612b75565b5060010190565b60208082526015908201527410da185b99d9481b5d5cdd081899481c5d595d5959605a1b604082015260600190565b6020808252602e908201527f4e6577206475726174696f6e206d757374206469666665722066726f6d20637560408201526d393932b73a10323ab930ba34b7b760911b606082015260800190565b60208082526025908201527f56657374696e67206d757374206e6f7420656e64206265666f7265207468652060408201526431b634b33360d91b606082015260800190565b600060208284031215612cbf57600080fd5b5051919050565b60008085851115612cd657600080fd5b83861115612ce357600080fd5b5050820193919092039150565b6001600160e01b03198135818116916004851015612d185780818660040360031b1b83161692505b505092915050565b8183823760009101908152919050565b81835281816020850137506000828201602090810191909152601f909101601f19169091010190565b604081526000612d6d604083018587612d30565b9050826020830152949350505050565b6020815260006126a8602083018486612d30565b6040808252810184905260008560608301825b87811015612dd2576001600160a01b03612dbd846128eb565b16825260209283019290910190600101612da4565b5083810360208501528481526001600160fb1b03851115612df257600080fd5b8460051b915081866020830137600091016020019081529695505050505050565b634e487b7160e01b600052604160045260246000fd5b634e487b7160e01b600052601260045260246000fd5b600082612e5c57634e487b7160e01b600052601260045260246000fd5b500690565b6000816000190483118215151615612e7b57612e7b612b75565b500290565b634e487b7160e01b600052602160045260246000fd5b600060208284031215612ea857600080fd5b815180151581146111ca57600080fd5b60005b83811015612ed3578181015183820152602001612ebb565b838111156109315750506000910152565b60008251612ef6818460208701612eb8565b9190910192915050565b6020815260008251806020840152612f1f816040850160208701612eb8565b601f01601f1916919091016040019291505056fea2646970667358221220e8ae4285b7ddc6e9edfb2140bf84e5bdfcaddda37a29d4cc95b43ac3065df82f64736f6c63430008090033a264697066735822122083c8c52a11e9cf9dc7a2755ea95a90ccf9ecb4ea83a030f9eb0740e6c497c7be64736f6c63430008090033";
+
+type PalmEcosystemVestingWalletFactoryConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: PalmEcosystemVestingWalletFactoryConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class PalmEcosystemVestingWalletFactory__factory extends ContractFactory {
+  constructor(...args: PalmEcosystemVestingWalletFactoryConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override deploy(
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<PalmEcosystemVestingWalletFactory> {
+    return super.deploy(
+      overrides || {}
+    ) as Promise<PalmEcosystemVestingWalletFactory>;
+  }
+  override getDeployTransaction(
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): TransactionRequest {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override attach(address: string): PalmEcosystemVestingWalletFactory {
+    return super.attach(address) as PalmEcosystemVestingWalletFactory;
+  }
+  override connect(signer: Signer): PalmEcosystemVestingWalletFactory__factory {
+    return super.connect(signer) as PalmEcosystemVestingWalletFactory__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): PalmEcosystemVestingWalletFactoryInterface {
+    return new utils.Interface(
+      _abi
+    ) as PalmEcosystemVestingWalletFactoryInterface;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): PalmEcosystemVestingWalletFactory {
+    return new Contract(
+      address,
+      _abi,
+      signerOrProvider
+    ) as PalmEcosystemVestingWalletFactory;
+  }
+}
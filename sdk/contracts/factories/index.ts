@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { PalmEcosystemVestingWallet__factory } from "./PalmEcosystemVestingWallet__factory";
+export { PalmEcosystemVestingWalletFactory__factory } from "./PalmEcosystemVestingWalletFactory__factory";
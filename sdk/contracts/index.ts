@@ -0,0 +1,8 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { PalmEcosystemVestingWallet } from "./PalmEcosystemVestingWallet";
+export type { PalmEcosystemVestingWalletFactory } from "./PalmEcosystemVestingWalletFactory";
+export * as factories from "./factories";
+export { PalmEcosystemVestingWallet__factory } from "./factories/PalmEcosystemVestingWallet__factory";
+export { PalmEcosystemVestingWalletFactory__factory } from "./factories/PalmEcosystemVestingWalletFactory__factory";
@@ -0,0 +1,135 @@
+export const NOT_OWNER_ERROR = "Ownable: caller is not the owner";
+export const NOT_PENDING_OWNER_ERROR = "Ownable2Step: caller is not the new owner";
+export const NOT_OWNER_OR_PAUSER_ERROR = "Caller is not the owner or pauser";
+export const PAUSED_EXCEPTION = "Pausable: paused";
+export const NOT_PAUSED_EXCEPTION = "Pausable: not paused";
+export const CHANGE_MUST_BE_QUEUED_ERROR = "Change must be queued";
+export const CHANGE_NOT_QUEUED_ERROR = "Change not queued";
+export const CHANGE_NOT_READY_ERROR = "Change not ready";
+
+/**
+ * Base class of every error thrown by the SDK, so callers can tell them apart from provider or network errors.
+ */
+export class VestingWalletError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * Thrown when an argument fails validation, before anything is sent to the network.
+ */
+export class InvalidArgumentError extends VestingWalletError {
+    constructor(readonly argument: string, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Thrown when an owner-only operation is attempted by an account that does not own the wallet.
+ */
+export class NotOwnerError extends VestingWalletError {
+    constructor(readonly wallet: string, readonly account: string) {
+        super(NOT_OWNER_ERROR);
+    }
+}
+
+/**
+ * Thrown when accepting ownership from an account the current owner has not transferred ownership to.
+ */
+export class NotPendingOwnerError extends VestingWalletError {
+    constructor(readonly wallet: string, readonly account: string) {
+        super(NOT_PENDING_OWNER_ERROR);
+    }
+}
+
+/**
+ * Thrown when pausing the wallet from an account that is neither its owner nor its pauser.
+ */
+export class NotOwnerOrPauserError extends VestingWalletError {
+    constructor(readonly wallet: string, readonly account: string) {
+        super(NOT_OWNER_OR_PAUSER_ERROR);
+    }
+}
+
+/**
+ * Thrown when an operation requires the wallet to be unpaused, but it is paused.
+ */
+export class WalletPausedError extends VestingWalletError {
+    constructor(readonly wallet: string) {
+        super(PAUSED_EXCEPTION);
+    }
+}
+
+/**
+ * Thrown when an operation requires the wallet to be paused, but it is not.
+ */
+export class WalletNotPausedError extends VestingWalletError {
+    constructor(readonly wallet: string) {
+        super(NOT_PAUSED_EXCEPTION);
+    }
+}
+
+/**
+ * Thrown when changing the schedule of a wallet with a minimum delay directly, instead of queueing the change.
+ */
+export class ChangeMustBeQueuedError extends VestingWalletError {
+    constructor(readonly wallet: string, readonly minDelay: number) {
+        super(CHANGE_MUST_BE_QUEUED_ERROR);
+    }
+}
+
+/**
+ * Thrown when executing or cancelling a change that has not been queued, or has already been executed or cancelled.
+ */
+export class ChangeNotQueuedError extends VestingWalletError {
+    constructor(readonly wallet: string, readonly id: string) {
+        super(CHANGE_NOT_QUEUED_ERROR);
+    }
+}
+
+/**
+ * Thrown when executing a queued change before its minimum delay has passed.
+ */
+export class ChangeNotReadyError extends VestingWalletError {
+    constructor(readonly wallet: string, readonly id: string, readonly readyTimestamp: number) {
+        super(CHANGE_NOT_READY_ERROR);
+    }
+}
+
+/**
+ * Thrown when there is nothing vested that has not already been released.
+ */
+export class NothingReleasableError extends VestingWalletError {
+    constructor(readonly wallet: string, readonly token?: string) {
+        super(`Nothing releasable from ${wallet}${token ? ` for token ${token}` : ""}`);
+    }
+}
+
+/**
+ * Thrown when one or more pre-deployment safety checks fail.
+ */
+export class PreflightError extends VestingWalletError {
+    constructor(readonly failures: string[]) {
+        super(`Preflight checks failed:\n${failures.map(failure => `\t${failure}`).join("\n")}`);
+    }
+}
+
+/**
+ * Thrown when a transaction reverts, or would revert when it is estimated before sending.
+ */
+export class TransactionRevertedError extends VestingWalletError {
+    constructor(readonly reason?: string, readonly txHash?: string) {
+        super(`${txHash ? `Transaction ${txHash} reverted` : "Transaction would revert"}: ${reason ?? "no reason given"}`);
+    }
+}
+
+/**
+ * Thrown when a transaction (and any replacements) has not been mined in time.  It may still be mined later.
+ */
+export class TransactionTimeoutError extends VestingWalletError {
+    constructor(readonly txHashes: string[], readonly timeout: number) {
+        super(`Transaction ${txHashes.join(", replaced by ")} was not mined within ${timeout} seconds, and may still be mined: check it before retrying`);
+    }
+}
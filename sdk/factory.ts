@@ -0,0 +1,65 @@
+import {BigNumber, ethers, Signer} from "ethers";
+import {
+    PalmEcosystemVestingWallet,
+    PalmEcosystemVestingWallet__factory,
+    PalmEcosystemVestingWalletFactory,
+    PalmEcosystemVestingWalletFactory__factory
+} from "./contracts";
+import {VestingWalletError} from "./errors";
+import {sendTransaction, TransactionOptions} from "./transactions";
+import {constructorArguments, parseEvents, VestingWalletConstructorArgs} from "./wallet";
+
+/**
+ * Deploys a PalmEcosystemVestingWalletFactory, which only needs to be done once per network.
+ */
+export async function deployVestingWalletFactory(signer: Signer, options: TransactionOptions = {}): Promise<PalmEcosystemVestingWalletFactory> {
+    const factory = new PalmEcosystemVestingWalletFactory__factory(signer);
+    const {tx, receipt} = await sendTransaction(signer, factory.getDeployTransaction(), options);
+    const contract = factory.attach(receipt.contractAddress);
+    ethers.utils.defineReadOnly(contract, "deployTransaction", tx);
+
+    return contract;
+}
+
+/**
+ * Works out the address the factory creates a wallet at when called by the creator, without talking to the network.  The
+ * salt is a 32 byte hex string, see parseSalt().  The factory hashes the creator into the salt, so only the creator can
+ * create a wallet at the address.
+ */
+export function predictVestingWalletAddress(factoryAddress: string, creator: string, args: VestingWalletConstructorArgs, salt: string): string {
+    const initCode = new PalmEcosystemVestingWallet__factory().getDeployTransaction(...constructorArguments(args)).data as string;
+    const creatorSalt = ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(["address", "bytes32"], [creator, salt]));
+    return ethers.utils.getCreate2Address(factoryAddress, creatorSalt, ethers.utils.keccak256(initCode));
+}
+
+/**
+ * Estimates the gas needed to create a PalmEcosystemVestingWallet through the factory.
+ */
+export async function estimateCreationGas(signer: Signer, factoryAddress: string, args: VestingWalletConstructorArgs, salt: string): Promise<BigNumber> {
+    return PalmEcosystemVestingWalletFactory__factory.connect(factoryAddress, signer).estimateGas.createVestingWallet(...constructorArguments(args), salt);
+}
+
+/**
+ * Creates a PalmEcosystemVestingWallet through the factory at its predicted address, and waits for the creation to be
+ * confirmed.  The signer is left as the pending owner, and must accept ownership before it can administer the wallet.
+ */
+export async function createVestingWallet(signer: Signer, factoryAddress: string, args: VestingWalletConstructorArgs, salt: string, options: TransactionOptions = {}): Promise<PalmEcosystemVestingWallet> {
+    const address = predictVestingWalletAddress(factoryAddress, await signer.getAddress(), args, salt);
+    if (await signer.provider?.getCode(factoryAddress) === "0x") {
+        throw new VestingWalletError(`There is no vesting wallet factory at ${factoryAddress}`);
+    }
+    if (await signer.provider?.getCode(address) !== "0x") {
+        throw new VestingWalletError(`A contract already exists at ${address}, use a different salt`);
+    }
+
+    const factory = PalmEcosystemVestingWalletFactory__factory.connect(factoryAddress, signer);
+    const {tx, receipt} = await sendTransaction(signer, await factory.populateTransaction.createVestingWallet(...constructorArguments(args), salt), options);
+    const created = parseEvents(factory, receipt).find(({name}) => name === "VestingWalletCreated");
+    if (created?.args.wallet !== address) {
+        throw new VestingWalletError(`The factory created ${created?.args.wallet} instead of the predicted address ${address}`);
+    }
+    const contract = PalmEcosystemVestingWallet__factory.connect(address, signer);
+    ethers.utils.defineReadOnly(contract, "deployTransaction", tx);
+
+    return contract;
+}
@@ -0,0 +1,48 @@
+import {BigNumber, BigNumberish, ethers, providers, Signer} from "ethers";
+import {PalmEcosystemVestingWallet__factory} from "./contracts";
+import {constructorArguments, VestingWalletConstructorArgs} from "./wallet";
+
+// Follow-up transactions to a new contract can't be estimated before it exists, so allow generous fixed amounts
+export const TRANSFER_OWNERSHIP_GAS = 50_000;
+export const ACCEPT_OWNERSHIP_GAS = 50_000;
+export const FUND_GAS = 30_000;
+export const SET_MIN_DELAY_GAS = 50_000;
+export const SET_PAUSER_GAS = 50_000;
+export const PAUSE_GAS = 50_000;
+// Setting shares stores an address and a share for each beneficiary
+export const SET_SHARES_GAS_PER_BENEFICIARY = 50_000;
+
+export type GasCost = { gas: BigNumber, gasPrice: BigNumber, cost: BigNumber };
+
+export function gasCost(gas: BigNumberish, gasPrice: BigNumberish): GasCost {
+    return {gas: BigNumber.from(gas), gasPrice: BigNumber.from(gasPrice), cost: BigNumber.from(gas).mul(gasPrice)};
+}
+
+/**
+ * Works out what a mined transaction actually cost.  Nodes that predate EIP-1559 don't report the effective gas price,
+ * in which case it is the gas price the transaction was sent with.
+ */
+export function receiptGasCost(tx: providers.TransactionResponse, receipt: providers.TransactionReceipt): GasCost {
+    return gasCost(receipt.gasUsed, receipt.effectiveGasPrice ?? tx.gasPrice ?? 0);
+}
+
+/**
+ * Adds up the cost of several transactions.  Their gas prices may differ, so the total carries the average.
+ */
+export function totalGasCost(costs: GasCost[]): GasCost {
+    const gas = costs.reduce((total, {gas}) => total.add(gas), BigNumber.from(0));
+    const cost = costs.reduce((total, {cost}) => total.add(cost), BigNumber.from(0));
+    return {gas, gasPrice: gas.isZero() ? gas : cost.div(gas), cost};
+}
+
+export function formatGasCost({gas, gasPrice, cost}: GasCost): string {
+    return `${gas} gas at ${ethers.utils.formatUnits(gasPrice, "gwei")} gwei = ${ethers.utils.formatEther(cost)} PALM`;
+}
+
+/**
+ * Estimates the gas needed to deploy a PalmEcosystemVestingWallet from the signer.
+ */
+export async function estimateDeploymentGas(signer: Signer, args: VestingWalletConstructorArgs): Promise<BigNumber> {
+    const deployTx = new PalmEcosystemVestingWallet__factory(signer).getDeployTransaction(...constructorArguments(args));
+    return signer.estimateGas(deployTx);
+}
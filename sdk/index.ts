@@ -0,0 +1,11 @@
+export * from "./errors";
+export * from "./validation";
+export * from "./schedule";
+export * from "./wallet";
+export * from "./factory";
+export * from "./timelock";
+export * from "./logs";
+export * from "./preflight";
+export * from "./gas";
+export * from "./transactions";
+export type {PalmEcosystemVestingWallet, PalmEcosystemVestingWalletFactory} from "./contracts";
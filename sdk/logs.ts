@@ -0,0 +1,26 @@
+import {providers} from "ethers";
+import {InvalidArgumentError} from "./errors";
+
+// RPC nodes limit the block range a single log query may span, so logs are queried this many blocks at a time
+export const DEFAULT_CHUNK_SIZE = 2000;
+
+/**
+ * Queries the logs matching a filter between two blocks (inclusive), chunkSize blocks at a time.  Each chunk's logs are
+ * handed to onChunk together with the last block it covers, so callers can save their progress as they go.
+ */
+export async function scanLogs(
+    provider: providers.Provider,
+    filter: { address: string, topics?: (string | string[] | null)[] },
+    fromBlock: number,
+    toBlock: number,
+    chunkSize: number,
+    onChunk: (logs: providers.Log[], lastBlock: number) => void | Promise<void>
+): Promise<void> {
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+        throw new InvalidArgumentError("chunkSize", "Invalid chunkSize: must be at least 1");
+    }
+    for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+        const end = Math.min(start + chunkSize - 1, toBlock);
+        await onChunk(await provider.getLogs({...filter, fromBlock: start, toBlock: end}), end);
+    }
+}
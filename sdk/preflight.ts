@@ -0,0 +1,142 @@
+import {BigNumber, ethers, Signer} from "ethers";
+import {BeneficiaryShare, DeploymentParams, formatDate} from "./validation";
+import {
+    ACCEPT_OWNERSHIP_GAS,
+    estimateDeploymentGas,
+    FUND_GAS,
+    PAUSE_GAS,
+    SET_MIN_DELAY_GAS,
+    SET_PAUSER_GAS,
+    SET_SHARES_GAS_PER_BENEFICIARY,
+    TRANSFER_OWNERSHIP_GAS
+} from "./gas";
+import {estimateCreationGas} from "./factory";
+
+export type PreflightStatus = "pass" | "warn" | "fail";
+export type PreflightCheck = { check: string, status: PreflightStatus, message: string };
+export type PreflightOptions = {
+    fundAmount?: BigNumber,
+    maxStartDelay?: number,
+    // The gas price the transactions will be sent at, by default the node's current price
+    gasPrice?: BigNumber,
+    // The steps deploy takes besides deploying the contract, which the deployer has to pay for as well
+    factory?: { address: string, salt: string },
+    shares?: BeneficiaryShare[],
+    pauser?: string,
+    minDelay?: number
+};
+// A row of a batch, which may have been deployed by an earlier run that did not get to transfer its ownership
+export type BatchPreflightRow = { row: number, params: DeploymentParams, deployed: boolean };
+
+export const MAX_START_DELAY = 365 * 24 * 60 * 60;
+
+/**
+ * Checks that an address looks like a deliberate choice of account: an EOA that has been used before.  Contracts may
+ * be intended (e.g. a multisig), and unused addresses may be new, so both only warn.
+ */
+async function checkAccount(provider: ethers.providers.Provider, check: string, address: string): Promise<PreflightCheck> {
+    const [code, nonce, balance] = await Promise.all([
+        provider.getCode(address),
+        provider.getTransactionCount(address),
+        provider.getBalance(address)
+    ]);
+    if (code !== "0x") {
+        return {check, status: "warn", message: `${address} is a contract, make sure it is able to use the vesting contract`};
+    }
+    if (nonce === 0 && balance.isZero()) {
+        return {check, status: "warn", message: `${address} has never sent a transaction and holds no funds, check it for typos`};
+    }
+    return {check, status: "pass", message: `${address} is an account with ${nonce} transaction(s)`};
+}
+
+/**
+ * Checks the schedule and the accounts of a deployment: vesting should start in the near future, and the
+ * beneficiaries and final owner should be distinct, existing accounts.
+ */
+async function checkDeploymentParams(provider: ethers.providers.Provider, params: DeploymentParams, beneficiaries: string[], maxStartDelay: number): Promise<PreflightCheck[]> {
+    const {finalOwner, startTime} = params;
+    const checks: PreflightCheck[] = [];
+
+    const {timestamp} = await provider.getBlock("latest");
+    if (startTime < timestamp) {
+        checks.push({check: "start date", status: "fail", message: `Vesting would start in the past: ${formatDate(startTime)}`});
+    } else if (startTime - timestamp > maxStartDelay) {
+        checks.push({check: "start date", status: "warn", message: `Vesting starts more than ${Math.floor(maxStartDelay / 86400)} days from now: ${formatDate(startTime)}`});
+    } else {
+        checks.push({check: "start date", status: "pass", message: `Vesting starts ${formatDate(startTime)}`});
+    }
+
+    for (const beneficiary of beneficiaries) {
+        checks.push(await checkAccount(provider, "beneficiary", beneficiary));
+    }
+    if (finalOwner) {
+        checks.push(await checkAccount(provider, "final owner", finalOwner));
+        if (beneficiaries.includes(finalOwner)) {
+            checks.push({check: "final owner", status: "fail", message: "The final owner must not be a beneficiary, or they could change their own schedule"});
+        }
+    }
+    return checks;
+}
+
+/**
+ * Checks that the deployer can pay for the gas of everything it is about to send, plus any funding.
+ */
+async function checkDeployerBalance(signer: Signer, gas: BigNumber, gasPrice: BigNumber | undefined, fundAmount: BigNumber): Promise<PreflightCheck> {
+    const provider = signer.provider as ethers.providers.Provider;
+    const deployer = await signer.getAddress();
+    const [price, balance] = await Promise.all([gasPrice ?? provider.getGasPrice(), provider.getBalance(deployer)]);
+    const required = gas.mul(price).add(fundAmount);
+    const format = (amount: BigNumber) => `${ethers.utils.formatEther(amount)} PALM`;
+    if (balance.lt(required)) {
+        return {check: "deployer balance", status: "fail", message: `${deployer} holds ${format(balance)} but needs about ${format(required)} (${gas} gas at ${price} wei${fundAmount.isZero() ? "" : ` plus ${format(fundAmount)} funding`})`};
+    }
+    return {check: "deployer balance", status: "pass", message: `${deployer} holds ${format(balance)}, about ${format(required)} is needed`};
+}
+
+/**
+ * Runs the safety checks that should pass before deploying a vesting contract to a production network.  Nothing is
+ * sent; failures must be fixed, while warnings need a human to confirm they are intended.
+ */
+export async function preflightDeployment(signer: Signer, params: DeploymentParams, options: PreflightOptions = {}): Promise<PreflightCheck[]> {
+    const {fundAmount = BigNumber.from(0), maxStartDelay = MAX_START_DELAY, gasPrice, factory, shares, pauser, minDelay = 0} = options;
+    const provider = signer.provider as ethers.providers.Provider;
+    const beneficiaries = shares ? shares.map(({beneficiary}) => beneficiary) : [params.beneficiary];
+    const checks = await checkDeploymentParams(provider, params, beneficiaries, maxStartDelay);
+
+    // Price every transaction deploy sends, in the order it sends them
+    let gas = factory
+        ? (await estimateCreationGas(signer, factory.address, params, factory.salt)).add(ACCEPT_OWNERSHIP_GAS)
+        : await estimateDeploymentGas(signer, params);
+    if (shares && shares.length > 1) {
+        gas = gas.add(2 * PAUSE_GAS + shares.length * SET_SHARES_GAS_PER_BENEFICIARY);
+    }
+    gas = gas
+        .add(fundAmount.isZero() ? 0 : FUND_GAS)
+        .add(pauser ? SET_PAUSER_GAS : 0)
+        .add(minDelay > 0 ? SET_MIN_DELAY_GAS : 0)
+        .add(params.finalOwner ? TRANSFER_OWNERSHIP_GAS : 0);
+    checks.push(await checkDeployerBalance(signer, gas, gasPrice, fundAmount));
+
+    return checks;
+}
+
+/**
+ * Runs the preflight checks for the rows of a batch that are left to deploy, or to transfer the ownership of, with one
+ * balance check for all of them.  The checks of each row are labelled with its row number.
+ */
+export async function preflightBatch(signer: Signer, rows: BatchPreflightRow[], options: Pick<PreflightOptions, "maxStartDelay" | "gasPrice"> = {}): Promise<PreflightCheck[]> {
+    const {maxStartDelay = MAX_START_DELAY, gasPrice} = options;
+    const provider = signer.provider as ethers.providers.Provider;
+    const checks: PreflightCheck[] = [];
+    let gas = BigNumber.from(0);
+    for (const {row, params, deployed} of rows) {
+        if (!deployed) {
+            const rowChecks = await checkDeploymentParams(provider, params, [params.beneficiary], maxStartDelay);
+            checks.push(...rowChecks.map(({check, ...result}) => ({check: `row ${row} ${check}`, ...result})));
+            gas = gas.add(await estimateDeploymentGas(signer, params));
+        }
+        gas = gas.add(params.finalOwner ? TRANSFER_OWNERSHIP_GAS : 0);
+    }
+    checks.push(await checkDeployerBalance(signer, gas, gasPrice, BigNumber.from(0)));
+    return checks;
+}
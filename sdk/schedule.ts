@@ -0,0 +1,169 @@
+import {BigNumber, BigNumberish} from "ethers";
+import {InvalidArgumentError} from "./errors";
+
+export const granularities = ["daily", "weekly", "monthly", "quarterly"] as const;
+export type Granularity = typeof granularities[number];
+
+// The cliff and unlock interval of a wallet, see the PalmEcosystemVestingWallet constructor, and its last rebase
+export type VestingCurve = { cliff?: number, unlockInterval?: number, rebaseTimestamp?: number, rebaseFraction?: BigNumberish };
+export type ReleasableChange = { timestamp: number, vestedBefore: BigNumber, vestedAfter: BigNumber, releasableBefore: BigNumber, releasableAfter: BigNumber };
+export type ScheduleRow = {
+    period: number,
+    periodStart: number,
+    periodEnd: number,
+    vested: BigNumber,
+    vestedInPeriod: BigNumber
+};
+
+// The rebaseFraction of a wallet is a share out of this
+export const REBASE_FRACTION_SCALE = BigNumber.from(10).pow(36);
+
+const ONE_DAY_IN_SECONDS = 24 * 60 * 60;
+
+/**
+ * Mirrors PalmEcosystemVestingWallet._vestedShare(): the share of the allocation vested at the timestamp, as a
+ * numerator and denominator.
+ */
+function vestedShare(start: number, duration: number, timestamp: number, curve: VestingCurve): [BigNumber, BigNumber] {
+    const {cliff = start, unlockInterval = 0, rebaseTimestamp = 0} = curve;
+    const rebaseFraction = BigNumber.from(curve.rebaseFraction ?? 0);
+    const end = start + duration;
+    if (timestamp < start || timestamp < cliff) {
+        return [BigNumber.from(0), BigNumber.from(1)];
+    } else if (timestamp > end) {
+        return [BigNumber.from(1), BigNumber.from(1)];
+    }
+    const unlocked = unlockInterval > 0 ? timestamp - (timestamp - start) % unlockInterval : timestamp;
+    const original: [BigNumber, BigNumber] = [BigNumber.from(unlocked - start), BigNumber.from(duration)];
+    if (rebaseTimestamp === 0) {
+        return original;
+    } else if (timestamp < rebaseTimestamp) {
+        return original[0].mul(REBASE_FRACTION_SCALE).lt(rebaseFraction.mul(duration)) ? original : [rebaseFraction, REBASE_FRACTION_SCALE];
+    } else if (unlocked <= rebaseTimestamp) {
+        return [rebaseFraction, REBASE_FRACTION_SCALE];
+    }
+    const remaining = end - rebaseTimestamp;
+    return [
+        rebaseFraction.mul(remaining).add(REBASE_FRACTION_SCALE.sub(rebaseFraction).mul(unlocked - rebaseTimestamp)),
+        REBASE_FRACTION_SCALE.mul(remaining)
+    ];
+}
+
+/**
+ * Mirrors PalmEcosystemVestingWallet._vestingSchedule(), in integer wei: the linear formula of VestingWallet, with
+ * nothing vested before the cliff, and rounded down to whole unlock intervals since the start.  After a rebase, the
+ * share vested at the rebase is kept and the rest vests from the rebase to the end.
+ */
+export function vestedAmount(totalAllocation: BigNumberish, start: number, duration: number, timestamp: number, curve: VestingCurve = {}): BigNumber {
+    const [numerator, denominator] = vestedShare(start, duration, timestamp, curve);
+    return BigNumber.from(totalAllocation).mul(numerator).div(denominator);
+}
+
+/**
+ * Mirrors PalmEcosystemVestingWallet.rebaseDuration(), returning the curve the wallet follows after a rebase at the
+ * given timestamp.  A rebase before the start has nothing to keep, and leaves the curve as it is.
+ */
+export function rebaseCurve(start: number, duration: number, timestamp: number, curve: VestingCurve = {}): VestingCurve {
+    if (timestamp <= start) {
+        return curve;
+    }
+    // Rounded up, like the contract
+    const [numerator, denominator] = vestedShare(start, duration, timestamp, curve);
+    const rebaseFraction = REBASE_FRACTION_SCALE.mul(numerator).add(denominator).sub(1).div(denominator);
+    return {...curve, rebaseTimestamp: timestamp, rebaseFraction};
+}
+
+/**
+ * Compares the vested and releasable amounts of an allocation at each timestamp, before and after changing the
+ * duration at changeTime, either in place like setDuration() or rebased like rebaseDuration().  Releasable amounts
+ * assume nothing more is released in the meantime.
+ */
+export function previewDurationChange(
+    totalAllocation: BigNumberish,
+    released: BigNumberish,
+    start: number,
+    duration: number,
+    curve: VestingCurve,
+    newDuration: number,
+    rebase: boolean,
+    changeTime: number,
+    timestamps: number[]
+): ReleasableChange[] {
+    const newCurve = rebase ? rebaseCurve(start, duration, changeTime, curve) : curve;
+    const releasable = (vested: BigNumber) => vested.gt(released) ? vested.sub(released) : BigNumber.from(0);
+    return timestamps.map(timestamp => {
+        const vestedBefore = vestedAmount(totalAllocation, start, duration, timestamp, curve);
+        const vestedAfter = vestedAmount(totalAllocation, start, newDuration, timestamp, newCurve);
+        return {timestamp, vestedBefore, vestedAfter, releasableBefore: releasable(vestedBefore), releasableAfter: releasable(vestedAfter)};
+    });
+}
+
+/**
+ * Splits an amount between beneficiaries in proportion to their shares, the way the contract splits a release.  Each
+ * part is rounded down, and whatever that leaves over goes to the first beneficiary.
+ */
+export function splitByShares(amount: BigNumberish, shares: BigNumberish[]): BigNumber[] {
+    const total = shares.reduce<BigNumber>((sum, share) => sum.add(share), BigNumber.from(0));
+    if (shares.length === 0 || total.isZero()) {
+        throw new InvalidArgumentError("shares", "Invalid shares: every beneficiary needs a share greater than zero");
+    }
+    const amounts = shares.map(share => BigNumber.from(amount).mul(share).div(total));
+    const distributed = amounts.reduce((sum, part) => sum.add(part), BigNumber.from(0));
+    amounts[0] = amounts[0].add(BigNumber.from(amount).sub(distributed));
+    return amounts;
+}
+
+/**
+ * Adds whole calendar months (in UTC) to a timestamp.  If the day of the month does not exist in the target month,
+ * the result is clamped to the last day of that month, e.g. Jan 31 + 1 month = Feb 28 (or Feb 29).
+ */
+export function addMonths(timestamp: number, months: number): number {
+    const date = new Date(timestamp * 1000);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + months;
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const day = Math.min(date.getUTCDate(), daysInMonth);
+    const time = date.getTime() % (ONE_DAY_IN_SECONDS * 1000);
+    return (Date.UTC(year, month, day) + time) / 1000;
+}
+
+/**
+ * Returns the timestamp at the end of the n-th period after start.  Periods are always counted from start, so monthly
+ * periods don't drift when a month is clamped.
+ */
+export function periodEnd(start: number, granularity: Granularity, n: number): number {
+    switch (granularity) {
+        case "daily":
+            return start + n * ONE_DAY_IN_SECONDS;
+        case "weekly":
+            return start + n * 7 * ONE_DAY_IN_SECONDS;
+        case "monthly":
+            return addMonths(start, n);
+        case "quarterly":
+            return addMonths(start, 3 * n);
+    }
+}
+
+/**
+ * Projects the cumulative and per-period vested amounts of a vesting schedule, with the final period ending at
+ * start + duration.  Amounts match the contract's vestedAmount() exactly, in integer wei.
+ */
+export function projectSchedule(totalAllocation: BigNumberish, start: number, duration: number, granularity: Granularity, curve: VestingCurve = {}): ScheduleRow[] {
+    if (!granularities.includes(granularity)) {
+        throw new InvalidArgumentError("granularity", `Invalid granularity: must be one of ${granularities.join(", ")}`);
+    }
+    if (duration <= 0) {
+        throw new InvalidArgumentError("duration", "Invalid duration: must be greater than zero");
+    }
+    const end = start + duration;
+    const rows: ScheduleRow[] = [];
+    let previous = BigNumber.from(0);
+    for (let period = 1, periodStart = start; periodStart < end; period++) {
+        const periodEndTime = Math.min(periodEnd(start, granularity, period), end);
+        const vested = vestedAmount(totalAllocation, start, duration, periodEndTime, curve);
+        rows.push({period, periodStart, periodEnd: periodEndTime, vested, vestedInPeriod: vested.sub(previous)});
+        previous = vested;
+        periodStart = periodEndTime;
+    }
+    return rows;
+}
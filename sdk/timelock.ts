@@ -0,0 +1,155 @@
+import {ethers, providers} from "ethers";
+import {PalmEcosystemVestingWallet, PalmEcosystemVestingWallet__factory} from "./contracts";
+import {ChangeNotQueuedError, ChangeNotReadyError, InvalidArgumentError, VestingWalletError} from "./errors";
+import {DEFAULT_CHUNK_SIZE, scanLogs} from "./logs";
+import {TransactionOptions} from "./transactions";
+import {AdminCall, AdminResult, assertOwner, assertPaused, connectVestingWallet, sendAdminCall} from "./wallet";
+
+// The owner-only calls that can be queued.  All but setMinDelay require the wallet to be paused when they execute.
+export const QUEUEABLE_METHODS = ["setBeneficiary", "setShares", "setDuration", "rebaseDuration", "setMinDelay"] as const;
+
+export type QueueableMethod = typeof QUEUEABLE_METHODS[number];
+export type DecodedChange = { method: QueueableMethod, args: string[] };
+export type QueuedChange = DecodedChange & {
+    // The hash of the call data, which identifies the change on chain
+    id: string,
+    data: string,
+    readyTimestamp: number,
+    ready: boolean
+};
+export type QueueResult = AdminResult & { id: string, readyTimestamp: number };
+
+const walletInterface: ethers.utils.Interface = PalmEcosystemVestingWallet__factory.createInterface();
+
+/**
+ * Encodes a call to one of the QUEUEABLE_METHODS, as queueChange() takes it.
+ */
+export function encodeChange(method: QueueableMethod, args: unknown[]): string {
+    if (!QUEUEABLE_METHODS.includes(method)) {
+        throw new InvalidArgumentError("method", `Change cannot be queued: ${method}`);
+    }
+    return walletInterface.encodeFunctionData(method, args);
+}
+
+/**
+ * Decodes the call data of a queued change.
+ */
+export function decodeChange(data: string): DecodedChange {
+    const {name, args} = walletInterface.parseTransaction({data});
+    // Lists, such as the beneficiaries and shares of setShares(), are kept readable as [a, b]
+    return {method: name as QueueableMethod, args: args.map(arg => Array.isArray(arg) ? `[${arg.join(", ")}]` : arg.toString())};
+}
+
+/**
+ * Works out the id the contract gives a queued change: the hash of its call data.
+ */
+export function changeId(data: string): string {
+    return ethers.utils.keccak256(data);
+}
+
+/**
+ * Lists the changes queued on a wallet that have not been executed or cancelled yet, in the order they were queued.
+ * Only events from fromBlock on are searched, e.g. the block the wallet was deployed in, chunkSize blocks at a time.
+ */
+export async function getQueuedChanges(provider: providers.Provider, address: string, fromBlock = 0, chunkSize = DEFAULT_CHUNK_SIZE): Promise<QueuedChange[]> {
+    const contract = connectVestingWallet(address, provider);
+    const {number: toBlock, timestamp} = await provider.getBlock("latest");
+
+    // A change that was cancelled and queued again keeps its id, so only its last event counts
+    const events = new Map<string, ethers.utils.LogDescription>();
+    const filter = {address, topics: [walletInterface.getEventTopic("ChangeQueued")]};
+    await scanLogs(provider, filter, fromBlock, toBlock, chunkSize, logs => {
+        for (const event of logs.map(log => walletInterface.parseLog(log))) {
+            events.delete(event.args.id);
+            events.set(event.args.id, event);
+        }
+    });
+
+    const changes: QueuedChange[] = [];
+    for (const [id, event] of events) {
+        const readyTimestamp = (await contract.queuedChange(id)).toNumber();
+        if (readyTimestamp === 0 || readyTimestamp !== event.args.readyTimestamp.toNumber()) {
+            continue;
+        }
+        changes.push({id, data: event.args.data, ...decodeChange(event.args.data), readyTimestamp, ready: timestamp >= readyTimestamp});
+    }
+    return changes;
+}
+
+/**
+ * Describes a call for logs and errors, e.g. setShares([0x..., 0x...], [3, 1]).
+ */
+export function describeChange({method, args}: { method: string, args: unknown[] }): string {
+    return `${method}(${args.map(arg => Array.isArray(arg) ? `[${arg.join(", ")}]` : arg).join(", ")})`;
+}
+
+/**
+ * Checks that a change is not queued on the wallet yet, and returns the call that queues it.
+ */
+export async function prepareQueueChange(wallet: PalmEcosystemVestingWallet, method: QueueableMethod, args: unknown[]): Promise<AdminCall> {
+    const data = encodeChange(method, args);
+    const id = changeId(data);
+    if (!(await wallet.queuedChange(id)).isZero()) {
+        throw new VestingWalletError(`${describeChange({method, args})} is already queued on vesting contract ${wallet.address} with id ${id}`);
+    }
+    return {method: "queueChange", args: [data]};
+}
+
+/**
+ * Queues a change to the schedule of the wallet, which can be executed with executeChange() once the wallet's minimum
+ * delay has passed.  The change itself is only checked when it is executed.
+ */
+export async function queueChange(wallet: PalmEcosystemVestingWallet, method: QueueableMethod, args: unknown[], options: TransactionOptions = {}): Promise<QueueResult> {
+    await assertOwner(wallet);
+    const result = await sendAdminCall(wallet, await prepareQueueChange(wallet, method, args), options);
+    const queued = result.events.find(({name}) => name === "ChangeQueued");
+    return {...result, id: queued?.args.id ?? changeId(encodeChange(method, args)), readyTimestamp: Number(queued?.args.readyTimestamp)};
+}
+
+/**
+ * Checks that a change, given its call data, is queued on the wallet and its minimum delay has passed, and returns the
+ * call that executes it.  Changes to the beneficiaries or the duration require the wallet to be paused by the time the
+ * call is sent.
+ */
+export async function prepareExecuteChange(wallet: PalmEcosystemVestingWallet, data: string): Promise<AdminCall> {
+    const id = changeId(data);
+    const readyTimestamp = (await wallet.queuedChange(id)).toNumber();
+    if (readyTimestamp === 0) {
+        throw new ChangeNotQueuedError(wallet.address, id);
+    }
+    if ((await wallet.provider.getBlock("latest")).timestamp < readyTimestamp) {
+        throw new ChangeNotReadyError(wallet.address, id, readyTimestamp);
+    }
+    return {method: "executeChange", args: [data]};
+}
+
+/**
+ * Executes a queued change, given its call data, once its minimum delay has passed.  Changes to the beneficiaries or the
+ * duration require the wallet to be paused.
+ */
+export async function executeChange(wallet: PalmEcosystemVestingWallet, data: string, options: TransactionOptions = {}): Promise<AdminResult> {
+    await assertOwner(wallet);
+    const call = await prepareExecuteChange(wallet, data);
+    if (decodeChange(data).method !== "setMinDelay") {
+        await assertPaused(wallet);
+    }
+    return sendAdminCall(wallet, call, options);
+}
+
+/**
+ * Checks that a change, given its id, is queued on the wallet, and returns the call that cancels it.
+ */
+export async function prepareCancelChange(wallet: PalmEcosystemVestingWallet, id: string): Promise<AdminCall> {
+    if ((await wallet.queuedChange(id)).isZero()) {
+        throw new ChangeNotQueuedError(wallet.address, id);
+    }
+    return {method: "cancelChange", args: [id]};
+}
+
+/**
+ * Cancels a queued change, given its id.
+ */
+export async function cancelChange(wallet: PalmEcosystemVestingWallet, id: string, options: TransactionOptions = {}): Promise<AdminResult> {
+    await assertOwner(wallet);
+    return sendAdminCall(wallet, await prepareCancelChange(wallet, id), options);
+}
@@ -0,0 +1,195 @@
+import {BigNumber, ethers, providers, Signer} from "ethers";
+import {InvalidArgumentError, TransactionRevertedError, TransactionTimeoutError} from "./errors";
+import {GasCost, receiptGasCost} from "./gas";
+
+export const DEFAULT_CONFIRMATIONS = 1;
+export const DEFAULT_TIMEOUT = 300;
+export const DEFAULT_MAX_REPLACEMENTS = 3;
+// Nodes only accept a replacement paying at least 10% more than the transaction it replaces
+export const MIN_FEE_BUMP = 10;
+
+export type TransactionOptions = {
+    // The number of blocks the transaction must be included in, counting the one it was mined in
+    confirmations?: number,
+    // How many seconds to wait for a transaction to be mined before replacing it or giving up, 0 to wait forever
+    timeout?: number,
+    // The percentage to raise the fees by when replacing a transaction that timed out, unset to never replace
+    feeBump?: number,
+    maxReplacements?: number,
+    // A fixed gas price to pay, instead of the fees suggested by the node
+    gasPrice?: BigNumber,
+    // How many milliseconds to wait between checks for a receipt
+    pollingInterval?: number,
+    nonces?: NonceManager,
+    // Called as soon as the transaction, or a replacement for it, has been broadcast, before waiting for it to be mined
+    onSent?: (tx: providers.TransactionResponse) => void | Promise<void>
+};
+export type SentTransaction = { tx: providers.TransactionResponse, receipt: providers.TransactionReceipt, gasCost: GasCost };
+
+const revertReasonPatterns = [/reverted with reason string '(.*)'/, /execution reverted: (.*?)"?$/, /reverted with custom error '(.*)'/];
+
+/**
+ * Hands out nonces for the transactions of one signer, so that the transactions of a sequential batch don't depend on
+ * the node's count of pending transactions, which can lag behind on load balanced endpoints.  A transaction sent from
+ * the same account outside the manager is picked up from the node's count.
+ */
+export class NonceManager {
+    private nextNonce = 0;
+
+    constructor(readonly signer: Signer) {
+    }
+
+    async next(): Promise<number> {
+        return Math.max(this.nextNonce, await this.signer.getTransactionCount("pending"));
+    }
+
+    /**
+     * Records that a transaction has been broadcast with a nonce, which can now only be reused to replace it.
+     */
+    used(nonce: number) {
+        this.nextNonce = Math.max(this.nextNonce, nonce + 1);
+    }
+}
+
+// The fields of the errors ethers and the nodes throw that we look at, each of which may be missing
+type ProviderError = { message?: string, code?: string, data?: unknown, error?: unknown };
+
+function asProviderError(error: unknown): ProviderError | undefined {
+    return typeof error === "object" && error !== null ? error as ProviderError : undefined;
+}
+
+/**
+ * Digs the revert reason out of an error thrown by a provider, which ethers and the various nodes nest differently.
+ */
+export function revertReason(error: unknown): string | undefined {
+    for (let e = asProviderError(error); e; e = asProviderError(e.error)) {
+        const data = typeof e.data === "string" ? e.data : asProviderError(e.data)?.data;
+        if (typeof data === "string" && data.startsWith("0x08c379a0")) {
+            return ethers.utils.defaultAbiCoder.decode(["string"], "0x" + data.slice(10))[0];
+        }
+        for (const pattern of revertReasonPatterns) {
+            const match = pattern.exec(e.message ?? "");
+            if (match) {
+                return match[1];
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Checks the options up front, so that a task can fail before it sends its first transaction.
+ */
+export function validateTransactionOptions(options: TransactionOptions) {
+    const {confirmations = DEFAULT_CONFIRMATIONS, timeout = DEFAULT_TIMEOUT, feeBump, maxReplacements = DEFAULT_MAX_REPLACEMENTS} = options;
+    if (!Number.isInteger(confirmations) || confirmations < 1) {
+        throw new InvalidArgumentError("confirmations", "Invalid confirmations: must be at least 1");
+    }
+    if (!(timeout >= 0)) {
+        throw new InvalidArgumentError("timeout", "Invalid timeout: must not be negative");
+    }
+    if (feeBump !== undefined && !(feeBump >= MIN_FEE_BUMP)) {
+        throw new InvalidArgumentError("feeBump", `Invalid feeBump: must be at least ${MIN_FEE_BUMP} percent, or nodes reject the replacement`);
+    }
+    if (!Number.isInteger(maxReplacements) || maxReplacements < 0) {
+        throw new InvalidArgumentError("maxReplacements", "Invalid maxReplacements: must not be negative");
+    }
+}
+
+function bumpFees(tx: providers.TransactionRequest, feeBump: number): providers.TransactionRequest {
+    const bumped = {...tx};
+    for (const fee of ["gasPrice", "maxFeePerGas", "maxPriorityFeePerGas"] as const) {
+        const value = tx[fee];
+        if (value !== undefined) {
+            bumped[fee] = BigNumber.from(value).mul(100 + feeBump).add(99).div(100);
+        }
+    }
+    return bumped;
+}
+
+async function sleep(milliseconds: number) {
+    await new Promise(resolve => setTimeout(resolve, milliseconds));
+}
+
+/**
+ * Waits until one of the transactions sent at a nonce has been mined with enough confirmations.  Returns undefined if
+ * none of them has been mined by the deadline; once one has, we wait for its confirmations however long they take.
+ */
+async function waitForReceipt(provider: providers.Provider, hashes: string[], confirmations: number, deadline: number, pollingInterval: number): Promise<providers.TransactionReceipt | undefined> {
+    for (;;) {
+        for (const hash of hashes) {
+            const receipt = await provider.getTransactionReceipt(hash);
+            if (receipt?.blockNumber) {
+                if (await provider.getBlockNumber() - receipt.blockNumber + 1 >= confirmations) {
+                    return receipt;
+                }
+                deadline = Infinity;
+            }
+        }
+        if (Date.now() >= deadline) {
+            return undefined;
+        }
+        await sleep(pollingInterval);
+    }
+}
+
+/**
+ * Sends a transaction and waits for it to be confirmed, failing with the revert reason if it reverts.  A transaction
+ * that isn't mined in time is replaced at the same nonce with higher fees if a feeBump is given, otherwise we give up
+ * waiting with a TransactionTimeoutError.
+ */
+export async function sendTransaction(signer: Signer, request: providers.TransactionRequest, options: TransactionOptions = {}): Promise<SentTransaction> {
+    validateTransactionOptions(options);
+    const {confirmations = DEFAULT_CONFIRMATIONS, timeout = DEFAULT_TIMEOUT, feeBump, maxReplacements = DEFAULT_MAX_REPLACEMENTS, pollingInterval = 1000} = options;
+    const nonces = options.nonces ?? new NonceManager(signer);
+    const provider = signer.provider as providers.Provider;
+
+    // A transaction that would revert fails when its gas is estimated, or when it's sent to a node that executes it
+    // straight away
+    let populated: providers.TransactionRequest;
+    const sent: providers.TransactionResponse[] = [];
+    try {
+        populated = await signer.populateTransaction({...request, ...(options.gasPrice ? {gasPrice: options.gasPrice} : {}), nonce: await nonces.next()});
+        sent.push(await signer.sendTransaction(populated));
+    } catch (e) {
+        const reason = revertReason(e);
+        throw reason ? new TransactionRevertedError(reason) : e;
+    }
+    nonces.used(BigNumber.from(populated.nonce).toNumber());
+    await options.onSent?.(sent[0]);
+    let receipt: providers.TransactionReceipt | undefined;
+    for (;;) {
+        const deadline = timeout > 0 ? Date.now() + timeout * 1000 : Infinity;
+        receipt = await waitForReceipt(provider, sent.map(tx => tx.hash), confirmations, deadline, pollingInterval);
+        if (receipt) {
+            break;
+        }
+        if (feeBump === undefined || sent.length > maxReplacements) {
+            throw new TransactionTimeoutError(sent.map(tx => tx.hash), timeout);
+        }
+        populated = bumpFees(populated, feeBump);
+        try {
+            sent.push(await signer.sendTransaction(populated));
+            await options.onSent?.(sent[sent.length - 1]);
+        } catch (e) {
+            // The transaction we meant to replace may have been mined in the meantime, in which case we find it next time
+            if (asProviderError(e)?.code !== ethers.errors.NONCE_EXPIRED && !/nonce too low|already known/i.test((e as Error).message)) {
+                throw e;
+            }
+        }
+    }
+
+    const tx = sent.find(({hash}) => hash === receipt?.transactionHash) as providers.TransactionResponse;
+    if (receipt.status === 0) {
+        // Replay the transaction at the block it was mined in to find out why it reverted
+        let reason: string | undefined;
+        try {
+            // Depending on the node, ethers either throws or returns the revert data as the result
+            reason = revertReason({data: await provider.call({...request, from: tx.from}, receipt.blockNumber)});
+        } catch (e) {
+            reason = revertReason(e);
+        }
+        throw new TransactionRevertedError(reason, receipt.transactionHash);
+    }
+    return {tx, receipt, gasCost: receiptGasCost(tx, receipt)};
+}
@@ -0,0 +1,298 @@
+import {BigNumber, ethers} from "ethers";
+import {InvalidArgumentError} from "./errors";
+import {addMonths} from "./schedule";
+
+export const timestampFormat = new RegExp(/^(\d{4})-(\d{1,2})-(\d{1,2})(T(\d{2}):(\d{2})(:(\d{2}))?(Z|[+-]\d{2}(:?\d{2})?)?)?$/);
+export const unixTimestampFormat = new RegExp(/^\d+$/);
+export const durationFormat = new RegExp(/^(\d+(y|mo|w|d|h|s))+$/);
+export const intervalFormat = new RegExp(/^(\d+(w|d|h|s))+$/);
+export const addressFormat = new RegExp(/^(0x)?[0-9a-fA-F]{40}$/);
+export const saltFormat = new RegExp(/^0x[0-9a-fA-F]{64}$/);
+const amountFormat = new RegExp(/^(\d+(\.\d+)?)(\s+(\S+))?$/);
+
+const ONE_HOUR_IN_SECONDS = 60 * 60;
+const ONE_DAY_IN_SECONDS = 24 * ONE_HOUR_IN_SECONDS;
+
+// The contract caps the beneficiaries so that a release can always be paid out within the block gas limit
+export const MAX_BENEFICIARIES = 20;
+
+export type BeneficiaryShare = { beneficiary: string, shares: number };
+export type ScheduleArgs = {
+    startDate: string,
+    endDate?: string,
+    duration?: string,
+    cliffDate?: string,
+    unlockInterval?: string
+};
+export type DeploymentArgs = ScheduleArgs & {
+    beneficiary: string,
+    finalOwner?: string
+};
+export type ScheduleParams = {
+    startDate: Date,
+    endDate: Date,
+    startTime: number,
+    duration: number,
+    // The cliff is the startTime, and the unlockInterval 0, for a linear schedule
+    cliff: number,
+    unlockInterval: number
+};
+export type DeploymentParams = ScheduleParams & {
+    beneficiary: string,
+    finalOwner?: string
+};
+
+/**
+ * Parses a 20 byte hex address into its checksummed form.  The name is used in the error message, e.g. "beneficiary".
+ */
+export function parseAddress(address: string, name: string): string {
+    if (!addressFormat.test(address)) {
+        throw new InvalidArgumentError(name, `Invalid ${name} address supplied: expecting a 20 byte hex string`);
+    }
+    return ethers.utils.getAddress(address);
+}
+
+/**
+ * Parses a point in time into unix seconds.  Accepts a date formatted YYYY-MM-DD (midnight UTC on that day), an
+ * ISO-8601 timestamp with a UTC offset such as 2023-01-01T09:00:00+02:00, or unix seconds.  Dates and times that don't
+ * exist on the calendar, such as 2023-02-31 or 25:00, are rejected rather than rolled over.
+ */
+export function parseTimestamp(value: string, paramName: string): number {
+    const text = value.toString().trim();
+    if (unixTimestampFormat.test(text)) {
+        return Number(text);
+    }
+    const match = timestampFormat.exec(text);
+    if (!match) {
+        throw new InvalidArgumentError(paramName, `Invalid ${paramName}: must be formatted YYYY-MM-DD, as an ISO-8601 timestamp with a UTC offset, or as unix seconds`);
+    }
+    const [, year, month, day, time, hours = "0", minutes = "0", , seconds = "0", offset] = match;
+    if (time && !offset) {
+        throw new InvalidArgumentError(paramName, `Invalid ${paramName}: ${text} must include a UTC offset, e.g. Z or +02:00`);
+    }
+
+    // Date.UTC() silently rolls invalid values over into the next month/day, so check each field against the calendar
+    const daysInMonth = new Date(Date.UTC(Number(year), Number(month), 0)).getUTCDate();
+    if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > daysInMonth) {
+        throw new InvalidArgumentError(paramName, `Invalid ${paramName}: ${text} is not a calendar date`);
+    }
+    if (Number(hours) > 23 || Number(minutes) > 59 || Number(seconds) > 59) {
+        throw new InvalidArgumentError(paramName, `Invalid ${paramName}: ${text} is not a valid time of day`);
+    }
+    let offsetSeconds = 0;
+    if (offset && offset !== "Z") {
+        const [, sign, offsetHours, offsetMinutes = "0"] = /^([+-])(\d{2}):?(\d{2})?$/.exec(offset) as RegExpExecArray;
+        if (Number(offsetHours) > 23 || Number(offsetMinutes) > 59) {
+            throw new InvalidArgumentError(paramName, `Invalid ${paramName}: ${offset} is not a valid UTC offset`);
+        }
+        offsetSeconds = (sign === "-" ? -1 : 1) * (Number(offsetHours) * ONE_HOUR_IN_SECONDS + Number(offsetMinutes) * 60);
+    }
+
+    const utc = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)) / 1000;
+    return utc - offsetSeconds;
+}
+
+/**
+ * Parses a duration expression such as "4y", "48mo", "1461d" or "1y6mo" into seconds from start.  Years and months
+ * are calendar arithmetic from start (clamped to the end of shorter months, see addMonths()), while weeks, days,
+ * hours and seconds are fixed lengths.
+ */
+export function parseDuration(expression: string, start: number, paramName = "duration"): number {
+    const text = expression.toString().trim();
+    if (!durationFormat.test(text)) {
+        throw new InvalidArgumentError(paramName, `Invalid ${paramName}: must be a number of years (y), months (mo), weeks (w), days (d), hours (h) or seconds (s), e.g. 4y, 48mo or 1461d`);
+    }
+    let end = start;
+    for (const [, amount, unit] of text.matchAll(/(\d+)(y|mo|w|d|h|s)/g)) {
+        const n = Number(amount);
+        switch (unit) {
+            case "y":
+                end = addMonths(end, 12 * n);
+                break;
+            case "mo":
+                end = addMonths(end, n);
+                break;
+            case "w":
+                end += 7 * n * ONE_DAY_IN_SECONDS;
+                break;
+            case "d":
+                end += n * ONE_DAY_IN_SECONDS;
+                break;
+            case "h":
+                end += n * ONE_HOUR_IN_SECONDS;
+                break;
+            case "s":
+                end += n;
+                break;
+        }
+    }
+    if (end <= start) {
+        throw new InvalidArgumentError(paramName, `Invalid ${paramName}: must be greater than zero`);
+    }
+    return end - start;
+}
+
+/**
+ * Parses a length of time the contract counts in seconds.  Only fixed lengths are accepted: weeks, days, hours or
+ * seconds, e.g. 30d or 13w.
+ */
+function parseFixedInterval(expression: string, paramName: string): number {
+    const text = expression.toString().trim();
+    if (!intervalFormat.test(text)) {
+        throw new InvalidArgumentError(paramName, `Invalid ${paramName}: must be a fixed number of weeks (w), days (d), hours (h) or seconds (s), e.g. 30d or 13w, since months and years vary in length`);
+    }
+    return parseDuration(text, 0, paramName);
+}
+
+/**
+ * Parses the interval between the unlock steps of a stepped schedule into seconds.  The contract steps by a fixed
+ * number of seconds, so only fixed lengths are accepted, see parseFixedInterval().
+ */
+export function parseUnlockInterval(expression: string): number {
+    return parseFixedInterval(expression, "unlockInterval");
+}
+
+/**
+ * Parses the minimum delay between queueing a change to a vesting contract and executing it into seconds, in the same
+ * fixed units as an unlock interval.  A delay of 0 lets the owner change the schedule directly again.
+ */
+export function parseMinDelay(expression: string): number {
+    return expression.toString().trim() === "0" ? 0 : parseFixedInterval(expression, "minDelay");
+}
+
+/**
+ * Formats a unix timestamp (in seconds) as a UTC date string.
+ */
+export function formatDate(timestamp: number): string {
+    return new Date(timestamp * 1000).toUTCString();
+}
+
+/**
+ * Validates raw deployment arguments (as supplied on the command line or in a manifest) and converts them into the
+ * values expected by the PalmEcosystemVestingWallet constructor.
+ */
+export function parseDeploymentArgs(args: DeploymentArgs): DeploymentParams {
+    const beneficiary = parseAddress(args.beneficiary, "beneficiary");
+    const finalOwner = args.finalOwner ? parseAddress(args.finalOwner, "final owner") : undefined;
+    return {beneficiary, finalOwner, ...parseScheduleArgs(args)};
+}
+
+/**
+ * Validates the dates and intervals of a vesting schedule, as deploy takes them, and converts them into unix seconds.
+ */
+export function parseScheduleArgs(args: ScheduleArgs): ScheduleParams {
+    const {startDate:start, endDate:end, duration:durationExpression, cliffDate, unlockInterval: intervalExpression} = args;
+
+    // Extra validation
+    if (!end && !durationExpression) {
+        throw new InvalidArgumentError("endDate", "Supply either an endDate or a duration");
+    }
+    if (end && durationExpression) {
+        throw new InvalidArgumentError("duration", "Supply either an endDate or a duration, but not both");
+    }
+    const startTime = parseTimestamp(start, "startDate");
+    const endTime = end ? parseTimestamp(end, "endDate") : startTime + parseDuration(durationExpression as string, startTime);
+
+    // More validation
+    if (startTime > endTime) {
+        throw new InvalidArgumentError("endDate", "The supplied startDate must be before the endDate");
+    }
+    const cliff = cliffDate ? parseTimestamp(cliffDate, "cliffDate") : startTime;
+    if (cliff < startTime || cliff > endTime) {
+        throw new InvalidArgumentError("cliffDate", "The supplied cliffDate must be between the startDate and the endDate");
+    }
+    const unlockInterval = intervalExpression ? parseUnlockInterval(intervalExpression) : 0;
+    if (unlockInterval > endTime - startTime) {
+        throw new InvalidArgumentError("unlockInterval", "The supplied unlockInterval must not be longer than the vesting duration");
+    }
+
+    // Calculate deployment arguments
+    const startDate = new Date(startTime * 1000);
+    const endDate = new Date(endTime * 1000);
+    const duration = endTime - startTime;
+
+    return {startDate, endDate, startTime, duration, cliff, unlockInterval};
+}
+
+/**
+ * Parses an amount in human units, e.g. "1000" or "1000 PALM", into the smallest unit of the asset.  If a unit is
+ * given it must match the asset's symbol.
+ */
+export function parseAmount(amount: string, symbol: string, decimals: number): BigNumber {
+    const match = amountFormat.exec(amount.trim());
+    if (!match) {
+        throw new InvalidArgumentError("amount", `Invalid amount: ${amount}`);
+    }
+    const [, value, , , unit] = match;
+    if (unit && unit.toUpperCase() !== symbol.toUpperCase()) {
+        throw new InvalidArgumentError("amount", `Invalid amount: expecting an amount of ${symbol}, not ${unit}`);
+    }
+    let parsed: BigNumber;
+    try {
+        parsed = ethers.utils.parseUnits(value, decimals);
+    } catch (e) {
+        throw new InvalidArgumentError("amount", `Invalid amount: ${symbol} has at most ${decimals} decimals`);
+    }
+    if (parsed.isZero()) {
+        throw new InvalidArgumentError("amount", "Invalid amount: must be greater than zero");
+    }
+    return parsed;
+}
+
+/**
+ * Parses a comma separated list of token addresses.
+ */
+export function parseTokenList(tokens?: string): string[] {
+    if (!tokens) {
+        return [];
+    }
+    return tokens.split(",").map(token => token.trim()).map(token => {
+        if (!addressFormat.test(token)) {
+            throw new InvalidArgumentError("token", `Invalid token address supplied: ${token}`);
+        }
+        return ethers.utils.getAddress(token);
+    });
+}
+
+/**
+ * Parses the weighted beneficiaries of a wallet, e.g. the rows of a shares file.  Shares are positive whole numbers,
+ * relative to each other rather than percentages, and a wallet has at most MAX_BENEFICIARIES of them.
+ */
+export function parseShares(rows: { beneficiary: string, shares: string | number }[]): BeneficiaryShare[] {
+    if (rows.length === 0) {
+        throw new InvalidArgumentError("shares", "Invalid shares: every beneficiary needs a share, but none were supplied");
+    }
+    if (rows.length > MAX_BENEFICIARIES) {
+        throw new InvalidArgumentError("shares", `Invalid shares: a vesting contract has at most ${MAX_BENEFICIARIES} beneficiaries`);
+    }
+    const parsed: BeneficiaryShare[] = [];
+    for (const row of rows) {
+        const beneficiary = parseAddress(String(row.beneficiary ?? "").trim(), "beneficiary");
+        if (beneficiary === ethers.constants.AddressZero) {
+            throw new InvalidArgumentError("shares", "Invalid shares: beneficiary is zero address");
+        }
+        if (parsed.some(share => share.beneficiary === beneficiary)) {
+            throw new InvalidArgumentError("shares", `Invalid shares: duplicate beneficiary ${beneficiary}`);
+        }
+        const shares = String(row.shares ?? "").trim();
+        if (!unixTimestampFormat.test(shares) || Number(shares) === 0 || !Number.isSafeInteger(Number(shares))) {
+            throw new InvalidArgumentError("shares", `Invalid shares for beneficiary ${beneficiary}: must be a whole number greater than zero`);
+        }
+        parsed.push({beneficiary, shares: Number(shares)});
+    }
+    return parsed;
+}
+
+/**
+ * Parses the salt a wallet is created with by the factory.  A 32 byte hex string is used as is, while anything else,
+ * e.g. a grant reference, is hashed into one.
+ */
+export function parseSalt(salt: string): string {
+    if (saltFormat.test(salt)) {
+        return salt.toLowerCase();
+    }
+    if (salt.trim() === "") {
+        throw new InvalidArgumentError("salt", "Invalid salt: must not be empty");
+    }
+    return ethers.utils.id(salt);
+}
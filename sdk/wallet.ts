@@ -0,0 +1,500 @@
+import {BigNumber, ethers, PopulatedTransaction, providers, Signer} from "ethers";
+import {PalmEcosystemVestingWallet, PalmEcosystemVestingWallet__factory} from "./contracts";
+import {
+    ChangeMustBeQueuedError,
+    InvalidArgumentError,
+    NothingReleasableError,
+    NotOwnerError,
+    NotOwnerOrPauserError,
+    NotPendingOwnerError,
+    VestingWalletError,
+    WalletNotPausedError,
+    WalletPausedError
+} from "./errors";
+import {BeneficiaryShare, parseAddress, parseShares} from "./validation";
+import {splitByShares} from "./schedule";
+import {GasCost} from "./gas";
+import {sendTransaction, TransactionOptions} from "./transactions";
+
+const erc20Abi = [
+    "function symbol() view returns (string)",
+    "function decimals() view returns (uint8)",
+    "function balanceOf(address) view returns (uint256)"
+];
+
+// Without a cliff (or with the cliff at the start) and unlock interval, vesting is linear from the start
+export type VestingWalletConstructorArgs = { beneficiary: string, startTime: number, duration: number, cliff?: number, unlockInterval?: number };
+export type EmittedEvent = { name: string, args: Record<string, string> };
+// A call to the wallet that has been checked but not sent yet, so it can also be estimated or handed to a multisig
+export type AdminCall = { method: string, args: unknown[] };
+export type AdminResult = { txHash: string, blockNumber: number, events: EmittedEvent[], gasCost: GasCost };
+export type Distribution = { beneficiary: string, amount: BigNumber };
+export type ReleaseResult = { token?: string, amount: BigNumber, distributions: Distribution[], txHash: string, gasCost: GasCost };
+export type RecipientStatus = BeneficiaryShare & { released: BigNumber, releasable: BigNumber };
+export type AssetStatus = {
+    token?: string,
+    symbol: string,
+    decimals: number,
+    balance: BigNumber,
+    released: BigNumber,
+    vested: BigNumber,
+    releasable: BigNumber,
+    percentVested: string,
+    // What each beneficiary has received so far, and its share of the releasable amount under the current shares
+    recipients: RecipientStatus[]
+};
+export type WalletStatus = {
+    address: string,
+    owner: string,
+    // The account ownership is being transferred to, the zero address if there is no pending transfer
+    pendingOwner: string,
+    // The account that can pause the wallet besides the owner, the zero address if there is none
+    pauser: string,
+    paused: boolean,
+    // The first of the beneficiaries, the only one unless shares have been set
+    beneficiary: string,
+    beneficiaries: BeneficiaryShare[],
+    start: number,
+    duration: number,
+    end: number,
+    cliff: number,
+    unlockInterval: number,
+    // When the duration was last rebased, and the share vested then out of REBASE_FRACTION_SCALE, both 0 if never
+    rebaseTimestamp: number,
+    rebaseFraction: BigNumber,
+    // How long a change to the schedule must be queued before it can be executed, 0 if it can be changed directly
+    minDelay: number,
+    timestamp: number,
+    assets: AssetStatus[]
+};
+
+/**
+ * Connects to a deployed PalmEcosystemVestingWallet.  Connect a signer to send transactions, or a provider to only read.
+ */
+export function connectVestingWallet(address: string, signerOrProvider: Signer | providers.Provider): PalmEcosystemVestingWallet {
+    return PalmEcosystemVestingWallet__factory.connect(address, signerOrProvider);
+}
+
+/**
+ * Lists the arguments of the PalmEcosystemVestingWallet constructor in order.
+ */
+export function constructorArguments(args: VestingWalletConstructorArgs): [string, number, number, number, number] {
+    const {beneficiary, startTime, duration, cliff = startTime, unlockInterval = 0} = args;
+    return [beneficiary, startTime, duration, cliff, unlockInterval];
+}
+
+/**
+ * Deploys a PalmEcosystemVestingWallet and waits for the deployment to be confirmed.  Ownership remains with the
+ * deployer.
+ */
+export async function deployVestingWallet(signer: Signer, args: VestingWalletConstructorArgs, options: TransactionOptions = {}): Promise<PalmEcosystemVestingWallet> {
+    const factory = new PalmEcosystemVestingWallet__factory(signer);
+    const {tx, receipt} = await sendTransaction(signer, factory.getDeployTransaction(...constructorArguments(args)), options);
+    const contract = factory.attach(receipt.contractAddress);
+    ethers.utils.defineReadOnly(contract, "deployTransaction", tx);
+
+    return contract;
+}
+
+/**
+ * Formats the vested share of an asset's total allocation (balance + released) as a percentage with 2 decimals.
+ */
+function percentVested(vested: BigNumber, total: BigNumber): string {
+    if (total.isZero()) {
+        return "0.00";
+    }
+    const basisPoints = vested.mul(10000).div(total).toNumber();
+    return (basisPoints / 100).toFixed(2);
+}
+
+function assetStatus(symbol: string, decimals: number, balance: BigNumber, released: BigNumber, vested: BigNumber, beneficiaries: BeneficiaryShare[], releasedTo: BigNumber[], token?: string): AssetStatus {
+    // The vested amount can drop below the released amount if the duration has been extended
+    const releasable = vested.gt(released) ? vested.sub(released) : BigNumber.from(0);
+    const split = splitByShares(releasable, beneficiaries.map(({shares}) => shares));
+    return {
+        ...(token ? {token} : {}),
+        symbol,
+        decimals,
+        balance,
+        released,
+        vested,
+        releasable,
+        percentVested: percentVested(vested, balance.add(released)),
+        recipients: beneficiaries.map((share, i) => ({...share, released: releasedTo[i], releasable: split[i]}))
+    };
+}
+
+/**
+ * Reads the configuration and vesting progress of a PalmEcosystemVestingWallet as of the latest block.
+ */
+export async function getWalletStatus(provider: providers.Provider, address: string, tokens: string[] = []): Promise<WalletStatus> {
+    const contract = connectVestingWallet(address, provider);
+    const {timestamp} = await provider.getBlock("latest");
+
+    const [owner, pendingOwner, pauser, paused, [accounts, shares], start, duration, cliff, unlockInterval, rebaseTimestamp, rebaseFraction, minDelay] = await Promise.all([
+        contract.owner(),
+        contract.pendingOwner(),
+        contract.pauser(),
+        contract.paused(),
+        contract.beneficiaries(),
+        contract.start(),
+        contract.duration(),
+        contract.cliff(),
+        contract.unlockInterval(),
+        contract.rebaseTimestamp(),
+        contract.rebaseFraction(),
+        contract.minDelay()
+    ]);
+    const beneficiaries = accounts.map((beneficiary, i) => ({beneficiary, shares: shares[i].toNumber()}));
+    const [balance, released, vested, releasedTo] = await Promise.all([
+        provider.getBalance(address),
+        contract["released()"](),
+        contract["vestedAmount(uint64)"](timestamp),
+        Promise.all(accounts.map(account => contract["releasedTo(address)"](account)))
+    ]);
+    const assets = [assetStatus("PALM", 18, balance, released, vested, beneficiaries, releasedTo)];
+
+    for (const token of tokens) {
+        const erc20 = new ethers.Contract(token, erc20Abi, provider);
+        const [symbol, decimals, tokenBalance, tokenReleased, tokenVested, tokenReleasedTo] = await Promise.all([
+            erc20.symbol(),
+            erc20.decimals(),
+            erc20.balanceOf(address),
+            contract["released(address)"](token),
+            contract["vestedAmount(address,uint64)"](token, timestamp),
+            Promise.all(accounts.map(account => contract["releasedTo(address,address)"](token, account)))
+        ]);
+        assets.push(assetStatus(symbol, decimals, tokenBalance, tokenReleased, tokenVested, beneficiaries, tokenReleasedTo, token));
+    }
+
+    return {
+        address,
+        owner,
+        pendingOwner,
+        pauser,
+        paused,
+        beneficiary: accounts[0],
+        beneficiaries,
+        start: start.toNumber(),
+        duration: duration.toNumber(),
+        end: start.add(duration).toNumber(),
+        cliff: cliff.toNumber(),
+        unlockInterval: unlockInterval.toNumber(),
+        rebaseTimestamp: rebaseTimestamp.toNumber(),
+        rebaseFraction,
+        minDelay: minDelay.toNumber(),
+        timestamp,
+        assets
+    };
+}
+
+/**
+ * Decodes the events emitted by the vesting contract in a transaction receipt.
+ */
+export function parseEvents(contract: ethers.BaseContract, receipt: providers.TransactionReceipt): EmittedEvent[] {
+    return receipt.logs
+        .filter(log => log.address === contract.address)
+        .map(log => contract.interface.parseLog(log))
+        .map(({name, eventFragment, args}) => ({
+            name,
+            args: Object.fromEntries(eventFragment.inputs.map((input, i) => [input.name, args[i].toString()]))
+        }));
+}
+
+/**
+ * Encodes a call to the wallet as a transaction, to send or estimate.
+ */
+export function populateAdminCall(wallet: PalmEcosystemVestingWallet, {method, args}: AdminCall): PopulatedTransaction {
+    const walletInterface: ethers.utils.Interface = wallet.interface;
+    return {to: wallet.address, data: walletInterface.encodeFunctionData(method, args)};
+}
+
+/**
+ * Sends a call to the wallet from the signer it is connected to, and decodes the events it emitted.
+ */
+export async function sendAdminCall(wallet: PalmEcosystemVestingWallet, call: AdminCall, options: TransactionOptions = {}): Promise<AdminResult> {
+    const {receipt, gasCost} = await sendTransaction(wallet.signer, populateAdminCall(wallet, call), options);
+    return {txHash: receipt.transactionHash, blockNumber: receipt.blockNumber, events: parseEvents(wallet, receipt), gasCost};
+}
+
+async function signerAddress(wallet: PalmEcosystemVestingWallet): Promise<string> {
+    if (!Signer.isSigner(wallet.signer)) {
+        throw new VestingWalletError(`Vesting contract ${wallet.address} must be connected to a signer to send transactions`);
+    }
+    return wallet.signer.getAddress();
+}
+
+/**
+ * Checks that the wallet is connected to a signer that owns it.
+ */
+export async function assertOwner(wallet: PalmEcosystemVestingWallet): Promise<void> {
+    const account = await signerAddress(wallet);
+    if (await wallet.owner() !== account) {
+        throw new NotOwnerError(wallet.address, account);
+    }
+}
+
+/**
+ * Checks that the wallet is paused, as it must be for its schedule to be changed.
+ */
+export async function assertPaused(wallet: PalmEcosystemVestingWallet): Promise<void> {
+    if (!await wallet.paused()) {
+        throw new WalletNotPausedError(wallet.address);
+    }
+}
+
+/**
+ * Checks that the schedule of the wallet can be changed directly, rather than through queueChange().
+ */
+export async function assertNoMinDelay(wallet: PalmEcosystemVestingWallet): Promise<void> {
+    const minDelay = (await wallet.minDelay()).toNumber();
+    if (minDelay > 0) {
+        throw new ChangeMustBeQueuedError(wallet.address, minDelay);
+    }
+}
+
+/**
+ * Checks that the wallet can be paused, and returns the call to pause it.
+ */
+export async function preparePause(wallet: PalmEcosystemVestingWallet): Promise<AdminCall> {
+    if (await wallet.paused()) {
+        throw new WalletPausedError(wallet.address);
+    }
+    return {method: "pause", args: []};
+}
+
+/**
+ * Pauses the wallet, blocking releases and allowing the schedule to be updated.  The wallet must be connected to its
+ * owner or its pauser.
+ */
+export async function pause(wallet: PalmEcosystemVestingWallet, options: TransactionOptions = {}): Promise<AdminResult> {
+    const account = await signerAddress(wallet);
+    if (await wallet.owner() !== account && await wallet.pauser() !== account) {
+        throw new NotOwnerOrPauserError(wallet.address, account);
+    }
+    return sendAdminCall(wallet, await preparePause(wallet), options);
+}
+
+/**
+ * Unpauses the wallet, allowing releases again.  Only the owner can unpause, even if the pauser paused it.
+ */
+export async function unpause(wallet: PalmEcosystemVestingWallet, options: TransactionOptions = {}): Promise<AdminResult> {
+    await assertOwner(wallet);
+    await assertPaused(wallet);
+    return sendAdminCall(wallet, {method: "unpause", args: []}, options);
+}
+
+/**
+ * Checks a new beneficiary for the wallet, and returns the call that sets it.  The wallet must be paused by the time
+ * the call is sent.
+ */
+export async function prepareSetBeneficiary(wallet: PalmEcosystemVestingWallet, beneficiary: string): Promise<AdminCall> {
+    const newBeneficiary = parseAddress(beneficiary, "beneficiary");
+    if (newBeneficiary === ethers.constants.AddressZero) {
+        throw new InvalidArgumentError("beneficiary", "Beneficiary is zero address");
+    }
+    await assertNoMinDelay(wallet);
+    // Replacing several beneficiaries with the first of them is a change
+    const [beneficiaries] = await wallet.beneficiaries();
+    if (beneficiaries.length === 1 && newBeneficiary === beneficiaries[0]) {
+        throw new InvalidArgumentError("beneficiary", "New beneficiary must differ from current beneficiary");
+    }
+    return {method: "setBeneficiary", args: [newBeneficiary]};
+}
+
+/**
+ * Updates the beneficiary of a paused wallet, replacing all its beneficiaries if it has several.  A wallet with a
+ * minimum delay only takes the change through queueChange().
+ */
+export async function setBeneficiary(wallet: PalmEcosystemVestingWallet, beneficiary: string, options: TransactionOptions = {}): Promise<AdminResult> {
+    await assertOwner(wallet);
+    const call = await prepareSetBeneficiary(wallet, beneficiary);
+    await assertPaused(wallet);
+    return sendAdminCall(wallet, call, options);
+}
+
+/**
+ * Checks new weighted beneficiaries for the wallet, and returns the call that sets them.  The wallet must be paused by
+ * the time the call is sent.
+ */
+export async function prepareSetShares(wallet: PalmEcosystemVestingWallet, shares: BeneficiaryShare[]): Promise<AdminCall> {
+    const parsed = parseShares(shares);
+    await assertNoMinDelay(wallet);
+    return {method: "setShares", args: [parsed.map(({beneficiary}) => beneficiary), parsed.map(({shares}) => shares)]};
+}
+
+/**
+ * Splits later releases of a paused wallet between a weighted set of beneficiaries, replacing the current ones.
+ * What has already been released stays with whoever received it.
+ */
+export async function setShares(wallet: PalmEcosystemVestingWallet, shares: BeneficiaryShare[], options: TransactionOptions = {}): Promise<AdminResult> {
+    await assertOwner(wallet);
+    const call = await prepareSetShares(wallet, shares);
+    await assertPaused(wallet);
+    return sendAdminCall(wallet, call, options);
+}
+
+/**
+ * Checks a new vesting duration (in seconds) for the wallet, and returns the call that sets it, or rebases it with
+ * rebase.  The wallet must be paused by the time the call is sent.
+ */
+export async function prepareSetDuration(wallet: PalmEcosystemVestingWallet, duration: number, rebase = false): Promise<AdminCall> {
+    if (!Number.isInteger(duration) || duration < 0) {
+        throw new InvalidArgumentError("duration", "Invalid duration: must not be negative");
+    }
+    await assertNoMinDelay(wallet);
+    if (duration === (await wallet.duration()).toNumber()) {
+        throw new InvalidArgumentError("duration", "New duration must differ from current duration");
+    }
+    return {method: rebase ? "rebaseDuration" : "setDuration", args: [duration]};
+}
+
+/**
+ * Updates the vesting duration (in seconds) of a paused wallet.
+ */
+export async function setDuration(wallet: PalmEcosystemVestingWallet, duration: number, options: TransactionOptions = {}): Promise<AdminResult> {
+    await assertOwner(wallet);
+    const call = await prepareSetDuration(wallet, duration);
+    await assertPaused(wallet);
+    return sendAdminCall(wallet, call, options);
+}
+
+/**
+ * Updates the vesting duration (in seconds) of a paused wallet, keeping what has vested so far and vesting the rest
+ * over the time left until the new end.  See rebaseCurve().
+ */
+export async function rebaseDuration(wallet: PalmEcosystemVestingWallet, duration: number, options: TransactionOptions = {}): Promise<AdminResult> {
+    await assertOwner(wallet);
+    const call = await prepareSetDuration(wallet, duration, true);
+    await assertPaused(wallet);
+    return sendAdminCall(wallet, call, options);
+}
+
+/**
+ * Checks a new minimum delay (in seconds) for the wallet, and returns the call that sets it.
+ */
+export async function prepareSetMinDelay(wallet: PalmEcosystemVestingWallet, minDelay: number): Promise<AdminCall> {
+    if (!Number.isInteger(minDelay) || minDelay < 0) {
+        throw new InvalidArgumentError("minDelay", "Invalid minDelay: must not be negative");
+    }
+    // Once there is a delay, it can only be changed through queueChange()
+    await assertNoMinDelay(wallet);
+    if (minDelay === 0) {
+        throw new InvalidArgumentError("minDelay", "New delay must differ from current delay");
+    }
+    return {method: "setMinDelay", args: [minDelay]};
+}
+
+/**
+ * Sets how long (in seconds) changes to the schedule must be queued before they can be executed.  Once there is a
+ * delay, changing it must also be queued.
+ */
+export async function setMinDelay(wallet: PalmEcosystemVestingWallet, minDelay: number, options: TransactionOptions = {}): Promise<AdminResult> {
+    await assertOwner(wallet);
+    return sendAdminCall(wallet, await prepareSetMinDelay(wallet, minDelay), options);
+}
+
+/**
+ * Checks a new pauser for the wallet, and returns the call that grants it the role.
+ */
+export async function prepareSetPauser(wallet: PalmEcosystemVestingWallet, pauser: string): Promise<AdminCall> {
+    const newPauser = parseAddress(pauser, "pauser");
+    if (newPauser === await wallet.pauser()) {
+        throw new InvalidArgumentError("pauser", "New pauser must differ from current pauser");
+    }
+    return {method: "setPauser", args: [newPauser]};
+}
+
+/**
+ * Grants the pauser role to an account, which can then pause the wallet but not unpause it or change its schedule.
+ * There is one pauser at a time, and granting the role to the zero address revokes it.
+ */
+export async function setPauser(wallet: PalmEcosystemVestingWallet, pauser: string, options: TransactionOptions = {}): Promise<AdminResult> {
+    await assertOwner(wallet);
+    return sendAdminCall(wallet, await prepareSetPauser(wallet, pauser), options);
+}
+
+/**
+ * Checks a new owner for the wallet, and returns the call that starts transferring ownership to it.
+ */
+export async function prepareTransferOwnership(wallet: PalmEcosystemVestingWallet, newOwner: string): Promise<AdminCall> {
+    const owner = parseAddress(newOwner, "new owner");
+    if (owner === ethers.constants.AddressZero) {
+        throw new InvalidArgumentError("newOwner", "Ownable: new owner is the zero address");
+    }
+    if (owner === await wallet.owner()) {
+        throw new InvalidArgumentError("newOwner", "New owner must differ from current owner");
+    }
+    return {method: "transferOwnership", args: [owner]};
+}
+
+/**
+ * Starts transferring ownership of the wallet to a new owner, who takes over once they accept it with
+ * acceptOwnership().  Until then the current owner stays in charge, and can cancel the transfer.
+ */
+export async function transferOwnership(wallet: PalmEcosystemVestingWallet, newOwner: string, options: TransactionOptions = {}): Promise<AdminResult> {
+    await assertOwner(wallet);
+    return sendAdminCall(wallet, await prepareTransferOwnership(wallet, newOwner), options);
+}
+
+/**
+ * Checks that ownership of the wallet is being transferred, and returns the call the pending owner accepts it with.
+ */
+export async function prepareAcceptOwnership(wallet: PalmEcosystemVestingWallet): Promise<AdminCall> {
+    if (await wallet.pendingOwner() === ethers.constants.AddressZero) {
+        throw new VestingWalletError(`Vesting contract ${wallet.address} has no pending ownership transfer`);
+    }
+    return {method: "acceptOwnership", args: []};
+}
+
+/**
+ * Completes a transfer of ownership.  The wallet must be connected to the pending owner.
+ */
+export async function acceptOwnership(wallet: PalmEcosystemVestingWallet, options: TransactionOptions = {}): Promise<AdminResult> {
+    const account = await signerAddress(wallet);
+    if (await wallet.pendingOwner() !== account) {
+        throw new NotPendingOwnerError(wallet.address, account);
+    }
+    return sendAdminCall(wallet, await prepareAcceptOwnership(wallet), options);
+}
+
+/**
+ * Checks that ownership of the wallet is being transferred, and returns the call that cancels the transfer: the owner
+ * transfers ownership to the zero address.
+ */
+export async function prepareCancelOwnershipTransfer(wallet: PalmEcosystemVestingWallet): Promise<AdminCall> {
+    if (await wallet.pendingOwner() === ethers.constants.AddressZero) {
+        throw new VestingWalletError(`Vesting contract ${wallet.address} has no pending ownership transfer`);
+    }
+    return {method: "transferOwnership", args: [ethers.constants.AddressZero]};
+}
+
+/**
+ * Cancels a pending transfer of ownership.
+ */
+export async function cancelOwnershipTransfer(wallet: PalmEcosystemVestingWallet, options: TransactionOptions = {}): Promise<AdminResult> {
+    await assertOwner(wallet);
+    return sendAdminCall(wallet, await prepareCancelOwnershipTransfer(wallet), options);
+}
+
+/**
+ * Releases the vested native PALM, or the given ERC-20 token, split between the beneficiaries by their shares.  Anyone
+ * can call this.
+ */
+export async function release(wallet: PalmEcosystemVestingWallet, token?: string, options: TransactionOptions = {}): Promise<ReleaseResult> {
+    if (await wallet.paused()) {
+        throw new WalletPausedError(wallet.address);
+    }
+    const status = await getWalletStatus(wallet.provider, wallet.address, token ? [token] : []);
+    if (status.assets[status.assets.length - 1].releasable.isZero()) {
+        throw new NothingReleasableError(wallet.address, token);
+    }
+
+    const call = token ? {method: "release(address)", args: [token]} : {method: "release()", args: []};
+    const {txHash, events, gasCost} = await sendAdminCall(wallet, call, options);
+    const event = events.find(({name}) => name === (token ? "ERC20Released" : "EtherReleased"));
+    const distributions = events
+        .filter(({name}) => name === (token ? "ERC20Distributed" : "EtherDistributed"))
+        .map(({args}) => ({beneficiary: args.beneficiary, amount: BigNumber.from(args.amount)}));
+    return {...(token ? {token} : {}), amount: BigNumber.from(event?.args.amount ?? 0), distributions, txHash, gasCost};
+}
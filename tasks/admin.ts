@@ -0,0 +1,352 @@
+import fs from "fs";
+import {task, types} from "hardhat/config";
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {ethers} from "ethers";
+import {
+    AdminCall,
+    AdminResult,
+    assertOwner,
+    assertPaused,
+    connectVestingWallet,
+    NotOwnerOrPauserError,
+    NotPendingOwnerError,
+    PalmEcosystemVestingWallet,
+    parseAddress,
+    parseMinDelay,
+    populateAdminCall,
+    prepareAcceptOwnership,
+    prepareCancelOwnershipTransfer,
+    preparePause,
+    prepareSetBeneficiary,
+    prepareSetDuration,
+    prepareSetMinDelay,
+    prepareSetPauser,
+    prepareSetShares,
+    prepareTransferOwnership,
+    sendAdminCall,
+    TransactionOptions
+} from "../sdk";
+import {resolveWalletAddress} from "./registry";
+import {buildSafeBatch, encodeSafeTransaction, SafeBatch} from "./safe";
+import {getTaskSigner, SignerArgs, TaskSigner} from "./keystore";
+import {estimateGasCost, logEstimatedGas, logGasUsed} from "./gas";
+import {getTransactionOptions, TransactionArgs, withTransactionParams} from "./transactions";
+import {formatShare, readSharesFile} from "./shares";
+
+export type UnsignedResult = { to: string, data: string, batch: SafeBatch };
+export type AdminOptions = TransactionArgs & { dryRun: boolean, silent: boolean, unsigned?: boolean, output?: string, append?: boolean };
+
+/**
+ * Returns the signer for an admin task.  Unsigned transactions are signed by the owners of a multisig instead, so
+ * there is no signer to unlock.
+ */
+export async function getAdminSigner(hre: HardhatRuntimeEnvironment, taskArgs: SignerArgs & { unsigned?: boolean }): Promise<TaskSigner | undefined> {
+    return taskArgs.unsigned ? undefined : getTaskSigner(hre, taskArgs);
+}
+
+/**
+ * Loads the vesting contract connected to the signer, and checks that the signer is its owner.  Without a signer we
+ * are producing unsigned transactions for a multisig owner, so there is nothing to check.
+ */
+export async function getOwnedWallet(hre: HardhatRuntimeEnvironment, addressOrLabel: string, signer?: TaskSigner): Promise<PalmEcosystemVestingWallet> {
+    const contract = connectVestingWallet(await resolveWalletAddress(hre, addressOrLabel), signer ?? hre.ethers.provider);
+    if (signer) {
+        await assertOwner(contract);
+    }
+    return contract;
+}
+
+/**
+ * Estimates an owner-only call as sent by the current owner, or another sender, which also covers unsigned
+ * transactions for a multisig.  The estimate fails if the call would revert, e.g. before an unsigned batch has paused
+ * the contract, so we only warn.
+ */
+async function logAdminGasEstimate(hre: HardhatRuntimeEnvironment, contract: PalmEcosystemVestingWallet, call: AdminCall, silent: boolean, sender?: string) {
+    try {
+        const gas = await hre.ethers.provider.estimateGas({...populateAdminCall(contract, call), from: sender ?? await contract.owner()});
+        logEstimatedGas(`${call.method}()`, await estimateGasCost(hre, gas), silent);
+    } catch (e) {
+        !silent && console.warn(`Could not estimate gas for ${call.method}(): ${(e as Error).message}`);
+    }
+}
+
+/**
+ * Sends an owner-only transaction to the vesting contract, waits for it to be confirmed and logs the emitted events
+ * and the gas used.  On a dry run only the gas is estimated.
+ */
+export async function sendAdminTransaction(
+    hre: HardhatRuntimeEnvironment,
+    contract: PalmEcosystemVestingWallet,
+    call: AdminCall,
+    dryRun: boolean,
+    silent: boolean,
+    transactionOptions: TransactionOptions = {},
+    sender?: string
+): Promise<AdminResult | undefined> {
+    if (dryRun) {
+        !silent && console.warn(`This is a dry run. ${call.method}() will not actually be called.`);
+        await logAdminGasEstimate(hre, contract, call, silent, sender);
+        return undefined;
+    }
+
+    const result = await sendAdminCall(contract, call, transactionOptions);
+
+    !silent && console.log(`Transaction ${result.txHash} mined in block ${result.blockNumber}`);
+    for (const {name, args} of result.events) {
+        !silent && console.log(`\t${name}(${Object.entries(args).map(([key, value]) => `${key}: ${value}`).join(", ")})`);
+    }
+    logGasUsed(`${call.method}()`, result.gasCost, silent);
+
+    return result;
+}
+
+/**
+ * Writes an owner-only call to the vesting contract as a Safe Transaction Builder batch, to be signed by the owners of
+ * the Safe that owns the contract, or of the Safe sending it.
+ */
+async function writeUnsignedTransaction(hre: HardhatRuntimeEnvironment, contract: PalmEcosystemVestingWallet, call: AdminCall, options: AdminOptions, sender?: string): Promise<UnsignedResult> {
+    const {output, append, silent} = options;
+    const owner = sender ?? await contract.owner();
+    const transaction = encodeSafeTransaction(contract, call.method, call.args);
+    let batch = await buildSafeBatch(hre, owner, `${call.method} on vesting contract ${contract.address}`, [transaction]);
+    if (append) {
+        if (!output || !fs.existsSync(output)) {
+            throw new Error("Appending requires an existing Safe Transaction Builder batch as the output");
+        }
+        const existing: SafeBatch = JSON.parse(fs.readFileSync(output, "utf8"));
+        if (existing.chainId !== batch.chainId || existing.meta.createdFromSafeAddress !== owner) {
+            throw new Error(`Cannot append to ${output}: it was created for Safe ${existing.meta.createdFromSafeAddress} on chain ${existing.chainId}`);
+        }
+        batch = await buildSafeBatch(hre, owner, existing.meta.name, [...existing.transactions, transaction]);
+    }
+    const json = JSON.stringify(batch, null, 2) + "\n";
+
+    !silent && console.log(`Unsigned transaction for ${sender ? "Safe" : "owner"} ${owner}:`);
+    !silent && console.log(`\tto: ${transaction.to}`);
+    !silent && console.log(`\tdata: ${transaction.data}`);
+    if (output) {
+        fs.writeFileSync(output, json);
+        !silent && console.log(`Wrote Safe Transaction Builder batch to ${output}`);
+    } else {
+        !silent && console.log(json);
+    }
+
+    return {to: transaction.to, data: transaction.data, batch};
+}
+
+/**
+ * Checks that the contract is paused.  An unsigned transaction may be executed as part of a batch that pauses the
+ * contract first, so in that case we only warn.
+ */
+async function requirePaused(contract: PalmEcosystemVestingWallet, unsigned: boolean, silent: boolean) {
+    if (!unsigned) {
+        return assertPaused(contract);
+    }
+    if (!await contract.paused()) {
+        !silent && console.warn(`Vesting contract ${contract.address} is not paused yet, the owner must pause it before this transaction can be executed.`);
+    }
+}
+
+/**
+ * Either sends an owner-only transaction, or writes it out unsigned for a multisig owner.  A transaction that isn't
+ * sent by the owner names its sender, for the gas estimate and the Safe to write it out for.
+ */
+export async function submitAdminTransaction(hre: HardhatRuntimeEnvironment, contract: PalmEcosystemVestingWallet, call: AdminCall, options: AdminOptions, sender?: string): Promise<AdminResult | UnsignedResult | undefined> {
+    const {dryRun, silent, unsigned} = options;
+    if (unsigned && !dryRun) {
+        return writeUnsignedTransaction(hre, contract, call, options, sender);
+    }
+    const transactionOptions = dryRun ? {} : getTransactionOptions(hre, options, contract.signer);
+    return sendAdminTransaction(hre, contract, call, dryRun, silent, transactionOptions, sender);
+}
+
+/**
+ * Tells the operator what the new owner must do to complete a transfer of ownership.
+ */
+export function logOwnershipPending(hre: HardhatRuntimeEnvironment, address: string, newOwner: string, silent: boolean) {
+    !silent && console.log(`Ownership pending: ${newOwner} must accept ownership of vesting contract ${address} by running`);
+    !silent && console.log(`\tnpx hardhat accept-ownership --network ${hre.network.name} --address ${address}`);
+    !silent && console.log("\tsigned by the new owner, or with --unsigned for a Safe to execute.  Until then the current owner stays in charge.");
+}
+
+withTransactionParams(task("pause", "Pause a vesting contract, blocking releases and allowing the schedule to be updated, as its owner or pauser")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string), {unsigned: true})
+  .setAction( async (taskArgs, hre) => {
+      const {silent} = taskArgs;
+      const signer = await getAdminSigner(hre, taskArgs);
+      const address = await resolveWalletAddress(hre, taskArgs.address);
+      const contract = connectVestingWallet(address, signer ?? hre.ethers.provider);
+      // Besides the owner, the pauser can pause
+      const owner = await contract.owner();
+      const pauser = signer && signer.address !== owner ? signer.address : undefined;
+      if (pauser && await contract.pauser() !== pauser) {
+          throw new NotOwnerOrPauserError(address, pauser);
+      }
+      const call = await preparePause(contract);
+
+      !silent && console.log(`Pausing vesting contract ${address}${pauser ? ` as its pauser ${pauser}` : ""}`);
+      return submitAdminTransaction(hre, contract, call, taskArgs, pauser);
+  });
+
+withTransactionParams(task("unpause", "Unpause a vesting contract, allowing releases again")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string), {unsigned: true})
+  .setAction( async (taskArgs, hre) => {
+      const {silent} = taskArgs;
+      const contract = await getOwnedWallet(hre, taskArgs.address, await getAdminSigner(hre, taskArgs));
+      await requirePaused(contract, taskArgs.unsigned, silent);
+
+      !silent && console.log(`Unpausing vesting contract ${contract.address}`);
+      return submitAdminTransaction(hre, contract, {method: "unpause", args: []}, taskArgs);
+  });
+
+withTransactionParams(task("grant-pauser", "Let an account pause a vesting contract in an emergency, without being able to unpause it or change its schedule")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string)
+  .addParam<string>("pauser", "The address of the guardian to grant the pauser role, replacing any current pauser", undefined, types.string), {unsigned: true})
+  .setAction( async (taskArgs, hre) => {
+      const {silent} = taskArgs;
+      const pauser = parseAddress(taskArgs.pauser, "pauser");
+      if (pauser === ethers.constants.AddressZero) {
+          throw new Error("Pauser is zero address, use revoke-pauser to remove the pauser");
+      }
+      const contract = await getOwnedWallet(hre, taskArgs.address, await getAdminSigner(hre, taskArgs));
+      const call = await prepareSetPauser(contract, pauser);
+      const currentPauser = await contract.pauser();
+
+      !silent && console.log(`Granting the pauser role of vesting contract ${contract.address} to ${pauser}`);
+      if (currentPauser !== ethers.constants.AddressZero) {
+          !silent && console.log(`\tThis revokes it from the current pauser ${currentPauser}`);
+      }
+      return submitAdminTransaction(hre, contract, call, taskArgs);
+  });
+
+withTransactionParams(task("revoke-pauser", "Revoke the pauser role of a vesting contract, so only its owner can pause it")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string), {unsigned: true})
+  .setAction( async (taskArgs, hre) => {
+      const {silent} = taskArgs;
+      const contract = await getOwnedWallet(hre, taskArgs.address, await getAdminSigner(hre, taskArgs));
+      const pauser = await contract.pauser();
+      if (pauser === ethers.constants.AddressZero) {
+          throw new Error(`Vesting contract ${contract.address} has no pauser`);
+      }
+
+      !silent && console.log(`Revoking the pauser role of vesting contract ${contract.address} from ${pauser}`);
+      // Setting the pauser to the zero address revokes the role
+      return submitAdminTransaction(hre, contract, await prepareSetPauser(contract, ethers.constants.AddressZero), taskArgs);
+  });
+
+withTransactionParams(task("set-beneficiary", "Update the beneficiary of a paused vesting contract, replacing all its beneficiaries if it has several")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string)
+  .addParam<string>("beneficiary", "The new beneficiary address", undefined, types.string), {unsigned: true})
+  .setAction( async (taskArgs, hre) => {
+      const {silent} = taskArgs;
+      const beneficiary = parseAddress(taskArgs.beneficiary, "beneficiary");
+      const contract = await getOwnedWallet(hre, taskArgs.address, await getAdminSigner(hre, taskArgs));
+      const call = await prepareSetBeneficiary(contract, beneficiary);
+      await requirePaused(contract, taskArgs.unsigned, silent);
+      const [currentBeneficiaries] = await contract.beneficiaries();
+
+      !silent && console.log(`Updating beneficiary of vesting contract ${contract.address}`);
+      !silent && console.log(`\tfrom: ${currentBeneficiaries.join(", ")}`);
+      !silent && console.log(`\tto: ${beneficiary}`);
+      return submitAdminTransaction(hre, contract, call, taskArgs);
+  });
+
+withTransactionParams(task("set-shares", "Split later releases of a paused vesting contract between several beneficiaries by their shares")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string)
+  .addParam<string>("shares", "A CSV (beneficiary,shares) or JSON file of the beneficiaries and their shares, replacing the current ones", undefined, types.inputFile), {unsigned: true})
+  .setAction( async (taskArgs, hre) => {
+      const {silent} = taskArgs;
+      const shares = readSharesFile(taskArgs.shares);
+      const contract = await getOwnedWallet(hre, taskArgs.address, await getAdminSigner(hre, taskArgs));
+      const call = await prepareSetShares(contract, shares);
+      await requirePaused(contract, taskArgs.unsigned, silent);
+
+      !silent && console.log(`Updating the shares of vesting contract ${contract.address}, releases will be split between`);
+      for (const share of shares) {
+          !silent && console.log(`\t${share.beneficiary}: ${share.shares} shares (${formatShare(share.shares, shares)})`);
+      }
+      return submitAdminTransaction(hre, contract, call, taskArgs);
+  });
+
+withTransactionParams(task("set-duration", "Update the vesting duration of a paused vesting contract")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string)
+  .addParam<number>("duration", "The new vesting duration in seconds", undefined, types.int)
+  .addFlag("rebase", "Keep what has vested so far, and only vest the rest over the time left until the new end"), {unsigned: true})
+  .setAction( async (taskArgs, hre) => {
+      const {duration, rebase, silent} = taskArgs;
+      const contract = await getOwnedWallet(hre, taskArgs.address, await getAdminSigner(hre, taskArgs));
+      const call = await prepareSetDuration(contract, duration, rebase);
+      await requirePaused(contract, taskArgs.unsigned, silent);
+      const [start, currentDuration] = (await Promise.all([contract.start(), contract.duration()])).map(value => value.toNumber());
+
+      !silent && console.log(`Updating duration of vesting contract ${contract.address}`);
+      !silent && console.log(`\tfrom: ${currentDuration} seconds (vesting completes ${new Date((start + currentDuration) * 1000).toUTCString()})`);
+      !silent && console.log(`\tto: ${duration} seconds (vesting completes ${new Date((start + duration) * 1000).toUTCString()})`);
+      if (rebase) {
+          !silent && console.log("\tRebasing: what has vested so far is kept, and the rest vests until the new end");
+      }
+      return submitAdminTransaction(hre, contract, call, taskArgs);
+  });
+
+withTransactionParams(task("set-min-delay", "Set how long changes to the schedule of a vesting contract must be queued before they can be executed")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string)
+  .addParam<string>("minDelay", "The minimum delay in fixed units, e.g. 7d or 2w", undefined, types.string), {unsigned: true})
+  .setAction( async (taskArgs, hre) => {
+      const {silent} = taskArgs;
+      const minDelay = parseMinDelay(taskArgs.minDelay);
+      const contract = await getOwnedWallet(hre, taskArgs.address, await getAdminSigner(hre, taskArgs));
+      const call = await prepareSetMinDelay(contract, minDelay);
+
+      !silent && console.log(`Setting the minimum delay of vesting contract ${contract.address} to ${minDelay} seconds`);
+      !silent && console.log("\tFrom now on changes to the beneficiary, the duration and this delay must be queued with queue-change");
+      return submitAdminTransaction(hre, contract, call, taskArgs);
+  });
+
+withTransactionParams(task("transfer-ownership", "Transfer ownership of a vesting contract to a new owner")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string)
+  .addParam<string>("newOwner", "The address of the new owner", undefined, types.string), {unsigned: true})
+  .setAction( async (taskArgs, hre) => {
+      const {silent} = taskArgs;
+      const newOwner = parseAddress(taskArgs.newOwner, "new owner");
+      const contract = await getOwnedWallet(hre, taskArgs.address, await getAdminSigner(hre, taskArgs));
+      const call = await prepareTransferOwnership(contract, newOwner);
+
+      !silent && console.log(`Transferring ownership of vesting contract ${contract.address}`);
+      !silent && console.log(`\tfrom: ${await contract.owner()}`);
+      !silent && console.log(`\tto: ${newOwner}`);
+      const result = await submitAdminTransaction(hre, contract, call, taskArgs);
+      if (!taskArgs.dryRun && !taskArgs.unsigned) {
+          logOwnershipPending(hre, contract.address, newOwner, silent);
+      }
+      return result;
+  });
+
+withTransactionParams(task("accept-ownership", "Accept ownership of a vesting contract, completing a transfer started by its owner")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string), {unsigned: true})
+  .setAction( async (taskArgs, hre) => {
+      const {silent} = taskArgs;
+      const signer = await getAdminSigner(hre, taskArgs);
+      const address = await resolveWalletAddress(hre, taskArgs.address);
+      const contract = connectVestingWallet(address, signer ?? hre.ethers.provider);
+      const call = await prepareAcceptOwnership(contract);
+      const pendingOwner = await contract.pendingOwner();
+      if (signer && pendingOwner !== signer.address) {
+          throw new NotPendingOwnerError(address, signer.address);
+      }
+
+      !silent && console.log(`Accepting ownership of vesting contract ${address}`);
+      !silent && console.log(`\tfrom: ${await contract.owner()}`);
+      !silent && console.log(`\tto: ${pendingOwner}`);
+      return submitAdminTransaction(hre, contract, call, taskArgs, pendingOwner);
+  });
+
+withTransactionParams(task("cancel-ownership-transfer", "Cancel a pending transfer of ownership of a vesting contract")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string), {unsigned: true})
+  .setAction( async (taskArgs, hre) => {
+      const {silent} = taskArgs;
+      const contract = await getOwnedWallet(hre, taskArgs.address, await getAdminSigner(hre, taskArgs));
+      const call = await prepareCancelOwnershipTransfer(contract);
+
+      !silent && console.log(`Cancelling the transfer of ownership of vesting contract ${contract.address} to ${await contract.pendingOwner()}`);
+      return submitAdminTransaction(hre, contract, call, taskArgs);
+  });
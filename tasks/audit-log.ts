@@ -0,0 +1,157 @@
+import fs from "fs";
+import {ethers} from "ethers";
+import {task, types} from "hardhat/config";
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {DEFAULT_CHUNK_SIZE, scanLogs} from "../sdk";
+import {readRegistry, resolveWalletAddress} from "./registry";
+
+export type AuditRecord = {
+    wallet: string,
+    blockNumber: number,
+    blockTime: string,
+    txHash: string,
+    logIndex: number,
+    actor: string,
+    event: string,
+    args: Record<string, string>
+};
+type Checkpoint = { network: string, wallets: Record<string, number> };
+
+const auditedEvents = ["OwnershipTransferStarted", "OwnershipTransferred", "PauserUpdated", "Paused", "Unpaused", "BeneficiaryUpdated", "SharesUpdated", "DurationUpdated", "DurationRebased", "MinDelayUpdated", "ChangeQueued", "ChangeExecuted", "ChangeCancelled", "EtherReleased", "ERC20Released", "EtherDistributed", "ERC20Distributed"];
+const formats = ["jsonl", "csv"];
+const csvColumns = ["wallet", "blockNumber", "blockTime", "txHash", "logIndex", "actor", "event", "args"];
+
+function csvValue(value: string | number): string {
+    const text = value.toString();
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+function formatRecord(record: AuditRecord, format: string): string {
+    if (format === "jsonl") {
+        return JSON.stringify(record);
+    }
+    return csvColumns.map(column => {
+        const value = record[column as keyof AuditRecord];
+        return csvValue(typeof value === "object" ? JSON.stringify(value) : value);
+    }).join(",");
+}
+
+function readCheckpoint(checkpointPath: string, network: string): Checkpoint {
+    if (!fs.existsSync(checkpointPath)) {
+        return {network, wallets: {}};
+    }
+    const checkpoint: Checkpoint = JSON.parse(fs.readFileSync(checkpointPath, "utf8"));
+    if (checkpoint.network !== network) {
+        throw new Error(`Checkpoint ${checkpointPath} was written for network ${checkpoint.network}`);
+    }
+    return checkpoint;
+}
+
+/**
+ * Collects the audited events emitted by a wallet between two blocks (inclusive), querying logs in chunks.  Each chunk
+ * is handed to onChunk together with the last block it covers, so progress can be saved as we go.
+ */
+export async function collectAuditRecords(
+    hre: HardhatRuntimeEnvironment,
+    wallet: string,
+    fromBlock: number,
+    toBlock: number,
+    chunkSize: number,
+    onChunk: (records: AuditRecord[], lastBlock: number) => void
+) {
+    const {provider} = hre.ethers;
+    const contract = await hre.ethers.getContractAt("PalmEcosystemVestingWallet", wallet);
+    const blockTimes = new Map<number, string>();
+    const actors = new Map<string, string>();
+
+    await scanLogs(provider, {address: wallet}, fromBlock, toBlock, chunkSize, async (logs, lastBlock) => {
+        const records: AuditRecord[] = [];
+        for (const log of logs) {
+            let parsed: ethers.utils.LogDescription;
+            try {
+                parsed = contract.interface.parseLog(log);
+            } catch (e) {
+                continue;
+            }
+            if (!auditedEvents.includes(parsed.name)) {
+                continue;
+            }
+            if (!blockTimes.has(log.blockNumber)) {
+                const block = await provider.getBlock(log.blockNumber);
+                blockTimes.set(log.blockNumber, new Date(block.timestamp * 1000).toISOString());
+            }
+            if (!actors.has(log.transactionHash)) {
+                const tx = await provider.getTransaction(log.transactionHash);
+                actors.set(log.transactionHash, tx.from);
+            }
+            records.push({
+                wallet,
+                blockNumber: log.blockNumber,
+                blockTime: blockTimes.get(log.blockNumber) as string,
+                txHash: log.transactionHash,
+                logIndex: log.logIndex,
+                actor: actors.get(log.transactionHash) as string,
+                event: parsed.name,
+                args: Object.fromEntries(parsed.eventFragment.inputs.map((input, i) => [input.name, parsed.args[i].toString()]))
+            });
+        }
+        onChunk(records, lastBlock);
+    });
+}
+
+task("audit-log", "Export every admin change and release of one or all registered vesting contracts")
+  .addParam<string>("address", "The address or registry label of the vesting contract (defaults to every registered contract)", undefined, types.string, true)
+  .addParam<number>("fromBlock", "The block to start scanning from, for contracts that are not in the registry", 0, types.int)
+  .addParam<string>("format", `The output format: ${formats.join(", ")}`, "jsonl", types.string)
+  .addParam<string>("output", "The file to append the audit log to", undefined, types.string)
+  .addParam<string>("checkpoint", "The file recording how far each contract has been scanned (defaults to <output>.checkpoint.json)", undefined, types.string, true)
+  .addParam<number>("chunkSize", "The number of blocks to query logs for at a time", DEFAULT_CHUNK_SIZE, types.int)
+  .addFlag("silent", "If set to true, suppress logging")
+  .setAction( async (taskArgs, hre) => {
+      const {format, output, chunkSize, silent} = taskArgs;
+      const checkpointPath: string = taskArgs.checkpoint ?? `${output}.checkpoint.json`;
+      if (!formats.includes(format)) {
+          throw new Error(`Invalid format: must be one of ${formats.join(", ")}`);
+      }
+      if (chunkSize < 1) {
+          throw new Error("Invalid chunkSize: must be at least 1");
+      }
+
+      // Work out which wallets to scan, and from which block
+      const registry = await readRegistry(hre);
+      const deploymentBlock = (address: string) =>
+          registry.deployments.find(entry => entry.address === address)?.blockNumber ?? taskArgs.fromBlock;
+      let wallets: string[];
+      if (taskArgs.address) {
+          wallets = [await resolveWalletAddress(hre, taskArgs.address)];
+      } else {
+          wallets = registry.deployments.map(entry => entry.address);
+          if (wallets.length === 0) {
+              throw new Error(`No wallets registered for network ${hre.network.name}, supply an --address`);
+          }
+      }
+
+      const checkpoint = readCheckpoint(checkpointPath, hre.network.name);
+      const head = await hre.ethers.provider.getBlockNumber();
+      if (!fs.existsSync(output) && format === "csv") {
+          fs.writeFileSync(output, csvColumns.join(",") + "\n");
+      }
+
+      const collected: AuditRecord[] = [];
+      for (const wallet of wallets) {
+          const fromBlock = wallet in checkpoint.wallets ? checkpoint.wallets[wallet] + 1 : deploymentBlock(wallet);
+          !silent && console.log(`Scanning vesting contract ${wallet} from block ${fromBlock} to ${head}`);
+
+          await collectAuditRecords(hre, wallet, fromBlock, head, chunkSize, (records, lastBlock) => {
+              if (records.length > 0) {
+                  fs.appendFileSync(output, records.map(record => formatRecord(record, format) + "\n").join(""));
+              }
+              checkpoint.wallets[wallet] = lastBlock;
+              fs.writeFileSync(checkpointPath, JSON.stringify(checkpoint, null, 2) + "\n");
+              collected.push(...records);
+          });
+      }
+
+      !silent && console.log(`Appended ${collected.length} event(s) to ${output}`);
+      return collected;
+  });
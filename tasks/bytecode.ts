@@ -0,0 +1,35 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+
+const sourceName = "contracts/PalmEcosystemVestingWallet.sol";
+const contractName = "PalmEcosystemVestingWallet";
+
+type ImmutableReferences = Record<string, { start: number, length: number }[]>;
+
+/**
+ * Zeroes out the immutable variables (beneficiary, start and duration of VestingWallet) embedded in runtime bytecode,
+ * so that code deployed with different constructor arguments can be compared against the compiled artifact.
+ */
+function maskImmutables(bytecode: string, immutableReferences: ImmutableReferences): string {
+    let code = bytecode.replace(/^0x/, "").toLowerCase();
+    for (const references of Object.values(immutableReferences)) {
+        for (const {start, length} of references) {
+            code = code.slice(0, start * 2) + "00".repeat(length) + code.slice((start + length) * 2);
+        }
+    }
+    return code;
+}
+
+/**
+ * Checks whether the runtime bytecode at an address matches the compiled PalmEcosystemVestingWallet artifact.
+ */
+export async function isVestingWallet(hre: HardhatRuntimeEnvironment, address: string): Promise<boolean> {
+    const code = await hre.ethers.provider.getCode(address);
+    if (code === "0x") {
+        return false;
+    }
+    const artifact = await hre.artifacts.readArtifact(contractName);
+    const buildInfo = await hre.artifacts.getBuildInfo(`${sourceName}:${contractName}`);
+    const immutableReferences: ImmutableReferences = buildInfo?.output.contracts[sourceName][contractName].evm.deployedBytecode.immutableReferences ?? {};
+
+    return maskImmutables(code, immutableReferences) === maskImmutables(artifact.deployedBytecode, immutableReferences);
+}
@@ -0,0 +1,227 @@
+import {task, types} from "hardhat/config";
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {BigNumber, ethers} from "ethers";
+import {
+    AdminCall,
+    AdminResult,
+    formatDate,
+    getWalletStatus,
+    PalmEcosystemVestingWallet,
+    parseAddress,
+    parseTimestamp,
+    parseTokenList,
+    prepareSetBeneficiary,
+    prepareSetDuration,
+    previewDurationChange,
+    ReleasableChange,
+    TransactionOptions,
+    WalletStatus
+} from "../sdk";
+import {getOwnedWallet, sendAdminTransaction} from "./admin";
+import {resolveWalletAddress} from "./registry";
+import {getTaskSigner} from "./keystore";
+import {logGasTotal} from "./gas";
+import {getTransactionOptions, withTransactionParams} from "./transactions";
+import {loudly} from "./prompt";
+
+export type AssetPreview = { token?: string, symbol: string, changes: ReleasableChange[] };
+
+/**
+ * Works out a new end of vesting, with the same checks the contract applies, returning the new duration.
+ */
+export function parseNewEnd(status: WalletStatus, endDate: string, rebase: boolean): number {
+    const {start, duration, cliff, timestamp} = status;
+    const newEnd = parseTimestamp(endDate, "endDate");
+    if (newEnd < start) {
+        throw new Error(`The supplied endDate must not be before the vesting start: ${formatDate(start)}`);
+    }
+    if (newEnd < cliff) {
+        throw new Error(`The supplied endDate must not be before the cliff: ${formatDate(cliff)}`);
+    }
+    if (rebase ? newEnd <= timestamp : newEnd <= status.rebaseTimestamp) {
+        throw new Error(`The supplied endDate must be after ${rebase ? "now" : "the last rebase"}: ${formatDate(rebase ? timestamp : status.rebaseTimestamp)}`);
+    }
+    if (newEnd - start === duration) {
+        throw new Error("New duration must differ from current duration");
+    }
+    return newEnd - start;
+}
+
+/**
+ * Compares what each asset of the wallet has vested and can release at each checkpoint, before and after changing the
+ * duration now, and logs it.  Warns when the change would vest less than has already been released.
+ */
+function previewAssets(status: WalletStatus, newDuration: number, rebase: boolean, checkpoints: number[], silent: boolean): AssetPreview[] {
+    const {start, duration, cliff, unlockInterval, rebaseTimestamp, rebaseFraction, timestamp} = status;
+    const curve = {cliff, unlockInterval, rebaseTimestamp, rebaseFraction};
+    const timestamps = [...new Set([timestamp, ...checkpoints])].sort((a, b) => a - b);
+
+    return status.assets.map(asset => {
+        const total = asset.balance.add(asset.released);
+        const format = (amount: BigNumber) => `${ethers.utils.formatUnits(amount, asset.decimals)} ${asset.symbol}`;
+        const changes = previewDurationChange(total, asset.released, start, duration, curve, newDuration, rebase, timestamp, timestamps);
+
+        !silent && console.log(`\t${asset.symbol}${asset.token ? ` (${asset.token})` : ""}, total allocation ${format(total)}`);
+        for (const {timestamp: checkpoint, vestedBefore, vestedAfter, releasableBefore, releasableAfter} of changes) {
+            !silent && console.log(`\t\t${checkpoint === timestamp ? "now" : `at ${formatDate(checkpoint)}`}: vested ${format(vestedBefore)} -> ${format(vestedAfter)}, releasable ${format(releasableBefore)} -> ${format(releasableAfter)}`);
+        }
+        if (changes.find(change => change.timestamp === timestamp)?.vestedAfter.lt(asset.released)) {
+            !silent && console.warn(`\t\tWARNING: more than the new vested amount has already been released, releases will be blocked until ${format(asset.released)} has vested`);
+        }
+        return {...(asset.token ? {token: asset.token} : {}), symbol: asset.symbol, changes};
+    });
+}
+
+function describeCall({method, args}: AdminCall): string {
+    return `${method}(${args.join(", ")})`;
+}
+
+/**
+ * Lists which steps of an update took effect before one of them failed, and which were never sent.
+ */
+function describeProgress(address: string, steps: AdminCall[], completed: number, error: Error): string {
+    return [
+        `WARNING: updating vesting contract ${address} failed part way through: ${error.message}`,
+        ...steps.slice(0, completed).map(step => `\tDone: ${describeCall(step)}`),
+        `\tFailed: ${describeCall(steps[completed])}`,
+        ...steps.slice(completed + 1).map(step => `\tNot sent: ${describeCall(step)}`)
+    ].join("\n");
+}
+
+/**
+ * Sends the steps to the vesting contract while it is paused, pausing it first and unpausing it afterwards unless it was
+ * already paused.  If pausing or a step fails we shout which steps took effect, and unpause the contract again.
+ */
+export async function runWhilePaused(
+    hre: HardhatRuntimeEnvironment,
+    contract: PalmEcosystemVestingWallet,
+    steps: AdminCall[],
+    wasPaused: boolean,
+    transactionOptions: TransactionOptions,
+    silent: boolean
+): Promise<AdminResult[]> {
+    const results: AdminResult[] = [];
+    const run = async (call: AdminCall) => {
+        !silent && console.log(`Calling ${describeCall(call)}`);
+        results.push((await sendAdminTransaction(hre, contract, call, false, silent, transactionOptions)) as AdminResult);
+    };
+
+    if (!wasPaused) {
+        try {
+            await run({method: "pause", args: []});
+        } catch (e) {
+            // A pause that timed out may still be mined, and leave the contract paused with nothing changed
+            loudly(`WARNING: pausing vesting contract ${contract.address} failed, so none of its changes were sent: ${(e as Error).message}\nIf the pause is mined after all, run: npx hardhat unpause --address ${contract.address}`);
+            throw e;
+        }
+    }
+    for (let i = 0; i < steps.length; i++) {
+        try {
+            await run(steps[i]);
+        } catch (e) {
+            const progress = describeProgress(contract.address, steps, i, e as Error);
+            if (wasPaused) {
+                loudly(`${progress}\nThe contract remains paused.`);
+                throw e;
+            }
+            loudly(`${progress}\nUnpausing it.`);
+            try {
+                await run({method: "unpause", args: []});
+            } catch (unpauseError) {
+                loudly(`WARNING: vesting contract ${contract.address} IS STILL PAUSED. Unpausing it failed: ${(unpauseError as Error).message}\nRun: npx hardhat unpause --address ${contract.address}`);
+            }
+            throw e;
+        }
+    }
+    if (!wasPaused) {
+        try {
+            await run({method: "unpause", args: []});
+        } catch (e) {
+            loudly(`WARNING: the schedule of vesting contract ${contract.address} was updated, but it IS STILL PAUSED. Unpausing it failed: ${(e as Error).message}\nRun: npx hardhat unpause --address ${contract.address}`);
+            throw e;
+        }
+    }
+    return results;
+}
+
+task("preview-schedule-change", "Compare what a vesting contract can release before and after changing its end date, without sending anything")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string)
+  .addParam<string>("endDate", "The proposed end of vesting (YYYY-MM-DD, an ISO-8601 timestamp with a UTC offset, or unix seconds)", undefined, types.string)
+  .addFlag("rebase", "Preview keeping what has vested so far, and only vesting the rest over the time left until the new end")
+  .addParam<string>("at", "A comma separated list of extra dates to compare at, besides now and the current and proposed ends", undefined, types.string, true)
+  .addParam<string>("token", "A comma separated list of ERC-20 token addresses to include in the preview", undefined, types.string, true)
+  .addFlag("silent", "If set to true, suppress logging")
+  .setAction( async (taskArgs, hre) => {
+      const {rebase, silent} = taskArgs;
+      const address = await resolveWalletAddress(hre, taskArgs.address);
+      const status = await getWalletStatus(hre.ethers.provider, address, parseTokenList(taskArgs.token));
+      const newDuration = parseNewEnd(status, taskArgs.endDate, rebase);
+      const extraDates: string[] = taskArgs.at ? taskArgs.at.split(",").map((date: string) => date.trim()) : [];
+      const checkpoints = [status.end, status.start + newDuration, ...extraDates.map(date => parseTimestamp(date, "at"))];
+
+      !silent && console.log(`Previewing ${rebase ? "a rebase" : "a change"} of the end of vesting contract ${address}`);
+      !silent && console.log(`\tend: ${formatDate(status.end)} -> ${formatDate(status.start + newDuration)}`);
+      return previewAssets(status, newDuration, rebase, checkpoints, silent);
+  });
+
+withTransactionParams(task("change-schedule", "Pause a vesting contract, update its beneficiary and/or end date, then unpause it")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string)
+  .addParam<string>("endDate", "The new end of vesting (YYYY-MM-DD, an ISO-8601 timestamp with a UTC offset, or unix seconds)", undefined, types.string, true)
+  .addParam<string>("beneficiary", "The new beneficiary address", undefined, types.string, true)
+  .addFlag("rebase", "Keep what has vested so far, and only vest the rest over the time left until the new end date")
+  .addParam<string>("token", "A comma separated list of ERC-20 token addresses to include in the preview", undefined, types.string, true))
+  .setAction( async (taskArgs, hre) => {
+      const {endDate, rebase, dryRun, silent} = taskArgs;
+      if (!endDate && !taskArgs.beneficiary) {
+          throw new Error("Nothing to change: supply an endDate and/or a beneficiary");
+      }
+      if (rebase && !endDate) {
+          throw new Error("Only a change of the endDate can be rebased");
+      }
+      const newBeneficiary = taskArgs.beneficiary ? parseAddress(taskArgs.beneficiary, "beneficiary") : undefined;
+
+      const signer = await getTaskSigner(hre, taskArgs);
+      const contract = await getOwnedWallet(hre, taskArgs.address, signer);
+      const transactionOptions = getTransactionOptions(hre, taskArgs, signer);
+      const status = await getWalletStatus(hre.ethers.provider, contract.address, parseTokenList(taskArgs.token));
+      const {start, duration, end} = status;
+
+      // Work out which updates are needed, with the same checks the contract applies
+      const steps: AdminCall[] = [];
+      if (newBeneficiary) {
+          steps.push(await prepareSetBeneficiary(contract, newBeneficiary));
+      }
+      let newDuration = duration;
+      if (endDate) {
+          newDuration = parseNewEnd(status, endDate, rebase);
+          steps.push(await prepareSetDuration(contract, newDuration, rebase));
+      }
+      const newEnd = start + newDuration;
+
+      // Preview the change
+      if (!silent) {
+          console.log(`Changing the schedule of vesting contract ${contract.address}`);
+          console.log(`\tbeneficiary: ${status.beneficiaries.map(share => share.beneficiary).join(", ")}${newBeneficiary ? ` -> ${newBeneficiary}` : " (unchanged)"}`);
+          console.log(`\tstart: ${formatDate(start)} (unchanged)`);
+          console.log(`\tend: ${formatDate(end)}${newDuration !== duration ? ` -> ${formatDate(newEnd)}` : " (unchanged)"}`);
+          console.log(`\tduration: ${duration}${newDuration !== duration ? ` -> ${newDuration}` : " (unchanged)"} seconds${rebase ? ", rebased" : ""}`);
+          previewAssets(status, newDuration, rebase, [end, newEnd], silent);
+      }
+
+      if (dryRun) {
+          !silent && console.warn("This is a dry run. The schedule will not actually be changed.");
+          return undefined;
+      }
+
+      // An operator may have paused the contract on purpose, in which case we leave it paused
+      const wasPaused = status.paused;
+      if (wasPaused) {
+          !silent && console.warn(`Vesting contract ${contract.address} is already paused and will remain paused after the update.`);
+      }
+
+      const results = await runWhilePaused(hre, contract, steps, wasPaused, transactionOptions, silent);
+
+      !silent && console.log(`Updated the schedule of vesting contract ${contract.address}`);
+      logGasTotal(results.map(result => result.gasCost), false, silent);
+      return results;
+  });
@@ -0,0 +1,301 @@
+import fs from "fs";
+import path from "path";
+import {task, types} from "hardhat/config";
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {BigNumber, ethers} from "ethers";
+import {
+    connectVestingWallet,
+    DeploymentArgs,
+    DeploymentParams,
+    deployVestingWallet,
+    estimateDeploymentGas,
+    GasCost,
+    PalmEcosystemVestingWallet,
+    parseDeploymentArgs,
+    receiptGasCost,
+    TRANSFER_OWNERSHIP_GAS,
+    transferOwnership
+} from "../sdk";
+import {assertLabelAvailable, recordDeployment, registryPath} from "./registry";
+import {getTaskSigner} from "./keystore";
+import {estimateGasCost, logEstimatedGas, logGasTotal, logGasUsed} from "./gas";
+import {getTransactionOptions, withTransactionParams} from "./transactions";
+import {preflightRows} from "./preflight";
+
+type ManifestRow = DeploymentArgs & { label?: string };
+export type DeployedRow = {
+    row: number,
+    label?: string,
+    beneficiary: string,
+    finalOwner?: string,
+    startTime: number,
+    duration: number,
+    // Absent from output manifests written before cliffs and unlock intervals, which were linear schedules
+    cliff?: number,
+    unlockInterval?: number,
+    address: string,
+    txHash: string,
+    // Set once the transfer to the final owner has started, they still have to accept it
+    ownershipTransferred: boolean
+};
+// A deployment that has been broadcast but not yet seen mined, which a resumed batch checks against the chain before
+// deploying the row again.  Replacements share the nonce, so the contract address is known up front.
+export type PendingRow = { row: number, address: string, nonce: number, txHashes: string[] };
+export type OutputManifest = { network: string, manifest: string, deployments: DeployedRow[], pending?: PendingRow[] };
+
+const manifestColumns = ["beneficiary", "startDate", "endDate", "duration", "cliffDate", "unlockInterval", "finalOwner", "label"];
+
+/**
+ * Reads a manifest of deployments from either a JSON file (an array of row objects) or a CSV file with a header row.
+ * CSV values are split on commas and trimmed, quoting is not supported.
+ */
+function readManifest(manifestPath: string): ManifestRow[] {
+    const contents = fs.readFileSync(manifestPath, "utf8");
+    if (path.extname(manifestPath).toLowerCase() === ".json") {
+        const rows = JSON.parse(contents);
+        if (!Array.isArray(rows)) {
+            throw new Error("Invalid manifest: expecting a JSON array of rows");
+        }
+        return rows;
+    }
+
+    const [header, ...lines] = contents.split(/\r?\n/).filter(line => line.trim().length > 0);
+    if (!header) {
+        throw new Error("Invalid manifest: missing CSV header row");
+    }
+    const columns = header.split(",").map(column => column.trim());
+    const unknownColumns = columns.filter(column => !manifestColumns.includes(column));
+    if (unknownColumns.length > 0) {
+        throw new Error(`Invalid manifest: unknown column(s) ${unknownColumns.join(", ")}`);
+    }
+    return lines.map(line => {
+        const values = line.split(",").map(value => value.trim());
+        const row: Record<string, string> = {};
+        columns.forEach((column, i) => {
+            if (values[i]) {
+                row[column] = values[i];
+            }
+        });
+        return row as ManifestRow;
+    });
+}
+
+function readOutputManifest(outputPath: string): OutputManifest | undefined {
+    if (!fs.existsSync(outputPath)) {
+        return undefined;
+    }
+    return JSON.parse(fs.readFileSync(outputPath, "utf8"));
+}
+
+function writeOutputManifest(outputPath: string, output: OutputManifest) {
+    fs.writeFileSync(outputPath, JSON.stringify(output, null, 2) + "\n");
+}
+
+/**
+ * Works out what became of a deployment that was broadcast by a previous run: returns the hash of the transaction that
+ * created the contract, or undefined if it never will and the row needs deploying again.
+ */
+async function resolvePendingRow(hre: HardhatRuntimeEnvironment, deployer: string, pending: PendingRow): Promise<string | undefined> {
+    const {provider} = hre.ethers;
+    if (await provider.getCode(pending.address) !== "0x") {
+        const receipts = await Promise.all(pending.txHashes.map(hash => provider.getTransactionReceipt(hash)));
+        const receipt = receipts.find(receipt => receipt?.contractAddress === pending.address);
+        if (!receipt) {
+            throw new Error(`Row ${pending.row} was deployed to ${pending.address} by a transaction other than ${pending.txHashes.join(", ")}: add it to the output manifest by hand`);
+        }
+        return receipt.transactionHash;
+    }
+    // Once the nonce has been used without creating the contract, the deployment reverted or was replaced
+    if (await provider.getTransactionCount(deployer) > pending.nonce) {
+        return undefined;
+    }
+    // A transaction the node no longer knows about has been dropped, and will not be mined
+    const known = await Promise.all(pending.txHashes.map(hash => provider.getTransaction(hash)));
+    if (known.every(tx => !tx)) {
+        return undefined;
+    }
+    throw new Error(`Row ${pending.row} was sent to be deployed to ${pending.address} in ${pending.txHashes.join(", replaced by ")}, which has not been mined yet: wait for it before resuming`);
+}
+
+function matchesRow(deployed: DeployedRow, params: DeploymentParams): boolean {
+    return deployed.beneficiary === params.beneficiary
+        && deployed.finalOwner === params.finalOwner
+        && deployed.startTime === params.startTime
+        && deployed.duration === params.duration
+        && (deployed.cliff ?? deployed.startTime) === params.cliff
+        && (deployed.unlockInterval ?? 0) === params.unlockInterval;
+}
+
+withTransactionParams(task("deploy-batch", "Deploy a vesting contract for each row of a CSV or JSON manifest")
+  .addParam<string>("manifest", "Path to a CSV or JSON manifest with beneficiary, startDate, endDate or duration, an optional cliffDate and unlockInterval, finalOwner and label per row", undefined, types.inputFile)
+  .addParam<string>("output", "Path of the JSON output manifest mapping each row to its deployed contract (defaults to <manifest>.deployments.json)", undefined, types.string, true)
+  .addFlag("yes", "Skip the confirmation prompt on production networks, e.g. in CI"))
+  .setAction( async (taskArgs, hre) => {
+      const {network} = hre;
+      const {manifest, yes, dryRun, silent} = taskArgs;
+      const outputPath: string = taskArgs.output ?? manifest.replace(/\.(csv|json)$/i, "") + ".deployments.json";
+      const deployer = await getTaskSigner(hre, taskArgs);
+      const transactionOptions = getTransactionOptions(hre, taskArgs, deployer);
+
+      // Validate every row before deploying anything
+      const rows = readManifest(manifest);
+      if (rows.length === 0) {
+          throw new Error("Invalid manifest: no rows to deploy");
+      }
+      const errors: string[] = [];
+      const params = rows.map((row, i) => {
+          try {
+              return parseDeploymentArgs(row);
+          } catch (e) {
+              errors.push(`\trow ${i + 1}: ${(e as Error).message}`);
+          }
+      }) as DeploymentParams[];
+      const labels = rows.map(row => row.label).filter(label => !!label);
+      labels.filter((label, i) => labels.indexOf(label) !== i).forEach(label => {
+          errors.push(`\tduplicate label "${label}"`);
+      });
+      if (errors.length > 0) {
+          throw new Error(`Invalid manifest, nothing was deployed:\n${errors.join("\n")}`);
+      }
+
+      // Pick up where a previous run left off
+      const output: OutputManifest = readOutputManifest(outputPath) ?? {network: network.name, manifest, deployments: []};
+      if (output.network !== network.name) {
+          throw new Error(`Output manifest ${outputPath} was written for network ${output.network}`);
+      }
+      for (const deployed of output.deployments) {
+          if (!params[deployed.row - 1] || !matchesRow(deployed, params[deployed.row - 1])) {
+              throw new Error(`Output manifest ${outputPath} does not match row ${deployed.row} of the input manifest`);
+          }
+      }
+      const pendingDeployments = output.pending ?? [];
+      if (pendingDeployments.some(({row}) => !params[row - 1])) {
+          throw new Error(`Output manifest ${outputPath} has a pending deployment for a row that is not in the input manifest`);
+      }
+
+      for (let i = 0; i < rows.length; i++) {
+          const label = rows[i].label;
+          if (label) {
+              await assertLabelAvailable(hre, label, output.deployments.find(d => d.row === i + 1)?.address);
+          }
+      }
+
+      // Warn on dry-run
+      if (dryRun) {
+          !silent && console.warn("This is a dry run. No contracts will actually be deployed.");
+      }
+
+      !silent && console.log(`Deploying ${rows.length} vesting contract(s) from ${manifest}`);
+
+      // Check the rows that are left are safe to deploy, and confirmed, before going to a production network
+      const pendingRows = params
+          .map((rowParams, i) => ({row: i + 1, params: rowParams, deployed: output.deployments.find(d => d.row === i + 1)}))
+          .filter(({params: {finalOwner}, deployed}) => !deployed || (!deployed.ownershipTransferred && finalOwner))
+          .map(({deployed, ...row}) => ({...row, deployed: !!deployed}));
+      await preflightRows(hre, deployer, pendingRows, {yes, dryRun, silent});
+
+      const gasCosts: GasCost[] = [];
+      for (let i = 0; i < rows.length; i++) {
+          const row = i + 1;
+          const label = rows[i].label;
+          const {beneficiary, finalOwner, startDate, endDate, startTime, duration, cliff, unlockInterval} = params[i];
+          let deployed = output.deployments.find(d => d.row === row);
+
+          !silent && console.log(`Row ${row}${label ? ` (${label})` : ""}: beneficiary ${beneficiary}`);
+          !silent && console.log(`\tVesting starts: ${startDate.toUTCString()} (startTime: ${startTime})`);
+          !silent && console.log(`\tVesting completes: ${endDate.toUTCString()} (duration: ${duration})`);
+          if (cliff > startTime || unlockInterval > 0) {
+              !silent && console.log(`\tCliff: ${new Date(cliff * 1000).toUTCString()} (cliff: ${cliff}), unlockInterval: ${unlockInterval}`);
+          }
+          !silent && console.log(`\tFinal owner: ${finalOwner ?? `none, the deployer will remain the owner: ${deployer.address}`}`);
+
+          if (deployed && (deployed.ownershipTransferred || !finalOwner)) {
+              !silent && console.log(`\tAlready deployed to ${deployed.address}, skipping`);
+              continue;
+          }
+          if (dryRun) {
+              if (!deployed) {
+                  const gasCost = await estimateGasCost(hre, await estimateDeploymentGas(deployer, params[i]));
+                  logEstimatedGas("the deployment", gasCost, silent);
+                  gasCosts.push(gasCost);
+              }
+              if (finalOwner) {
+                  const gasCost = await estimateGasCost(hre, BigNumber.from(TRANSFER_OWNERSHIP_GAS));
+                  logEstimatedGas("the ownership transfer (at most)", gasCost, silent);
+                  gasCosts.push(gasCost);
+              }
+              continue;
+          }
+
+          if (!deployed) {
+              // A deployment sent by a previous run that was interrupted may have been mined since
+              const pending = pendingDeployments.find(p => p.row === row);
+              const pendingTxHash = pending && await resolvePendingRow(hre, deployer.address, pending);
+              let contract: PalmEcosystemVestingWallet;
+              if (pendingTxHash) {
+                  !silent && console.log(`\tFound the deployment sent by a previous run, in ${pendingTxHash}`);
+                  contract = connectVestingWallet((pending as PendingRow).address, deployer);
+                  ethers.utils.defineReadOnly(contract, "deployTransaction", await hre.ethers.provider.getTransaction(pendingTxHash));
+              } else {
+                  // Write the transaction to the output manifest as soon as it is sent, so that a run that is interrupted
+                  // while waiting for it doesn't deploy the row again when it is resumed
+                  contract = await deployVestingWallet(deployer, params[i], {
+                      ...transactionOptions,
+                      onSent: tx => {
+                          const address = ethers.utils.getContractAddress(tx);
+                          const previous = output.pending?.find(p => p.row === row && p.nonce === tx.nonce);
+                          output.pending = [
+                              ...(output.pending ?? []).filter(p => p.row !== row),
+                              {row, address, nonce: tx.nonce, txHashes: [...(previous?.txHashes ?? []), tx.hash]}
+                          ];
+                          writeOutputManifest(outputPath, output);
+                      }
+                  });
+              }
+              const gasCost = receiptGasCost(contract.deployTransaction, await contract.deployTransaction.wait());
+              deployed = {
+                  row,
+                  ...(label ? {label} : {}),
+                  beneficiary,
+                  ...(finalOwner ? {finalOwner} : {}),
+                  startTime,
+                  duration,
+                  cliff,
+                  unlockInterval,
+                  address: contract.address,
+                  txHash: contract.deployTransaction.hash,
+                  ownershipTransferred: false
+              };
+              output.deployments.push(deployed);
+              output.pending = output.pending?.filter(p => p.row !== row);
+              if (output.pending?.length === 0) {
+                  delete output.pending;
+              }
+              writeOutputManifest(outputPath, output);
+              !silent && console.log(`\tContract deployed to: ${contract.address}`);
+              logGasUsed("the deployment", gasCost, silent);
+              gasCosts.push(gasCost);
+              await recordDeployment(hre, contract, params[i], {label});
+          }
+
+          if (finalOwner) {
+              !silent && console.log(`\tStarting transfer of ownership to ${finalOwner}.`);
+              const {gasCost} = await transferOwnership(connectVestingWallet(deployed.address, deployer), finalOwner, transactionOptions);
+              logGasUsed("the ownership transfer", gasCost, silent);
+              gasCosts.push(gasCost);
+              deployed.ownershipTransferred = true;
+              writeOutputManifest(outputPath, output);
+              !silent && console.log(`\tOwnership pending until ${finalOwner} accepts it.`);
+          }
+      }
+
+      logGasTotal(gasCosts, dryRun, silent);
+      if (!dryRun) {
+          !silent && console.log(`Wrote output manifest to ${outputPath}`);
+          !silent && console.log(`Recorded deployments in ${registryPath(hre)}`);
+          if (output.deployments.some(({finalOwner}) => finalOwner)) {
+              !silent && console.log(`Each final owner must accept ownership with: npx hardhat accept-ownership --network ${hre.network.name} --address <address>`);
+          }
+          return output.deployments;
+      }
+  });
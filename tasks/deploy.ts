@@ -1,42 +1,84 @@
 import {task, types} from "hardhat/config";
+import {BigNumber, ethers} from "ethers";
+import {
+    ACCEPT_OWNERSHIP_GAS,
+    acceptOwnership,
+    createVestingWallet,
+    deployVestingWallet,
+    estimateCreationGas,
+    estimateDeploymentGas,
+    FUND_GAS,
+    pause,
+    PAUSE_GAS,
+    parseAddress,
+    parseAmount,
+    parseDeploymentArgs,
+    parseMinDelay,
+    parseSalt,
+    predictVestingWalletAddress,
+    receiptGasCost,
+    SET_MIN_DELAY_GAS,
+    SET_PAUSER_GAS,
+    SET_SHARES_GAS_PER_BENEFICIARY,
+    setMinDelay,
+    setPauser,
+    setShares,
+    totalGasCost,
+    TRANSFER_OWNERSHIP_GAS,
+    transferOwnership,
+    unpause
+} from "../sdk";
+import {assertLabelAvailable, recordDeployment, registryPath, resolveFactoryAddress} from "./registry";
+import {preflight} from "./preflight";
+import {getTaskSigner} from "./keystore";
+import {FundResult} from "./fund";
+import {estimateGasCost, logEstimatedGas, logGasTotal, logGasUsed} from "./gas";
+import {getTransactionOptions, withTransactionParams} from "./transactions";
+import {loudly} from "./prompt";
+import {logOwnershipPending} from "./admin";
+import {formatShare, readSharesFile} from "./shares";
 
-const dateFormat = new RegExp(/^\d{4}-(0?[1-9]|1[012])-(0?[1-9]|[12][0-9]|3[01])$/);
-const addressFormat = new RegExp(/^(0x)?[0-9a-fA-F]{40}$/);
-task("deploy", "Deploy a vesting contract")
-  .addParam<string>("beneficiary", "The beneficiary address", undefined, types.string)
-  .addParam<string>("finalOwner", "The address of the final owner / admin of the vesting contract", undefined, types.string, true)
-  .addParam<string>("startDate", "The date (formatted YYYY-MM-DD) when vesting begins", undefined, types.string)
-  .addParam<string>("endDate", "The date (formatted YYYY-MM-DD) when vesting ends", undefined, types.string)
-  .addFlag("dryRun", "Only log a preview of the task, but do not actually execute")
-  .addFlag("silent", "If set to true, suppress logging")
+withTransactionParams(task("deploy", "Deploy a vesting contract")
+  .addParam<string>("beneficiary", "The beneficiary address", undefined, types.string, true)
+  .addParam<string>("shares", "A CSV (beneficiary,shares) or JSON file of several beneficiaries to split releases between by their shares, instead of a beneficiary", undefined, types.inputFile, true)
+  .addParam<string>("finalOwner", "The address of the final owner / admin of the vesting contract, who must then accept ownership", undefined, types.string, true)
+  .addParam<string>("startDate", "When vesting begins (YYYY-MM-DD, an ISO-8601 timestamp with a UTC offset, or unix seconds)", undefined, types.string)
+  .addParam<string>("endDate", "When vesting ends (YYYY-MM-DD, an ISO-8601 timestamp with a UTC offset, or unix seconds)", undefined, types.string, true)
+  .addParam<string>("duration", "How long vesting lasts from the startDate, instead of an endDate, e.g. 4y, 48mo or 1461d", undefined, types.string, true)
+  .addParam<string>("cliffDate", "Nothing vests before this date, when everything vested since the startDate unlocks at once (same formats as startDate)", undefined, types.string, true)
+  .addParam<string>("unlockInterval", "Unlock in steps this far apart from the startDate rather than continuously, in fixed units, e.g. 30d or 13w", undefined, types.string, true)
+  .addParam<string>("label", "A unique label to register the deployed contract under, so other tasks can refer to it", undefined, types.string, true)
+  .addParam<string>("fundAmount", "An amount of PALM to deposit into the contract once it is deployed", undefined, types.string, true)
+  .addParam<string>("pauser", "The address of a guardian that can pause the contract in an emergency, but not unpause it or change its schedule", undefined, types.string, true)
+  .addParam<string>("minDelay", "How long changes to the schedule must be queued before they can be executed, in fixed units, e.g. 7d or 2w", undefined, types.string, true)
+  .addFlag("viaFactory", "Create the contract through the factory, at the address predict-address reports")
+  .addParam<string>("factory", "The address of the factory to use with --via-factory, instead of the one recorded for the network", undefined, types.string, true)
+  .addParam<string>("salt", "The salt to use with --via-factory: a 32 byte hex string, or any other text to hash into one", undefined, types.string, true)
+  .addFlag("yes", "Skip the confirmation prompt on production networks, e.g. in CI"))
   .setAction( async (taskArgs, hre) => {
-      const {ethers} = hre;
-      const {beneficiary:beneficiaryString, finalOwner: finalOwnerString, startDate:start, endDate:end, dryRun, silent} = taskArgs;
-      const deployer = (await ethers.getSigners())[0];
+      const {label, fundAmount, viaFactory, keystore, passphraseFd, confirmations, timeout, feeBump, yes, dryRun, silent} = taskArgs;
+      const deployer = await getTaskSigner(hre, taskArgs);
+      const transactionOptions = getTransactionOptions(hre, taskArgs, deployer);
 
-      // Extra validation
-      if (!addressFormat.test(beneficiaryString)) {
-          throw new Error("Invalid beneficiary address supplied: expecting a 20 byte hex string");
+      // Validate and convert the supplied arguments
+      if (!!taskArgs.beneficiary === !!taskArgs.shares) {
+          throw new Error("Supply either a beneficiary or a shares file");
       }
-      if (!!finalOwnerString && !addressFormat.test(finalOwnerString)) {
-          throw new Error("Invalid final owner address supplied: expecting a 20 byte hex string");
+      // The contract is deployed for the first of several beneficiaries, and the shares are set once it is deployed
+      const shares = taskArgs.shares ? readSharesFile(taskArgs.shares) : undefined;
+      const params = parseDeploymentArgs({...taskArgs, beneficiary: shares ? shares[0].beneficiary : taskArgs.beneficiary});
+      const {beneficiary, finalOwner, startDate, endDate, startTime, duration, cliff, unlockInterval} = params;
+      if (label) {
+          await assertLabelAvailable(hre, label);
       }
-      if (!dateFormat.test(start)) {
-          throw new Error("Invalid startDate: must be formatted YYYY-MM-DD");
-      }
-      if (!dateFormat.test(end)) {
-          throw new Error("Invalid endDate: must be formatted YYYY-MM-DD");
-      }
-      const beneficiary = ethers.utils.getAddress(beneficiaryString).toString();
-      const finalOwner = finalOwnerString ? ethers.utils.getAddress(finalOwnerString).toString() : undefined;
-
-      // Get dates
-      const startDate = new Date(Date.parse(start + " 00:00:00 UTC"));
-      const endDate = new Date(Date.parse(end + " 00:00:00 UTC"));
-      // More validation
-      if (startDate.getTime() > endDate.getTime()) {
-          throw new Error("The supplied startDate must be before the endDate");
+      const fundWei = fundAmount ? parseAmount(fundAmount, "PALM", 18) : undefined;
+      const pauser = taskArgs.pauser ? parseAddress(taskArgs.pauser, "pauser") : undefined;
+      const minDelay = taskArgs.minDelay ? parseMinDelay(taskArgs.minDelay) : 0;
+      if (!viaFactory && (taskArgs.factory || taskArgs.salt)) {
+          throw new Error("--factory and --salt only apply with --via-factory");
       }
+      const factory = viaFactory ? await resolveFactoryAddress(hre, taskArgs.factory) : undefined;
+      const salt = parseSalt(taskArgs.salt ?? ethers.constants.HashZero);
 
       // Warn on dry-run
       if (dryRun) {
@@ -44,37 +86,176 @@ task("deploy", "Deploy a vesting contract")
       }
 
       // Log feedback on the supplied parameters
-      !silent && console.log(`Deploying new vesting contract for beneficiary ${beneficiary}`);
+      if (shares) {
+          !silent && console.log(`Deploying new vesting contract for ${shares.length} beneficiaries`);
+          for (const share of shares) {
+              !silent && console.log(`\t${share.beneficiary}: ${share.shares} shares (${formatShare(share.shares, shares)})`);
+          }
+      } else {
+          !silent && console.log(`Deploying new vesting contract for beneficiary ${beneficiary}`);
+      }
       !silent && console.log(`\tVesting starts: ${startDate.toUTCString()}`);
       !silent && console.log(`\tVesting completes: ${endDate.toUTCString()}`);
+      if (cliff > startTime) {
+          !silent && console.log(`\tNothing unlocks before the cliff: ${new Date(cliff * 1000).toUTCString()}`);
+      }
+      if (unlockInterval > 0) {
+          !silent && console.log(`\tUnlocks in steps every ${unlockInterval} seconds from the start`);
+      }
 
-      // Calculate deployment arguments and log them
-      const startTime = startDate.getTime() / 1000;
-      const endTime = endDate.getTime() / 1000;
-      const duration = endTime - startTime;
+      // Log deployment arguments
       !silent && console.log(`Contract deployment arguments:`);
       !silent && console.log(`\tbeneficiary: ${beneficiary}`);
       !silent && console.log(`\tstartTime: ${startTime}`);
       !silent && console.log(`\tduration: ${duration}`);
+      !silent && console.log(`\tcliff: ${cliff}`);
+      !silent && console.log(`\tunlockInterval: ${unlockInterval}`);
+      if (factory) {
+          !silent && console.log(`The contract will be created by factory ${factory} with salt ${salt}, at: ${predictVestingWalletAddress(factory, deployer.address, params, salt)}`);
+      }
+      if (fundAmount) {
+          !silent && console.log(`The contract will be funded with: ${fundAmount}`);
+      }
+      if (shares && shares.length > 1) {
+          !silent && console.log(`The contract will be paused to set the shares of its ${shares.length} beneficiaries, and unpaused again`);
+      }
+      if (pauser) {
+          !silent && console.log(`The pauser role will be granted to: ${pauser}`);
+      }
+      if (minDelay > 0) {
+          !silent && console.log(`Changes to the schedule will have to be queued for: ${minDelay} seconds`);
+      }
       if (finalOwner) {
           !silent && console.log(`Ownership will be transferred to: ${finalOwner}`);
       } else {
           !silent && console.log(`No final owner specified, the deployer will remain the owner: ${deployer.address}`);
       }
 
+      // Check the deployment is safe and confirmed before going to a production network
+      await preflight(hre, deployer, params, {fundAmount: fundWei, factory: factory ? {address: factory, salt} : undefined, shares, pauser, minDelay, yes, dryRun, silent});
+
+      // Estimate what the deployment will cost
+      if (dryRun) {
+          const estimates = [await estimateGasCost(hre, factory ? await estimateCreationGas(deployer, factory, params, salt) : await estimateDeploymentGas(deployer, params))];
+          logEstimatedGas("the deployment", estimates[0], silent);
+          if (factory) {
+              estimates.push(await estimateGasCost(hre, BigNumber.from(ACCEPT_OWNERSHIP_GAS)));
+              logEstimatedGas("accepting ownership from the factory (at most)", estimates[estimates.length - 1], silent);
+          }
+          if (shares && shares.length > 1) {
+              estimates.push(await estimateGasCost(hre, BigNumber.from(2 * PAUSE_GAS + shares.length * SET_SHARES_GAS_PER_BENEFICIARY)));
+              logEstimatedGas("setting the shares (at most)", estimates[estimates.length - 1], silent);
+          }
+          if (fundAmount) {
+              estimates.push(await estimateGasCost(hre, BigNumber.from(FUND_GAS)));
+              logEstimatedGas("funding (at most)", estimates[estimates.length - 1], silent);
+          }
+          if (pauser) {
+              estimates.push(await estimateGasCost(hre, BigNumber.from(SET_PAUSER_GAS)));
+              logEstimatedGas("granting the pauser role (at most)", estimates[estimates.length - 1], silent);
+          }
+          if (minDelay > 0) {
+              estimates.push(await estimateGasCost(hre, BigNumber.from(SET_MIN_DELAY_GAS)));
+              logEstimatedGas("setting the minimum delay (at most)", estimates[estimates.length - 1], silent);
+          }
+          if (finalOwner) {
+              estimates.push(await estimateGasCost(hre, BigNumber.from(TRANSFER_OWNERSHIP_GAS)));
+              logEstimatedGas("the ownership transfer (at most)", estimates[estimates.length - 1], silent);
+          }
+          logGasTotal(estimates, true, silent);
+          return undefined;
+      }
+
       // Deploy
-      if (!dryRun) {
-          const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
-          const contract = await contractFactory.deploy(beneficiary, startTime, duration);
-          await contract.deployed();
+      const contract = factory
+          ? await createVestingWallet(deployer, factory, params, salt, transactionOptions)
+          : await deployVestingWallet(deployer, params, transactionOptions);
+      const gasCosts = [receiptGasCost(contract.deployTransaction, await contract.deployTransaction.wait())];
 
-          !silent && console.log("Contract deployed to:", contract.address);
+      !silent && console.log("Contract deployed to:", contract.address);
+      logGasUsed("the deployment", gasCosts[0], silent);
 
-          if (finalOwner) {
-              !silent && console.log(`Transferring ownership to ${finalOwner}.`);
-              await contract.transferOwnership(finalOwner);
+      await recordDeployment(hre, contract, params, {label, shares, pauser, minDelay, creation: factory ? {factory, salt} : undefined});
+      !silent && console.log(`Recorded deployment${label ? ` as "${label}"` : ""} in ${registryPath(hre)}`);
+
+      // The factory hands the new contract to the deployer, who takes it over like any other new owner
+      if (factory) {
+          const accepted = await acceptOwnership(contract, transactionOptions);
+          logGasUsed("accepting ownership from the factory", accepted.gasCost, silent);
+          gasCosts.push(accepted.gasCost);
+      }
+
+      // A single beneficiary already holds every share
+      if (shares && shares.length > 1) {
+          const sharesCosts = [(await pause(contract, transactionOptions)).gasCost];
+          try {
+              sharesCosts.push((await setShares(contract, shares, transactionOptions)).gasCost);
+              sharesCosts.push((await unpause(contract, transactionOptions)).gasCost);
+          } catch (e) {
+              loudly(`WARNING: vesting contract ${contract.address} was deployed, but its shares were not set and it IS STILL PAUSED: ${(e as Error).message}\nRun: npx hardhat set-shares --address ${contract.address} --shares ${taskArgs.shares}`);
+              throw e;
           }
+          logGasUsed("setting the shares", totalGasCost(sharesCosts), silent);
+          gasCosts.push(...sharesCosts);
+      }
+
+      // The commands that finish setting up the contract if one of the remaining steps fails, in the order they run
+      const remainingSteps: [string, string | false][] = [
+          ["fund", !!fundAmount && `npx hardhat fund --address ${contract.address} --amount "${fundAmount}"`],
+          ["pauser", !!pauser && `npx hardhat grant-pauser --address ${contract.address} --pauser ${pauser}`],
+          ["minDelay", minDelay > 0 && `npx hardhat set-min-delay --address ${contract.address} --min-delay ${taskArgs.minDelay}`],
+          ["finalOwner", !!finalOwner && `npx hardhat transfer-ownership --address ${contract.address} --new-owner ${finalOwner}`],
+      ];
+      const notConfigured = (step: string, what: string, error: unknown) => {
+          const commands = remainingSteps.slice(remainingSteps.findIndex(([name]) => name === step)).flatMap(([, command]) => command ? [command] : []);
+          loudly(`WARNING: vesting contract ${contract.address} was deployed, but ${what}: ${(error as Error).message}\nRun: ${commands.join("\nThen run: ")}`);
+      };
 
-          return contract.address;
+      if (fundAmount) {
+          try {
+              const funded: FundResult = await hre.run("fund", {address: contract.address, amount: fundAmount, keystore, passphraseFd, confirmations, timeout, feeBump, silent});
+              gasCosts.push(funded.gasCost);
+          } catch (e) {
+              notConfigured("fund", "IT WAS NOT FUNDED", e);
+              throw e;
+          }
       }
-  });
\ No newline at end of file
+
+      if (pauser) {
+          try {
+              const granted = await setPauser(contract, pauser, transactionOptions);
+              logGasUsed("granting the pauser role", granted.gasCost, silent);
+              gasCosts.push(granted.gasCost);
+          } catch (e) {
+              notConfigured("pauser", `THE PAUSER ROLE WAS NOT GRANTED to ${pauser}`, e);
+              throw e;
+          }
+      }
+
+      if (minDelay > 0) {
+          try {
+              const delayed = await setMinDelay(contract, minDelay, transactionOptions);
+              logGasUsed("setting the minimum delay", delayed.gasCost, silent);
+              gasCosts.push(delayed.gasCost);
+          } catch (e) {
+              notConfigured("minDelay", "ITS MINIMUM DELAY WAS NOT SET and changes to its schedule need not be queued", e);
+              throw e;
+          }
+      }
+
+      if (finalOwner) {
+          !silent && console.log(`Starting transfer of ownership to ${finalOwner}.`);
+          try {
+              const transferred = await transferOwnership(contract, finalOwner, transactionOptions);
+              logGasUsed("the ownership transfer", transferred.gasCost, silent);
+              gasCosts.push(transferred.gasCost);
+          } catch (e) {
+              notConfigured("finalOwner", `OWNERSHIP WAS NOT TRANSFERRED and the deployer ${deployer.address} is still its owner`, e);
+              throw e;
+          }
+          logOwnershipPending(hre, contract.address, finalOwner, silent);
+      }
+
+      logGasTotal(gasCosts, false, silent);
+      return contract.address;
+  });
@@ -0,0 +1,59 @@
+import {task, types} from "hardhat/config";
+import {ethers} from "ethers";
+import {
+    deployVestingWalletFactory,
+    parseAddress,
+    parseDeploymentArgs,
+    parseSalt,
+    predictVestingWalletAddress,
+    receiptGasCost
+} from "../sdk";
+import {recordFactory, registryPath, resolveFactoryAddress} from "./registry";
+import {getTaskSigner} from "./keystore";
+import {logGasUsed} from "./gas";
+import {getTransactionOptions, withTransactionParams} from "./transactions";
+
+withTransactionParams(task("deploy-factory", "Deploy the factory that creates vesting contracts at predictable addresses, once per network"), {dryRun: false})
+  .setAction( async (taskArgs, hre) => {
+      const {silent} = taskArgs;
+      const deployer = await getTaskSigner(hre, taskArgs);
+
+      const factory = await deployVestingWalletFactory(deployer, getTransactionOptions(hre, taskArgs, deployer));
+      !silent && console.log("Factory deployed to:", factory.address);
+      logGasUsed("the deployment", receiptGasCost(factory.deployTransaction, await factory.deployTransaction.wait()), silent);
+
+      await recordFactory(hre, factory);
+      !silent && console.log(`Recorded factory in ${registryPath(hre)}`);
+      return factory.address;
+  });
+
+task("predict-address", "Work out the address the factory will create a vesting contract at, without sending anything")
+  .addParam<string>("beneficiary", "The beneficiary address", undefined, types.string)
+  .addParam<string>("startDate", "When vesting begins (YYYY-MM-DD, an ISO-8601 timestamp with a UTC offset, or unix seconds)", undefined, types.string)
+  .addParam<string>("endDate", "When vesting ends (YYYY-MM-DD, an ISO-8601 timestamp with a UTC offset, or unix seconds)", undefined, types.string, true)
+  .addParam<string>("duration", "How long vesting lasts from the startDate, instead of an endDate, e.g. 4y, 48mo or 1461d", undefined, types.string, true)
+  .addParam<string>("cliffDate", "Nothing vests before this date, when everything vested since the startDate unlocks at once (same formats as startDate)", undefined, types.string, true)
+  .addParam<string>("unlockInterval", "Unlock in steps this far apart from the startDate rather than continuously, in fixed units, e.g. 30d or 13w", undefined, types.string, true)
+  .addParam<string>("salt", "A 32 byte hex string, or any other text (e.g. a grant reference) to hash into one", ethers.constants.HashZero, types.string)
+  .addParam<string>("factory", "The address of the factory, instead of the one recorded for the network", undefined, types.string, true)
+  .addParam<string>("creator", "The account that will call the factory, instead of the first account configured for the network", undefined, types.string, true)
+  .addFlag("silent", "If set to true, suppress logging")
+  .setAction( async (taskArgs, hre) => {
+      const {silent} = taskArgs;
+      const params = parseDeploymentArgs(taskArgs);
+      const salt = parseSalt(taskArgs.salt);
+      const factory = await resolveFactoryAddress(hre, taskArgs.factory);
+      // Only the account that calls the factory can create the wallet at the address
+      const creator = taskArgs.creator ? parseAddress(taskArgs.creator, "creator") : (await getTaskSigner(hre, {})).address;
+
+      const address = predictVestingWalletAddress(factory, creator, params, salt);
+      !silent && console.log(`Vesting contract for beneficiary ${params.beneficiary} will be created at: ${address}`);
+      !silent && console.log(`\tstartTime: ${params.startTime}`);
+      !silent && console.log(`\tduration: ${params.duration}`);
+      !silent && console.log(`\tcliff: ${params.cliff}`);
+      !silent && console.log(`\tunlockInterval: ${params.unlockInterval}`);
+      !silent && console.log(`\tsalt: ${salt}`);
+      !silent && console.log(`\tfactory: ${factory}`);
+      !silent && console.log(`\tcreator: ${creator}`);
+      return address;
+  });
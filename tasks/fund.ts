@@ -0,0 +1,83 @@
+import {task, types} from "hardhat/config";
+import {BigNumber, ethers} from "ethers";
+import {GasCost, parseAmount, parseTokenList, sendTransaction} from "../sdk";
+import {resolveWalletAddress} from "./registry";
+import {isVestingWallet} from "./bytecode";
+import {getTaskSigner} from "./keystore";
+import {estimateGasCost, getGasPrice, logEstimatedGas, logGasUsed} from "./gas";
+import {getTransactionOptions, withTransactionParams} from "./transactions";
+
+const erc20Abi = [
+    "function symbol() view returns (string)",
+    "function decimals() view returns (uint8)",
+    "function balanceOf(address) view returns (uint256)",
+    "function transfer(address to, uint256 amount) returns (bool)"
+];
+export type FundResult = { address: string, token?: string, symbol: string, amount: BigNumber, txHash: string, gasCost: GasCost };
+
+withTransactionParams(task("fund", "Deposit native PALM or ERC-20 tokens into a vesting contract")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string)
+  .addParam<string>("amount", "The amount to deposit in whole units, e.g. \"1000\" or \"1000 PALM\"", undefined, types.string)
+  .addParam<string>("token", "The address of an ERC-20 token to deposit instead of native PALM", undefined, types.string, true))
+  .setAction( async (taskArgs, hre) => {
+      const {dryRun, silent} = taskArgs;
+      const {provider} = hre.ethers;
+      const sender = await getTaskSigner(hre, taskArgs);
+      const transactionOptions = getTransactionOptions(hre, taskArgs, sender);
+      const tokens = parseTokenList(taskArgs.token);
+      if (tokens.length > 1) {
+          throw new Error("Only one token can be deposited at a time");
+      }
+      const [token] = tokens;
+      const address = await resolveWalletAddress(hre, taskArgs.address);
+
+      // Make sure we're not sending funds somewhere they can't be released from
+      if (!await isVestingWallet(hre, address)) {
+          throw new Error(`${address} is not a PalmEcosystemVestingWallet contract`);
+      }
+
+      const erc20 = token ? new ethers.Contract(token, erc20Abi, sender) : undefined;
+      const symbol: string = erc20 ? await erc20.symbol() : "PALM";
+      const decimals: number = erc20 ? await erc20.decimals() : 18;
+      const amount = parseAmount(taskArgs.amount, symbol, decimals);
+      const format = (value: BigNumber) => `${ethers.utils.formatUnits(value, decimals)} ${symbol}`;
+      const balanceOf = (account: string): Promise<BigNumber> => erc20 ? erc20.balanceOf(account) : provider.getBalance(account);
+
+      // Check the sender can cover the deposit, and for native deposits the fee as well
+      const senderBalance = await balanceOf(sender.address);
+      let required = amount;
+      let gas: BigNumber | undefined;
+      if (!erc20) {
+          gas = await sender.estimateGas({to: address, value: amount});
+          required = amount.add(gas.mul(await getGasPrice(hre)));
+      }
+      if (senderBalance.lt(required)) {
+          throw new Error(`Insufficient balance: ${sender.address} holds ${format(senderBalance)} but ${format(required)} is required`);
+      }
+
+      // Warn on dry-run
+      if (dryRun) {
+          !silent && console.warn("This is a dry run. No funds will actually be sent.");
+      }
+
+      !silent && console.log(`Funding vesting contract ${address} with ${format(amount)}${token ? ` (${token})` : ""} from ${sender.address}`);
+      if (dryRun) {
+          // A token transfer reverts without the balance to cover it, so it can only be estimated after the check above
+          gas = gas ?? await (erc20 as ethers.Contract).estimateGas.transfer(address, amount);
+          logEstimatedGas("the deposit", await estimateGasCost(hre, gas), silent);
+          return undefined;
+      }
+
+      const balanceBefore = await balanceOf(address);
+      const request = erc20 ? await erc20.populateTransaction.transfer(address, amount) : {to: address, value: amount};
+      const {receipt, gasCost} = await sendTransaction(sender, request, transactionOptions);
+      const balanceAfter = await balanceOf(address);
+      if (!balanceAfter.sub(balanceBefore).eq(amount)) {
+          throw new Error(`Balance of ${address} changed by ${format(balanceAfter.sub(balanceBefore))}, expected ${format(amount)} (transaction ${receipt.transactionHash})`);
+      }
+
+      !silent && console.log(`Funded in transaction ${receipt.transactionHash}, new balance: ${format(balanceAfter)}`);
+      logGasUsed("the deposit", gasCost, silent);
+      const result: FundResult = {address, ...(token ? {token} : {}), symbol, amount, txHash: receipt.transactionHash, gasCost};
+      return result;
+  });
@@ -0,0 +1,35 @@
+import {BigNumber, ethers} from "ethers";
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {formatGasCost, gasCost, GasCost, totalGasCost} from "../sdk";
+
+/**
+ * Returns the gas price transactions will be sent at: the fixed gasPrice configured for the network, if any,
+ * otherwise the node's current price.
+ */
+export async function getGasPrice(hre: HardhatRuntimeEnvironment): Promise<BigNumber> {
+    const {gasPrice} = hre.network.config;
+    return gasPrice === "auto" ? hre.ethers.provider.getGasPrice() : BigNumber.from(gasPrice);
+}
+
+export async function estimateGasCost(hre: HardhatRuntimeEnvironment, gas: BigNumber): Promise<GasCost> {
+    return gasCost(gas, await getGasPrice(hre));
+}
+
+export function logEstimatedGas(description: string, cost: GasCost, silent: boolean) {
+    !silent && console.log(`\tEstimated gas for ${description}: ${formatGasCost(cost)}`);
+}
+
+export function logGasUsed(description: string, cost: GasCost, silent: boolean) {
+    !silent && console.log(`\tGas used by ${description}: ${formatGasCost(cost)}`);
+}
+
+/**
+ * Logs the total cost of a run that sent (or would send) more than one transaction.
+ */
+export function logGasTotal(costs: GasCost[], estimated: boolean, silent: boolean) {
+    if (costs.length < 2) {
+        return;
+    }
+    const {gas, cost} = totalGasCost(costs);
+    !silent && console.log(`Total gas ${estimated ? "estimated" : "used"} for ${costs.length} transactions: ${gas} gas = ${ethers.utils.formatEther(cost)} PALM`);
+}
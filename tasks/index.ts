@@ -1 +1,13 @@
-import "./deploy";
\ No newline at end of file
+import "./deploy";
+import "./deploy-batch";
+import "./factory";
+import "./fund";
+import "./keystore";
+import "./vesting-status";
+import "./vesting-schedule";
+import "./admin";
+import "./change-schedule";
+import "./timelock";
+import "./release";
+import "./audit-log";
+import "./verify-deployment";
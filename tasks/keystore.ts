@@ -0,0 +1,104 @@
+import fs from "fs";
+import {task, types} from "hardhat/config";
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {ethers} from "ethers";
+import {promptSecret, readSecretFromFd} from "./prompt";
+
+export type TaskSigner = ethers.Signer & { address: string };
+export type SignerArgs = { keystore?: string, passphraseFd?: number };
+
+const privateKeyFormat = new RegExp(/^(0x)?[0-9a-fA-F]{64}$/);
+
+// Decrypting a keystore is deliberately slow, so tasks that run other tasks only ask for the passphrase once
+const unlockedKeystores = new Map<string, ethers.Wallet>();
+
+async function readPassphrase(question: string, passphraseFd?: number): Promise<string> {
+    return passphraseFd !== undefined ? readSecretFromFd(passphraseFd) : promptSecret(question);
+}
+
+/**
+ * Decrypts an encrypted JSON keystore (V3), reading the passphrase from a file descriptor or prompting for it.
+ */
+export async function unlockKeystore(keystorePath: string, passphraseFd?: number): Promise<ethers.Wallet> {
+    const unlocked = unlockedKeystores.get(keystorePath);
+    if (unlocked) {
+        return unlocked;
+    }
+    if (!fs.existsSync(keystorePath)) {
+        throw new Error(`Keystore ${keystorePath} does not exist`);
+    }
+    const json = fs.readFileSync(keystorePath, "utf8");
+    const passphrase = await readPassphrase(`Passphrase for keystore ${keystorePath}`, passphraseFd);
+    let wallet: ethers.Wallet;
+    try {
+        wallet = await ethers.Wallet.fromEncryptedJson(json, passphrase);
+    } catch (e) {
+        throw new Error(`Could not decrypt keystore ${keystorePath}: ${(e as Error).message}`);
+    }
+    unlockedKeystores.set(keystorePath, wallet);
+    return wallet;
+}
+
+/**
+ * Returns the signer a task should send transactions from: the account in --keystore if one was supplied, otherwise
+ * the first account configured for the network.
+ */
+export async function getTaskSigner(hre: HardhatRuntimeEnvironment, {keystore, passphraseFd}: SignerArgs): Promise<TaskSigner> {
+    if (keystore) {
+        const wallet = await unlockKeystore(keystore, passphraseFd);
+        return wallet.connect(hre.ethers.provider);
+    }
+    const [signer] = await hre.ethers.getSigners();
+    if (!signer) {
+        throw new Error(`No account configured for network ${hre.network.name}: pass --keystore, or set one of PRIVATE_KEY, MNEMONIC or KEYSTORE_FILE`);
+    }
+    return signer;
+}
+
+/**
+ * Encrypts a wallet with a new passphrase and writes it to a keystore file that only the current user can read.
+ */
+async function writeKeystore(wallet: ethers.Wallet, output: string, passphraseFd?: number): Promise<void> {
+    if (fs.existsSync(output)) {
+        throw new Error(`Refusing to overwrite existing file ${output}`);
+    }
+    const passphrase = await readPassphrase("New keystore passphrase", passphraseFd);
+    if (passphraseFd === undefined && passphrase !== await promptSecret("Repeat the passphrase")) {
+        throw new Error("The passphrases do not match");
+    }
+    if (passphrase.length === 0) {
+        throw new Error("The passphrase must not be empty");
+    }
+    fs.writeFileSync(output, await wallet.encrypt(passphrase), {mode: 0o600});
+}
+
+task("create-keystore", "Create a new account in an encrypted JSON keystore")
+  .addParam<string>("output", "The keystore file to write", undefined, types.string)
+  .addParam<number>("passphraseFd", "A file descriptor to read the passphrase from, instead of prompting", undefined, types.int, true)
+  .addFlag("silent", "If set to true, suppress logging")
+  .setAction( async (taskArgs) => {
+      const {output, passphraseFd, silent} = taskArgs;
+      const wallet = ethers.Wallet.createRandom();
+      await writeKeystore(wallet, output, passphraseFd);
+
+      !silent && console.log(`Created account ${wallet.address} in keystore ${output}`);
+      return wallet.address;
+  });
+
+task("import-keystore", "Import an existing private key into an encrypted JSON keystore")
+  .addParam<string>("output", "The keystore file to write", undefined, types.string)
+  .addParam<number>("privateKeyFd", "A file descriptor to read the private key from, instead of prompting", undefined, types.int, true)
+  .addParam<number>("passphraseFd", "A file descriptor to read the passphrase from, instead of prompting", undefined, types.int, true)
+  .addFlag("silent", "If set to true, suppress logging")
+  .setAction( async (taskArgs) => {
+      const {output, privateKeyFd, passphraseFd, silent} = taskArgs;
+      const privateKey = (privateKeyFd !== undefined ? readSecretFromFd(privateKeyFd) : await promptSecret("Private key")).trim();
+      if (!privateKeyFormat.test(privateKey)) {
+          throw new Error("Invalid private key: expecting a 32 byte hex string");
+      }
+      const wallet = new ethers.Wallet(privateKey);
+      await writeKeystore(wallet, output, passphraseFd);
+
+      !silent && console.log(`Imported account ${wallet.address} into keystore ${output}`);
+      return wallet.address;
+  });
@@ -0,0 +1,71 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {Signer} from "ethers";
+import {
+    BatchPreflightRow,
+    DeploymentParams,
+    preflightBatch,
+    PreflightCheck,
+    preflightDeployment,
+    PreflightError,
+    PreflightOptions
+} from "../sdk";
+import {getGasPrice} from "./gas";
+import {confirm} from "./prompt";
+
+export const productionNetworks = ["palm", "palm-testnet"];
+
+const statusLabels = {pass: "PASS", warn: "WARN", fail: "FAIL"};
+
+type ConfirmOptions = { yes: boolean, dryRun: boolean, silent: boolean };
+
+/**
+ * Logs the preflight checks and asks the operator to confirm the summary that has been logged so far.  Fails if any
+ * check fails, or if the operator doesn't confirm.
+ */
+async function confirmChecks(hre: HardhatRuntimeEnvironment, checks: PreflightCheck[], action: string, options: ConfirmOptions) {
+    const {yes, dryRun, silent} = options;
+    const network = hre.network.name;
+    !silent && console.log(`Preflight checks for ${network}:`);
+    for (const {check, status, message} of checks) {
+        !silent && console.log(`\t${statusLabels[status]} ${check}: ${message}`);
+    }
+    const failures = checks.filter(({status}) => status === "fail");
+    if (failures.length > 0) {
+        throw new PreflightError(failures.map(({check, message}) => `${check}: ${message}`));
+    }
+
+    if (yes || dryRun) {
+        return;
+    }
+    if (!process.stdin.isTTY) {
+        throw new Error(`Refusing to deploy to ${network} without confirmation, pass --yes to skip the prompt`);
+    }
+    const warnings = checks.filter(({status}) => status === "warn").length;
+    if (!await confirm(`${action} to ${network}${warnings > 0 ? ` despite ${warnings} warning(s)` : ""}?`)) {
+        throw new Error("Deployment aborted by the operator");
+    }
+}
+
+/**
+ * On production networks, runs the preflight checks for a deployment and asks the operator to confirm them, pricing
+ * its transactions at the gas price they will be sent at.  Does nothing on other networks.
+ */
+export async function preflight(hre: HardhatRuntimeEnvironment, signer: Signer, params: DeploymentParams, options: PreflightOptions & ConfirmOptions) {
+    if (!productionNetworks.includes(hre.network.name)) {
+        return;
+    }
+    const checks = await preflightDeployment(signer, params, {...options, gasPrice: await getGasPrice(hre)});
+    await confirmChecks(hre, checks, "Deploy", options);
+}
+
+/**
+ * On production networks, runs the preflight checks for the rows of a batch that are left to deploy and asks the
+ * operator to confirm them.  Does nothing on other networks.
+ */
+export async function preflightRows(hre: HardhatRuntimeEnvironment, signer: Signer, rows: BatchPreflightRow[], options: ConfirmOptions) {
+    if (!productionNetworks.includes(hre.network.name) || rows.length === 0) {
+        return;
+    }
+    const checks = await preflightBatch(signer, rows, {gasPrice: await getGasPrice(hre)});
+    await confirmChecks(hre, checks, `Deploy ${rows.filter(({deployed}) => !deployed).length} vesting contract(s)`, options);
+}
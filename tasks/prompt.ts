@@ -0,0 +1,50 @@
+import fs from "fs";
+import readline from "readline";
+import {Writable} from "stream";
+
+/**
+ * Asks the operator a yes/no question on the terminal, defaulting to no.
+ */
+export function confirm(question: string): Promise<boolean> {
+    const rl = readline.createInterface({input: process.stdin, output: process.stdout});
+    return new Promise(resolve => rl.question(`${question} [y/N] `, answer => {
+        rl.close();
+        resolve(/^y(es)?$/i.test(answer.trim()));
+    }));
+}
+
+/**
+ * Asks the operator for a secret on the terminal, without echoing what they type.
+ */
+export function promptSecret(question: string): Promise<string> {
+    if (!process.stdin.isTTY) {
+        throw new Error(`Cannot prompt for "${question}" without a terminal, pass a file descriptor to read it from instead`);
+    }
+    // readline echoes what is typed to its output, so write the question ourselves and give readline an output that
+    // discards everything
+    const muted = new Writable({write: (chunk, encoding, callback) => callback()});
+    const rl = readline.createInterface({input: process.stdin, output: muted, terminal: true});
+    process.stdout.write(`${question}: `);
+    return new Promise(resolve => {
+        rl.question("", answer => {
+            rl.close();
+            process.stdout.write("\n");
+            resolve(answer);
+        });
+    });
+}
+
+/**
+ * Reads a secret from a file descriptor (e.g. --passphrase-fd 3 with 3<passphrase.txt), up to the first newline.
+ */
+export function readSecretFromFd(fd: number): string {
+    return fs.readFileSync(fd, "utf8").split(/\r?\n/)[0];
+}
+
+/**
+ * Prints an error the operator can't miss, e.g. when a task fails and leaves a contract in an unexpected state.
+ */
+export function loudly(message: string) {
+    const banner = "!".repeat(80);
+    console.error(`${banner}\n${message}\n${banner}`);
+}
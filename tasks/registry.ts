@@ -0,0 +1,154 @@
+import fs from "fs";
+import path from "path";
+import {ethers} from "ethers";
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {
+    addressFormat,
+    BeneficiaryShare,
+    DeploymentParams,
+    parseAddress,
+    PalmEcosystemVestingWallet,
+    PalmEcosystemVestingWalletFactory
+} from "../sdk";
+
+const contractName = "contracts/PalmEcosystemVestingWallet.sol:PalmEcosystemVestingWallet";
+
+// Entries record the configuration the operator asked for rather than what the contract reports, so that
+// verify-deployment can tell when the two differ
+export type RegistryEntry = {
+    label?: string,
+    address: string,
+    // The cliff and unlockInterval are absent from entries recorded before they were constructor arguments
+    constructorArgs: { beneficiary: string, startTime: number, duration: number, cliff?: number, unlockInterval?: number },
+    deployer: string,
+    finalOwner?: string,
+    // Set when the wallet was deployed for several beneficiaries, with a pauser or with a minimum delay
+    shares?: BeneficiaryShare[],
+    pauser?: string,
+    minDelay?: number,
+    // Set for wallets created through the factory, which determine their address along with the constructorArgs
+    factory?: string,
+    salt?: string,
+    blockNumber: number,
+    txHash: string,
+    compilerVersion: string
+};
+export type FactoryCreation = { factory: string, salt: string };
+export type DeploymentRecord = { label?: string, shares?: BeneficiaryShare[], pauser?: string, minDelay?: number, creation?: FactoryCreation };
+export type Registry = { network: string, chainId: number, factory?: string, deployments: RegistryEntry[] };
+
+/**
+ * The registry of deployed vesting wallets is kept per network in deployments/<network>.json
+ */
+export function registryPath(hre: HardhatRuntimeEnvironment): string {
+    return path.join(hre.config.paths.root, "deployments", `${hre.network.name}.json`);
+}
+
+export async function readRegistry(hre: HardhatRuntimeEnvironment): Promise<Registry> {
+    const file = registryPath(hre);
+    if (!fs.existsSync(file)) {
+        const {chainId} = await hre.ethers.provider.getNetwork();
+        return {network: hre.network.name, chainId, deployments: []};
+    }
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+function writeRegistry(hre: HardhatRuntimeEnvironment, registry: Registry) {
+    const file = registryPath(hre);
+    fs.mkdirSync(path.dirname(file), {recursive: true});
+    fs.writeFileSync(file, JSON.stringify(registry, null, 2) + "\n");
+}
+
+async function isDeployed(hre: HardhatRuntimeEnvironment, address: string): Promise<boolean> {
+    return (await hre.ethers.provider.getCode(address)) !== "0x";
+}
+
+/**
+ * Throws if the label is already used by another wallet in the registry.  Entries whose contract no longer exists
+ * (e.g. after restarting a local node) do not count.
+ */
+export async function assertLabelAvailable(hre: HardhatRuntimeEnvironment, label: string, address?: string) {
+    if (addressFormat.test(label)) {
+        throw new Error(`Invalid label "${label}": labels must not be formatted as an address`);
+    }
+    const registry = await readRegistry(hre);
+    const existing = registry.deployments.find(entry => entry.label === label);
+    if (existing && existing.address !== address && await isDeployed(hre, existing.address)) {
+        throw new Error(`Label "${label}" is already registered to ${existing.address} in ${registryPath(hre)}`);
+    }
+}
+
+/**
+ * Adds a newly deployed vesting wallet to the registry for the current network, along with the parameters and settings
+ * it was deployed with.
+ */
+export async function recordDeployment(hre: HardhatRuntimeEnvironment, contract: PalmEcosystemVestingWallet, params: DeploymentParams, {label, shares, pauser, minDelay, creation}: DeploymentRecord = {}): Promise<RegistryEntry> {
+    if (label) {
+        await assertLabelAvailable(hre, label, contract.address);
+    }
+    const receipt = await contract.deployTransaction.wait();
+    const buildInfo = await hre.artifacts.getBuildInfo(contractName);
+    const {beneficiary, startTime, duration, cliff, unlockInterval, finalOwner} = params;
+
+    const entry: RegistryEntry = {
+        ...(label ? {label} : {}),
+        address: contract.address,
+        constructorArgs: {beneficiary, startTime, duration, cliff, unlockInterval},
+        deployer: receipt.from,
+        ...(finalOwner ? {finalOwner} : {}),
+        ...(shares && shares.length > 1 ? {shares} : {}),
+        ...(pauser ? {pauser} : {}),
+        ...(minDelay ? {minDelay} : {}),
+        ...(creation ?? {}),
+        blockNumber: receipt.blockNumber,
+        txHash: receipt.transactionHash,
+        compilerVersion: buildInfo?.solcLongVersion ?? hre.config.solidity.compilers[0].version
+    };
+
+    const registry = await readRegistry(hre);
+    registry.deployments = registry.deployments
+        .filter(existing => existing.address !== entry.address && (!label || existing.label !== label));
+    registry.deployments.push(entry);
+    writeRegistry(hre, registry);
+
+    return entry;
+}
+
+/**
+ * Resolves a wallet reference to a checksummed address.  The reference may either be an address or the label of a
+ * wallet in the registry for the current network.
+ */
+export async function resolveWalletAddress(hre: HardhatRuntimeEnvironment, addressOrLabel: string): Promise<string> {
+    if (addressFormat.test(addressOrLabel)) {
+        return ethers.utils.getAddress(addressOrLabel);
+    }
+    const registry = await readRegistry(hre);
+    const entry = registry.deployments.find(entry => entry.label === addressOrLabel);
+    if (!entry) {
+        throw new Error(`No wallet labelled "${addressOrLabel}" in ${registryPath(hre)}`);
+    }
+    return entry.address;
+}
+
+/**
+ * Records the vesting wallet factory for the current network, which `deploy --via-factory` then uses by default.
+ */
+export async function recordFactory(hre: HardhatRuntimeEnvironment, factory: PalmEcosystemVestingWalletFactory) {
+    const registry = await readRegistry(hre);
+    registry.factory = factory.address;
+    writeRegistry(hre, registry);
+}
+
+/**
+ * Resolves the vesting wallet factory to use: the supplied address, or else the factory recorded for the network.
+ */
+export async function resolveFactoryAddress(hre: HardhatRuntimeEnvironment, address?: string): Promise<string> {
+    if (address) {
+        return parseAddress(address, "factory");
+    }
+    const {factory} = await readRegistry(hre);
+    if (!factory) {
+        throw new Error(`No vesting wallet factory recorded in ${registryPath(hre)}, run deploy-factory or supply a --factory`);
+    }
+    return factory;
+}
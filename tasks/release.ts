@@ -0,0 +1,93 @@
+import {task, types} from "hardhat/config";
+import {BigNumber, ethers} from "ethers";
+import {
+    connectVestingWallet,
+    Distribution,
+    GasCost,
+    getWalletStatus,
+    parseTokenList,
+    release,
+    TransactionOptions
+} from "../sdk";
+import {resolveWalletAddress} from "./registry";
+import {getTaskSigner} from "./keystore";
+import {estimateGasCost, logEstimatedGas, logGasTotal, logGasUsed} from "./gas";
+import {getTransactionOptions, withTransactionParams} from "./transactions";
+
+export type Release = { token?: string, symbol: string, amount: BigNumber, distributions: Distribution[], txHash: string, gasCost: GasCost };
+export type WalletRelease = { address: string, beneficiary: string, skipped?: string, releases: Release[] };
+
+withTransactionParams(task("release", "Release vested funds from one or more vesting contracts to their beneficiaries")
+  .addParam<string>("address", "A comma separated list of addresses or registry labels of vesting contracts", undefined, types.string)
+  .addParam<string>("token", "A comma separated list of ERC-20 token addresses to release, in addition to native PALM", undefined, types.string, true))
+  .setAction( async (taskArgs, hre) => {
+      const {dryRun, silent} = taskArgs;
+      const tokens = parseTokenList(taskArgs.token);
+      const signer = dryRun ? undefined : await getTaskSigner(hre, taskArgs);
+      const transactionOptions: TransactionOptions = signer ? getTransactionOptions(hre, taskArgs, signer) : {};
+      const addresses: string[] = [];
+      for (const addressOrLabel of taskArgs.address.split(",")) {
+          addresses.push(await resolveWalletAddress(hre, addressOrLabel.trim()));
+      }
+
+      // Warn on dry-run
+      if (dryRun) {
+          !silent && console.warn("This is a dry run. No funds will actually be released.");
+      }
+
+      const results: WalletRelease[] = [];
+      const gasCosts: GasCost[] = [];
+      for (const address of addresses) {
+          const status = await getWalletStatus(hre.ethers.provider, address, tokens);
+          const result: WalletRelease = {address, beneficiary: status.beneficiary, releases: []};
+          results.push(result);
+
+          const recipients = status.beneficiaries.length > 1 ? `${status.beneficiaries.length} beneficiaries` : `beneficiary ${status.beneficiary}`;
+          !silent && console.log(`Vesting contract ${address} (${recipients})`);
+          if (status.paused) {
+              result.skipped = "paused";
+              !silent && console.log("\tContract is paused, skipping");
+              continue;
+          }
+          const releasable = status.assets.filter(asset => !asset.releasable.isZero());
+          if (releasable.length === 0) {
+              result.skipped = "nothing releasable";
+              !silent && console.log("\tNothing releasable, skipping");
+              continue;
+          }
+
+          const contract = connectVestingWallet(address, signer ?? hre.ethers.provider);
+          for (const asset of releasable) {
+              const format = (amount: BigNumber) => `${ethers.utils.formatUnits(amount, asset.decimals)} ${asset.symbol}`;
+              if (dryRun) {
+                  !silent && console.log(`\tWould release ${format(asset.releasable)}`);
+                  if (asset.recipients.length > 1) {
+                      for (const recipient of asset.recipients) {
+                          !silent && console.log(`\t\t${format(recipient.releasable)} to ${recipient.beneficiary}`);
+                      }
+                  }
+                  const gas = asset.token ? await contract.estimateGas["release(address)"](asset.token) : await contract.estimateGas["release()"]();
+                  const gasCost = await estimateGasCost(hre, gas);
+                  logEstimatedGas(`releasing ${asset.symbol}`, gasCost, silent);
+                  gasCosts.push(gasCost);
+                  continue;
+              }
+
+              const {amount, distributions, txHash, gasCost} = await release(contract, asset.token, transactionOptions);
+              result.releases.push({...(asset.token ? {token: asset.token} : {}), symbol: asset.symbol, amount, distributions, txHash, gasCost});
+              gasCosts.push(gasCost);
+              if (distributions.length > 1) {
+                  !silent && console.log(`\tReleased ${format(amount)} in transaction ${txHash}`);
+                  for (const distribution of distributions) {
+                      !silent && console.log(`\t\t${format(distribution.amount)} to ${distribution.beneficiary}`);
+                  }
+              } else {
+                  !silent && console.log(`\tReleased ${format(amount)} to ${status.beneficiary} in transaction ${txHash}`);
+              }
+              logGasUsed(`releasing ${asset.symbol}`, gasCost, silent);
+          }
+      }
+      logGasTotal(gasCosts, dryRun, silent);
+
+      return results;
+  });
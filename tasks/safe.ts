@@ -0,0 +1,79 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {ethers} from "ethers";
+
+export type SafeTransaction = {
+    to: string,
+    value: string,
+    data: string,
+    contractMethod: {
+        name: string,
+        payable: boolean,
+        inputs: { name: string, type: string, internalType: string }[]
+    },
+    contractInputsValues: Record<string, string>
+};
+
+export type SafeBatch = {
+    version: string,
+    chainId: string,
+    createdAt: number,
+    meta: {
+        name: string,
+        description: string,
+        txBuilderVersion: string,
+        createdFromSafeAddress: string,
+        createdFromOwnerAddress: string
+    },
+    transactions: SafeTransaction[]
+};
+
+/**
+ * Formats an argument the way the Safe Transaction Builder takes it: arrays as JSON arrays of their elements.
+ */
+function safeInputValue(input: ethers.utils.ParamType, value: unknown): string {
+    if (input.baseType === "array") {
+        return JSON.stringify((value as unknown[]).map(element => String(element)));
+    }
+    return String(value);
+}
+
+/**
+ * Encodes a call to a contract method as a transaction for the Safe Transaction Builder.
+ */
+export function encodeSafeTransaction(contract: ethers.BaseContract, method: string, args: unknown[]): SafeTransaction {
+    const fragment = contract.interface.getFunction(method);
+    return {
+        to: contract.address,
+        value: "0",
+        data: contract.interface.encodeFunctionData(fragment, args),
+        contractMethod: {
+            name: fragment.name,
+            payable: fragment.payable,
+            inputs: fragment.inputs.map(input => ({name: input.name, type: input.type, internalType: input.type}))
+        },
+        contractInputsValues: Object.fromEntries(fragment.inputs.map((input, i) => [input.name, safeInputValue(input, args[i])]))
+    };
+}
+
+/**
+ * Builds a batch file that can be imported into the Safe Transaction Builder and signed by the owners of the Safe.
+ * The creation time is taken from the latest block rather than the clock, so the output only depends on chain state.
+ */
+export async function buildSafeBatch(hre: HardhatRuntimeEnvironment, safeAddress: string, name: string, transactions: SafeTransaction[]): Promise<SafeBatch> {
+    const {chainId} = await hre.ethers.provider.getNetwork();
+    const {timestamp} = await hre.ethers.provider.getBlock("latest");
+    return {
+        version: "1.0",
+        chainId: chainId.toString(),
+        createdAt: timestamp * 1000,
+        meta: {
+            name,
+            description: transactions.map(({to, contractMethod, contractInputsValues}) =>
+                `${to}.${contractMethod.name}(${Object.values(contractInputsValues).join(", ")})`).join("; "),
+            txBuilderVersion: "1.16.1",
+            createdFromSafeAddress: safeAddress,
+            createdFromOwnerAddress: ""
+        },
+        transactions
+    };
+}
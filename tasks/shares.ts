@@ -0,0 +1,38 @@
+import fs from "fs";
+import path from "path";
+import {BeneficiaryShare, parseShares} from "../sdk";
+
+const sharesColumns = ["beneficiary", "shares"];
+
+/**
+ * Reads the weighted beneficiaries of a vesting contract from either a JSON file (an array of {beneficiary, shares}
+ * objects) or a CSV file with a beneficiary,shares header row.
+ */
+export function readSharesFile(sharesPath: string): BeneficiaryShare[] {
+    const contents = fs.readFileSync(sharesPath, "utf8");
+    if (path.extname(sharesPath).toLowerCase() === ".json") {
+        const rows = JSON.parse(contents);
+        if (!Array.isArray(rows)) {
+            throw new Error("Invalid shares file: expecting a JSON array of rows");
+        }
+        return parseShares(rows);
+    }
+
+    const [header, ...lines] = contents.split(/\r?\n/).filter(line => line.trim().length > 0);
+    const columns = (header ?? "").split(",").map(column => column.trim());
+    if (columns.length !== sharesColumns.length || !sharesColumns.every(column => columns.includes(column))) {
+        throw new Error(`Invalid shares file: expecting a CSV header row of ${sharesColumns.join(",")}`);
+    }
+    return parseShares(lines.map(line => {
+        const values = line.split(",").map(value => value.trim());
+        return {beneficiary: values[columns.indexOf("beneficiary")], shares: values[columns.indexOf("shares")]};
+    }));
+}
+
+/**
+ * Formats a beneficiary's shares as a percentage of all the shares, with 2 decimals.
+ */
+export function formatShare(shares: number, beneficiaries: BeneficiaryShare[]): string {
+    const total = beneficiaries.reduce((sum, beneficiary) => sum + beneficiary.shares, 0);
+    return `${(shares * 100 / total).toFixed(2)}%`;
+}
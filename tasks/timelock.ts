@@ -0,0 +1,162 @@
+import {task, types} from "hardhat/config";
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {ethers} from "ethers";
+import {
+    ChangeNotQueuedError,
+    changeId,
+    describeChange,
+    encodeChange,
+    formatDate,
+    getQueuedChanges,
+    getWalletStatus,
+    parseAddress,
+    parseMinDelay,
+    prepareCancelChange,
+    prepareExecuteChange,
+    prepareQueueChange,
+    QueueableMethod,
+    QueuedChange
+} from "../sdk";
+import {getAdminSigner, getOwnedWallet, sendAdminTransaction, submitAdminTransaction} from "./admin";
+import {parseNewEnd, runWhilePaused} from "./change-schedule";
+import {readRegistry, resolveWalletAddress} from "./registry";
+import {getTaskSigner} from "./keystore";
+import {logGasTotal} from "./gas";
+import {getTransactionOptions, withTransactionParams} from "./transactions";
+import {readSharesFile} from "./shares";
+
+/**
+ * Lists the changes still queued on a vesting contract, searching events from the block it was deployed in if it is in
+ * the registry.
+ */
+async function queuedChanges(hre: HardhatRuntimeEnvironment, address: string, fromBlock: number): Promise<QueuedChange[]> {
+    const registry = await readRegistry(hre);
+    const deploymentBlock = registry.deployments.find(entry => entry.address === address)?.blockNumber ?? fromBlock;
+    return getQueuedChanges(hre.ethers.provider, address, deploymentBlock);
+}
+
+async function findQueuedChange(hre: HardhatRuntimeEnvironment, address: string, id: string, fromBlock: number): Promise<QueuedChange> {
+    const change = (await queuedChanges(hre, address, fromBlock)).find(change => change.id === id.toLowerCase());
+    if (!change) {
+        throw new ChangeNotQueuedError(address, id);
+    }
+    return change;
+}
+
+withTransactionParams(task("queue-change", "Queue a change to the beneficiaries, end date or minimum delay of a vesting contract, to be executed once its minimum delay has passed")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string)
+  .addParam<string>("beneficiary", "The new beneficiary address", undefined, types.string, true)
+  .addParam<string>("shares", "A CSV (beneficiary,shares) or JSON file of several beneficiaries to split releases between by their shares", undefined, types.inputFile, true)
+  .addParam<string>("endDate", "The new end of vesting (YYYY-MM-DD, an ISO-8601 timestamp with a UTC offset, or unix seconds)", undefined, types.string, true)
+  .addFlag("rebase", "Keep what has vested by the time the change is executed, and only vest the rest over the time left until the new end date")
+  .addParam<string>("minDelay", "The new minimum delay in fixed units, e.g. 7d or 2w, or 0 to allow changing the schedule directly again", undefined, types.string, true), {unsigned: true})
+  .setAction( async (taskArgs, hre) => {
+      const {endDate, rebase, dryRun, unsigned, silent} = taskArgs;
+      if ([taskArgs.beneficiary, taskArgs.shares, endDate, taskArgs.minDelay].filter(arg => arg !== undefined).length !== 1) {
+          throw new Error("Supply exactly one change to queue: a beneficiary, a shares file, an endDate or a minDelay");
+      }
+      if (rebase && !endDate) {
+          throw new Error("Only a change of the endDate can be rebased");
+      }
+      const contract = await getOwnedWallet(hre, taskArgs.address, await getAdminSigner(hre, taskArgs));
+      const status = await getWalletStatus(hre.ethers.provider, contract.address);
+
+      // Work out the change, with the same checks the contract applies when it is executed
+      let method: QueueableMethod;
+      let args: unknown[];
+      if (taskArgs.beneficiary) {
+          const beneficiary = parseAddress(taskArgs.beneficiary, "beneficiary");
+          if (beneficiary === ethers.constants.AddressZero) {
+              throw new Error("Beneficiary is zero address");
+          }
+          if (status.beneficiaries.length === 1 && beneficiary === status.beneficiary) {
+              throw new Error("New beneficiary must differ from current beneficiary");
+          }
+          method = "setBeneficiary";
+          args = [beneficiary];
+      } else if (taskArgs.shares) {
+          const shares = readSharesFile(taskArgs.shares);
+          method = "setShares";
+          args = [shares.map(({beneficiary}) => beneficiary), shares.map(share => share.shares)];
+      } else if (endDate) {
+          method = rebase ? "rebaseDuration" : "setDuration";
+          args = [parseNewEnd(status, endDate, rebase)];
+      } else {
+          const minDelay = parseMinDelay(taskArgs.minDelay);
+          if (minDelay === status.minDelay) {
+              throw new Error("New delay must differ from current delay");
+          }
+          method = "setMinDelay";
+          args = [minDelay];
+      }
+      const call = await prepareQueueChange(contract, method, args);
+      const id = changeId(encodeChange(method, args));
+
+      !silent && console.log(`Queueing ${describeChange({method, args})} on vesting contract ${contract.address}`);
+      !silent && console.log(`\tid: ${id}`);
+      !silent && console.log(`\tminimum delay: ${status.minDelay} seconds`);
+      const result = await submitAdminTransaction(hre, contract, call, taskArgs);
+      if (!dryRun && !unsigned) {
+          const readyTimestamp = (await contract.queuedChange(id)).toNumber();
+          !silent && console.log(`The change can be executed from ${formatDate(readyTimestamp)} by running`);
+          !silent && console.log(`\tnpx hardhat execute-change --network ${hre.network.name} --address ${contract.address} --id ${id}`);
+      }
+      return result && {...result, id};
+  });
+
+task("list-queued-changes", "List the changes queued on a vesting contract that have not been executed or cancelled")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string)
+  .addParam<number>("fromBlock", "The block to start searching from, for contracts that are not in the registry", 0, types.int)
+  .addFlag("silent", "If set to true, suppress logging")
+  .setAction( async (taskArgs, hre) => {
+      const {silent} = taskArgs;
+      const address = await resolveWalletAddress(hre, taskArgs.address);
+      const changes = await queuedChanges(hre, address, taskArgs.fromBlock);
+
+      !silent && console.log(`${changes.length} change(s) queued on vesting contract ${address}`);
+      for (const change of changes) {
+          !silent && console.log(`\t${change.id}: ${describeChange(change)}, ${change.ready ? "ready since" : "ready at"} ${formatDate(change.readyTimestamp)}`);
+      }
+      return changes;
+  });
+
+withTransactionParams(task("execute-change", "Execute a queued change once its minimum delay has passed, pausing the vesting contract around it if needed")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string)
+  .addParam<string>("id", "The id of the queued change, as list-queued-changes reports it", undefined, types.string)
+  .addParam<number>("fromBlock", "The block to start searching for the change from, for contracts that are not in the registry", 0, types.int))
+  .setAction( async (taskArgs, hre) => {
+      const {dryRun, silent} = taskArgs;
+      const signer = await getTaskSigner(hre, taskArgs);
+      const contract = await getOwnedWallet(hre, taskArgs.address, signer);
+      const change = await findQueuedChange(hre, contract.address, taskArgs.id, taskArgs.fromBlock);
+      const step = await prepareExecuteChange(contract, change.data);
+
+      !silent && console.log(`Executing ${describeChange(change)} on vesting contract ${contract.address}`);
+      // Changing the minimum delay is the only change that doesn't need the contract paused
+      if (change.method === "setMinDelay" || dryRun) {
+          return sendAdminTransaction(hre, contract, step, dryRun, silent, dryRun ? {} : getTransactionOptions(hre, taskArgs, signer));
+      }
+
+      const wasPaused = await contract.paused();
+      if (wasPaused) {
+          !silent && console.warn(`Vesting contract ${contract.address} is already paused and will remain paused after the change.`);
+      }
+      const results = await runWhilePaused(hre, contract, [step], wasPaused, getTransactionOptions(hre, taskArgs, signer), silent);
+      !silent && console.log(`Executed ${describeChange(change)} on vesting contract ${contract.address}`);
+      logGasTotal(results.map(result => result.gasCost), false, silent);
+      return results;
+  });
+
+withTransactionParams(task("cancel-queued-change", "Cancel a change queued on a vesting contract")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string)
+  .addParam<string>("id", "The id of the queued change, as list-queued-changes reports it", undefined, types.string)
+  .addParam<number>("fromBlock", "The block to start searching for the change from, for contracts that are not in the registry", 0, types.int), {unsigned: true})
+  .setAction( async (taskArgs, hre) => {
+      const {silent} = taskArgs;
+      const contract = await getOwnedWallet(hre, taskArgs.address, await getAdminSigner(hre, taskArgs));
+      const change = await findQueuedChange(hre, contract.address, taskArgs.id, taskArgs.fromBlock);
+      const call = await prepareCancelChange(contract, change.id);
+
+      !silent && console.log(`Cancelling ${describeChange(change)} queued on vesting contract ${contract.address}`);
+      return submitAdminTransaction(hre, contract, call, taskArgs);
+  });
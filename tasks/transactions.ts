@@ -0,0 +1,49 @@
+import {BigNumber, Signer} from "ethers";
+import {types} from "hardhat/config";
+import {ConfigurableTaskDefinition, HardhatRuntimeEnvironment} from "hardhat/types";
+import {DEFAULT_CONFIRMATIONS, DEFAULT_TIMEOUT, NonceManager, TransactionOptions, validateTransactionOptions} from "../sdk";
+
+export type TransactionArgs = { confirmations?: number, timeout?: number, feeBump?: number };
+
+/**
+ * Builds the options for sending a task's transactions: how long to wait for them and whether to replace stuck ones
+ * come from the task arguments, and a fixed gas price from the network config.  The transactions of a task share a
+ * nonce manager, so they go out in order.
+ */
+export function getTransactionOptions(hre: HardhatRuntimeEnvironment, taskArgs: TransactionArgs, signer: Signer): TransactionOptions {
+    const {confirmations, timeout, feeBump} = taskArgs;
+    const {gasPrice} = hre.network.config;
+    const options: TransactionOptions = {
+        confirmations,
+        timeout,
+        feeBump,
+        ...(gasPrice !== "auto" ? {gasPrice: BigNumber.from(gasPrice)} : {}),
+        nonces: new NonceManager(signer)
+    };
+    validateTransactionOptions(options);
+    return options;
+}
+
+/**
+ * Adds the params every task that sends transactions takes: the signer, how to wait for and replace its transactions,
+ * --dry-run unless the task can't preview them, --unsigned for tasks a multisig owner can run, and --silent.
+ */
+export function withTransactionParams<T extends ConfigurableTaskDefinition>(task: T, {dryRun = true, unsigned = false} = {}): T {
+    task
+      .addParam<string>("keystore", "An encrypted JSON keystore to sign with, instead of the account configured for the network", undefined, types.inputFile, true)
+      .addParam<number>("passphraseFd", "A file descriptor to read the keystore passphrase from, instead of prompting", undefined, types.int, true)
+      .addParam<number>("confirmations", "The number of confirmations to wait for on each transaction", DEFAULT_CONFIRMATIONS, types.int)
+      .addParam<number>("timeout", "How many seconds to wait for each transaction to be mined before replacing it or giving up, 0 to wait forever", DEFAULT_TIMEOUT, types.int)
+      .addParam<number>("feeBump", "Replace a transaction that times out with one paying this many percent more gas, at least 10", undefined, types.int, true);
+    if (dryRun) {
+        task.addFlag("dryRun", "Only log a preview of the task, but do not actually execute");
+    }
+    if (unsigned) {
+        task
+          .addFlag("unsigned", "Instead of sending the transaction, output it as a Safe Transaction Builder batch for a multisig owner")
+          .addParam<string>("output", "A file to write the unsigned Safe Transaction Builder batch to, instead of printing it", undefined, types.string, true)
+          .addFlag("append", "Append the unsigned transaction to the existing Safe Transaction Builder batch in --output");
+    }
+    task.addFlag("silent", "If set to true, suppress logging");
+    return task;
+}
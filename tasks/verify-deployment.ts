@@ -0,0 +1,216 @@
+import fs from "fs";
+import {task, types} from "hardhat/config";
+import {BigNumber, ethers} from "ethers";
+import {
+    BeneficiaryShare,
+    formatDate,
+    parseAddress,
+    parseDuration,
+    parseMinDelay,
+    parseTimestamp,
+    parseUnlockInterval
+} from "../sdk";
+import {readRegistry, resolveWalletAddress} from "./registry";
+import {readSharesFile} from "./shares";
+import {isVestingWallet} from "./bytecode";
+import {OutputManifest} from "./deploy-batch";
+import {logOwnershipPending} from "./admin";
+
+export type VerificationStatus = "pass" | "fail" | "skip";
+export type VerificationCheck = { check: string, status: VerificationStatus, expected?: string, actual?: string };
+
+type Expected = {
+    beneficiary?: string,
+    startTime?: number,
+    duration?: number,
+    cliff?: number,
+    unlockInterval?: number,
+    shares?: BeneficiaryShare[],
+    owner?: string,
+    pauser?: string,
+    minDelay?: number,
+    paused: boolean,
+    pendingOwner: string
+};
+
+const statusLabels = {pass: "PASS", fail: "FAIL", skip: "SKIP"};
+
+function compare(check: string, expected: string | number | boolean | undefined, actual: string | number | boolean): VerificationCheck {
+    if (expected === undefined) {
+        return {check, status: "skip", actual: actual.toString()};
+    }
+    return {check, status: expected === actual ? "pass" : "fail", expected: expected.toString(), actual: actual.toString()};
+}
+
+function formatShares(shares: { beneficiary: string, shares: number | BigNumber }[]): string {
+    return shares.map(({beneficiary, shares}) => `${beneficiary}: ${shares}`).join(", ");
+}
+
+function describeCheck({check, status, expected, actual}: VerificationCheck): string {
+    switch (status) {
+        case "pass":
+            return `${check}: ${actual}`;
+        case "fail":
+            return `${check}: expected ${expected}, but found ${actual}`;
+        case "skip":
+            return `${check}: ${actual} (nothing to compare against)`;
+    }
+}
+
+task("verify-deployment", "Verify that a deployed vesting contract matches its intended configuration")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string, true)
+  .addParam<string>("manifest", "A deploy-batch output manifest to take the contract and its expected configuration from", undefined, types.inputFile, true)
+  .addParam<number>("row", "The row of the manifest to verify", undefined, types.int, true)
+  .addParam<string>("beneficiary", "The expected beneficiary", undefined, types.string, true)
+  .addParam<string>("startDate", "The expected start of vesting (YYYY-MM-DD, an ISO-8601 timestamp with a UTC offset, or unix seconds)", undefined, types.string, true)
+  .addParam<string>("endDate", "The expected end of vesting (YYYY-MM-DD, an ISO-8601 timestamp with a UTC offset, or unix seconds)", undefined, types.string, true)
+  .addParam<string>("duration", "The expected duration of vesting, e.g. 4y, 48mo or 1461d", undefined, types.string, true)
+  .addParam<string>("cliffDate", "The expected cliff (YYYY-MM-DD, an ISO-8601 timestamp with a UTC offset, or unix seconds)", undefined, types.string, true)
+  .addParam<string>("unlockInterval", "The expected interval between unlocks, e.g. 30d or 13w", undefined, types.string, true)
+  .addParam<string>("shares", "A CSV or JSON file of the expected beneficiaries and their shares", undefined, types.inputFile, true)
+  .addParam<string>("owner", "The expected owner", undefined, types.string, true)
+  .addParam<string>("pauser", "The expected pauser, or the zero address for none", undefined, types.string, true)
+  .addParam<string>("minDelay", "The expected minimum delay for changes to the schedule, e.g. 2w or 0", undefined, types.string, true)
+  .addFlag("paused", "Expect the contract to be paused")
+  .addFlag("silent", "If set to true, suppress logging")
+  .setAction( async (taskArgs, hre) => {
+      const {manifest, row, silent} = taskArgs;
+      if (!!manifest !== (row !== undefined)) {
+          throw new Error("A manifest and a row must be supplied together");
+      }
+      if (taskArgs.endDate && taskArgs.duration) {
+          throw new Error("Supply either an endDate or a duration, but not both");
+      }
+      if (taskArgs.beneficiary && taskArgs.shares) {
+          throw new Error("Supply either a beneficiary or a shares file, but not both");
+      }
+
+      // Work out which contract to verify
+      let deployed: OutputManifest["deployments"][number] | undefined;
+      if (manifest) {
+          const output: OutputManifest = JSON.parse(fs.readFileSync(manifest, "utf8"));
+          deployed = output.deployments.find(deployment => deployment.row === row);
+          if (!deployed) {
+              throw new Error(`No deployment for row ${row} in ${manifest}`);
+          }
+      }
+      if (!deployed && !taskArgs.address) {
+          throw new Error("Supply an address, or a manifest and row");
+      }
+      const address = taskArgs.address ? await resolveWalletAddress(hre, taskArgs.address) : (deployed?.address as string);
+      if (deployed && deployed.address !== address) {
+          throw new Error(`Row ${row} of ${manifest} was deployed to ${deployed.address}, not ${address}`);
+      }
+
+      // Gather the expected configuration from the registry, then the manifest, then the command line
+      const entry = (await readRegistry(hre)).deployments.find(entry => entry.address === address);
+      const expected: Expected = {paused: !!taskArgs.paused, pendingOwner: ethers.constants.AddressZero};
+      if (entry) {
+          expected.beneficiary = entry.constructorArgs.beneficiary;
+          expected.startTime = entry.constructorArgs.startTime;
+          expected.duration = entry.constructorArgs.duration;
+          expected.cliff = entry.constructorArgs.cliff ?? entry.constructorArgs.startTime;
+          expected.unlockInterval = entry.constructorArgs.unlockInterval ?? 0;
+          expected.shares = entry.shares ?? [{beneficiary: entry.constructorArgs.beneficiary, shares: 1}];
+          expected.owner = entry.finalOwner ?? entry.deployer;
+          expected.pauser = entry.pauser ?? ethers.constants.AddressZero;
+          expected.minDelay = entry.minDelay ?? 0;
+      }
+      if (deployed) {
+          expected.beneficiary = deployed.beneficiary;
+          expected.startTime = deployed.startTime;
+          expected.duration = deployed.duration;
+          expected.cliff = deployed.cliff ?? deployed.startTime;
+          expected.unlockInterval = deployed.unlockInterval ?? 0;
+          expected.shares = [{beneficiary: deployed.beneficiary, shares: 1}];
+          expected.owner = deployed.ownershipTransferred ? deployed.finalOwner : expected.owner;
+          expected.pauser = ethers.constants.AddressZero;
+          expected.minDelay = 0;
+      }
+      if (taskArgs.beneficiary) {
+          expected.beneficiary = parseAddress(taskArgs.beneficiary, "beneficiary");
+          expected.shares = [{beneficiary: expected.beneficiary, shares: 1}];
+      }
+      if (taskArgs.shares) {
+          expected.shares = readSharesFile(taskArgs.shares);
+          expected.beneficiary = expected.shares[0].beneficiary;
+      }
+      if (taskArgs.startDate) {
+          expected.startTime = parseTimestamp(taskArgs.startDate, "startDate");
+      }
+      if (taskArgs.endDate || taskArgs.duration) {
+          if (expected.startTime === undefined) {
+              throw new Error("An expected startDate is needed to verify an endDate or duration");
+          }
+          expected.duration = taskArgs.endDate
+              ? parseTimestamp(taskArgs.endDate, "endDate") - expected.startTime
+              : parseDuration(taskArgs.duration, expected.startTime);
+      }
+      if (taskArgs.cliffDate) {
+          expected.cliff = parseTimestamp(taskArgs.cliffDate, "cliffDate");
+      }
+      if (taskArgs.unlockInterval) {
+          expected.unlockInterval = parseUnlockInterval(taskArgs.unlockInterval);
+      }
+      if (taskArgs.owner) {
+          expected.owner = parseAddress(taskArgs.owner, "owner");
+      }
+      if (taskArgs.pauser) {
+          expected.pauser = parseAddress(taskArgs.pauser, "pauser");
+      }
+      if (taskArgs.minDelay) {
+          expected.minDelay = parseMinDelay(taskArgs.minDelay);
+      }
+
+      // Only read the contract's state once we know it is our contract
+      const checks: VerificationCheck[] = [];
+      let pendingOwner: string | undefined;
+      const isWallet = await isVestingWallet(hre, address);
+      checks.push({check: "bytecode", status: isWallet ? "pass" : "fail", expected: "PalmEcosystemVestingWallet", actual: isWallet ? "PalmEcosystemVestingWallet" : "unknown bytecode"});
+      if (isWallet) {
+          const contract = await hre.ethers.getContractAt("PalmEcosystemVestingWallet", address);
+          const [beneficiary, start, duration, cliff, unlockInterval, [accounts, shares], owner, pauser, minDelay, currentPendingOwner, paused] = await Promise.all([
+              contract.beneficiary(),
+              contract.start(),
+              contract.duration(),
+              contract.cliff(),
+              contract.unlockInterval(),
+              contract.beneficiaries(),
+              contract.owner(),
+              contract.pauser(),
+              contract.minDelay(),
+              contract.pendingOwner(),
+              contract.paused()
+          ]);
+          checks.push(compare("beneficiary", expected.beneficiary, beneficiary));
+          checks.push(compare("start", expected.startTime, start.toNumber()));
+          checks.push(compare("duration", expected.duration, duration.toNumber()));
+          checks.push(compare("cliff", expected.cliff, cliff.toNumber()));
+          checks.push(compare("unlock interval", expected.unlockInterval, unlockInterval.toNumber()));
+          checks.push(compare("shares", expected.shares && formatShares(expected.shares), formatShares(accounts.map((account, i) => ({beneficiary: account, shares: shares[i]})))));
+          checks.push(compare("owner", expected.owner, owner));
+          checks.push(compare("pauser", expected.pauser, pauser));
+          checks.push(compare("minimum delay", expected.minDelay, minDelay.toNumber()));
+          checks.push(compare("paused", expected.paused, paused));
+          checks.push(compare("pending owner", expected.pendingOwner, currentPendingOwner));
+          pendingOwner = currentPendingOwner;
+      }
+
+      !silent && console.log(`Verifying vesting contract ${address}`);
+      for (const check of checks) {
+          !silent && console.log(`\t${statusLabels[check.status]} ${describeCheck(check)}`);
+      }
+      if (!silent && expected.startTime !== undefined && expected.duration !== undefined) {
+          console.log(`Expected vesting from ${formatDate(expected.startTime)} to ${formatDate(expected.startTime + expected.duration)}`);
+      }
+      // The expected owner only shows up as the owner once they accept, which is a step they have to take themselves
+      if (expected.owner !== undefined && pendingOwner === expected.owner) {
+          logOwnershipPending(hre, address, pendingOwner, silent);
+      }
+
+      const failures = checks.filter(({status}) => status === "fail");
+      if (failures.length > 0) {
+          throw new Error(`Verification of ${address} failed:\n${failures.map(check => `\t${describeCheck(check)}`).join("\n")}`);
+      }
+      return checks;
+  });
@@ -0,0 +1,165 @@
+import fs from "fs";
+import {task, types} from "hardhat/config";
+import {BigNumber} from "ethers";
+import {
+    BeneficiaryShare,
+    getWalletStatus,
+    Granularity,
+    granularities,
+    parseAmount,
+    parseScheduleArgs,
+    parseTokenList,
+    projectSchedule,
+    ScheduleRow,
+    splitByShares
+} from "../sdk";
+import {resolveWalletAddress} from "./registry";
+
+// With several beneficiaries, each row also splits what has vested between them under the current shares
+export type ProjectedRow = ScheduleRow & { vestedTo?: BigNumber[] };
+export type ScheduleProjection = {
+    address?: string,
+    beneficiaries?: BeneficiaryShare[],
+    token?: string,
+    symbol: string,
+    decimals: number,
+    start: number,
+    duration: number,
+    cliff: number,
+    unlockInterval: number,
+    rebaseTimestamp: number,
+    rebaseFraction: BigNumber,
+    totalAllocation: BigNumber,
+    released: BigNumber,
+    granularity: Granularity,
+    rows: ProjectedRow[]
+};
+
+const formats = ["csv", "json"];
+
+function toIsoString(timestamp: number): string {
+    return new Date(timestamp * 1000).toISOString();
+}
+
+function toCsv(projection: ScheduleProjection): string {
+    const recipients = projection.rows[0]?.vestedTo ? projection.beneficiaries ?? [] : [];
+    const lines = [["period,periodStart,periodEnd,vested,vestedInPeriod", ...recipients.map(({beneficiary}) => `vested:${beneficiary}`)].join(",")];
+    for (const row of projection.rows) {
+        const vestedTo = (row.vestedTo ?? []).map(amount => amount.toString());
+        lines.push([row.period, toIsoString(row.periodStart), toIsoString(row.periodEnd), row.vested.toString(), row.vestedInPeriod.toString(), ...vestedTo].join(","));
+    }
+    return lines.join("\n") + "\n";
+}
+
+function toJson(projection: ScheduleProjection): string {
+    return JSON.stringify({
+        ...projection,
+        rebaseFraction: projection.rebaseFraction.toString(),
+        totalAllocation: projection.totalAllocation.toString(),
+        released: projection.released.toString(),
+        rows: projection.rows.map(row => ({
+            period: row.period,
+            periodStart: toIsoString(row.periodStart),
+            periodEnd: toIsoString(row.periodEnd),
+            vested: row.vested.toString(),
+            vestedInPeriod: row.vestedInPeriod.toString(),
+            ...(row.vestedTo ? {vestedTo: Object.fromEntries(row.vestedTo.map((amount, i) => [projection.beneficiaries?.[i].beneficiary, amount.toString()]))} : {})
+        }))
+    }, null, 2) + "\n";
+}
+
+task("vesting-schedule", "Project how much of a vesting schedule unlocks per period, as CSV or JSON")
+  .addParam<string>("address", "The address or registry label of a deployed vesting contract to project", undefined, types.string, true)
+  .addParam<string>("token", "An ERC-20 token address to project instead of native PALM (requires --address)", undefined, types.string, true)
+  .addParam<string>("startDate", "When vesting begins (YYYY-MM-DD, an ISO-8601 timestamp with a UTC offset, or unix seconds), if no --address is supplied", undefined, types.string, true)
+  .addParam<string>("endDate", "When vesting ends (YYYY-MM-DD, an ISO-8601 timestamp with a UTC offset, or unix seconds), if no --address is supplied", undefined, types.string, true)
+  .addParam<string>("duration", "How long vesting lasts from the startDate, instead of an endDate, e.g. 4y, 48mo or 1461d", undefined, types.string, true)
+  .addParam<string>("cliffDate", "When the cliff is (same formats as startDate), if no --address is supplied", undefined, types.string, true)
+  .addParam<string>("unlockInterval", "The interval between unlocks, e.g. 30d or 13w, if no --address is supplied", undefined, types.string, true)
+  .addParam<string>("amount", "The total amount of PALM to vest, if no --address is supplied", undefined, types.string, true)
+  .addParam<string>("granularity", `The length of each period: ${granularities.join(", ")}`, "monthly", types.string)
+  .addParam<string>("format", `The output format: ${formats.join(", ")}`, "csv", types.string)
+  .addParam<string>("output", "A file to write the projection to, instead of printing it", undefined, types.string, true)
+  .addFlag("silent", "If set to true, suppress logging")
+  .setAction( async (taskArgs, hre) => {
+      const {address: addressOrLabel, startDate, endDate, duration, cliffDate, unlockInterval, amount, granularity, format, output, silent} = taskArgs;
+      if (!granularities.includes(granularity)) {
+          throw new Error(`Invalid granularity: must be one of ${granularities.join(", ")}`);
+      }
+      if (!formats.includes(format)) {
+          throw new Error(`Invalid format: must be one of ${formats.join(", ")}`);
+      }
+
+      let projection: Omit<ScheduleProjection, "rows">;
+      if (addressOrLabel) {
+          if (startDate || endDate || duration || cliffDate || unlockInterval || amount) {
+              throw new Error("Supply either an address, or a startDate, endDate (or duration) and amount, but not both");
+          }
+          const tokens = parseTokenList(taskArgs.token);
+          if (tokens.length > 1) {
+              throw new Error("Only one token can be projected at a time");
+          }
+          const address = await resolveWalletAddress(hre, addressOrLabel);
+          const status = await getWalletStatus(hre.ethers.provider, address, tokens);
+          const asset = status.assets[status.assets.length - 1];
+          projection = {
+              address,
+              beneficiaries: status.beneficiaries,
+              ...(asset.token ? {token: asset.token} : {}),
+              symbol: asset.symbol,
+              decimals: asset.decimals,
+              start: status.start,
+              duration: status.duration,
+              cliff: status.cliff,
+              unlockInterval: status.unlockInterval,
+              rebaseTimestamp: status.rebaseTimestamp,
+              rebaseFraction: status.rebaseFraction,
+              totalAllocation: asset.balance.add(asset.released),
+              released: asset.released,
+              granularity
+          };
+      } else {
+          if (!startDate || !(endDate || duration) || !amount) {
+              throw new Error("Supply either an address, or a startDate, endDate (or duration) and amount");
+          }
+          if (taskArgs.token) {
+              throw new Error("A token can only be projected for a deployed vesting contract");
+          }
+          // The same dates and amount as deploy and fund take
+          const schedule = parseScheduleArgs(taskArgs);
+          projection = {
+              symbol: "PALM",
+              decimals: 18,
+              start: schedule.startTime,
+              duration: schedule.duration,
+              cliff: schedule.cliff,
+              unlockInterval: schedule.unlockInterval,
+              rebaseTimestamp: 0,
+              rebaseFraction: BigNumber.from(0),
+              totalAllocation: parseAmount(amount, "PALM", 18),
+              released: BigNumber.from(0),
+              granularity
+          };
+      }
+
+      const rows = projectSchedule(projection.totalAllocation, projection.start, projection.duration, granularity, {
+          cliff: projection.cliff,
+          unlockInterval: projection.unlockInterval,
+          rebaseTimestamp: projection.rebaseTimestamp,
+          rebaseFraction: projection.rebaseFraction
+      });
+      const shares = (projection.beneficiaries ?? []).map(({shares}) => shares);
+      const result: ScheduleProjection = {
+          ...projection,
+          rows: shares.length > 1 ? rows.map(row => ({...row, vestedTo: splitByShares(row.vested, shares)})) : rows
+      };
+      const contents = format === "csv" ? toCsv(result) : toJson(result);
+      if (output) {
+          fs.writeFileSync(output, contents);
+          !silent && console.log(`Wrote ${result.rows.length} ${granularity} periods to ${output}`);
+      } else {
+          !silent && process.stdout.write(contents);
+      }
+
+      return result;
+  });
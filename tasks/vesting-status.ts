@@ -0,0 +1,92 @@
+import {task, types} from "hardhat/config";
+import {BigNumber, ethers} from "ethers";
+import {formatDate, getWalletStatus, parseTokenList, REBASE_FRACTION_SCALE, WalletStatus} from "../sdk";
+import {resolveWalletAddress} from "./registry";
+import {formatShare} from "./shares";
+
+function toJson(status: WalletStatus) {
+    return {
+        ...status,
+        rebaseFraction: status.rebaseFraction.toString(),
+        assets: status.assets.map(asset => ({
+            ...asset,
+            balance: asset.balance.toString(),
+            released: asset.released.toString(),
+            vested: asset.vested.toString(),
+            releasable: asset.releasable.toString(),
+            recipients: asset.recipients.map(recipient => ({
+                ...recipient,
+                released: recipient.released.toString(),
+                releasable: recipient.releasable.toString()
+            }))
+        }))
+    };
+}
+
+task("vesting-status", "Print the configuration and vesting progress of a deployed vesting contract")
+  .addParam<string>("address", "The address or registry label of the vesting contract", undefined, types.string)
+  .addParam<string>("token", "A comma separated list of ERC-20 token addresses to report on", undefined, types.string, true)
+  .addFlag("json", "Print the status as JSON")
+  .addFlag("silent", "If set to true, suppress logging")
+  .setAction( async (taskArgs, hre) => {
+      const {json, silent} = taskArgs;
+      const address = await resolveWalletAddress(hre, taskArgs.address);
+      const status = await getWalletStatus(hre.ethers.provider, address, parseTokenList(taskArgs.token));
+
+      if (silent) {
+          return status;
+      }
+      if (json) {
+          console.log(JSON.stringify(toJson(status), null, 2));
+          return status;
+      }
+
+      console.log(`Vesting contract ${status.address}`);
+      console.log(`\towner: ${status.owner}`);
+      if (status.pendingOwner !== ethers.constants.AddressZero) {
+          console.log(`\tpending owner: ${status.pendingOwner} (ownership pending until they accept it)`);
+      }
+      if (status.pauser !== ethers.constants.AddressZero) {
+          console.log(`\tpauser: ${status.pauser} (can pause, only the owner can unpause)`);
+      }
+      console.log(`\tpaused: ${status.paused}`);
+      if (status.beneficiaries.length > 1) {
+          console.log(`\tbeneficiaries:`);
+          for (const {beneficiary, shares} of status.beneficiaries) {
+              console.log(`\t\t${beneficiary}: ${shares} shares (${formatShare(shares, status.beneficiaries)})`);
+          }
+      } else {
+          console.log(`\tbeneficiary: ${status.beneficiary}`);
+      }
+      console.log(`\tstart: ${status.start} (${formatDate(status.start)})`);
+      console.log(`\tduration: ${status.duration} seconds`);
+      console.log(`\tend: ${status.end} (${formatDate(status.end)})`);
+      if (status.cliff > status.start) {
+          console.log(`\tcliff: ${status.cliff} (${formatDate(status.cliff)})`);
+      }
+      if (status.unlockInterval > 0) {
+          console.log(`\tunlock interval: ${status.unlockInterval} seconds`);
+      }
+      if (status.rebaseTimestamp > 0) {
+          console.log(`\trebased: ${status.rebaseTimestamp} (${formatDate(status.rebaseTimestamp)}), with ${(status.rebaseFraction.mul(10000).div(REBASE_FRACTION_SCALE).toNumber() / 100).toFixed(2)}% vested`);
+      }
+      if (status.minDelay > 0) {
+          console.log(`\tminimum delay: ${status.minDelay} seconds (changes to the schedule must be queued, see list-queued-changes)`);
+      }
+      console.log(`Balances as of ${formatDate(status.timestamp)}:`);
+      for (const asset of status.assets) {
+          const format = (amount: BigNumber) => `${ethers.utils.formatUnits(amount, asset.decimals)} ${asset.symbol}`;
+          console.log(`\t${asset.symbol}${asset.token ? ` (${asset.token})` : ""}`);
+          console.log(`\t\tbalance: ${format(asset.balance)}`);
+          console.log(`\t\treleased: ${format(asset.released)}`);
+          console.log(`\t\tvested: ${format(asset.vested)} (${asset.percentVested}%)`);
+          console.log(`\t\treleasable: ${format(asset.releasable)}`);
+          if (asset.recipients.length > 1) {
+              for (const recipient of asset.recipients) {
+                  console.log(`\t\t${recipient.beneficiary}: released ${format(recipient.released)}, releasable ${format(recipient.releasable)}`);
+              }
+          }
+      }
+
+      return status;
+  });
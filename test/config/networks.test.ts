@@ -0,0 +1,95 @@
+import hre from "hardhat";
+import {ethers} from "ethers";
+import {expect} from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {HardhatRuntimeEnvironment, HttpNetworkConfig} from "hardhat/types";
+import {
+	ChainIdCheckingProvider,
+	configureLiveNetwork,
+	liveNetworkConfig,
+	parseGasPrice,
+	validateNetworkEnv
+} from "../../config/networks";
+
+const privateKey = "0x" + "ab".repeat(32);
+
+describe("Network Configuration", function () {
+	it("Should connect through a custom RPC URL or Infura", () => {
+		expect(liveNetworkConfig("palm", {PALM_RPC_URL: "http://localhost:8545"}).url).to.equal("http://localhost:8545");
+		expect(liveNetworkConfig("palm-testnet", {INFURA_API_KEY: "key"}).url).to.equal("https://palm-testnet.infura.io/v3/key");
+	});
+
+	it("Should take accounts from a private key or mnemonic", () => {
+		const mnemonic = "test test test test test test test test test test test junk";
+
+		expect(liveNetworkConfig("palm", {PRIVATE_KEY: privateKey}).accounts).to.deep.equal([privateKey]);
+		expect(liveNetworkConfig("palm", {MNEMONIC: mnemonic, MNEMONIC_PATH: "m/44'/60'/0'/0"}).accounts).to.deep.equal({mnemonic, path: "m/44'/60'/0'/0"});
+		expect(liveNetworkConfig("palm", {PRIVATE_KEY: "0x12"}).accounts).to.deep.equal([]);
+	});
+
+	it("Should parse gas prices in wei or gwei", () => {
+		expect(parseGasPrice("auto")).to.equal("auto");
+		expect(parseGasPrice("10000")).to.equal(10000);
+		expect(parseGasPrice("1.5 gwei")).to.equal(1_500_000_000);
+		expect(liveNetworkConfig("palm", {PALM_GAS_PRICE: "2gwei"}).gasPrice).to.equal(2_000_000_000);
+		expect(liveNetworkConfig("palm", {}).gasPrice).to.equal("auto");
+		expect(() => parseGasPrice("cheap")).to.throw("expecting \"auto\"");
+	});
+
+	it("Should name every missing or invalid variable", () => {
+		expect(validateNetworkEnv("palm", {INFURA_API_KEY: "key", PRIVATE_KEY: privateKey})).to.deep.equal([]);
+		expect(validateNetworkEnv("palm", {})).to.deep.equal([
+			"Missing PALM_RPC_URL or INFURA_API_KEY: set one of them to connect to palm"
+		]);
+		expect(validateNetworkEnv("palm-testnet", {PALM_TESTNET_RPC_URL: "localhost", PALM_TESTNET_GAS_PRICE: "cheap", PRIVATE_KEY: "0x12"})).to.deep.equal([
+			"Invalid PALM_TESTNET_RPC_URL: expecting an http(s) URL",
+			"Invalid PALM_TESTNET_GAS_PRICE: expecting \"auto\", or an amount of wei or gwei such as \"10 gwei\"",
+			"Invalid PRIVATE_KEY: expecting a 32 byte hex string"
+		]);
+		expect(validateNetworkEnv("palm", {INFURA_API_KEY: "key", PRIVATE_KEY: privateKey, MNEMONIC: "a b c"})).to.deep.equal(["Conflicting PRIVATE_KEY, MNEMONIC: set only one of them"]);
+		expect(validateNetworkEnv("palm", {INFURA_API_KEY: "key", KEYSTORE_FILE: "/nonexistent.json"})).to.deep.equal([
+			"Invalid KEYSTORE_FILE: /nonexistent.json does not exist",
+			"Missing KEYSTORE_PASSWORD: set it to decrypt KEYSTORE_FILE"
+		]);
+	});
+
+	it("Should only fail when a live network is selected", () => {
+		const fakeHre = (name: string) => ({network: {name, config: liveNetworkConfig("palm", {}), provider: hre.network.provider}}) as unknown as HardhatRuntimeEnvironment;
+
+		expect(() => configureLiveNetwork(fakeHre("hardhat"), {})).not.to.throw();
+		expect(() => configureLiveNetwork(fakeHre("palm"), {})).to.throw("Invalid configuration for network palm:\n\tMissing PALM_RPC_URL or INFURA_API_KEY");
+	});
+
+	it("Should decrypt a keystore file for the selected live network", async () => {
+		const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "networks-"));
+		const wallet = new ethers.Wallet(privateKey);
+		const keystore = path.join(tmpDir, "keystore.json");
+		fs.writeFileSync(keystore, await wallet.encrypt("secret", {scrypt: {N: 1024}}));
+		const env = {INFURA_API_KEY: "key", KEYSTORE_FILE: keystore, KEYSTORE_PASSWORD: "secret"};
+		const fakeHre = {network: {name: "palm", config: {...liveNetworkConfig("palm", env)}, provider: hre.network.provider}} as unknown as HardhatRuntimeEnvironment;
+
+		try {
+			configureLiveNetwork(fakeHre, env);
+			expect((fakeHre.network.config as HttpNetworkConfig).accounts).to.deep.equal([privateKey]);
+			expect(fakeHre.network.provider).to.be.instanceOf(ChainIdCheckingProvider);
+			expect(() => configureLiveNetwork(fakeHre, {...env, KEYSTORE_PASSWORD: "wrong"})).to.throw(`Could not decrypt KEYSTORE_FILE ${keystore}`);
+		} finally {
+			fs.rmSync(tmpDir, {recursive: true, force: true});
+		}
+	});
+
+	it("Should refuse to talk to a node on another chain", async () => {
+		const chainId = Number(await hre.network.provider.send("eth_chainId", []));
+
+		const wrongChain = new ChainIdCheckingProvider(hre.network.provider, "palm", 11297108109);
+		expect(Number(await wrongChain.send("eth_chainId", []))).to.equal(chainId);
+		await expect(wrongChain.send("eth_blockNumber", [])).to.be.rejectedWith(`Network palm expects chain ID 11297108109, but the node is on chain ${chainId}: check PALM_RPC_URL`);
+		const response = await new Promise(resolve => wrongChain.sendAsync({jsonrpc: "2.0", id: 1, method: "eth_blockNumber", params: []}, (error, response) => resolve(response)));
+		expect(response).to.deep.equal({jsonrpc: "2.0", id: 1, error: {code: -32603, message: `Network palm expects chain ID 11297108109, but the node is on chain ${chainId}: check PALM_RPC_URL`}});
+
+		const rightChain = new ChainIdCheckingProvider(hre.network.provider, "palm", chainId);
+		expect(await rightChain.send("eth_blockNumber", [])).to.match(/^0x/);
+	});
+});
@@ -11,6 +11,8 @@ const ONE_PALM = ONE_GWEI.mul(ONE_GWEI);
 const ZERO_ADDRESS = "0x" + "00".repeat(20);
 
 const NOT_OWNER_ERROR = "Ownable: caller is not the owner";
+const NOT_PENDING_OWNER_ERROR = "Ownable2Step: caller is not the new owner";
+const NOT_OWNER_OR_PAUSER_ERROR = "Caller is not the owner or pauser";
 const PAUSED_EXCEPTION = "Pausable: paused";
 const NOT_PAUSED_EXCEPTION = "Pausable: not paused";
 
@@ -29,11 +31,12 @@ describe("PalmEcosystemVestingWallet Contract", function () {
 
     // Deploy vesting contract
     const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
-    const contract = await contractFactory.deploy(beneficiary.address, vestingStartTime, vestingDuration);
+    const contract = await contractFactory.deploy(beneficiary.address, vestingStartTime, vestingDuration, vestingStartTime, 0);
     await contract.deployed();
 
     // Set owner
     await contract.transferOwnership(owner.address);
+    await contract.connect(owner).acceptOwnership();
 
     // Deploy ERC-20
     const erc20Factory = await ethers.getContractFactory("SomeToken");
@@ -88,11 +91,22 @@ describe("PalmEcosystemVestingWallet Contract", function () {
 
     describe("Admin functions", function() {
       describe("transferOwnership()", async function() {
-        it("Should transfer ownership if current owner requests it", async function() {
+        it("Should only start the transfer if current owner requests it", async function() {
+          const { contract, owner, otherAddress } = deployParams;
+
+          await expect(contract.connect(owner).transferOwnership(otherAddress.address))
+            .to.emit(contract, "OwnershipTransferStarted").withArgs(owner.address, otherAddress.address);
+          expect(await contract.owner()).to.equal(owner.address);
+          expect(await contract.pendingOwner()).to.equal(otherAddress.address);
+        });
+
+        it("Should cancel a pending transfer when transferring to the zero address", async function() {
           const { contract, owner, otherAddress } = deployParams;
 
           await contract.connect(owner).transferOwnership(otherAddress.address);
-          expect(await contract.owner()).to.equal(otherAddress.address);
+          await contract.connect(owner).transferOwnership(ZERO_ADDRESS);
+          expect(await contract.pendingOwner()).to.equal(ZERO_ADDRESS);
+          await expect(contract.connect(otherAddress).acceptOwnership()).to.be.revertedWith(NOT_PENDING_OWNER_ERROR);
         });
 
         it("Should revert if invoked by non-owner", async function(){
@@ -103,6 +117,26 @@ describe("PalmEcosystemVestingWallet Contract", function () {
         });
       });
 
+      describe("acceptOwnership()", async function() {
+        it("Should transfer ownership to the pending owner", async function() {
+          const { contract, owner, otherAddress } = deployParams;
+
+          await contract.connect(owner).transferOwnership(otherAddress.address);
+          await expect(contract.connect(otherAddress).acceptOwnership())
+            .to.emit(contract, "OwnershipTransferred").withArgs(owner.address, otherAddress.address);
+          expect(await contract.owner()).to.equal(otherAddress.address);
+          expect(await contract.pendingOwner()).to.equal(ZERO_ADDRESS);
+        });
+
+        it("Should revert if invoked by anyone but the pending owner", async function(){
+          const { contract, owner, deployer, otherAddress } = deployParams;
+
+          await contract.connect(owner).transferOwnership(otherAddress.address);
+          await expect(contract.connect(deployer).acceptOwnership()).to.be.revertedWith(NOT_PENDING_OWNER_ERROR);
+          await expect(contract.connect(owner).acceptOwnership()).to.be.revertedWith(NOT_PENDING_OWNER_ERROR);
+        });
+      });
+
       describe("pause()",  function() {
         it("Should pause the contract when the owner requests it", async function() {
           const { contract, owner } = deployParams;
@@ -126,7 +160,7 @@ describe("PalmEcosystemVestingWallet Contract", function () {
         it("Should revert if invoked by non-owner", async function() {
           const { contract, otherAddress } = await deployParams;
 
-          await expect(contract.connect(otherAddress).pause()).to.be.revertedWith(NOT_OWNER_ERROR);
+          await expect(contract.connect(otherAddress).pause()).to.be.revertedWith(NOT_OWNER_OR_PAUSER_ERROR);
         });
       });
 
@@ -477,3 +511,483 @@ describe("PalmEcosystemVestingWallet Contract", function () {
     });
   });
 });
+
+describe("PalmEcosystemVestingWallet Contract with a cliff and an unlock interval", function () {
+  const UNLOCK_INTERVAL = 30 * ONE_DAY_IN_SECONDS;
+  const VESTING_DURATION = 12 * UNLOCK_INTERVAL;
+  const FUND_AMOUNT = ONE_PALM.mul(12);
+
+  async function deploySteppedContractFixture() {
+    const vestingStartTime = (await time.latest()) + ONE_DAY_IN_SECONDS * 7;
+    const cliff = vestingStartTime + 3 * UNLOCK_INTERVAL + ONE_DAY_IN_SECONDS;
+    const [deployer, beneficiary] = await ethers.getSigners();
+
+    const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
+    const contract = await contractFactory.deploy(beneficiary.address, vestingStartTime, VESTING_DURATION, cliff, UNLOCK_INTERVAL);
+    await contract.deployed();
+    await deployer.sendTransaction({to: contract.address, value: FUND_AMOUNT});
+
+    return {contract, beneficiary, vestingStartTime, cliff};
+  }
+
+  it("Should be configured with the expected cliff and unlock interval", async function () {
+    const {contract, cliff} = await loadFixture(deploySteppedContractFixture);
+
+    expect(await contract.cliff()).to.equal(cliff);
+    expect(await contract.unlockInterval()).to.equal(UNLOCK_INTERVAL);
+  });
+
+  it("Should vest nothing until the cliff, then every whole interval since the start", async function () {
+    const {contract, vestingStartTime, cliff} = await loadFixture(deploySteppedContractFixture);
+    const vestedAt = (timestamp: number) => contract["vestedAmount(uint64)"](timestamp);
+    const perInterval = FUND_AMOUNT.div(12);
+
+    expect(await vestedAt(cliff - 1)).to.equal(0);
+    expect(await vestedAt(cliff)).to.equal(perInterval.mul(3));
+    expect(await vestedAt(vestingStartTime + 4 * UNLOCK_INTERVAL - 1)).to.equal(perInterval.mul(3));
+    expect(await vestedAt(vestingStartTime + 4 * UNLOCK_INTERVAL)).to.equal(perInterval.mul(4));
+    expect(await vestedAt(vestingStartTime + VESTING_DURATION - 1)).to.equal(perInterval.mul(11));
+    expect(await vestedAt(vestingStartTime + VESTING_DURATION)).to.equal(FUND_AMOUNT);
+  });
+
+  it("Should only release what has unlocked", async function () {
+    const {contract, beneficiary, vestingStartTime} = await loadFixture(deploySteppedContractFixture);
+    await time.increaseTo(vestingStartTime + 5 * UNLOCK_INTERVAL + ONE_DAY_IN_SECONDS - 1);
+
+    await expect(contract["release()"]()).to.changeEtherBalance(beneficiary, FUND_AMOUNT.div(12).mul(5));
+  });
+
+  it("Should revert if the cliff is not between the start and the end", async function () {
+    const {beneficiary, vestingStartTime} = await loadFixture(deploySteppedContractFixture);
+    const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
+
+    await expect(contractFactory.deploy(beneficiary.address, vestingStartTime, VESTING_DURATION, vestingStartTime - 1, 0))
+      .to.be.revertedWith("Cliff must be between start and end");
+    await expect(contractFactory.deploy(beneficiary.address, vestingStartTime, VESTING_DURATION, vestingStartTime + VESTING_DURATION + 1, 0))
+      .to.be.revertedWith("Cliff must be between start and end");
+  });
+
+  it("Should revert if the new duration would end vesting before the cliff", async function () {
+    const {contract, vestingStartTime, cliff} = await loadFixture(deploySteppedContractFixture);
+    await contract.pause();
+
+    await expect(contract.setDuration(cliff - vestingStartTime - 1)).to.be.revertedWith("Vesting must not end before the cliff");
+    await contract.setDuration(cliff - vestingStartTime);
+  });
+});
+
+describe("PalmEcosystemVestingWallet Contract rebasing the duration", function () {
+  const FUND_AMOUNT = ONE_PALM.mul(10);
+
+  async function deployFundedContractFixture() {
+    const vestingStartTime = (await time.latest()) + ONE_DAY_IN_SECONDS * 7;
+    const [owner, beneficiary, otherAddress] = await ethers.getSigners();
+
+    const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
+    const contract = await contractFactory.deploy(beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0);
+    await contract.deployed();
+    await owner.sendTransaction({to: contract.address, value: FUND_AMOUNT});
+
+    return {contract, owner, beneficiary, otherAddress, vestingStartTime};
+  }
+
+  // Rebases at exactly the given time, returning what had vested by then
+  async function rebaseAt(contract: Contract, timestamp: number, newDuration: number): Promise<BigNumber> {
+    const vested = await contract["vestedAmount(uint64)"](timestamp);
+    await contract.pause();
+    await time.setNextBlockTimestamp(timestamp);
+    await contract.rebaseDuration(newDuration);
+    return vested;
+  }
+
+  it("Should keep what has vested and vest the rest until the new end when shortening", async function () {
+    const {contract, vestingStartTime} = await loadFixture(deployFundedContractFixture);
+    const rebaseTime = vestingStartTime + ONE_YEAR_IN_SECS / 2;
+    const newEnd = rebaseTime + 100 * ONE_DAY_IN_SECONDS;
+
+    const vested = await rebaseAt(contract, rebaseTime, newEnd - vestingStartTime);
+
+    expect(vested).to.equal(FUND_AMOUNT.div(2));
+    expect(await contract.rebaseTimestamp()).to.equal(rebaseTime);
+    expect(await contract.rebaseFraction()).to.equal(BigNumber.from(10).pow(36).div(2));
+    expect(await contract["vestedAmount(uint64)"](rebaseTime)).to.equal(vested);
+    expect(await contract["vestedAmount(uint64)"](rebaseTime + 50 * ONE_DAY_IN_SECONDS)).to.equal(FUND_AMOUNT.mul(3).div(4));
+    expect(await contract["vestedAmount(uint64)"](newEnd)).to.equal(FUND_AMOUNT);
+  });
+
+  it("Should never vest less than has been released when lengthening", async function () {
+    const {contract, vestingStartTime} = await loadFixture(deployFundedContractFixture);
+    await time.increaseTo(vestingStartTime + ONE_YEAR_IN_SECS / 2 - 1);
+    await contract["release()"]();
+    const released = await contract["released()"]();
+
+    await rebaseAt(contract, (await time.latest()) + 10, 2 * ONE_YEAR_IN_SECS);
+    await contract.unpause();
+
+    expect(await contract["vestedAmount(uint64)"](await time.latest())).to.be.at.least(released);
+    await time.increase(ONE_DAY_IN_SECONDS);
+    await contract["release()"]();
+    expect(await contract["released()"]()).to.be.gt(released);
+    expect(await ethers.provider.getBalance(contract.address)).to.equal(FUND_AMOUNT.sub(await contract["released()"]()));
+  });
+
+  it("Should only update the duration before vesting starts", async function () {
+    const {contract, vestingStartTime} = await loadFixture(deployFundedContractFixture);
+    await contract.pause();
+
+    await expect(contract.rebaseDuration(2 * ONE_YEAR_IN_SECS))
+      .to.emit(contract, "DurationRebased").withArgs(ONE_YEAR_IN_SECS, 2 * ONE_YEAR_IN_SECS, 0);
+    expect(await contract.rebaseTimestamp()).to.equal(0);
+    expect(await contract["vestedAmount(uint64)"](vestingStartTime + ONE_YEAR_IN_SECS)).to.equal(FUND_AMOUNT.div(2));
+  });
+
+  it("Should keep the unlock steps after a rebase", async function () {
+    const {beneficiary, vestingStartTime} = await loadFixture(deployFundedContractFixture);
+    const interval = 30 * ONE_DAY_IN_SECONDS;
+    const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
+    const contract = await contractFactory.deploy(beneficiary.address, vestingStartTime, 12 * interval, vestingStartTime, interval);
+    await (await ethers.getSigners())[0].sendTransaction({to: contract.address, value: FUND_AMOUNT});
+
+    const rebaseTime = vestingStartTime + 4 * interval + ONE_DAY_IN_SECONDS;
+    const vested = await rebaseAt(contract, rebaseTime, 8 * interval);
+
+    expect(vested).to.equal(FUND_AMOUNT.div(3));
+    expect(await contract["vestedAmount(uint64)"](vestingStartTime + 5 * interval - 1)).to.equal(vested);
+    expect(await contract["vestedAmount(uint64)"](vestingStartTime + 5 * interval)).to.be.gt(vested);
+    expect(await contract["vestedAmount(uint64)"](vestingStartTime + 8 * interval)).to.equal(FUND_AMOUNT);
+  });
+
+  it("Should revert unless the owner rebases while paused", async function () {
+    const {contract, otherAddress} = await loadFixture(deployFundedContractFixture);
+
+    await expect(contract.rebaseDuration(2 * ONE_YEAR_IN_SECS)).to.be.revertedWith(NOT_PAUSED_EXCEPTION);
+    await contract.pause();
+    await expect(contract.connect(otherAddress).rebaseDuration(2 * ONE_YEAR_IN_SECS)).to.be.revertedWith(NOT_OWNER_ERROR);
+    await expect(contract.rebaseDuration(ONE_YEAR_IN_SECS)).to.be.revertedWith("New duration must differ from current duration");
+  });
+
+  it("Should revert if vesting would end before the rebase", async function () {
+    const {contract, vestingStartTime} = await loadFixture(deployFundedContractFixture);
+    await time.increaseTo(vestingStartTime + ONE_YEAR_IN_SECS / 2);
+    await contract.pause();
+
+    await expect(contract.rebaseDuration(ONE_YEAR_IN_SECS / 4)).to.be.revertedWith("Vesting must not end before the rebase");
+  });
+
+  it("Should not let setDuration end vesting before the last rebase", async function () {
+    const {contract, vestingStartTime} = await loadFixture(deployFundedContractFixture);
+    const rebaseTime = vestingStartTime + ONE_YEAR_IN_SECS / 2;
+    await rebaseAt(contract, rebaseTime, 2 * ONE_YEAR_IN_SECS);
+
+    await expect(contract.setDuration(rebaseTime - vestingStartTime)).to.be.revertedWith("Vesting must not end before the last rebase");
+    await contract.setDuration(rebaseTime - vestingStartTime + 1);
+  });
+});
+
+describe("PalmEcosystemVestingWallet Contract with queued changes", function () {
+  const MIN_DELAY = 7 * ONE_DAY_IN_SECONDS;
+
+  async function deployDelayedContractFixture() {
+    const vestingStartTime = (await time.latest()) + ONE_DAY_IN_SECONDS * 7;
+    const [owner, beneficiary, otherAddress] = await ethers.getSigners();
+
+    const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
+    const contract = await contractFactory.deploy(beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0);
+    await contract.deployed();
+    await contract.setMinDelay(MIN_DELAY);
+
+    return {contract, owner, beneficiary, otherAddress, vestingStartTime};
+  }
+
+  // Queues a change, returning its call data, its id and when it can be executed
+  async function queue(contract: Contract, method: string, args: any[]): Promise<{ data: string, id: string, readyTimestamp: number }> {
+    const data = contract.interface.encodeFunctionData(method, args);
+    await contract.queueChange(data);
+    const id = ethers.utils.keccak256(data);
+    return {data, id, readyTimestamp: (await contract.queuedChange(id)).toNumber()};
+  }
+
+  it("Should require changes to the schedule to be queued once there is a minimum delay", async function () {
+    const {contract, otherAddress} = await loadFixture(deployDelayedContractFixture);
+    await contract.pause();
+
+    expect(await contract.minDelay()).to.equal(MIN_DELAY);
+    await expect(contract.setBeneficiary(otherAddress.address)).to.be.revertedWith("Change must be queued");
+    await expect(contract.setDuration(2 * ONE_YEAR_IN_SECS)).to.be.revertedWith("Change must be queued");
+    await expect(contract.rebaseDuration(2 * ONE_YEAR_IN_SECS)).to.be.revertedWith("Change must be queued");
+    await expect(contract.setMinDelay(0)).to.be.revertedWith("Change must be queued");
+    await expect(contract.connect(otherAddress).setBeneficiary(otherAddress.address)).to.be.revertedWith(NOT_OWNER_ERROR);
+  });
+
+  it("Should not execute a queued change before the minimum delay has passed", async function () {
+    const {contract, otherAddress} = await loadFixture(deployDelayedContractFixture);
+    const data = contract.interface.encodeFunctionData("setBeneficiary", [otherAddress.address]);
+    const id = ethers.utils.keccak256(data);
+
+    await expect(contract.queueChange(data))
+      .to.emit(contract, "ChangeQueued").withArgs(id, data, (await time.latest()) + 1 + MIN_DELAY);
+    const readyTimestamp = (await contract.queuedChange(id)).toNumber();
+    await contract.pause();
+    await time.increaseTo(readyTimestamp - 10);
+
+    await expect(contract.executeChange(data)).to.be.revertedWith("Change not ready");
+  });
+
+  it("Should execute a queued change once the minimum delay has passed", async function () {
+    const {contract, beneficiary, otherAddress} = await loadFixture(deployDelayedContractFixture);
+    const {data, id, readyTimestamp} = await queue(contract, "setBeneficiary", [otherAddress.address]);
+    await contract.pause();
+
+    // The next block is mined exactly when the change becomes ready
+    await time.increaseTo(readyTimestamp - 1);
+    await expect(contract.executeChange(data))
+      .to.emit(contract, "ChangeExecuted").withArgs(id, data)
+      .and.to.emit(contract, "BeneficiaryUpdated").withArgs(beneficiary.address, otherAddress.address);
+    expect(await contract.beneficiary()).to.equal(otherAddress.address);
+    expect(await contract.queuedChange(id)).to.equal(0);
+    await expect(contract.executeChange(data)).to.be.revertedWith("Change not queued");
+  });
+
+  it("Should apply the same checks to a queued duration change as a direct one", async function () {
+    const {contract} = await loadFixture(deployDelayedContractFixture);
+    const {data, readyTimestamp} = await queue(contract, "rebaseDuration", [2 * ONE_YEAR_IN_SECS]);
+    const same = await queue(contract, "setDuration", [ONE_YEAR_IN_SECS]);
+    await time.increaseTo(readyTimestamp);
+
+    await expect(contract.executeChange(data)).to.be.revertedWith(NOT_PAUSED_EXCEPTION);
+    await contract.pause();
+    await expect(contract.executeChange(same.data)).to.be.revertedWith("New duration must differ from current duration");
+    await expect(contract.executeChange(data)).to.emit(contract, "DurationRebased");
+    expect(await contract.duration()).to.equal(2 * ONE_YEAR_IN_SECS);
+  });
+
+  it("Should cancel a queued change", async function () {
+    const {contract, otherAddress} = await loadFixture(deployDelayedContractFixture);
+    const {data, id, readyTimestamp} = await queue(contract, "setDuration", [2 * ONE_YEAR_IN_SECS]);
+
+    await expect(contract.connect(otherAddress).cancelChange(id)).to.be.revertedWith(NOT_OWNER_ERROR);
+    await expect(contract.cancelChange(id)).to.emit(contract, "ChangeCancelled").withArgs(id);
+    await contract.pause();
+    await time.increaseTo(readyTimestamp);
+
+    await expect(contract.executeChange(data)).to.be.revertedWith("Change not queued");
+    await expect(contract.cancelChange(id)).to.be.revertedWith("Change not queued");
+  });
+
+  it("Should only let the owner queue changes to the schedule, once each", async function () {
+    const {contract, otherAddress} = await loadFixture(deployDelayedContractFixture);
+    const data = contract.interface.encodeFunctionData("setDuration", [2 * ONE_YEAR_IN_SECS]);
+
+    await expect(contract.connect(otherAddress).queueChange(data)).to.be.revertedWith(NOT_OWNER_ERROR);
+    await expect(contract.queueChange(contract.interface.encodeFunctionData("unpause"))).to.be.revertedWith("Change cannot be queued");
+    await expect(contract.queueChange("0x")).to.be.revertedWith("Change cannot be queued");
+    await contract.queueChange(data);
+    await expect(contract.queueChange(data)).to.be.revertedWith("Change already queued");
+    await time.increase(MIN_DELAY);
+    await expect(contract.connect(otherAddress).executeChange(data)).to.be.revertedWith(NOT_OWNER_ERROR);
+  });
+
+  it("Should queue changes to the minimum delay, without pausing", async function () {
+    const {contract, otherAddress} = await loadFixture(deployDelayedContractFixture);
+    const {data, readyTimestamp} = await queue(contract, "setMinDelay", [0]);
+    await time.increaseTo(readyTimestamp);
+
+    await expect(contract.executeChange(data)).to.emit(contract, "MinDelayUpdated").withArgs(MIN_DELAY, 0);
+    await contract.pause();
+    await contract.setBeneficiary(otherAddress.address);
+
+    // Without a delay, a queued change can be executed at once
+    const queued = await queue(contract, "setDuration", [2 * ONE_YEAR_IN_SECS]);
+    await contract.executeChange(queued.data);
+    expect(await contract.duration()).to.equal(2 * ONE_YEAR_IN_SECS);
+  });
+});
+
+describe("PalmEcosystemVestingWallet Contract with a pauser", function () {
+  async function deployPauserFixture() {
+    const vestingStartTime = (await time.latest()) + ONE_DAY_IN_SECONDS * 7;
+    const [owner, beneficiary, pauser, otherAddress] = await ethers.getSigners();
+
+    const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
+    const contract = await contractFactory.deploy(beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0);
+    await contract.deployed();
+    await contract.setPauser(pauser.address);
+
+    return {contract, owner, beneficiary, pauser, otherAddress};
+  }
+
+  it("Should let only the owner grant and revoke the pauser role", async function () {
+    const {contract, pauser, otherAddress} = await loadFixture(deployPauserFixture);
+
+    expect(await contract.pauser()).to.equal(pauser.address);
+    await expect(contract.connect(pauser).setPauser(otherAddress.address)).to.be.revertedWith(NOT_OWNER_ERROR);
+    await expect(contract.setPauser(pauser.address)).to.be.revertedWith("New pauser must differ from current pauser");
+    await expect(contract.setPauser(otherAddress.address))
+      .to.emit(contract, "PauserUpdated").withArgs(pauser.address, otherAddress.address);
+    await expect(contract.setPauser(ZERO_ADDRESS))
+      .to.emit(contract, "PauserUpdated").withArgs(otherAddress.address, ZERO_ADDRESS);
+    expect(await contract.pauser()).to.equal(ZERO_ADDRESS);
+  });
+
+  it("Should let the pauser pause, but not unpause or change the schedule", async function () {
+    const {contract, pauser, otherAddress} = await loadFixture(deployPauserFixture);
+
+    await expect(contract.connect(pauser).pause()).to.emit(contract, "Paused").withArgs(pauser.address);
+    await expect(contract.connect(pauser).unpause()).to.be.revertedWith(NOT_OWNER_ERROR);
+    await expect(contract.connect(pauser).setBeneficiary(otherAddress.address)).to.be.revertedWith(NOT_OWNER_ERROR);
+    await expect(contract.connect(pauser).setDuration(2 * ONE_YEAR_IN_SECS)).to.be.revertedWith(NOT_OWNER_ERROR);
+    await expect(contract.connect(pauser).rebaseDuration(2 * ONE_YEAR_IN_SECS)).to.be.revertedWith(NOT_OWNER_ERROR);
+    await expect(contract.connect(pauser).setMinDelay(ONE_DAY_IN_SECONDS)).to.be.revertedWith(NOT_OWNER_ERROR);
+    await expect(contract.connect(pauser).queueChange(contract.interface.encodeFunctionData("setDuration", [2 * ONE_YEAR_IN_SECS])))
+      .to.be.revertedWith(NOT_OWNER_ERROR);
+    await expect(contract.connect(pauser).transferOwnership(pauser.address)).to.be.revertedWith(NOT_OWNER_ERROR);
+  });
+
+  it("Should let the owner pause and unpause as before", async function () {
+    const {contract, owner, pauser} = await loadFixture(deployPauserFixture);
+    await contract.connect(pauser).pause();
+
+    await expect(contract.unpause()).to.emit(contract, "Unpaused").withArgs(owner.address);
+    await expect(contract.pause()).to.emit(contract, "Paused").withArgs(owner.address);
+  });
+
+  it("Should not let anyone else, or a revoked pauser, pause", async function () {
+    const {contract, pauser, otherAddress} = await loadFixture(deployPauserFixture);
+
+    await expect(contract.connect(otherAddress).pause()).to.be.revertedWith(NOT_OWNER_OR_PAUSER_ERROR);
+    await contract.setPauser(ZERO_ADDRESS);
+    await expect(contract.connect(pauser).pause()).to.be.revertedWith(NOT_OWNER_OR_PAUSER_ERROR);
+  });
+});
+
+describe("PalmEcosystemVestingWallet Contract with several beneficiaries", function () {
+  async function deploySharedContractFixture() {
+    const vestingStartTime = (await time.latest()) + ONE_DAY_IN_SECONDS * 7;
+    const [owner, beneficiary, otherAddress] = await ethers.getSigners();
+    // Fresh accounts, so their balances are exactly what they were paid
+    const accounts = [0, 1, 2].map(() => ethers.Wallet.createRandom().address);
+
+    const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
+    const contract = await contractFactory.deploy(beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0);
+    await contract.deployed();
+    const erc20Factory = await ethers.getContractFactory("SomeToken");
+    const erc20Contract = await erc20Factory.deploy();
+    await erc20Contract.deployed();
+
+    return {contract, erc20Contract, owner, beneficiary, otherAddress, accounts, vestingEndTime: vestingStartTime + ONE_YEAR_IN_SECS};
+  }
+
+  async function setShares(contract: Contract, accounts: string[], shares: number[]) {
+    await contract.pause();
+    await contract.setShares(accounts, shares);
+    await contract.unpause();
+  }
+
+  it("Should split each release between the beneficiaries by their shares", async function () {
+    const {contract, owner, accounts, vestingEndTime} = await loadFixture(deploySharedContractFixture);
+    await contract.pause();
+    await expect(contract.setShares(accounts, [5, 3, 2]))
+      .to.emit(contract, "SharesUpdated").withArgs(accounts, [5, 3, 2]);
+    await contract.unpause();
+    await owner.sendTransaction({to: contract.address, value: 1000});
+    await time.increaseTo(vestingEndTime);
+
+    await expect(contract["release()"]())
+      .to.emit(contract, "EtherReleased").withArgs(1000)
+      .and.to.emit(contract, "EtherDistributed").withArgs(accounts[0], 500)
+      .and.to.emit(contract, "EtherDistributed").withArgs(accounts[1], 300)
+      .and.to.emit(contract, "EtherDistributed").withArgs(accounts[2], 200);
+    expect(await ethers.provider.getBalance(accounts[1])).to.equal(300);
+    expect(await contract["releasedTo(address)"](accounts[2])).to.equal(200);
+    expect(await contract["released()"]()).to.equal(1000);
+    expect(await contract.beneficiary()).to.equal(accounts[0]);
+    expect(await contract.totalShares()).to.equal(10);
+  });
+
+  it("Should give what rounding leaves over to the first beneficiary", async function () {
+    const {contract, owner, accounts, vestingEndTime} = await loadFixture(deploySharedContractFixture);
+    await setShares(contract, accounts, [1, 1, 1]);
+    await owner.sendTransaction({to: contract.address, value: 100});
+    await time.increaseTo(vestingEndTime);
+    await contract["release()"]();
+
+    expect(await Promise.all(accounts.map(account => ethers.provider.getBalance(account)))).to.deep.equal([34, 33, 33].map(BigNumber.from));
+  });
+
+  it("Should split releases without overflowing when the shares are large", async function () {
+    const {contract, owner, accounts, vestingEndTime} = await loadFixture(deploySharedContractFixture);
+    const largeShare = BigNumber.from(2).pow(254);
+    await contract.pause();
+    await contract.setShares(accounts.slice(0, 2), [largeShare.mul(2), largeShare]);
+    await contract.unpause();
+    await owner.sendTransaction({to: contract.address, value: 1000});
+    await time.increaseTo(vestingEndTime);
+
+    await expect(contract["release()"]())
+      .to.emit(contract, "EtherDistributed").withArgs(accounts[0], 667)
+      .and.to.emit(contract, "EtherDistributed").withArgs(accounts[1], 333);
+  });
+
+  it("Should split ERC-20 releases the same way", async function () {
+    const {contract, erc20Contract, accounts, vestingEndTime} = await loadFixture(deploySharedContractFixture);
+    await setShares(contract, accounts.slice(0, 2), [1, 3]);
+    await erc20Contract.mint(contract.address, 1000);
+    await time.increaseTo(vestingEndTime);
+
+    await expect(contract["release(address)"](erc20Contract.address))
+      .to.emit(contract, "ERC20Released").withArgs(erc20Contract.address, 1000)
+      .and.to.emit(contract, "ERC20Distributed").withArgs(erc20Contract.address, accounts[1], 750);
+    expect(await erc20Contract.balanceOf(accounts[0])).to.equal(250);
+    expect(await contract["releasedTo(address,address)"](erc20Contract.address, accounts[1])).to.equal(750);
+    expect(await contract["released(address)"](erc20Contract.address)).to.equal(1000);
+  });
+
+  it("Should keep what was released with whoever received it when the shares change", async function () {
+    const {contract, owner, beneficiary, accounts, vestingEndTime} = await loadFixture(deploySharedContractFixture);
+    await owner.sendTransaction({to: contract.address, value: 1000});
+    await time.increaseTo(vestingEndTime - ONE_YEAR_IN_SECS / 2);
+    await contract["release()"]();
+    await setShares(contract, accounts.slice(0, 2), [1, 1]);
+    await time.increaseTo(vestingEndTime);
+    await contract["release()"]();
+
+    expect(await contract["releasedTo(address)"](beneficiary.address)).to.be.greaterThan(0);
+    expect((await contract["releasedTo(address)"](beneficiary.address)).add(await ethers.provider.getBalance(accounts[0])).add(await ethers.provider.getBalance(accounts[1]))).to.equal(1000);
+    expect(await ethers.provider.getBalance(accounts[0])).to.be.closeTo(await ethers.provider.getBalance(accounts[1]), 1);
+
+    // Setting a single beneficiary replaces all of them
+    await contract.pause();
+    await expect(contract.setBeneficiary(accounts[0])).to.emit(contract, "BeneficiaryUpdated").withArgs(accounts[0], accounts[0]);
+    const [accountsAfter, sharesAfter] = await contract.beneficiaries();
+    expect(accountsAfter).to.deep.equal([accounts[0]]);
+    expect(sharesAfter).to.deep.equal([BigNumber.from(1)]);
+  });
+
+  it("Should only let the owner set valid shares while paused", async function () {
+    const {contract, otherAddress, accounts} = await loadFixture(deploySharedContractFixture);
+
+    await expect(contract.setShares(accounts, [1, 1, 1])).to.be.revertedWith(NOT_PAUSED_EXCEPTION);
+    await contract.pause();
+    await expect(contract.connect(otherAddress).setShares(accounts, [1, 1, 1])).to.be.revertedWith(NOT_OWNER_ERROR);
+    await expect(contract.setShares([], [])).to.be.revertedWith("Every beneficiary needs a share");
+    await expect(contract.setShares(accounts, [1, 1])).to.be.revertedWith("Every beneficiary needs a share");
+    await expect(contract.setShares([accounts[0], ZERO_ADDRESS], [1, 1])).to.be.revertedWith("Beneficiary is zero address");
+    await expect(contract.setShares(accounts, [1, 0, 1])).to.be.revertedWith("Shares must be greater than zero");
+    await expect(contract.setShares([accounts[0], accounts[1], accounts[0]], [1, 1, 1])).to.be.revertedWith("Duplicate beneficiary");
+    const tooMany = Array.from({length: 21}, () => ethers.Wallet.createRandom().address);
+    await expect(contract.setShares(tooMany, tooMany.map(() => 1))).to.be.revertedWith("Too many beneficiaries");
+  });
+
+  it("Should queue changes to the shares once there is a minimum delay", async function () {
+    const {contract, accounts} = await loadFixture(deploySharedContractFixture);
+    await contract.setMinDelay(ONE_DAY_IN_SECONDS);
+    await contract.pause();
+    await expect(contract.setShares(accounts, [1, 1, 1])).to.be.revertedWith("Change must be queued");
+
+    const data = contract.interface.encodeFunctionData("setShares", [accounts, [1, 1, 1]]);
+    await contract.queueChange(data);
+    await time.increase(ONE_DAY_IN_SECONDS);
+    await expect(contract.executeChange(data)).to.emit(contract, "SharesUpdated");
+    expect(await contract.totalShares()).to.equal(3);
+  });
+});
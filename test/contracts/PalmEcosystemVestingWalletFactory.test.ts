@@ -0,0 +1,65 @@
+import {loadFixture, time} from "@nomicfoundation/hardhat-network-helpers";
+import {expect} from "chai";
+import {ethers} from "hardhat";
+
+const ONE_YEAR_IN_SECS = 365 * 24 * 60 * 60;
+const SALT = ethers.utils.id("grant-42");
+
+describe("PalmEcosystemVestingWalletFactory Contract", function () {
+  async function deployFactoryFixture() {
+    const vestingStartTime = (await time.latest()) + ONE_YEAR_IN_SECS;
+    const [creator, beneficiary, otherAddress] = await ethers.getSigners();
+
+    const factoryFactory = await ethers.getContractFactory("PalmEcosystemVestingWalletFactory");
+    const factory = await factoryFactory.deploy();
+    await factory.deployed();
+
+    return {factory, creator, beneficiary, otherAddress, vestingStartTime};
+  }
+
+  it("Should create a wallet at the predicted address and emit VestingWalletCreated", async function () {
+    const {factory, creator, beneficiary, vestingStartTime} = await loadFixture(deployFactoryFixture);
+    const predicted = await factory.predictVestingWalletAddress(creator.address, beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0, SALT);
+
+    await expect(factory.createVestingWallet(beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0, SALT))
+      .to.emit(factory, "VestingWalletCreated").withArgs(predicted, creator.address, beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0, SALT);
+
+    const wallet = await ethers.getContractAt("PalmEcosystemVestingWallet", predicted);
+    expect(await wallet.beneficiary()).to.equal(beneficiary.address);
+    expect(await wallet.start()).to.equal(vestingStartTime);
+    expect(await wallet.duration()).to.equal(ONE_YEAR_IN_SECS);
+  });
+
+  it("Should leave the creator as the pending owner of the wallet", async function () {
+    const {factory, creator, beneficiary, otherAddress, vestingStartTime} = await loadFixture(deployFactoryFixture);
+    const predicted = await factory.predictVestingWalletAddress(otherAddress.address, beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0, SALT);
+    await factory.connect(otherAddress).createVestingWallet(beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0, SALT);
+    const wallet = await ethers.getContractAt("PalmEcosystemVestingWallet", predicted);
+
+    expect(await wallet.owner()).to.equal(factory.address);
+    expect(await wallet.pendingOwner()).to.equal(otherAddress.address);
+    await expect(wallet.connect(creator).acceptOwnership()).to.be.revertedWith("Ownable2Step: caller is not the new owner");
+    await wallet.connect(otherAddress).acceptOwnership();
+    expect(await wallet.owner()).to.equal(otherAddress.address);
+  });
+
+  it("Should revert when creating the same wallet with the same salt twice", async function () {
+    const {factory, beneficiary, vestingStartTime} = await loadFixture(deployFactoryFixture);
+    await factory.createVestingWallet(beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0, SALT);
+
+    await expect(factory.createVestingWallet(beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0, SALT)).to.be.reverted;
+    await factory.createVestingWallet(beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0, ethers.utils.id("grant-43"));
+  });
+
+  it("Should not let a different caller create a wallet at the creator's predicted address", async function () {
+    const {factory, creator, beneficiary, otherAddress, vestingStartTime} = await loadFixture(deployFactoryFixture);
+    const predicted = await factory.predictVestingWalletAddress(creator.address, beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0, SALT);
+
+    await factory.connect(otherAddress).createVestingWallet(beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0, SALT);
+    expect(await ethers.provider.getCode(predicted)).to.equal("0x");
+
+    await expect(factory.createVestingWallet(beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0, SALT))
+      .to.emit(factory, "VestingWalletCreated").withArgs(predicted, creator.address, beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0, SALT);
+    expect(await (await ethers.getContractAt("PalmEcosystemVestingWallet", predicted)).pendingOwner()).to.equal(creator.address);
+  });
+});
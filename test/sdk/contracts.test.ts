@@ -0,0 +1,17 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {PalmEcosystemVestingWallet__factory, PalmEcosystemVestingWalletFactory__factory} from "../../sdk/contracts";
+
+describe("SDK Contracts", function () {
+	for (const factory of [PalmEcosystemVestingWallet__factory, PalmEcosystemVestingWalletFactory__factory]) {
+		const contractName = factory.name.replace(/__factory$/, "");
+
+		it(`Should ship the ABI and bytecode of the compiled ${contractName}`, async () => {
+			const artifact = await hre.artifacts.readArtifact(contractName);
+
+			// Run npm run sdk-types after changing the contract to bring the committed bindings up to date
+			expect(factory.abi).to.deep.equal(artifact.abi);
+			expect(factory.bytecode).to.equal(artifact.bytecode);
+		});
+	}
+});
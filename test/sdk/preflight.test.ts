@@ -0,0 +1,133 @@
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {ethers} from "hardhat";
+import {expect} from "chai";
+import {DeploymentParams, preflightBatch, preflightDeployment, PreflightCheck} from "../../sdk";
+
+const ONE_DAY_IN_SECONDS = 24 * 60 * 60;
+const ONE_YEAR_IN_SECS = 365 * ONE_DAY_IN_SECONDS;
+
+describe("SDK Preflight", function () {
+	async function deploymentParams(overrides: Partial<DeploymentParams> = {}): Promise<DeploymentParams> {
+		const [, beneficiary, finalOwner] = await ethers.getSigners();
+		const startTime = (await time.latest()) + ONE_DAY_IN_SECONDS;
+		return {
+			beneficiary: beneficiary.address,
+			finalOwner: finalOwner.address,
+			startDate: new Date(startTime * 1000),
+			endDate: new Date((startTime + ONE_YEAR_IN_SECS) * 1000),
+			startTime,
+			duration: ONE_YEAR_IN_SECS,
+			cliff: overrides.startTime ?? startTime,
+			unlockInterval: 0,
+			...overrides
+		};
+	}
+
+	function statuses(checks: PreflightCheck[]): Record<string, string[]> {
+		const result: Record<string, string[]> = {};
+		for (const {check, status} of checks) {
+			result[check] = [...(result[check] ?? []), status];
+		}
+		return result;
+	}
+
+	it("Should pass a well-formed deployment", async () => {
+		const [deployer] = await ethers.getSigners();
+
+		const checks = await preflightDeployment(deployer, await deploymentParams());
+
+		expect(statuses(checks)).to.deep.equal({
+			"start date": ["pass"],
+			"beneficiary": ["pass"],
+			"final owner": ["pass"],
+			"deployer balance": ["pass"]
+		});
+	});
+
+	it("Should fail a start date in the past and warn about one far in the future", async () => {
+		const [deployer] = await ethers.getSigners();
+		const now = await time.latest();
+
+		const past = await preflightDeployment(deployer, await deploymentParams({startTime: now - ONE_DAY_IN_SECONDS}));
+		const future = await preflightDeployment(deployer, await deploymentParams({startTime: now + 2 * ONE_YEAR_IN_SECS}));
+
+		expect(statuses(past)["start date"]).to.deep.equal(["fail"]);
+		expect(statuses(future)["start date"]).to.deep.equal(["warn"]);
+	});
+
+	it("Should warn about contracts and unused addresses", async () => {
+		const [deployer] = await ethers.getSigners();
+		const token = await (await ethers.getContractFactory("SomeToken")).deploy();
+		const unused = ethers.Wallet.createRandom().address;
+
+		const checks = await preflightDeployment(deployer, await deploymentParams({beneficiary: token.address, finalOwner: unused}));
+
+		expect(checks.find(({check}) => check === "beneficiary")?.message).to.contain("is a contract");
+		expect(checks.find(({check}) => check === "final owner")?.message).to.contain("check it for typos");
+		expect(statuses(checks)).to.deep.include({"beneficiary": ["warn"], "final owner": ["warn"]});
+	});
+
+	it("Should fail if the final owner is the beneficiary", async () => {
+		const [deployer, beneficiary] = await ethers.getSigners();
+
+		const checks = await preflightDeployment(deployer, await deploymentParams({finalOwner: beneficiary.address}));
+
+		expect(statuses(checks)["final owner"]).to.deep.equal(["pass", "fail"]);
+	});
+
+	it("Should fail if the deployer can't cover gas and funding", async () => {
+		const [deployer] = await ethers.getSigners();
+		const balance = await ethers.provider.getBalance(deployer.address);
+
+		const checks = await preflightDeployment(deployer, await deploymentParams(), {fundAmount: balance});
+
+		expect(statuses(checks)["deployer balance"]).to.deep.equal(["fail"]);
+		expect(checks.find(({check}) => check === "deployer balance")?.message).to.match(/needs about .* PALM \(\d+ gas at \d+ wei plus .* PALM funding\)/);
+	});
+
+	it("Should price every transaction of the deployment at the gas price it will be sent at", async () => {
+		const [deployer, , , pauser, otherBeneficiary] = await ethers.getSigners();
+		const params = await deploymentParams();
+		// A gas price no deployer can afford, so the check reports the gas it needs
+		const gasPrice = (await ethers.provider.getBalance(deployer.address)).div(100_000);
+		const requiredGas = async (options: object) => {
+			const checks = await preflightDeployment(deployer, params, {gasPrice, ...options});
+			const message = checks.find(({check}) => check === "deployer balance")?.message;
+			expect(message).to.contain(`gas at ${gasPrice} wei`);
+			return Number(message?.match(/\((\d+) gas at/)?.[1]);
+		};
+
+		const deployment = await requiredGas({});
+		const shares = [{beneficiary: params.beneficiary, shares: 3}, {beneficiary: otherBeneficiary.address, shares: 1}];
+		expect(await requiredGas({pauser: pauser.address, minDelay: 14 * ONE_DAY_IN_SECONDS, shares}))
+			.to.equal(deployment + 50_000 + 50_000 + 2 * 50_000 + 2 * 50_000);
+	});
+
+	it("Should check every beneficiary of a shares file", async () => {
+		const [deployer, beneficiary, finalOwner] = await ethers.getSigners();
+		const unused = ethers.Wallet.createRandom().address;
+		const shares = [{beneficiary: beneficiary.address, shares: 1}, {beneficiary: unused, shares: 1}, {beneficiary: finalOwner.address, shares: 1}];
+
+		const checks = await preflightDeployment(deployer, await deploymentParams(), {shares});
+
+		expect(statuses(checks)).to.deep.include({"beneficiary": ["pass", "warn", "pass"], "final owner": ["pass", "fail"]});
+	});
+
+	it("Should check the rows of a batch with one balance check for all of them", async () => {
+		const [deployer] = await ethers.getSigners();
+		const now = await time.latest();
+		const rows = [
+			{row: 1, params: await deploymentParams(), deployed: true},
+			{row: 2, params: await deploymentParams({startTime: now - ONE_DAY_IN_SECONDS}), deployed: false}
+		];
+
+		const checks = await preflightBatch(deployer, rows);
+
+		expect(statuses(checks)).to.deep.equal({
+			"row 2 start date": ["fail"],
+			"row 2 beneficiary": ["pass"],
+			"row 2 final owner": ["pass"],
+			"deployer balance": ["pass"]
+		});
+	});
+});
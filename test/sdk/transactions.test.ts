@@ -0,0 +1,119 @@
+import {loadFixture, mine, time} from "@nomicfoundation/hardhat-network-helpers";
+import {ethers} from "hardhat";
+import {expect} from "chai";
+import {
+	deployVestingWallet,
+	InvalidArgumentError,
+	NonceManager,
+	NOT_OWNER_ERROR,
+	sendTransaction,
+	TransactionRevertedError,
+	TransactionTimeoutError
+} from "../../sdk";
+
+const ONE_YEAR_IN_SECS = 365 * 24 * 60 * 60;
+
+describe("SDK Transactions", function () {
+	async function deployVestingContractFixture() {
+		const [deployer, beneficiary, otherAddress] = await ethers.getSigners();
+		const startTime = (await time.latest()) + 60;
+		const wallet = await deployVestingWallet(deployer, {beneficiary: beneficiary.address, startTime, duration: ONE_YEAR_IN_SECS});
+
+		return {wallet, deployer, otherAddress};
+	}
+
+	// Leaves transactions pending until the test mines them, like a congested network
+	async function withoutAutomine<T>(action: () => Promise<T>): Promise<T> {
+		await ethers.provider.send("evm_setAutomine", [false]);
+		try {
+			return await action();
+		} finally {
+			await ethers.provider.send("evm_setAutomine", [true]);
+		}
+	}
+
+	function mineAfter(milliseconds: number) {
+		setTimeout(() => mine(), milliseconds);
+	}
+
+	it("Should send a transaction and wait for its confirmations", async () => {
+		const {wallet, deployer} = await loadFixture(deployVestingContractFixture);
+
+		const sending = sendTransaction(deployer, await wallet.populateTransaction.pause(), {confirmations: 2, pollingInterval: 50});
+		mineAfter(200);
+		const {receipt, gasCost} = await sending;
+
+		expect(await ethers.provider.getBlockNumber()).to.equal(receipt.blockNumber + 1);
+		expect(gasCost.gas).to.equal(receipt.gasUsed);
+		expect(await wallet.paused()).to.be.true;
+	});
+
+	it("Should surface the revert reason of a transaction that would revert", async () => {
+		const {wallet, otherAddress} = await loadFixture(deployVestingContractFixture);
+
+		await expect(sendTransaction(otherAddress, await wallet.connect(otherAddress).populateTransaction.unpause()))
+			.to.be.rejectedWith(TransactionRevertedError, `Transaction would revert: ${NOT_OWNER_ERROR}`);
+	});
+
+	it("Should surface the revert reason of a mined transaction", async () => {
+		const {wallet, otherAddress} = await loadFixture(deployVestingContractFixture);
+
+		// With a gas limit there is no estimate to fail, so the transaction is mined and reverts
+		const request = {...await wallet.connect(otherAddress).populateTransaction.unpause(), gasLimit: 100_000};
+		const error = await withoutAutomine(async () => {
+			const sending = sendTransaction(otherAddress, request, {pollingInterval: 50});
+			mineAfter(200);
+			return sending.catch(e => e);
+		});
+
+		expect(error).to.be.instanceOf(TransactionRevertedError);
+		expect(error.txHash).to.match(/^0x[0-9a-f]{64}$/);
+		expect(error.reason).to.equal(NOT_OWNER_ERROR);
+	});
+
+	it("Should give up on a transaction that is not mined in time", async () => {
+		const {wallet, deployer} = await loadFixture(deployVestingContractFixture);
+
+		await withoutAutomine(async () => {
+			await expect(sendTransaction(deployer, await wallet.populateTransaction.pause(), {timeout: 1, pollingInterval: 50}))
+				.to.be.rejectedWith(TransactionTimeoutError, "was not mined within 1 seconds");
+		});
+	});
+
+	it("Should replace a transaction that is not mined in time with higher fees", async () => {
+		const {wallet, deployer} = await loadFixture(deployVestingContractFixture);
+
+		const {tx, receipt} = await withoutAutomine(async () => {
+			const sending = sendTransaction(deployer, await wallet.populateTransaction.pause(), {timeout: 1, feeBump: 20, pollingInterval: 50});
+			mineAfter(1500);
+			return sending;
+		});
+
+		// Only the replacement is mined, paying 20% more than the priority fee ethers suggests
+		const {maxPriorityFeePerGas} = await ethers.provider.getFeeData();
+		const block = await ethers.provider.getBlockWithTransactions(receipt.blockNumber);
+		expect(block.transactions.map(({hash}) => hash)).to.deep.equal([tx.hash]);
+		expect(tx.maxPriorityFeePerGas).to.equal(maxPriorityFeePerGas?.mul(120).div(100));
+		expect(await wallet.paused()).to.be.true;
+		await expect(sendTransaction(deployer, await wallet.populateTransaction.pause(), {feeBump: 5}))
+			.to.be.rejectedWith(InvalidArgumentError, "Invalid feeBump: must be at least 10 percent");
+	});
+
+	it("Should hand out consecutive nonces to a batch of pending transactions", async () => {
+		const {wallet, deployer} = await loadFixture(deployVestingContractFixture);
+		const nonces = new NonceManager(deployer);
+		const first = await deployer.getTransactionCount();
+
+		const sent = await withoutAutomine(async () => {
+			const pausing = sendTransaction(deployer, await wallet.populateTransaction.pause(), {nonces, pollingInterval: 50});
+			// Give the first transaction time to reach the pool before queueing the next one
+			await new Promise(resolve => setTimeout(resolve, 200));
+			const transferring = sendTransaction(deployer, {...await wallet.populateTransaction.transferOwnership(deployer.address), gasLimit: 100_000}, {nonces, pollingInterval: 50});
+			mineAfter(200);
+			return Promise.all([pausing, transferring]);
+		});
+
+		expect(sent.map(({tx}) => tx.nonce)).to.deep.equal([first, first + 1]);
+		expect(await nonces.next()).to.equal(first + 2);
+	});
+});
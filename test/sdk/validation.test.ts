@@ -0,0 +1,187 @@
+import {expect} from "chai";
+import {ethers} from "ethers";
+import {
+	InvalidArgumentError,
+	parseAddress,
+	parseDuration,
+	parseDeploymentArgs,
+	parseSalt,
+	parseShares,
+	parseTimestamp,
+	parseTokenList,
+	parseMinDelay,
+	parseUnlockInterval,
+	projectSchedule,
+	rebaseCurve,
+	REBASE_FRACTION_SCALE,
+	splitByShares,
+	vestedAmount,
+	VestingWalletError
+} from "../../sdk";
+
+const beneficiary = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+describe("SDK Validation", function () {
+	it("Should convert deployment arguments into constructor arguments", () => {
+		const params = parseDeploymentArgs({beneficiary: beneficiary.toLowerCase(), startDate: "2022-12-01", endDate: "2026-12-01"});
+
+		expect(params.beneficiary).to.equal(beneficiary);
+		expect(params.finalOwner).to.be.undefined;
+		expect(params.startTime).to.equal(Date.UTC(2022, 11, 1) / 1000);
+		expect(params.duration).to.equal((Date.UTC(2026, 11, 1) - Date.UTC(2022, 11, 1)) / 1000);
+		expect(params.cliff).to.equal(params.startTime);
+		expect(params.unlockInterval).to.equal(0);
+	});
+
+	it("Should accept a cliff between the start and the end, and a fixed unlock interval", () => {
+		const params = parseDeploymentArgs({beneficiary, startDate: "2022-12-01", endDate: "2026-12-01", cliffDate: "2023-12-01", unlockInterval: "13w"});
+
+		expect(params.cliff).to.equal(Date.UTC(2023, 11, 1) / 1000);
+		expect(params.unlockInterval).to.equal(13 * 7 * 24 * 60 * 60);
+		expect(() => parseDeploymentArgs({beneficiary, startDate: "2022-12-01", endDate: "2026-12-01", cliffDate: "2022-11-30"}))
+			.to.throw(InvalidArgumentError, "The supplied cliffDate must be between the startDate and the endDate");
+		expect(() => parseDeploymentArgs({beneficiary, startDate: "2022-12-01", endDate: "2026-12-01", cliffDate: "2026-12-02"}))
+			.to.throw(InvalidArgumentError, "The supplied cliffDate must be between the startDate and the endDate");
+		expect(() => parseDeploymentArgs({beneficiary, startDate: "2022-12-01", endDate: "2022-12-31", unlockInterval: "31d"}))
+			.to.throw(InvalidArgumentError, "The supplied unlockInterval must not be longer than the vesting duration");
+	});
+
+	it("Should only parse unlock intervals of a fixed length", () => {
+		expect(parseUnlockInterval("30d")).to.equal(30 * 24 * 60 * 60);
+		expect(parseUnlockInterval("1w12h")).to.equal(7.5 * 24 * 60 * 60);
+		expect(() => parseUnlockInterval("1mo")).to.throw(InvalidArgumentError, "Invalid unlockInterval");
+		expect(() => parseUnlockInterval("1y")).to.throw(InvalidArgumentError, "Invalid unlockInterval");
+	});
+
+	it("Should parse a minimum delay of a fixed length, or none", () => {
+		expect(parseMinDelay("2w")).to.equal(14 * 24 * 60 * 60);
+		expect(parseMinDelay("0")).to.equal(0);
+		expect(() => parseMinDelay("1mo")).to.throw(InvalidArgumentError, "Invalid minDelay");
+	});
+
+	it("Should parse the shares of several beneficiaries", () => {
+		const other = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+		expect(parseShares([{beneficiary: beneficiary.toLowerCase(), shares: "3"}, {beneficiary: other, shares: 1}]))
+			.to.deep.equal([{beneficiary, shares: 3}, {beneficiary: other, shares: 1}]);
+		expect(() => parseShares([])).to.throw(InvalidArgumentError, "Invalid shares");
+		expect(() => parseShares([{beneficiary, shares: "1.5"}])).to.throw(InvalidArgumentError, "must be a whole number greater than zero");
+		expect(() => parseShares([{beneficiary, shares: 0}])).to.throw(InvalidArgumentError, "must be a whole number greater than zero");
+		expect(() => parseShares([{beneficiary, shares: 1}, {beneficiary: beneficiary.toLowerCase(), shares: 1}])).to.throw(InvalidArgumentError, "duplicate beneficiary");
+		expect(() => parseShares([{beneficiary: ethers.constants.AddressZero, shares: 1}])).to.throw(InvalidArgumentError, "zero address");
+		expect(() => parseShares(Array.from({length: 21}, () => ({beneficiary: ethers.Wallet.createRandom().address, shares: 1})))).to.throw(InvalidArgumentError, "at most 20");
+	});
+
+	it("Should split amounts by shares like the contract, with what is left over to the first beneficiary", () => {
+		expect(splitByShares(1000, [5, 3, 2]).map(String)).to.deep.equal(["500", "300", "200"]);
+		expect(splitByShares(100, [1, 1, 1]).map(String)).to.deep.equal(["34", "33", "33"]);
+		expect(splitByShares(0, [1, 2]).map(String)).to.deep.equal(["0", "0"]);
+		expect(() => splitByShares(100, [])).to.throw(InvalidArgumentError, "Invalid shares");
+	});
+
+	it("Should throw typed errors naming the invalid argument", () => {
+		const invalid = (fn: () => unknown): InvalidArgumentError => {
+			try {
+				fn();
+			} catch (e) {
+				expect(e).to.be.instanceOf(InvalidArgumentError);
+				expect(e).to.be.instanceOf(VestingWalletError);
+				return e as InvalidArgumentError;
+			}
+			throw new Error("Expected an InvalidArgumentError");
+		};
+
+		const address = invalid(() => parseAddress("0x1234", "beneficiary"));
+		expect(address.argument).to.equal("beneficiary");
+		expect(address.message).to.equal("Invalid beneficiary address supplied: expecting a 20 byte hex string");
+		expect(address.name).to.equal("InvalidArgumentError");
+
+		expect(invalid(() => parseTimestamp("01-12-2022", "startDate")).argument).to.equal("startDate");
+		expect(invalid(() => parseTokenList(`${beneficiary},0x1234`)).message).to.equal("Invalid token address supplied: 0x1234");
+		expect(invalid(() => parseDeploymentArgs({beneficiary, finalOwner: "0x1234", startDate: "2022-12-01", endDate: "2026-12-01"})).message)
+			.to.equal("Invalid final owner address supplied: expecting a 20 byte hex string");
+		expect(invalid(() => parseDeploymentArgs({beneficiary, startDate: "2026-12-01", endDate: "2022-12-01"})).message)
+			.to.equal("The supplied startDate must be before the endDate");
+		expect(invalid(() => projectSchedule(1000, 0, 0, "monthly")).argument).to.equal("duration");
+	});
+
+	it("Should parse dates, ISO-8601 timestamps and unix seconds", () => {
+		expect(parseTimestamp("2022-12-01", "startDate")).to.equal(Date.UTC(2022, 11, 1) / 1000);
+		expect(parseTimestamp("2022-1-5", "startDate")).to.equal(Date.UTC(2022, 0, 5) / 1000);
+		expect(parseTimestamp("2022-12-01T09:30:00Z", "startDate")).to.equal(Date.UTC(2022, 11, 1, 9, 30) / 1000);
+		expect(parseTimestamp("2022-12-01T09:30+02:00", "startDate")).to.equal(Date.UTC(2022, 11, 1, 7, 30) / 1000);
+		expect(parseTimestamp("2022-12-01T09:30:15-0530", "startDate")).to.equal(Date.UTC(2022, 11, 1, 15, 0, 15) / 1000);
+		expect(parseTimestamp("1669887000", "startDate")).to.equal(1669887000);
+		expect(parseTimestamp("2024-02-29", "startDate")).to.equal(Date.UTC(2024, 1, 29) / 1000);
+	});
+
+	it("Should reject dates and times that are not on the calendar", () => {
+		expect(() => parseTimestamp("2023-02-31", "endDate")).to.throw("Invalid endDate: 2023-02-31 is not a calendar date");
+		expect(() => parseTimestamp("2023-02-29", "endDate")).to.throw("Invalid endDate: 2023-02-29 is not a calendar date");
+		expect(() => parseTimestamp("2023-13-01", "endDate")).to.throw("Invalid endDate: 2023-13-01 is not a calendar date");
+		expect(() => parseTimestamp("2023-01-01T24:00:00Z", "endDate")).to.throw("Invalid endDate: 2023-01-01T24:00:00Z is not a valid time of day");
+		expect(() => parseTimestamp("2023-01-01T09:00:00+24:00", "endDate")).to.throw("Invalid endDate: +24:00 is not a valid UTC offset");
+		expect(() => parseTimestamp("2023-01-01T09:00:00", "endDate")).to.throw("must include a UTC offset");
+		expect(() => parseTimestamp("next tuesday", "endDate")).to.throw("Invalid endDate: must be formatted YYYY-MM-DD");
+	});
+
+	it("Should parse duration expressions using calendar arithmetic", () => {
+		const start = Date.UTC(2022, 11, 1) / 1000;
+		const fourYears = (Date.UTC(2026, 11, 1) / 1000) - start;
+
+		expect(parseDuration("4y", start)).to.equal(fourYears);
+		expect(parseDuration("48mo", start)).to.equal(fourYears);
+		expect(parseDuration("1461d", start)).to.equal(fourYears);
+		expect(parseDuration("1y6mo", start)).to.equal(Date.UTC(2024, 5, 1) / 1000 - start);
+		expect(parseDuration("2w12h30s", start)).to.equal(14 * 24 * 60 * 60 + 12 * 60 * 60 + 30);
+		expect(parseDuration("1mo", Date.UTC(2023, 0, 31) / 1000)).to.equal(28 * 24 * 60 * 60);
+		expect(() => parseDuration("4 years", start)).to.throw("Invalid duration: must be a number of years (y), months (mo)");
+		expect(() => parseDuration("48m", start)).to.throw("Invalid duration");
+		expect(() => parseDuration("0d", start)).to.throw("Invalid duration: must be greater than zero");
+	});
+
+	it("Should derive the end of vesting from a duration", () => {
+		const params = parseDeploymentArgs({beneficiary, startDate: "2022-12-01T12:00:00Z", duration: "4y"});
+
+		expect(params.startTime).to.equal(Date.UTC(2022, 11, 1, 12) / 1000);
+		expect(params.endDate.toISOString()).to.equal("2026-12-01T12:00:00.000Z");
+	});
+
+	it("Should parse a salt as 32 bytes of hex, or hash any other text", () => {
+		const salt = "0x" + "AB".repeat(32);
+
+		expect(parseSalt(salt)).to.equal(salt.toLowerCase());
+		expect(parseSalt("grant-42")).to.equal(ethers.utils.id("grant-42"));
+		expect(() => parseSalt(" ")).to.throw(InvalidArgumentError, "Invalid salt: must not be empty");
+	});
+
+	it("Should calculate vested amounts like the contract", () => {
+		expect(vestedAmount(1000, 100, 1000, 99)).to.equal(0);
+		expect(vestedAmount(1000, 100, 1000, 600)).to.equal(500);
+		expect(vestedAmount(1000, 100, 1000, 433)).to.equal(333);
+		expect(vestedAmount(1000, 100, 1000, 2000)).to.equal(1000);
+	});
+
+	it("Should keep what has vested when rebasing, and vest the rest until the new end", () => {
+		const curve = rebaseCurve(100, 1000, 400);
+
+		expect(curve.rebaseFraction).to.equal(REBASE_FRACTION_SCALE.mul(3).div(10));
+		expect(vestedAmount(1000, 100, 500, 249, curve)).to.equal(298);
+		expect(vestedAmount(1000, 100, 500, 399, curve)).to.equal(300);
+		expect(vestedAmount(1000, 100, 500, 400, curve)).to.equal(300);
+		expect(vestedAmount(1000, 100, 500, 500, curve)).to.equal(650);
+		expect(vestedAmount(1000, 100, 500, 600, curve)).to.equal(1000);
+		expect(rebaseCurve(100, 1000, 100)).to.deep.equal({});
+		expect(rebaseCurve(100, 1000, 433).rebaseFraction).to.equal(REBASE_FRACTION_SCALE.mul(333).div(1000));
+	});
+
+	it("Should calculate vested amounts with a cliff and unlock interval like the contract", () => {
+		const curve = {cliff: 350, unlockInterval: 100};
+
+		expect(vestedAmount(1000, 100, 1000, 349, curve)).to.equal(0);
+		expect(vestedAmount(1000, 100, 1000, 350, curve)).to.equal(200);
+		expect(vestedAmount(1000, 100, 1000, 399, curve)).to.equal(200);
+		expect(vestedAmount(1000, 100, 1000, 400, curve)).to.equal(300);
+		expect(vestedAmount(1000, 100, 1000, 1099, curve)).to.equal(900);
+		expect(vestedAmount(1000, 100, 1000, 1100, curve)).to.equal(1000);
+	});
+});
@@ -0,0 +1,218 @@
+import {loadFixture, time} from "@nomicfoundation/hardhat-network-helpers";
+import {BigNumber} from "ethers";
+import {ethers} from "hardhat";
+import {expect} from "chai";
+import {
+	acceptOwnership,
+	cancelChange,
+	cancelOwnershipTransfer,
+	ChangeMustBeQueuedError,
+	ChangeNotQueuedError,
+	ChangeNotReadyError,
+	connectVestingWallet,
+	deployVestingWallet,
+	executeChange,
+	getQueuedChanges,
+	getWalletStatus,
+	InvalidArgumentError,
+	NothingReleasableError,
+	NotOwnerError,
+	NotOwnerOrPauserError,
+	NotPendingOwnerError,
+	pause,
+	populateAdminCall,
+	prepareSetBeneficiary,
+	prepareSetDuration,
+	queueChange,
+	release,
+	sendAdminCall,
+	setBeneficiary,
+	setDuration,
+	setMinDelay,
+	setPauser,
+	setShares,
+	totalGasCost,
+	transferOwnership,
+	unpause,
+	VestingWalletError,
+	WalletNotPausedError,
+	WalletPausedError
+} from "../../sdk";
+
+const ONE_YEAR_IN_SECS = 365 * 24 * 60 * 60;
+const ONE_GWEI = BigNumber.from(1_000_000_000);
+const ONE_PALM = ONE_GWEI.mul(ONE_GWEI);
+
+describe("SDK Wallet", function () {
+	async function deployVestingContractFixture() {
+		const [deployer, beneficiary, otherAddress] = await ethers.getSigners();
+		const startTime = (await time.latest()) + 60;
+		const wallet = await deployVestingWallet(deployer, {beneficiary: beneficiary.address, startTime, duration: ONE_YEAR_IN_SECS});
+		await deployer.sendTransaction({to: wallet.address, value: ONE_PALM.mul(1000)});
+
+		return {wallet, deployer, beneficiary, otherAddress, startTime};
+	}
+
+	it("Should deploy and read a wallet through a plain provider", async () => {
+		const {wallet, deployer, beneficiary, startTime} = await loadFixture(deployVestingContractFixture);
+
+		const status = await getWalletStatus(ethers.provider, wallet.address);
+
+		expect(status.owner).to.equal(deployer.address);
+		expect(status.beneficiary).to.equal(beneficiary.address);
+		expect(status.start).to.equal(startTime);
+		expect(status.end).to.equal(startTime + ONE_YEAR_IN_SECS);
+		expect(status.paused).to.be.false;
+		expect(status.assets[0].balance).to.equal(ONE_PALM.mul(1000));
+	});
+
+	it("Should check a change before the wallet is paused, and send it once it is", async () => {
+		const {wallet, deployer, otherAddress} = await loadFixture(deployVestingContractFixture);
+
+		const call = await prepareSetBeneficiary(wallet, otherAddress.address);
+		expect(call).to.deep.equal({method: "setBeneficiary", args: [otherAddress.address]});
+		expect(populateAdminCall(wallet, call)).to.deep.equal({to: wallet.address, data: wallet.interface.encodeFunctionData("setBeneficiary", [otherAddress.address])});
+		await expect(prepareSetDuration(wallet, ONE_YEAR_IN_SECS)).to.be.rejectedWith(InvalidArgumentError, "New duration must differ from current duration");
+		await expect(prepareSetBeneficiary(wallet, deployer.address.toLowerCase().replace(/.$/, "x"))).to.be.rejectedWith(InvalidArgumentError);
+
+		await pause(wallet);
+		const sent = await sendAdminCall(wallet, call);
+
+		expect(sent.events.map(({name}) => name)).to.deep.equal(["BeneficiaryUpdated"]);
+		expect(sent.blockNumber).to.equal(await ethers.provider.getBlockNumber());
+		expect(await wallet.beneficiary()).to.equal(otherAddress.address);
+	});
+
+	it("Should update the schedule of a paused wallet", async () => {
+		const {wallet, otherAddress} = await loadFixture(deployVestingContractFixture);
+
+		await expect(setDuration(wallet, ONE_YEAR_IN_SECS * 2)).to.be.rejectedWith(WalletNotPausedError);
+		const paused = await pause(wallet);
+		expect(paused.events.map(({name}) => name)).to.deep.equal(["Paused"]);
+		await expect(pause(wallet)).to.be.rejectedWith(WalletPausedError);
+
+		await setDuration(wallet, ONE_YEAR_IN_SECS * 2);
+		const updated = await setBeneficiary(wallet, otherAddress.address);
+		expect(updated.events[0].args.newBeneficiary).to.equal(otherAddress.address);
+		await expect(setBeneficiary(wallet, otherAddress.address)).to.be.rejectedWith(InvalidArgumentError, "New beneficiary must differ from current beneficiary");
+		await unpause(wallet);
+
+		expect(await wallet.duration()).to.equal(ONE_YEAR_IN_SECS * 2);
+		expect(await wallet.beneficiary()).to.equal(otherAddress.address);
+		expect(await wallet.paused()).to.be.false;
+	});
+
+	it("Should reject owner-only operations from other accounts", async () => {
+		const {wallet, otherAddress} = await loadFixture(deployVestingContractFixture);
+		const connected = connectVestingWallet(wallet.address, otherAddress);
+
+		await expect(pause(connected)).to.be.rejectedWith(NotOwnerOrPauserError);
+		await expect(transferOwnership(connected, otherAddress.address)).to.be.rejectedWith(NotOwnerError);
+	});
+
+	it("Should let a pauser pause, but only the owner unpause", async () => {
+		const {wallet, otherAddress} = await loadFixture(deployVestingContractFixture);
+		await setPauser(wallet, otherAddress.address);
+		const guardian = connectVestingWallet(wallet.address, otherAddress);
+
+		expect((await getWalletStatus(ethers.provider, wallet.address)).pauser).to.equal(otherAddress.address);
+		await pause(guardian);
+		await expect(unpause(guardian)).to.be.rejectedWith(NotOwnerError);
+		await unpause(wallet);
+		await setPauser(wallet, ethers.constants.AddressZero);
+		await expect(pause(guardian)).to.be.rejectedWith(NotOwnerOrPauserError);
+	});
+
+	it("Should report what each transaction cost", async () => {
+		const {wallet, deployer} = await loadFixture(deployVestingContractFixture);
+
+		const before = await ethers.provider.getBalance(deployer.address);
+		const paused = await pause(wallet);
+		const unpaused = await unpause(wallet);
+
+		const total = totalGasCost([paused.gasCost, unpaused.gasCost]);
+		expect(paused.gasCost.cost).to.equal(paused.gasCost.gas.mul(paused.gasCost.gasPrice));
+		expect(total.gas).to.equal(paused.gasCost.gas.add(unpaused.gasCost.gas));
+		expect(await ethers.provider.getBalance(deployer.address)).to.equal(before.sub(total.cost));
+	});
+
+	it("Should hand over ownership once the new owner accepts it", async () => {
+		const {wallet, deployer, otherAddress} = await loadFixture(deployVestingContractFixture);
+
+		await expect(transferOwnership(wallet, "0x1234")).to.be.rejectedWith(InvalidArgumentError);
+		await expect(cancelOwnershipTransfer(wallet)).to.be.rejectedWith(VestingWalletError, "has no pending ownership transfer");
+		await transferOwnership(wallet, otherAddress.address);
+		expect(await wallet.owner()).to.equal(deployer.address);
+		expect((await getWalletStatus(ethers.provider, wallet.address)).pendingOwner).to.equal(otherAddress.address);
+		await expect(acceptOwnership(wallet)).to.be.rejectedWith(NotPendingOwnerError);
+
+		await cancelOwnershipTransfer(wallet);
+		await expect(acceptOwnership(connectVestingWallet(wallet.address, otherAddress))).to.be.rejectedWith(NotPendingOwnerError);
+		await transferOwnership(wallet, otherAddress.address);
+		const accepted = await acceptOwnership(connectVestingWallet(wallet.address, otherAddress));
+
+		expect(accepted.events.map(({name}) => name)).to.deep.equal(["OwnershipTransferred"]);
+		expect(await wallet.owner()).to.equal(otherAddress.address);
+		expect(await wallet.pendingOwner()).to.equal(ethers.constants.AddressZero);
+	});
+
+	it("Should queue changes to the schedule once the wallet has a minimum delay", async () => {
+		const {wallet, otherAddress} = await loadFixture(deployVestingContractFixture);
+		await setMinDelay(wallet, 3600);
+		await pause(wallet);
+
+		expect((await getWalletStatus(ethers.provider, wallet.address)).minDelay).to.equal(3600);
+		await expect(setBeneficiary(wallet, otherAddress.address)).to.be.rejectedWith(ChangeMustBeQueuedError);
+		const queued = await queueChange(wallet, "setBeneficiary", [otherAddress.address]);
+		const cancelled = await queueChange(wallet, "setDuration", [ONE_YEAR_IN_SECS * 2]);
+		await cancelChange(wallet, cancelled.id);
+		const [change] = await getQueuedChanges(ethers.provider, wallet.address);
+		expect(change).to.include({id: queued.id, method: "setBeneficiary", readyTimestamp: queued.readyTimestamp, ready: false});
+		// Scanning a block at a time finds the same changes
+		expect(await getQueuedChanges(ethers.provider, wallet.address, 0, 1)).to.deep.equal([change]);
+		await expect(executeChange(wallet, change.data)).to.be.rejectedWith(ChangeNotReadyError);
+
+		await time.increaseTo(queued.readyTimestamp);
+		const executed = await executeChange(wallet, change.data);
+
+		expect(executed.events.map(({name}) => name)).to.deep.equal(["BeneficiaryUpdated", "ChangeExecuted"]);
+		expect(await wallet.beneficiary()).to.equal(otherAddress.address);
+		expect(await getQueuedChanges(ethers.provider, wallet.address)).to.deep.equal([]);
+		await expect(cancelChange(wallet, queued.id)).to.be.rejectedWith(ChangeNotQueuedError);
+	});
+
+	it("Should release vested funds to the beneficiary", async () => {
+		const {wallet, beneficiary, startTime} = await loadFixture(deployVestingContractFixture);
+
+		await expect(release(wallet)).to.be.rejectedWith(NothingReleasableError);
+		await time.increaseTo(startTime + ONE_YEAR_IN_SECS);
+
+		const before = await ethers.provider.getBalance(beneficiary.address);
+		const result = await release(wallet);
+
+		expect(result.amount).to.equal(ONE_PALM.mul(1000));
+		expect(await ethers.provider.getBalance(beneficiary.address)).to.equal(before.add(result.amount));
+	});
+
+	it("Should split releases between several beneficiaries by their shares", async () => {
+		const {wallet, beneficiary, otherAddress, startTime} = await loadFixture(deployVestingContractFixture);
+		const shares = [{beneficiary: beneficiary.address, shares: 3}, {beneficiary: otherAddress.address, shares: 1}];
+
+		await expect(setShares(wallet, shares)).to.be.rejectedWith(WalletNotPausedError);
+		await pause(wallet);
+		await expect(setShares(wallet, [])).to.be.rejectedWith(InvalidArgumentError);
+		await setShares(wallet, shares);
+		await unpause(wallet);
+		await time.increaseTo(startTime + ONE_YEAR_IN_SECS);
+
+		const status = await getWalletStatus(ethers.provider, wallet.address);
+		expect(status.beneficiaries).to.deep.equal(shares);
+		expect(status.assets[0].recipients.map(({releasable}) => releasable)).to.deep.equal([ONE_PALM.mul(750), ONE_PALM.mul(250)]);
+		const result = await release(wallet);
+		expect(result.distributions).to.deep.equal([
+			{beneficiary: beneficiary.address, amount: ONE_PALM.mul(750)},
+			{beneficiary: otherAddress.address, amount: ONE_PALM.mul(250)}
+		]);
+		expect((await getWalletStatus(ethers.provider, wallet.address)).assets[0].recipients[1].released).to.equal(ONE_PALM.mul(250));
+	});
+});
@@ -0,0 +1,491 @@
+import {loadFixture, time} from "@nomicfoundation/hardhat-network-helpers";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {Contract} from "ethers";
+import {ethers} from "hardhat";
+import hre from "hardhat";
+import {expect} from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const ONE_YEAR_IN_SECS = 365 * 24 * 60 * 60;
+const ONE_DAY_IN_SECONDS = 24 * 60 * 60;
+const ZERO_ADDRESS = "0x" + "00".repeat(20);
+
+const NOT_OWNER_ERROR = "Ownable: caller is not the owner";
+const NOT_PENDING_OWNER_ERROR = "Ownable2Step: caller is not the new owner";
+const NOT_OWNER_OR_PAUSER_ERROR = "Caller is not the owner or pauser";
+const PAUSED_EXCEPTION = "Pausable: paused";
+const NOT_PAUSED_EXCEPTION = "Pausable: not paused";
+
+describe("Admin Tasks", function () {
+	type DeployParams = { contract: Contract, owner: SignerWithAddress, beneficiary: SignerWithAddress, otherAddress: SignerWithAddress, vestingDuration: number };
+	async function deployVestingContractFixture(): Promise<DeployParams> {
+		const vestingStartTime = (await time.latest()) + ONE_DAY_IN_SECONDS * 7;
+		const vestingDuration = ONE_YEAR_IN_SECS;
+		const [owner, beneficiary, otherAddress] = await ethers.getSigners();
+
+		const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
+		const contract = await contractFactory.deploy(beneficiary.address, vestingStartTime, vestingDuration, vestingStartTime, 0);
+		await contract.deployed();
+
+		return {contract, owner, beneficiary, otherAddress, vestingDuration};
+	}
+
+	let deployParams: DeployParams;
+	beforeEach(async () => {
+		deployParams = await loadFixture(deployVestingContractFixture);
+	});
+
+	async function pause() {
+		const {contract, owner} = deployParams;
+		await contract.connect(owner).pause();
+	}
+
+	describe("pause", function () {
+		it("Should pause the contract and report the Paused event", async () => {
+			const {contract, owner} = deployParams;
+
+			const result = await hre.run("pause", {address: contract.address, silent: true});
+
+			expect(await contract.paused()).to.equal(true);
+			expect(result.events).to.deep.equal([{name: "Paused", args: {account: owner.address}}]);
+		});
+
+		it("Should fail if the contract is already paused", async () => {
+			const {contract} = deployParams;
+			await pause();
+
+			await expect(hre.run("pause", {address: contract.address, silent: true})).to.be.rejectedWith(PAUSED_EXCEPTION);
+		});
+
+		it("Should fail if the signer is not the owner", async () => {
+			const {contract, otherAddress} = deployParams;
+			await contract.transferOwnership(otherAddress.address);
+			await contract.connect(otherAddress).acceptOwnership();
+
+			await expect(hre.run("pause", {address: contract.address, silent: true})).to.be.rejectedWith(NOT_OWNER_OR_PAUSER_ERROR);
+		});
+
+		it("Should pause the contract as its pauser", async () => {
+			const {contract, owner, otherAddress} = deployParams;
+			await contract.setPauser(owner.address);
+			await contract.transferOwnership(otherAddress.address);
+			await contract.connect(otherAddress).acceptOwnership();
+
+			const result = await hre.run("pause", {address: contract.address, silent: true});
+
+			expect(result.events).to.deep.equal([{name: "Paused", args: {account: owner.address}}]);
+			await expect(hre.run("unpause", {address: contract.address, silent: true})).to.be.rejectedWith(NOT_OWNER_ERROR);
+			await expect(hre.run("set-duration", {address: contract.address, duration: 2 * ONE_YEAR_IN_SECS, silent: true})).to.be.rejectedWith(NOT_OWNER_ERROR);
+		});
+
+		it("Should not pause the contract on a dry run", async () => {
+			const {contract} = deployParams;
+
+			const result = await hre.run("pause", {address: contract.address, dryRun: true, silent: true});
+
+			expect(result).to.equal(undefined);
+			expect(await contract.paused()).to.equal(false);
+		});
+	});
+
+	describe("unpause", function () {
+		it("Should unpause the contract and report the Unpaused event", async () => {
+			const {contract, owner} = deployParams;
+			await pause();
+
+			const result = await hre.run("unpause", {address: contract.address, silent: true});
+
+			expect(await contract.paused()).to.equal(false);
+			expect(result.events).to.deep.equal([{name: "Unpaused", args: {account: owner.address}}]);
+		});
+
+		it("Should fail if the contract is not paused", async () => {
+			const {contract} = deployParams;
+
+			await expect(hre.run("unpause", {address: contract.address, silent: true})).to.be.rejectedWith(NOT_PAUSED_EXCEPTION);
+		});
+	});
+
+	describe("grant-pauser and revoke-pauser", function () {
+		it("Should grant the pauser role and report the PauserUpdated event", async () => {
+			const {contract, otherAddress} = deployParams;
+
+			const result = await hre.run("grant-pauser", {address: contract.address, pauser: otherAddress.address, silent: true});
+
+			expect(await contract.pauser()).to.equal(otherAddress.address);
+			expect(result.events).to.deep.equal([{name: "PauserUpdated", args: {previousPauser: ZERO_ADDRESS, newPauser: otherAddress.address}}]);
+			await expect(hre.run("grant-pauser", {address: contract.address, pauser: otherAddress.address, silent: true}))
+				.to.be.rejectedWith("New pauser must differ from current pauser");
+			await expect(hre.run("grant-pauser", {address: contract.address, pauser: ZERO_ADDRESS, silent: true}))
+				.to.be.rejectedWith("Pauser is zero address, use revoke-pauser to remove the pauser");
+		});
+
+		it("Should revoke the pauser role", async () => {
+			const {contract, otherAddress} = deployParams;
+			await expect(hre.run("revoke-pauser", {address: contract.address, silent: true}))
+				.to.be.rejectedWith(`Vesting contract ${contract.address} has no pauser`);
+			await contract.setPauser(otherAddress.address);
+
+			await hre.run("revoke-pauser", {address: contract.address, silent: true});
+
+			expect(await contract.pauser()).to.equal(ZERO_ADDRESS);
+			await expect(contract.connect(otherAddress).pause()).to.be.revertedWith(NOT_OWNER_OR_PAUSER_ERROR);
+		});
+
+		it("Should only let the owner grant the pauser role", async () => {
+			const {contract, otherAddress} = deployParams;
+			await contract.transferOwnership(otherAddress.address);
+			await contract.connect(otherAddress).acceptOwnership();
+
+			await expect(hre.run("grant-pauser", {address: contract.address, pauser: otherAddress.address, silent: true}))
+				.to.be.rejectedWith(NOT_OWNER_ERROR);
+		});
+	});
+
+	describe("set-beneficiary", function () {
+		it("Should update the beneficiary and report the BeneficiaryUpdated event", async () => {
+			const {contract, beneficiary, otherAddress} = deployParams;
+			await pause();
+
+			const result = await hre.run("set-beneficiary", {address: contract.address, beneficiary: otherAddress.address, silent: true});
+
+			expect(await contract.beneficiary()).to.equal(otherAddress.address);
+			expect(result.events).to.deep.equal([{
+				name: "BeneficiaryUpdated",
+				args: {previousBeneficiary: beneficiary.address, newBeneficiary: otherAddress.address}
+			}]);
+		});
+
+		it("Should fail if the contract is not paused", async () => {
+			const {contract, otherAddress} = deployParams;
+
+			await expect(hre.run("set-beneficiary", {address: contract.address, beneficiary: otherAddress.address, silent: true})).to.be.rejectedWith(NOT_PAUSED_EXCEPTION);
+		});
+
+		it("Should fail if the beneficiary is unchanged", async () => {
+			const {contract, beneficiary} = deployParams;
+			await pause();
+
+			await expect(hre.run("set-beneficiary", {address: contract.address, beneficiary: beneficiary.address, silent: true})).to.be.rejectedWith("New beneficiary must differ from current beneficiary");
+		});
+
+		it("Should fail if the beneficiary is the zero address", async () => {
+			const {contract} = deployParams;
+			await pause();
+
+			await expect(hre.run("set-beneficiary", {address: contract.address, beneficiary: ZERO_ADDRESS, silent: true})).to.be.rejectedWith("Beneficiary is zero address");
+		});
+
+		it("Should fail if the signer is not the owner", async () => {
+			const {contract, otherAddress} = deployParams;
+			await pause();
+			await contract.transferOwnership(otherAddress.address);
+			await contract.connect(otherAddress).acceptOwnership();
+
+			await expect(hre.run("set-beneficiary", {address: contract.address, beneficiary: otherAddress.address, silent: true})).to.be.rejectedWith(NOT_OWNER_ERROR);
+		});
+
+		it("Should not update the beneficiary on a dry run", async () => {
+			const {contract, beneficiary, otherAddress} = deployParams;
+			await pause();
+
+			await hre.run("set-beneficiary", {address: contract.address, beneficiary: otherAddress.address, dryRun: true, silent: true});
+
+			expect(await contract.beneficiary()).to.equal(beneficiary.address);
+		});
+	});
+
+	describe("set-shares", function () {
+		let tmpDir: string;
+		let shares: string;
+		before(() => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "admin-"));
+			shares = path.join(tmpDir, "shares.json");
+		});
+
+		after(() => {
+			fs.rmSync(tmpDir, {recursive: true, force: true});
+		});
+
+		it("Should update the shares and report the SharesUpdated event", async () => {
+			const {contract, beneficiary, otherAddress} = deployParams;
+			fs.writeFileSync(shares, JSON.stringify([{beneficiary: beneficiary.address, shares: 2}, {beneficiary: otherAddress.address, shares: "1"}]));
+			await pause();
+
+			const result = await hre.run("set-shares", {address: contract.address, shares, silent: true});
+
+			expect(await contract.totalShares()).to.equal(3);
+			expect(result.events).to.deep.equal([{
+				name: "SharesUpdated",
+				args: {beneficiaries: `${beneficiary.address},${otherAddress.address}`, shares: "2,1"}
+			}]);
+		});
+
+		it("Should fail if the contract is not paused, or the shares file is invalid", async () => {
+			const {contract, beneficiary} = deployParams;
+			fs.writeFileSync(shares, JSON.stringify([{beneficiary: beneficiary.address, shares: 1}]));
+
+			await expect(hre.run("set-shares", {address: contract.address, shares, silent: true})).to.be.rejectedWith(NOT_PAUSED_EXCEPTION);
+			await pause();
+			fs.writeFileSync(shares, JSON.stringify({beneficiary: beneficiary.address, shares: 1}));
+			await expect(hre.run("set-shares", {address: contract.address, shares, silent: true})).to.be.rejectedWith("Invalid shares file: expecting a JSON array of rows");
+			fs.writeFileSync(shares, JSON.stringify([{beneficiary: beneficiary.address, shares: 1}, {beneficiary: beneficiary.address, shares: 1}]));
+			await expect(hre.run("set-shares", {address: contract.address, shares, silent: true})).to.be.rejectedWith("duplicate beneficiary");
+		});
+	});
+
+	describe("set-duration", function () {
+		it("Should update the duration and report the DurationUpdated event", async () => {
+			const {contract, vestingDuration} = deployParams;
+			await pause();
+
+			const result = await hre.run("set-duration", {address: contract.address, duration: vestingDuration * 2, silent: true});
+
+			expect(await contract.duration()).to.equal(vestingDuration * 2);
+			expect(result.events).to.deep.equal([{
+				name: "DurationUpdated",
+				args: {previousDuration: vestingDuration.toString(), newDuration: (vestingDuration * 2).toString()}
+			}]);
+		});
+
+		it("Should rebase the duration and report the DurationRebased event", async () => {
+			const {contract, vestingDuration} = deployParams;
+			await pause();
+
+			const result = await hre.run("set-duration", {address: contract.address, duration: vestingDuration * 2, rebase: true, silent: true});
+
+			expect(await contract.duration()).to.equal(vestingDuration * 2);
+			expect(result.events[0].name).to.equal("DurationRebased");
+		});
+
+		it("Should fail if the contract is not paused", async () => {
+			const {contract, vestingDuration} = deployParams;
+
+			await expect(hre.run("set-duration", {address: contract.address, duration: vestingDuration * 2, silent: true})).to.be.rejectedWith(NOT_PAUSED_EXCEPTION);
+		});
+
+		it("Should fail if the duration is unchanged", async () => {
+			const {contract, vestingDuration} = deployParams;
+			await pause();
+
+			await expect(hre.run("set-duration", {address: contract.address, duration: vestingDuration, silent: true})).to.be.rejectedWith("New duration must differ from current duration");
+		});
+
+		it("Should not update the duration on a dry run", async () => {
+			const {contract, vestingDuration} = deployParams;
+			await pause();
+
+			await hre.run("set-duration", {address: contract.address, duration: vestingDuration * 2, dryRun: true, silent: true});
+
+			expect(await contract.duration()).to.equal(vestingDuration);
+		});
+	});
+
+	describe("transfer-ownership", function () {
+		it("Should start the transfer and report the OwnershipTransferStarted event", async () => {
+			const {contract, owner, otherAddress} = deployParams;
+
+			const result = await hre.run("transfer-ownership", {address: contract.address, newOwner: otherAddress.address, silent: true});
+
+			expect(await contract.owner()).to.equal(owner.address);
+			expect(await contract.pendingOwner()).to.equal(otherAddress.address);
+			expect(result.events).to.deep.equal([{
+				name: "OwnershipTransferStarted",
+				args: {previousOwner: owner.address, newOwner: otherAddress.address}
+			}]);
+		});
+
+		it("Should fail if the new owner is the zero address", async () => {
+			const {contract} = deployParams;
+
+			await expect(hre.run("transfer-ownership", {address: contract.address, newOwner: ZERO_ADDRESS, silent: true})).to.be.rejectedWith("Ownable: new owner is the zero address");
+		});
+
+		it("Should fail if the new owner is the current owner", async () => {
+			const {contract, owner} = deployParams;
+
+			await expect(hre.run("transfer-ownership", {address: contract.address, newOwner: owner.address, silent: true})).to.be.rejectedWith("New owner must differ from current owner");
+		});
+	});
+
+	describe("accept-ownership", function () {
+		it("Should complete the transfer and report the OwnershipTransferred event", async () => {
+			const {contract, owner, otherAddress} = deployParams;
+			// The tasks sign with the first account, so hand the contract back to it
+			await contract.transferOwnership(otherAddress.address);
+			await contract.connect(otherAddress).acceptOwnership();
+			await contract.connect(otherAddress).transferOwnership(owner.address);
+
+			const result = await hre.run("accept-ownership", {address: contract.address, silent: true});
+
+			expect(await contract.owner()).to.equal(owner.address);
+			expect(await contract.pendingOwner()).to.equal(ZERO_ADDRESS);
+			expect(result.events).to.deep.equal([{
+				name: "OwnershipTransferred",
+				args: {previousOwner: otherAddress.address, newOwner: owner.address}
+			}]);
+		});
+
+		it("Should fail if the signer is not the pending owner", async () => {
+			const {contract, otherAddress} = deployParams;
+			await contract.transferOwnership(otherAddress.address);
+
+			await expect(hre.run("accept-ownership", {address: contract.address, silent: true})).to.be.rejectedWith(NOT_PENDING_OWNER_ERROR);
+		});
+
+		it("Should fail if there is no pending transfer", async () => {
+			const {contract} = deployParams;
+
+			await expect(hre.run("accept-ownership", {address: contract.address, silent: true}))
+				.to.be.rejectedWith(`Vesting contract ${contract.address} has no pending ownership transfer`);
+		});
+	});
+
+	describe("cancel-ownership-transfer", function () {
+		it("Should clear the pending owner", async () => {
+			const {contract, owner, otherAddress} = deployParams;
+			await contract.transferOwnership(otherAddress.address);
+
+			const result = await hre.run("cancel-ownership-transfer", {address: contract.address, silent: true});
+
+			expect(await contract.pendingOwner()).to.equal(ZERO_ADDRESS);
+			expect(result.events).to.deep.equal([{
+				name: "OwnershipTransferStarted",
+				args: {previousOwner: owner.address, newOwner: ZERO_ADDRESS}
+			}]);
+			await expect(contract.connect(otherAddress).acceptOwnership()).to.be.revertedWith(NOT_PENDING_OWNER_ERROR);
+		});
+
+		it("Should fail if there is no pending transfer", async () => {
+			const {contract} = deployParams;
+
+			await expect(hre.run("cancel-ownership-transfer", {address: contract.address, silent: true}))
+				.to.be.rejectedWith(`Vesting contract ${contract.address} has no pending ownership transfer`);
+		});
+	});
+
+	describe("Unsigned transactions for a multisig owner", function () {
+		let safe: SignerWithAddress;
+		let tmpDir: string;
+		beforeEach(async () => {
+			const {contract, otherAddress} = deployParams;
+			// Stand in for a Safe with a plain account that we can send the batch from
+			safe = otherAddress;
+			await contract.transferOwnership(safe.address);
+			await contract.connect(safe).acceptOwnership();
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "admin-"));
+		});
+
+		afterEach(() => {
+			fs.rmSync(tmpDir, {recursive: true, force: true});
+		});
+
+		async function executeBatch(batchFile: string, sender = safe) {
+			const batch = JSON.parse(fs.readFileSync(batchFile, "utf8"));
+			for (const {to, value, data} of batch.transactions) {
+				await (await sender.sendTransaction({to, value, data})).wait();
+			}
+		}
+
+		it("Should output the calldata without sending a transaction", async () => {
+			const {contract} = deployParams;
+
+			const result = await hre.run("pause", {address: contract.address, unsigned: true, silent: true});
+
+			expect(await contract.paused()).to.equal(false);
+			expect(result.to).to.equal(contract.address);
+			expect(result.data).to.equal(contract.interface.encodeFunctionData("pause"));
+			expect(result.batch.chainId).to.equal("31337");
+			expect(result.batch.meta.createdFromSafeAddress).to.equal(safe.address);
+			expect(result.batch.transactions).to.deep.equal([{
+				to: contract.address,
+				value: "0",
+				data: contract.interface.encodeFunctionData("pause"),
+				contractMethod: {name: "pause", payable: false, inputs: []},
+				contractInputsValues: {}
+			}]);
+		});
+
+		it("Should produce the same output for the same chain state", async () => {
+			const {contract, beneficiary} = deployParams;
+			const first = path.join(tmpDir, "first.json");
+			const second = path.join(tmpDir, "second.json");
+
+			await hre.run("transfer-ownership", {address: contract.address, newOwner: beneficiary.address, unsigned: true, output: first, silent: true});
+			await hre.run("transfer-ownership", {address: contract.address, newOwner: beneficiary.address, unsigned: true, output: second, silent: true});
+
+			expect(fs.readFileSync(first, "utf8")).to.equal(fs.readFileSync(second, "utf8"));
+		});
+
+		it("Should build a batch that the multisig owner can execute", async () => {
+			const {contract, beneficiary, vestingDuration} = deployParams;
+			const batchFile = path.join(tmpDir, "batch.json");
+
+			await hre.run("pause", {address: contract.address, unsigned: true, output: batchFile, silent: true});
+			await hre.run("set-beneficiary", {address: contract.address, beneficiary: safe.address, unsigned: true, output: batchFile, append: true, silent: true});
+			await hre.run("set-duration", {address: contract.address, duration: vestingDuration * 2, unsigned: true, output: batchFile, append: true, silent: true});
+			await hre.run("unpause", {address: contract.address, unsigned: true, output: batchFile, append: true, silent: true});
+			await hre.run("transfer-ownership", {address: contract.address, newOwner: beneficiary.address, unsigned: true, output: batchFile, append: true, silent: true});
+
+			const batch = JSON.parse(fs.readFileSync(batchFile, "utf8"));
+			expect(batch.transactions.map((tx: any) => tx.contractMethod.name)).to.deep.equal(["pause", "setBeneficiary", "setDuration", "unpause", "transferOwnership"]);
+			expect(batch.transactions[1].contractInputsValues).to.deep.equal({newBeneficiary: safe.address});
+
+			await executeBatch(batchFile);
+
+			expect(await contract.paused()).to.equal(false);
+			expect(await contract.beneficiary()).to.equal(safe.address);
+			expect(await contract.duration()).to.equal(vestingDuration * 2);
+			expect(await contract.pendingOwner()).to.equal(beneficiary.address);
+		});
+
+		it("Should write the shares as JSON arrays the Transaction Builder can encode", async () => {
+			const {contract, beneficiary, otherAddress} = deployParams;
+			const shares = path.join(tmpDir, "shares.csv");
+			fs.writeFileSync(shares, `beneficiary,shares\n${beneficiary.address},3\n${otherAddress.address},1\n`);
+			const batchFile = path.join(tmpDir, "batch.json");
+
+			await hre.run("pause", {address: contract.address, unsigned: true, output: batchFile, silent: true});
+			await hre.run("set-shares", {address: contract.address, shares, unsigned: true, output: batchFile, append: true, silent: true});
+
+			const batch = JSON.parse(fs.readFileSync(batchFile, "utf8"));
+			const {data, contractInputsValues} = batch.transactions[1];
+			expect(contractInputsValues).to.deep.equal({
+				accounts: JSON.stringify([beneficiary.address, otherAddress.address]),
+				shares: JSON.stringify(["3", "1"])
+			});
+			const inputs = [JSON.parse(contractInputsValues.accounts), JSON.parse(contractInputsValues.shares)];
+			expect(contract.interface.encodeFunctionData("setShares", inputs)).to.equal(data);
+			await executeBatch(batchFile);
+			expect(await contract.totalShares()).to.equal(4);
+		});
+
+		it("Should build a batch for a multisig new owner to accept ownership", async () => {
+			const {contract, beneficiary} = deployParams;
+			await contract.connect(safe).transferOwnership(beneficiary.address);
+			const batchFile = path.join(tmpDir, "accept.json");
+
+			const result = await hre.run("accept-ownership", {address: contract.address, unsigned: true, output: batchFile, silent: true});
+
+			expect(result.batch.meta.createdFromSafeAddress).to.equal(beneficiary.address);
+			await executeBatch(batchFile, beneficiary);
+			expect(await contract.owner()).to.equal(beneficiary.address);
+		});
+
+		it("Should fail to append to a batch that does not exist", async () => {
+			const {contract} = deployParams;
+
+			await expect(hre.run("pause", {address: contract.address, unsigned: true, output: path.join(tmpDir, "missing.json"), append: true, silent: true}))
+				.to.be.rejectedWith("Appending requires an existing Safe Transaction Builder batch as the output");
+		});
+
+		it("Should still check preconditions that don't depend on the rest of the batch", async () => {
+			const {contract, beneficiary} = deployParams;
+
+			await expect(hre.run("set-beneficiary", {address: contract.address, beneficiary: beneficiary.address, unsigned: true, silent: true}))
+				.to.be.rejectedWith("New beneficiary must differ from current beneficiary");
+		});
+	});
+});
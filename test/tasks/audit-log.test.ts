@@ -0,0 +1,116 @@
+import {takeSnapshot, SnapshotRestorer, time} from "@nomicfoundation/hardhat-network-helpers";
+import {BigNumber} from "ethers";
+import {ethers} from "hardhat";
+import hre from "hardhat";
+import {expect} from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {registryPath} from "../../tasks/registry";
+import {AuditRecord} from "../../tasks/audit-log";
+
+const ONE_GWEI = BigNumber.from(1_000_000_000);
+const ONE_PALM = ONE_GWEI.mul(ONE_GWEI);
+
+describe("Audit Log Task", function () {
+	let tmpDir: string;
+	let output: string;
+	let initialSnapshot: SnapshotRestorer;
+	before(async () => {
+		initialSnapshot = await takeSnapshot();
+	});
+
+	beforeEach(async () => {
+		await initialSnapshot.restore();
+		fs.rmSync(registryPath(hre), {force: true});
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "audit-log-"));
+		output = path.join(tmpDir, "audit.jsonl");
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+	after(() => {
+		fs.rmSync(registryPath(hre), {force: true});
+	});
+
+	async function deploy(label: string): Promise<string> {
+		const [, beneficiary, finalOwner] = await ethers.getSigners();
+		const startTime = (await time.latest()) + 100;
+		const startDate = new Date(startTime * 1000).toISOString().slice(0, 10);
+		const endDate = new Date((startTime + 365 * 24 * 60 * 60) * 1000).toISOString().slice(0, 10);
+		const address = await hre.run("deploy", {beneficiary: beneficiary.address, finalOwner: finalOwner.address, startDate, endDate, label, silent: true});
+		await (await ethers.getContractAt("PalmEcosystemVestingWallet", address, finalOwner)).acceptOwnership();
+		return address;
+	}
+
+	function readOutput(): AuditRecord[] {
+		return fs.readFileSync(output, "utf8").trim().split("\n").map(line => JSON.parse(line));
+	}
+
+	it("Should export the events of a wallet since deployment", async () => {
+		const [deployer, , finalOwner, otherAddress] = await ethers.getSigners();
+		const address = await deploy("grantee-a");
+		const contract = await ethers.getContractAt("PalmEcosystemVestingWallet", address, finalOwner);
+		await contract.pause();
+		await contract.setBeneficiary(otherAddress.address);
+		await contract.unpause();
+
+		const records: AuditRecord[] = await hre.run("audit-log", {address: "grantee-a", output, chunkSize: 1, silent: true});
+
+		expect(records.map(record => record.event)).to.deep.equal(["OwnershipTransferred", "OwnershipTransferStarted", "OwnershipTransferred", "Paused", "BeneficiaryUpdated", "Unpaused"]);
+		expect(records.map(record => record.actor)).to.deep.equal([deployer.address, deployer.address, finalOwner.address, finalOwner.address, finalOwner.address, finalOwner.address]);
+		expect(records[1].args).to.deep.equal({previousOwner: deployer.address, newOwner: finalOwner.address});
+		expect(records[2].args).to.deep.equal({previousOwner: deployer.address, newOwner: finalOwner.address});
+		expect(records[4].args).to.deep.equal({previousBeneficiary: (await ethers.getSigners())[1].address, newBeneficiary: otherAddress.address});
+		const block = await ethers.provider.getBlock(records[3].blockNumber);
+		expect(records[3].blockTime).to.equal(new Date(block.timestamp * 1000).toISOString());
+		expect(records[3].wallet).to.equal(address);
+		expect(readOutput()).to.deep.equal(records);
+	});
+
+	it("Should only export new events on repeated runs", async () => {
+		const [deployer, , finalOwner] = await ethers.getSigners();
+		const address = await deploy("grantee-a");
+		await hre.run("audit-log", {output, silent: true});
+
+		expect(await hre.run("audit-log", {output, silent: true})).to.deep.equal([]);
+
+		await deployer.sendTransaction({to: address, value: ONE_PALM});
+		await time.increase(365 * 24 * 60 * 60);
+		const contract = await ethers.getContractAt("PalmEcosystemVestingWallet", address, finalOwner);
+		await contract["release()"]();
+		const records: AuditRecord[] = await hre.run("audit-log", {output, silent: true});
+
+		expect(records.map(record => record.event)).to.deep.equal(["EtherReleased", "EtherDistributed"]);
+		expect(records[0].args).to.deep.equal({amount: ONE_PALM.toString()});
+		expect(records[1].args).to.deep.equal({beneficiary: await contract.beneficiary(), amount: ONE_PALM.toString()});
+		expect(readOutput().map(record => record.event)).to.deep.equal(["OwnershipTransferred", "OwnershipTransferStarted", "OwnershipTransferred", "EtherReleased", "EtherDistributed"]);
+	});
+
+	it("Should scan every registered wallet by default", async () => {
+		const first = await deploy("grantee-a");
+		const second = await deploy("grantee-b");
+
+		const records: AuditRecord[] = await hre.run("audit-log", {output, silent: true});
+
+		expect([...new Set(records.map(record => record.wallet))]).to.deep.equal([first, second]);
+	});
+
+	it("Should export CSV with a header row", async () => {
+		await deploy("grantee-a");
+		const csvOutput = path.join(tmpDir, "audit.csv");
+
+		await hre.run("audit-log", {output: csvOutput, format: "csv", silent: true});
+
+		const lines = fs.readFileSync(csvOutput, "utf8").trim().split("\n");
+		expect(lines).to.have.length(4);
+		expect(lines[0]).to.equal("wallet,blockNumber,blockTime,txHash,logIndex,actor,event,args");
+		expect(lines[1]).to.match(/,OwnershipTransferred,"{""previousOwner"":""0x0000000000000000000000000000000000000000"",""newOwner"":""0x[0-9a-fA-F]{40}""}"$/);
+	});
+
+	it("Should fail if no wallets are registered and no address is supplied", async () => {
+		await expect(hre.run("audit-log", {output, silent: true})).to.be.rejectedWith("No wallets registered for network hardhat, supply an --address");
+	});
+});
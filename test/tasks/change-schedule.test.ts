@@ -0,0 +1,215 @@
+import {loadFixture, takeSnapshot, SnapshotRestorer, time} from "@nomicfoundation/hardhat-network-helpers";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {BigNumber, Contract} from "ethers";
+import {ethers} from "hardhat";
+import hre from "hardhat";
+import {expect} from "chai";
+import {connectVestingWallet, rebaseCurve, vestedAmount} from "../../sdk";
+import {AssetPreview, runWhilePaused} from "../../tasks/change-schedule";
+
+const ONE_PALM = ethers.constants.WeiPerEther;
+
+describe("Change Schedule Task", function () {
+	const startDate = "2100-01-01";
+	const endDate = "2104-01-01";
+	const newEndDate = "2102-01-01";
+	const vestingStartTime = new Date(startDate).getTime() / 1000;
+	const vestingDuration = new Date(endDate).getTime() / 1000 - vestingStartTime;
+	const newVestingDuration = new Date(newEndDate).getTime() / 1000 - vestingStartTime;
+
+	type DeployParams = { contract: Contract, owner: SignerWithAddress, beneficiary: SignerWithAddress, otherAddress: SignerWithAddress };
+	async function deployVestingContractFixture(): Promise<DeployParams> {
+		const [owner, beneficiary, otherAddress] = await ethers.getSigners();
+
+		const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
+		const contract = await contractFactory.deploy(beneficiary.address, vestingStartTime, vestingDuration, vestingStartTime, 0);
+		await contract.deployed();
+
+		return {contract, owner, beneficiary, otherAddress};
+	}
+
+	// Don't leave the clock in the middle of vesting for the tests that follow
+	let initialSnapshot: SnapshotRestorer;
+	before(async () => {
+		initialSnapshot = await takeSnapshot();
+	});
+
+	after(async () => {
+		await initialSnapshot.restore();
+	});
+
+	let deployParams: DeployParams;
+	beforeEach(async () => {
+		deployParams = await loadFixture(deployVestingContractFixture);
+	});
+
+	it("Should pause, update the beneficiary and duration, then unpause", async () => {
+		const {contract, beneficiary, otherAddress} = deployParams;
+
+		const results = await hre.run("change-schedule", {address: contract.address, endDate: newEndDate, beneficiary: otherAddress.address, silent: true});
+
+		expect(results.map((result: any) => result.events[0].name)).to.deep.equal(["Paused", "BeneficiaryUpdated", "DurationUpdated", "Unpaused"]);
+		expect(results[1].events[0].args).to.deep.equal({previousBeneficiary: beneficiary.address, newBeneficiary: otherAddress.address});
+		expect(results[2].events[0].args).to.deep.equal({previousDuration: vestingDuration.toString(), newDuration: newVestingDuration.toString()});
+		expect(await contract.paused()).to.equal(false);
+		expect(await contract.beneficiary()).to.equal(otherAddress.address);
+		expect(await contract.start()).to.equal(vestingStartTime);
+		expect(await contract.duration()).to.equal(newVestingDuration);
+	});
+
+	it("Should only update the values that were supplied", async () => {
+		const {contract, beneficiary} = deployParams;
+
+		const results = await hre.run("change-schedule", {address: contract.address, endDate: newEndDate, silent: true});
+
+		expect(results.map((result: any) => result.events[0].name)).to.deep.equal(["Paused", "DurationUpdated", "Unpaused"]);
+		expect(await contract.beneficiary()).to.equal(beneficiary.address);
+		expect(await contract.duration()).to.equal(newVestingDuration);
+	});
+
+	it("Should leave a contract that was already paused paused", async () => {
+		const {contract, otherAddress} = deployParams;
+		await contract.pause();
+
+		const results = await hre.run("change-schedule", {address: contract.address, beneficiary: otherAddress.address, silent: true});
+
+		expect(results.map((result: any) => result.events[0].name)).to.deep.equal(["BeneficiaryUpdated"]);
+		expect(await contract.paused()).to.equal(true);
+		expect(await contract.beneficiary()).to.equal(otherAddress.address);
+	});
+
+	it("Should not change anything on a dry run", async () => {
+		const {contract, beneficiary, otherAddress} = deployParams;
+
+		const result = await hre.run("change-schedule", {address: contract.address, endDate: newEndDate, beneficiary: otherAddress.address, dryRun: true, silent: true});
+
+		expect(result).to.equal(undefined);
+		expect(await contract.paused()).to.equal(false);
+		expect(await contract.beneficiary()).to.equal(beneficiary.address);
+		expect(await contract.duration()).to.equal(vestingDuration);
+	});
+
+	it("Should fail without pausing if nothing would change", async () => {
+		const {contract, beneficiary} = deployParams;
+
+		await expect(hre.run("change-schedule", {address: contract.address, silent: true})).to.be.rejectedWith("Nothing to change: supply an endDate and/or a beneficiary");
+		await expect(hre.run("change-schedule", {address: contract.address, endDate, silent: true})).to.be.rejectedWith("New duration must differ from current duration");
+		await expect(hre.run("change-schedule", {address: contract.address, beneficiary: beneficiary.address, silent: true})).to.be.rejectedWith("New beneficiary must differ from current beneficiary");
+		expect(await contract.paused()).to.equal(false);
+	});
+
+	it("Should replace several beneficiaries with the first of them", async () => {
+		const {contract, beneficiary, otherAddress} = deployParams;
+		await contract.pause();
+		await contract.setShares([beneficiary.address, otherAddress.address], [1, 1]);
+		await contract.unpause();
+
+		const results = await hre.run("change-schedule", {address: contract.address, beneficiary: beneficiary.address, silent: true});
+
+		expect(results[1].events[0].name).to.equal("BeneficiaryUpdated");
+		const [accounts] = await contract.beneficiaries();
+		expect(accounts).to.deep.equal([beneficiary.address]);
+		expect(await contract.paused()).to.equal(false);
+	});
+
+	it("Should report which steps took effect when one fails part way through, and unpause", async () => {
+		const {contract, owner, beneficiary, otherAddress} = deployParams;
+		const steps = [
+			{method: "setBeneficiary", args: [otherAddress.address]},
+			{method: "setDuration", args: [vestingDuration]},
+			{method: "setDuration", args: [newVestingDuration]}
+		];
+		const errors: string[] = [];
+		const consoleError = console.error;
+		console.error = (message: string) => errors.push(message);
+		try {
+			await expect(runWhilePaused(hre, connectVestingWallet(contract.address, owner), steps, false, {}, true))
+				.to.be.rejectedWith("New duration must differ from current duration");
+			// Pausing a contract we don't own fails before any of the steps are sent
+			await expect(runWhilePaused(hre, connectVestingWallet(contract.address, beneficiary), steps, false, {}, true))
+				.to.be.rejectedWith("Caller is not the owner or pauser");
+		} finally {
+			console.error = consoleError;
+		}
+
+		expect(errors).to.have.length(2);
+		expect(errors[0]).to.include(`WARNING: updating vesting contract ${contract.address} failed part way through: Transaction would revert: New duration must differ from current duration`);
+		expect(errors[0]).to.include([
+			`\tDone: setBeneficiary(${otherAddress.address})`,
+			`\tFailed: setDuration(${vestingDuration})`,
+			`\tNot sent: setDuration(${newVestingDuration})`,
+			"Unpausing it."
+		].join("\n"));
+		expect(errors[1]).to.include(`WARNING: pausing vesting contract ${contract.address} failed, so none of its changes were sent`);
+		expect(await contract.paused()).to.equal(false);
+		expect(await contract.beneficiary()).to.equal(otherAddress.address);
+		expect(await contract.duration()).to.equal(vestingDuration);
+	});
+
+	it("Should fail if the end date is before the vesting start", async () => {
+		const {contract} = deployParams;
+
+		await expect(hre.run("change-schedule", {address: contract.address, endDate: "2099-12-31", silent: true})).to.be.rejectedWith("The supplied endDate must not be before the vesting start");
+	});
+
+	it("Should fail if the signer is not the owner", async () => {
+		const {contract, otherAddress} = deployParams;
+		await contract.transferOwnership(otherAddress.address);
+		await contract.connect(otherAddress).acceptOwnership();
+
+		await expect(hre.run("change-schedule", {address: contract.address, endDate: newEndDate, silent: true})).to.be.rejectedWith("Ownable: caller is not the owner");
+	});
+
+	describe("Rebasing", function () {
+		const midpoint = vestingStartTime + vestingDuration / 2;
+		const fundAmount = ONE_PALM.mul(10).add(7);
+
+		beforeEach(async () => {
+			const {contract, owner} = deployParams;
+			await owner.sendTransaction({to: contract.address, value: fundAmount});
+			await time.increaseTo(midpoint);
+		});
+
+		it("Should preview a lump becoming releasable in place, but not when rebased", async () => {
+			const {contract} = deployParams;
+
+			const inPlace: AssetPreview[] = await hre.run("preview-schedule-change", {address: contract.address, endDate: "2103-01-01", silent: true});
+			const rebased: AssetPreview[] = await hre.run("preview-schedule-change", {address: contract.address, endDate: "2103-01-01", rebase: true, silent: true});
+
+			const [now] = inPlace[0].changes;
+			expect(now.timestamp).to.equal(midpoint);
+			expect(now.releasableBefore).to.equal(fundAmount.div(2));
+			expect(now.releasableAfter).to.equal(fundAmount.mul(2).div(3));
+			expect(rebased[0].changes[0].releasableAfter).to.equal(now.releasableBefore);
+			expect(rebased[0].changes.map(change => change.timestamp)).to.deep.equal([midpoint, new Date("2103-01-01").getTime() / 1000, vestingStartTime + vestingDuration]);
+			expect(rebased[0].changes[1].releasableAfter).to.equal(fundAmount);
+		});
+
+		it("Should rebase the end date, with the same vested amounts as the TypeScript schedule", async () => {
+			const {contract} = deployParams;
+			const newEnd = new Date("2103-01-01").getTime() / 1000;
+
+			const results = await hre.run("change-schedule", {address: contract.address, endDate: "2103-01-01", rebase: true, silent: true});
+
+			expect(results.map((result: any) => result.events[0].name)).to.deep.equal(["Paused", "DurationRebased", "Unpaused"]);
+			const rebaseTimestamp = (await contract.rebaseTimestamp()).toNumber();
+			const curve = rebaseCurve(vestingStartTime, vestingDuration, rebaseTimestamp);
+			expect(await contract.rebaseFraction()).to.equal(curve.rebaseFraction);
+			expect(vestedAmount(fundAmount, vestingStartTime, newEnd - vestingStartTime, rebaseTimestamp, curve))
+				.to.equal(vestedAmount(fundAmount, vestingStartTime, vestingDuration, rebaseTimestamp));
+			for (const timestamp of [midpoint, rebaseTimestamp, rebaseTimestamp + 12345, newEnd - 1, newEnd]) {
+				expect(vestedAmount(fundAmount, vestingStartTime, newEnd - vestingStartTime, timestamp, curve))
+					.to.equal(await contract["vestedAmount(uint64)"](timestamp));
+			}
+		});
+
+		it("Should fail to rebase without an end date, or with one that has passed", async () => {
+			const {contract, otherAddress} = deployParams;
+
+			await expect(hre.run("change-schedule", {address: contract.address, beneficiary: otherAddress.address, rebase: true, silent: true}))
+				.to.be.rejectedWith("Only a change of the endDate can be rebased");
+			await expect(hre.run("preview-schedule-change", {address: contract.address, endDate: "2101-01-01", rebase: true, silent: true}))
+				.to.be.rejectedWith("The supplied endDate must be after now");
+		});
+	});
+});
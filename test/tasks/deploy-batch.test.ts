@@ -0,0 +1,198 @@
+import {takeSnapshot, SnapshotRestorer} from "@nomicfoundation/hardhat-network-helpers";
+import {ethers} from "hardhat";
+import hre from "hardhat";
+import {expect} from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+describe("Deploy Batch Task", function () {
+	const startDate = "2100-01-01";
+	const endDate = "2104-01-01";
+	const vestingStartTime = new Date(startDate).getTime() / 1000;
+	const vestingDuration = new Date(endDate).getTime() / 1000 - vestingStartTime;
+
+	let tmpDir: string;
+	let initialSnapshot: SnapshotRestorer;
+	before(async () => {
+		initialSnapshot = await takeSnapshot();
+	});
+
+	beforeEach(async () => {
+		await initialSnapshot.restore();
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "deploy-batch-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+	function writeManifest(name: string, contents: string): string {
+		const manifestPath = path.join(tmpDir, name);
+		fs.writeFileSync(manifestPath, contents);
+		return manifestPath;
+	}
+
+	it("Should fail without deploying anything if any row is invalid", async () => {
+		const [deployer, beneficiary, finalOwner] = await ethers.getSigners();
+		const manifest = writeManifest("manifest.csv", [
+			"beneficiary,startDate,endDate,finalOwner,label",
+			`${beneficiary.address},${startDate},${endDate},${finalOwner.address},first`,
+			`0x01,${startDate},${endDate},,second`,
+			`${beneficiary.address},${endDate},${startDate},,third`,
+		].join("\n"));
+		const initialNonce = await deployer.getTransactionCount();
+
+		const result = hre.run("deploy-batch", {manifest, dryRun: false, silent: true});
+
+		await expect(result).to.be.rejectedWith(/row 2: Invalid beneficiary address supplied.*\n.*row 3: The supplied startDate must be before the endDate/);
+		expect(await deployer.getTransactionCount()).to.equal(initialNonce);
+		expect(fs.existsSync(path.join(tmpDir, "manifest.deployments.json"))).to.equal(false);
+	});
+
+	it("Should fail if the manifest has an unknown column", async () => {
+		const manifest = writeManifest("manifest.csv", "beneficiary,start,endDate\n");
+
+		await expect(hre.run("deploy-batch", {manifest, dryRun: false, silent: true})).to.be.rejectedWith("Invalid manifest: unknown column(s) start");
+	});
+
+	it("Should fail if a label is used by more than one row", async () => {
+		const [, beneficiary] = await ethers.getSigners();
+		const manifest = writeManifest("manifest.json", JSON.stringify([
+			{beneficiary: beneficiary.address, startDate, endDate, label: "grantee"},
+			{beneficiary: beneficiary.address, startDate, endDate, label: "grantee"},
+		]));
+
+		await expect(hre.run("deploy-batch", {manifest, dryRun: false, silent: true})).to.be.rejectedWith('duplicate label "grantee"');
+	});
+
+	it("Should not deploy anything on a dry run", async () => {
+		const [deployer, beneficiary] = await ethers.getSigners();
+		const manifest = writeManifest("manifest.json", JSON.stringify([{beneficiary: beneficiary.address, startDate, endDate}]));
+		const initialNonce = await deployer.getTransactionCount();
+
+		const result = await hre.run("deploy-batch", {manifest, dryRun: true, silent: true});
+
+		expect(result).to.equal(undefined);
+		expect(await deployer.getTransactionCount()).to.equal(initialNonce);
+	});
+
+	it("Should deploy every row of a CSV manifest and write an output manifest", async () => {
+		const [deployer, beneficiary, finalOwner, otherBeneficiary] = await ethers.getSigners();
+		const manifest = writeManifest("manifest.csv", [
+			"beneficiary,startDate,endDate,finalOwner,label",
+			`${beneficiary.address},${startDate},${endDate},${finalOwner.address},first`,
+			`${otherBeneficiary.address},${startDate},${endDate},,second`,
+		].join("\n"));
+
+		const deployments = await hre.run("deploy-batch", {manifest, dryRun: false, silent: true});
+
+		const output = JSON.parse(fs.readFileSync(path.join(tmpDir, "manifest.deployments.json"), "utf8"));
+		expect(output.network).to.equal("hardhat");
+		expect(output.deployments).to.deep.equal(deployments);
+		expect(deployments.map((d: any) => d.label)).to.deep.equal(["first", "second"]);
+
+		const [first, second] = deployments;
+		const firstContract = await ethers.getContractAt("PalmEcosystemVestingWallet", first.address);
+		expect(await firstContract.beneficiary()).to.equal(beneficiary.address);
+		expect(await firstContract.start()).to.equal(vestingStartTime);
+		expect(await firstContract.duration()).to.equal(vestingDuration);
+		expect(await firstContract.owner()).to.equal(deployer.address);
+		expect(await firstContract.pendingOwner()).to.equal(finalOwner.address);
+		expect((await ethers.provider.getTransactionReceipt(first.txHash)).contractAddress).to.equal(first.address);
+
+		const secondContract = await ethers.getContractAt("PalmEcosystemVestingWallet", second.address);
+		expect(await secondContract.beneficiary()).to.equal(otherBeneficiary.address);
+		expect(await secondContract.owner()).to.equal(deployer.address);
+	});
+
+	it("Should resume a partially completed batch", async () => {
+		const [deployer, beneficiary, finalOwner, otherBeneficiary] = await ethers.getSigners();
+		const rows = [
+			{beneficiary: beneficiary.address, startDate, endDate, finalOwner: finalOwner.address, label: "first"},
+			{beneficiary: otherBeneficiary.address, startDate, endDate, label: "second"},
+		];
+		const output = path.join(tmpDir, "output.json");
+
+		// Deploy the first row only, then resume with the full manifest
+		const firstManifest = writeManifest("first.json", JSON.stringify(rows.slice(0, 1)));
+		const [first] = await hre.run("deploy-batch", {manifest: firstManifest, output, dryRun: false, silent: true});
+		const nonceAfterFirstRun = await deployer.getTransactionCount();
+
+		const manifest = writeManifest("manifest.json", JSON.stringify(rows));
+		const deployments = await hre.run("deploy-batch", {manifest, output, dryRun: false, silent: true});
+
+		expect(deployments).to.have.length(2);
+		expect(deployments[0]).to.deep.equal(first);
+		expect(await deployer.getTransactionCount()).to.equal(nonceAfterFirstRun + 1);
+	});
+
+	it("Should pick up a deployment that was still being mined when the batch was interrupted", async () => {
+		const [deployer, beneficiary, , otherBeneficiary] = await ethers.getSigners();
+		const manifest = writeManifest("manifest.json", JSON.stringify([
+			{beneficiary: beneficiary.address, startDate, endDate},
+			{beneficiary: otherBeneficiary.address, startDate, endDate},
+		]));
+		const output = path.join(tmpDir, "output.json");
+
+		// Give up waiting for the first deployment, which is left to be mined
+		await ethers.provider.send("evm_setAutomine", [false]);
+		try {
+			await expect(hre.run("deploy-batch", {manifest, output, timeout: 1, dryRun: false, silent: true}))
+				.to.be.rejectedWith("was not mined within 1 seconds");
+		} finally {
+			await ethers.provider.send("evm_setAutomine", [true]);
+		}
+		const {deployments, pending: [pending]} = JSON.parse(fs.readFileSync(output, "utf8"));
+		expect(deployments).to.deep.equal([]);
+		expect(pending).to.include({row: 1, nonce: await deployer.getTransactionCount()});
+
+		await expect(hre.run("deploy-batch", {manifest, output, dryRun: false, silent: true}))
+			.to.be.rejectedWith(`Row 1 was sent to be deployed to ${pending.address} in ${pending.txHashes[0]}, which has not been mined yet`);
+
+		await ethers.provider.send("evm_mine", []);
+		const nonceAfterMining = await deployer.getTransactionCount();
+		const [first, second] = await hre.run("deploy-batch", {manifest, output, dryRun: false, silent: true});
+
+		expect(first).to.include({address: pending.address, txHash: pending.txHashes[0]});
+		expect(await (await ethers.getContractAt("PalmEcosystemVestingWallet", second.address)).beneficiary()).to.equal(otherBeneficiary.address);
+		expect(await deployer.getTransactionCount()).to.equal(nonceAfterMining + 1);
+		expect(JSON.parse(fs.readFileSync(output, "utf8")).pending).to.equal(undefined);
+	});
+
+	it("Should deploy a row again if its interrupted deployment was dropped", async () => {
+		const [deployer, beneficiary] = await ethers.getSigners();
+		const manifest = writeManifest("manifest.json", JSON.stringify([{beneficiary: beneficiary.address, startDate, endDate}]));
+		const output = path.join(tmpDir, "output.json");
+
+		await ethers.provider.send("evm_setAutomine", [false]);
+		try {
+			await expect(hre.run("deploy-batch", {manifest, output, timeout: 1, dryRun: false, silent: true}))
+				.to.be.rejectedWith("was not mined within 1 seconds");
+		} finally {
+			await ethers.provider.send("evm_setAutomine", [true]);
+		}
+		const {pending: [pending]} = JSON.parse(fs.readFileSync(output, "utf8"));
+		await ethers.provider.send("hardhat_dropTransaction", [pending.txHashes[0]]);
+
+		expect(await ethers.provider.getTransaction(pending.txHashes[0])).to.equal(null);
+		const [deployed] = await hre.run("deploy-batch", {manifest, output, dryRun: false, silent: true});
+
+		// Sent again at the same nonce, it lands at the same address
+		expect(deployed.address).to.equal(pending.address);
+		expect(await (await ethers.getContractAt("PalmEcosystemVestingWallet", deployed.address)).beneficiary()).to.equal(beneficiary.address);
+		expect(await deployer.getTransactionCount()).to.equal(pending.nonce + 1);
+	});
+
+	it("Should fail to resume if the output manifest does not match the input manifest", async () => {
+		const [, beneficiary, otherBeneficiary] = await ethers.getSigners();
+		const output = path.join(tmpDir, "output.json");
+		const firstManifest = writeManifest("first.json", JSON.stringify([{beneficiary: beneficiary.address, startDate, endDate}]));
+		await hre.run("deploy-batch", {manifest: firstManifest, output, dryRun: false, silent: true});
+
+		const manifest = writeManifest("manifest.json", JSON.stringify([{beneficiary: otherBeneficiary.address, startDate, endDate}]));
+		const result = hre.run("deploy-batch", {manifest, output, dryRun: false, silent: true});
+
+		await expect(result).to.be.rejectedWith(`Output manifest ${output} does not match row 1 of the input manifest`);
+	});
+});
@@ -4,6 +4,10 @@ import {time, takeSnapshot, SnapshotRestorer} from "@nomicfoundation/hardhat-net
 import {ethers} from "hardhat";
 import hre from "hardhat";
 import {expect} from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {readRegistry, registryPath} from "../../tasks/registry";
 
 const ONE_GWEI = BigNumber.from(1_000_000_000);
 const ONE_PALM = ONE_GWEI.mul(ONE_GWEI);
@@ -64,30 +68,77 @@ describe("Deploy Task", function () {
 		expect(result).to.be.rejectedWith("Invalid final owner address supplied: expecting a 20 byte hex string");
 	});
 
+	it("Should fail before deploying if the transaction options are invalid", async () => {
+		const beneficiary = (await ethers.getSigners())[1];
+		const result = hre.run("deploy", {
+			beneficiary: beneficiary.address,
+			startDate,
+			endDate,
+			feeBump: 5,
+			dryRun: false,
+			silent: true
+		});
+		await expect(result).to.be.rejectedWith("Invalid feeBump: must be at least 10 percent, or nodes reject the replacement");
+	});
+
 	it("Should fail if startDate is not formatted correctly", async () => {
 		const beneficiary = (await ethers.getSigners())[1];
-		const currentTime = await time.latest();
 		const result = hre.run("deploy", {
 			beneficiary: beneficiary.address,
-			startDate: (currentTime + 1),
+			startDate: "01/01/2100",
 			endDate,
 			dryRun: false,
 			silent: true
 		});
-		expect(result).to.be.rejectedWith("Invalid startDate: must be formatted YYYY-MM-DD");
+		await expect(result).to.be.rejectedWith("Invalid startDate: must be formatted YYYY-MM-DD");
 	});
 
 	it("Should fail if endDate is not formatted correctly", async () => {
 		const beneficiary = (await ethers.getSigners())[1];
-		const currentTime = await time.latest();
 		const result = hre.run("deploy", {
 			beneficiary: beneficiary.address,
 			startDate,
-			endDate: (currentTime + 1),
+			endDate: "2104-01-01T00:00:00",
 			dryRun: false,
 			silent: true
 		});
-		expect(result).to.be.rejectedWith("Invalid endDate: must be formatted YYYY-MM-DD");
+		await expect(result).to.be.rejectedWith("Invalid endDate: 2104-01-01T00:00:00 must include a UTC offset");
+	});
+
+	it("Should fail if a date does not exist on the calendar", async () => {
+		const beneficiary = (await ethers.getSigners())[1];
+		const result = hre.run("deploy", {
+			beneficiary: beneficiary.address,
+			startDate,
+			endDate: "2103-02-29",
+			dryRun: true,
+			silent: true
+		});
+		await expect(result).to.be.rejectedWith("Invalid endDate: 2103-02-29 is not a calendar date");
+	});
+
+	it("Should fail unless exactly one of endDate and duration is supplied", async () => {
+		const beneficiary = (await ethers.getSigners())[1];
+		await expect(hre.run("deploy", {beneficiary: beneficiary.address, startDate, dryRun: true, silent: true}))
+			.to.be.rejectedWith("Supply either an endDate or a duration");
+		await expect(hre.run("deploy", {beneficiary: beneficiary.address, startDate, endDate, duration: "4y", dryRun: true, silent: true}))
+			.to.be.rejectedWith("Supply either an endDate or a duration, but not both");
+	});
+
+	it("Should deploy with a precise start time and a duration expression", async () => {
+		const beneficiary = (await ethers.getSigners())[1];
+		const contractAddress = await hre.run("deploy", {
+			beneficiary: beneficiary.address,
+			startDate: "2100-01-31T09:30:00-05:00",
+			duration: "1mo",
+			dryRun: false,
+			silent: true
+		});
+		const contract = await ethers.getContractAt("PalmEcosystemVestingWallet", contractAddress);
+
+		expect(await contract.start()).to.equal(Date.UTC(2100, 0, 31, 14, 30) / 1000);
+		expect(await contract.duration()).to.equal(28 * 24 * 60 * 60);
+		await initialSnapshot.restore();
 	});
 
 	it("Should fail if startDate is after endDate", async () => {
@@ -102,11 +153,219 @@ describe("Deploy Task", function () {
 		expect(result).to.be.rejectedWith("The supplied startDate must be before the endDate");
 	});
 
+	it("Should deploy with a cliff and an unlock interval", async () => {
+		const beneficiary = (await ethers.getSigners())[1];
+		const contractAddress = await hre.run("deploy", {
+			beneficiary: beneficiary.address,
+			startDate,
+			endDate,
+			cliffDate: "2101-01-01",
+			unlockInterval: "30d",
+			dryRun: false,
+			silent: true
+		});
+		const contract = await ethers.getContractAt("PalmEcosystemVestingWallet", contractAddress);
+
+		expect(await contract.cliff()).to.equal(Date.UTC(2101, 0, 1) / 1000);
+		expect(await contract.unlockInterval()).to.equal(30 * 24 * 60 * 60);
+		await initialSnapshot.restore();
+		fs.rmSync(registryPath(hre), {force: true});
+	});
+
+	it("Should fail if the cliff is not between the startDate and the endDate, or the unlock interval varies", async () => {
+		const beneficiary = (await ethers.getSigners())[1];
+		await expect(hre.run("deploy", {beneficiary: beneficiary.address, startDate, endDate, cliffDate: "2099-12-31", dryRun: true, silent: true}))
+			.to.be.rejectedWith("The supplied cliffDate must be between the startDate and the endDate");
+		await expect(hre.run("deploy", {beneficiary: beneficiary.address, startDate, endDate, cliffDate: "2104-01-02", dryRun: true, silent: true}))
+			.to.be.rejectedWith("The supplied cliffDate must be between the startDate and the endDate");
+		await expect(hre.run("deploy", {beneficiary: beneficiary.address, startDate, endDate, unlockInterval: "1mo", dryRun: true, silent: true}))
+			.to.be.rejectedWith("Invalid unlockInterval");
+	});
+
+	it("Should deploy with a pauser and a minimum delay for changes to the schedule", async () => {
+		const beneficiary = (await ethers.getSigners())[1];
+		const pauser = (await ethers.getSigners())[2];
+		const contractAddress = await hre.run("deploy", {beneficiary: beneficiary.address, startDate, endDate, pauser: pauser.address, minDelay: "2w", dryRun: false, silent: true});
+		const contract = await ethers.getContractAt("PalmEcosystemVestingWallet", contractAddress);
+
+		expect(await contract.pauser()).to.equal(pauser.address);
+		expect(await contract.minDelay()).to.equal(14 * 24 * 60 * 60);
+		await initialSnapshot.restore();
+		fs.rmSync(registryPath(hre), {force: true});
+		await expect(hre.run("deploy", {beneficiary: beneficiary.address, startDate, endDate, minDelay: "1mo", dryRun: true, silent: true}))
+			.to.be.rejectedWith("Invalid minDelay");
+	});
+
+	it("Should warn how to finish setting up a contract that was deployed but not funded", async () => {
+		const [, beneficiary, pauser, finalOwner] = await ethers.getSigners();
+		const errors: string[] = [];
+		const consoleError = console.error;
+		console.error = (message: string) => errors.push(message);
+		try {
+			await expect(hre.run("deploy", {beneficiary: beneficiary.address, finalOwner: finalOwner.address, startDate, endDate, fundAmount: "1000000000", pauser: pauser.address, minDelay: "2w", dryRun: false, silent: true}))
+				.to.be.rejected;
+		} finally {
+			console.error = consoleError;
+		}
+
+		const [{address}] = (await readRegistry(hre)).deployments;
+		expect(errors).to.have.lengthOf(1);
+		expect(errors[0]).to.include(`vesting contract ${address} was deployed, but IT WAS NOT FUNDED`);
+		expect(errors[0]).to.include(`Run: npx hardhat fund --address ${address} --amount "1000000000"`);
+		expect(errors[0]).to.include(`Then run: npx hardhat grant-pauser --address ${address} --pauser ${pauser.address}`);
+		expect(errors[0]).to.include(`Then run: npx hardhat set-min-delay --address ${address} --min-delay 2w`);
+		expect(errors[0]).to.include(`Then run: npx hardhat transfer-ownership --address ${address} --new-owner ${finalOwner.address}`);
+		await initialSnapshot.restore();
+		fs.rmSync(registryPath(hre), {force: true});
+	});
+
+	it("Should deploy for several beneficiaries from a shares file", async () => {
+		const [, beneficiary, otherAddress] = await ethers.getSigners();
+		const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "deploy-"));
+		const shares = path.join(tmpDir, "shares.csv");
+		fs.writeFileSync(shares, `beneficiary,shares\n${beneficiary.address},3\n${otherAddress.address},1\n`);
+
+		const contractAddress = await hre.run("deploy", {shares, startDate, endDate, dryRun: false, silent: true});
+		const contract = await ethers.getContractAt("PalmEcosystemVestingWallet", contractAddress);
+
+		const [accounts, weights] = await contract.beneficiaries();
+		expect(accounts).to.deep.equal([beneficiary.address, otherAddress.address]);
+		expect(weights.map((weight: BigNumber) => weight.toNumber())).to.deep.equal([3, 1]);
+		expect(await contract.paused()).to.equal(false);
+		await initialSnapshot.restore();
+		fs.rmSync(registryPath(hre), {force: true});
+		await expect(hre.run("deploy", {beneficiary: beneficiary.address, shares, startDate, endDate, dryRun: true, silent: true}))
+			.to.be.rejectedWith("Supply either a beneficiary or a shares file");
+		fs.writeFileSync(shares, `beneficiary,shares\n${beneficiary.address},0\n`);
+		await expect(hre.run("deploy", {shares, startDate, endDate, dryRun: true, silent: true}))
+			.to.be.rejectedWith("must be a whole number greater than zero");
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+	describe("Ownership handover", function () {
+		const passphrase = "correct horse battery staple";
+		let tmpDir: string;
+		let keystore: string;
+		let finalOwner: string;
+		before(async () => {
+			// The final owner signs with a keystore, since the tasks otherwise sign as the deployer
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "deploy-"));
+			const wallet = ethers.Wallet.createRandom();
+			keystore = path.join(tmpDir, "final-owner.json");
+			fs.writeFileSync(keystore, await wallet.encrypt(passphrase, {scrypt: {N: 1024}}));
+			finalOwner = wallet.address;
+		});
+
+		beforeEach(async () => {
+			await initialSnapshot.restore();
+			const [deployer] = await ethers.getSigners();
+			await deployer.sendTransaction({to: finalOwner, value: ONE_PALM});
+		});
+
+		after(async () => {
+			await initialSnapshot.restore();
+			fs.rmSync(tmpDir, {recursive: true, force: true});
+		});
+
+		function passphraseFd(): number {
+			const file = path.join(tmpDir, "passphrase.txt");
+			fs.writeFileSync(file, passphrase + "\n");
+			return fs.openSync(file, "r");
+		}
+
+		async function deployWithFinalOwner(): Promise<Contract> {
+			const beneficiary = (await ethers.getSigners())[1];
+			const address = await hre.run("deploy", {beneficiary: beneficiary.address, finalOwner, startDate, endDate, silent: true});
+			return ethers.getContractAt("PalmEcosystemVestingWallet", address);
+		}
+
+		it("Should hand over ownership once the final owner accepts it", async () => {
+			const [deployer] = await ethers.getSigners();
+			const contract = await deployWithFinalOwner();
+			expect(await contract.owner()).to.equal(deployer.address);
+			expect(await contract.pendingOwner()).to.equal(finalOwner);
+
+			const result = await hre.run("accept-ownership", {address: contract.address, keystore, passphraseFd: passphraseFd(), silent: true});
+
+			expect(result.events).to.deep.equal([{name: "OwnershipTransferred", args: {previousOwner: deployer.address, newOwner: finalOwner}}]);
+			expect(await contract.owner()).to.equal(finalOwner);
+			expect(await contract.pendingOwner()).to.equal(ethers.constants.AddressZero);
+			await expect(hre.run("pause", {address: contract.address, silent: true})).to.be.rejectedWith("Caller is not the owner or pauser");
+			await hre.run("pause", {address: contract.address, keystore, passphraseFd: passphraseFd(), silent: true});
+			expect(await contract.paused()).to.equal(true);
+		});
+
+		it("Should only let the final owner accept ownership", async () => {
+			const contract = await deployWithFinalOwner();
+
+			await expect(hre.run("accept-ownership", {address: contract.address, silent: true}))
+				.to.be.rejectedWith("Ownable2Step: caller is not the new owner");
+		});
+
+		it("Should let the deployer cancel the handover and start it again", async () => {
+			const contract = await deployWithFinalOwner();
+
+			await hre.run("cancel-ownership-transfer", {address: contract.address, silent: true});
+
+			expect(await contract.pendingOwner()).to.equal(ethers.constants.AddressZero);
+			await expect(hre.run("accept-ownership", {address: contract.address, keystore, passphraseFd: passphraseFd(), silent: true}))
+				.to.be.rejectedWith(`Vesting contract ${contract.address} has no pending ownership transfer`);
+
+			await hre.run("transfer-ownership", {address: contract.address, newOwner: finalOwner, silent: true});
+			await hre.run("accept-ownership", {address: contract.address, keystore, passphraseFd: passphraseFd(), silent: true});
+			expect(await contract.owner()).to.equal(finalOwner);
+		});
+	});
+
+	describe("Via the factory", function () {
+		beforeEach(async () => {
+			await initialSnapshot.restore();
+			fs.rmSync(registryPath(hre), {force: true});
+			await hre.run("deploy-factory", {silent: true});
+		});
+
+		after(async () => {
+			await initialSnapshot.restore();
+			fs.rmSync(registryPath(hre), {force: true});
+		});
+
+		it("Should create the contract at the predicted address", async () => {
+			const [deployer, beneficiary, finalOwner] = await ethers.getSigners();
+			const predicted = await hre.run("predict-address", {beneficiary: beneficiary.address, startDate, endDate, salt: "grant-42", silent: true});
+
+			const address = await hre.run("deploy", {beneficiary: beneficiary.address, finalOwner: finalOwner.address, startDate, endDate, viaFactory: true, salt: "grant-42", fundAmount: "1", silent: true});
+
+			expect(address).to.equal(predicted);
+			const contract = await ethers.getContractAt("PalmEcosystemVestingWallet", address);
+			expect(await contract.beneficiary()).to.equal(beneficiary.address);
+			expect(await contract.owner()).to.equal(deployer.address);
+			expect(await contract.pendingOwner()).to.equal(finalOwner.address);
+			expect(await ethers.provider.getBalance(address)).to.equal(ONE_PALM);
+			const [entry] = (await readRegistry(hre)).deployments;
+			expect(entry).to.include({address, deployer: deployer.address, factory: (await readRegistry(hre)).factory, salt: ethers.utils.id("grant-42")});
+		});
+
+		it("Should refuse to create the same contract with the same salt twice", async () => {
+			const beneficiary = (await ethers.getSigners())[1];
+			const address = await hre.run("deploy", {beneficiary: beneficiary.address, startDate, endDate, viaFactory: true, silent: true});
+
+			await expect(hre.run("deploy", {beneficiary: beneficiary.address, startDate, endDate, viaFactory: true, silent: true}))
+				.to.be.rejectedWith(`A contract already exists at ${address}, use a different salt`);
+		});
+
+		it("Should only accept a factory or salt with --via-factory", async () => {
+			const beneficiary = (await ethers.getSigners())[1];
+
+			await expect(hre.run("deploy", {beneficiary: beneficiary.address, startDate, endDate, salt: "grant-42", silent: true}))
+				.to.be.rejectedWith("--factory and --salt only apply with --via-factory");
+		});
+	});
+
 	runPostDeployTests(false);
 	runPostDeployTests(true);
 	function runPostDeployTests(withFinalOwner: boolean) {
 		let deployParams: DeployParams;
-		let owner:SignerWithAddress;
+		let pendingOwner: string;
 		describe(`Deploy contracts with ${withFinalOwner ? "no final owner" : "a final owner"}`, () => {
 			let deploySnapshot:SnapshotRestorer;
 			beforeEach( async function () {
@@ -115,7 +374,7 @@ describe("Deploy Task", function () {
 					deployParams = await deployVestingContract(withFinalOwner);
 					deploySnapshot = await takeSnapshot();
 				}
-				owner = withFinalOwner ? deployParams.finalOwner : deployParams.deployer;
+				pendingOwner = withFinalOwner ? deployParams.finalOwner.address : ethers.constants.AddressZero;
 			});
 
 			describe("After deployment", function () {
@@ -134,10 +393,11 @@ describe("Deploy Task", function () {
 					await time.increaseTo(vestingEndTime - 1);
 				}
 
-				it("Should have the expected owner", async () => {
-					const {contract} = deployParams;
+				it("Should stay owned by the deployer until the final owner accepts ownership", async () => {
+					const {contract, deployer} = deployParams;
 
-					expect(await contract.owner()).to.equal(owner.address);
+					expect(await contract.owner()).to.equal(deployer.address);
+					expect(await contract.pendingOwner()).to.equal(pendingOwner);
 				});
 
 				describe("After funding", async () => {
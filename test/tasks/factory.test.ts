@@ -0,0 +1,63 @@
+import {takeSnapshot, SnapshotRestorer} from "@nomicfoundation/hardhat-network-helpers";
+import {ethers} from "hardhat";
+import hre from "hardhat";
+import {expect} from "chai";
+import fs from "fs";
+import {readRegistry, registryPath} from "../../tasks/registry";
+
+describe("Factory Tasks", function () {
+	const startDate = "2100-01-01";
+	const endDate = "2104-01-01";
+
+	let initialSnapshot: SnapshotRestorer;
+	before(async () => {
+		initialSnapshot = await takeSnapshot();
+	});
+
+	beforeEach(async () => {
+		await initialSnapshot.restore();
+		fs.rmSync(registryPath(hre), {force: true});
+	});
+
+	after(() => {
+		fs.rmSync(registryPath(hre), {force: true});
+	});
+
+	it("Should deploy the factory and record it for the network", async () => {
+		const address = await hre.run("deploy-factory", {silent: true});
+
+		expect((await ethers.provider.getCode(address)).length).to.be.greaterThan(2);
+		expect((await readRegistry(hre)).factory).to.equal(address);
+	});
+
+	it("Should predict the same address as the factory", async () => {
+		const [deployer, beneficiary] = await ethers.getSigners();
+		const address = await hre.run("deploy-factory", {silent: true});
+		const factory = await ethers.getContractAt("PalmEcosystemVestingWalletFactory", address);
+
+		const predicted = await hre.run("predict-address", {beneficiary: beneficiary.address, startDate, endDate, salt: "grant-42", silent: true});
+
+		const startTime = Date.UTC(2100, 0, 1) / 1000;
+		const duration = Date.UTC(2104, 0, 1) / 1000 - startTime;
+		expect(predicted).to.equal(await factory.predictVestingWalletAddress(deployer.address, beneficiary.address, startTime, duration, startTime, 0, ethers.utils.id("grant-42")));
+	});
+
+	it("Should give a different address for each salt, schedule and creator", async () => {
+		const [deployer, beneficiary] = await ethers.getSigners();
+		const factory = ethers.Wallet.createRandom().address;
+		const predict = (args: object) => hre.run("predict-address", {beneficiary: beneficiary.address, startDate, endDate, factory, silent: true, ...args});
+
+		const addresses = await Promise.all([predict({}), predict({salt: "grant-42"}), predict({salt: ethers.utils.id("grant-42")}), predict({endDate: "2105-01-01"}), predict({creator: deployer.address}), predict({creator: beneficiary.address})]);
+
+		expect(addresses[1]).to.equal(addresses[2]);
+		expect(addresses[4]).to.equal(addresses[0]);
+		expect(new Set(addresses).size).to.equal(4);
+	});
+
+	it("Should fail without a factory recorded or supplied", async () => {
+		const [, beneficiary] = await ethers.getSigners();
+
+		await expect(hre.run("predict-address", {beneficiary: beneficiary.address, startDate, endDate, silent: true}))
+			.to.be.rejectedWith(`No vesting wallet factory recorded in ${registryPath(hre)}, run deploy-factory or supply a --factory`);
+	});
+});
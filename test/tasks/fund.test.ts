@@ -0,0 +1,114 @@
+import {loadFixture, time} from "@nomicfoundation/hardhat-network-helpers";
+import {BigNumber, Contract} from "ethers";
+import {ethers} from "hardhat";
+import hre from "hardhat";
+import {expect} from "chai";
+import {parseAmount} from "../../sdk";
+import {registryPath} from "../../tasks/registry";
+import fs from "fs";
+
+const ONE_YEAR_IN_SECS = 365 * 24 * 60 * 60;
+const ONE_DAY_IN_SECONDS = 24 * 60 * 60;
+const ONE_GWEI = BigNumber.from(1_000_000_000);
+const ONE_PALM = ONE_GWEI.mul(ONE_GWEI);
+
+describe("Fund Task", function () {
+	type DeployParams = { contract: Contract, erc20Contract: Contract };
+	async function deployVestingContractFixture(): Promise<DeployParams> {
+		const vestingStartTime = (await time.latest()) + ONE_DAY_IN_SECONDS * 7;
+		const [deployer, beneficiary] = await ethers.getSigners();
+
+		const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
+		const contract = await contractFactory.deploy(beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0);
+		await contract.deployed();
+		const erc20Factory = await ethers.getContractFactory("SomeToken");
+		const erc20Contract = await erc20Factory.deploy();
+		await erc20Contract.deployed();
+		await erc20Contract.mint(deployer.address, ONE_PALM.mul(10));
+
+		return {contract, erc20Contract};
+	}
+
+	let deployParams: DeployParams;
+	beforeEach(async () => {
+		deployParams = await loadFixture(deployVestingContractFixture);
+	});
+
+	after(() => {
+		fs.rmSync(registryPath(hre), {force: true});
+	});
+
+	it("Should parse amounts in whole units", () => {
+		expect(parseAmount("1000", "PALM", 18)).to.equal(ONE_PALM.mul(1000));
+		expect(parseAmount("1000 PALM", "PALM", 18)).to.equal(ONE_PALM.mul(1000));
+		expect(parseAmount("1.5 usdc", "USDC", 6)).to.equal(1_500_000);
+		expect(() => parseAmount("1000 ST", "PALM", 18)).to.throw("Invalid amount: expecting an amount of PALM, not ST");
+		expect(() => parseAmount("0.0000001", "USDC", 6)).to.throw("Invalid amount: USDC has at most 6 decimals");
+		expect(() => parseAmount("0", "PALM", 18)).to.throw("Invalid amount: must be greater than zero");
+		expect(() => parseAmount("-1", "PALM", 18)).to.throw("Invalid amount: -1");
+	});
+
+	it("Should deposit native PALM", async () => {
+		const {contract} = deployParams;
+
+		const result = await hre.run("fund", {address: contract.address, amount: "1000 PALM", silent: true});
+
+		expect(result.symbol).to.equal("PALM");
+		expect(result.amount).to.equal(ONE_PALM.mul(1000));
+		expect(await ethers.provider.getBalance(contract.address)).to.equal(ONE_PALM.mul(1000));
+	});
+
+	it("Should report the gas paid for the deposit", async () => {
+		const {contract} = deployParams;
+		const [sender] = await ethers.getSigners();
+		const before = await ethers.provider.getBalance(sender.address);
+
+		const result = await hre.run("fund", {address: contract.address, amount: "1000 PALM", silent: true});
+
+		expect(result.gasCost.gas.toNumber()).to.be.greaterThan(21000);
+		expect(await ethers.provider.getBalance(sender.address)).to.equal(before.sub(result.amount).sub(result.gasCost.cost));
+	});
+
+	it("Should deposit ERC-20 tokens scaled by the token's decimals", async () => {
+		const {contract, erc20Contract} = deployParams;
+
+		const result = await hre.run("fund", {address: contract.address, amount: "2.5", token: erc20Contract.address, silent: true});
+
+		expect(result.symbol).to.equal("ST");
+		expect(result.token).to.equal(erc20Contract.address);
+		expect(await erc20Contract.balanceOf(contract.address)).to.equal(ONE_PALM.mul(5).div(2));
+	});
+
+	it("Should fail if the sender's balance is insufficient", async () => {
+		const {contract, erc20Contract} = deployParams;
+
+		await expect(hre.run("fund", {address: contract.address, amount: "11", token: erc20Contract.address, silent: true}))
+			.to.be.rejectedWith(/Insufficient balance: 0x[0-9a-fA-F]{40} holds 10.0 ST but 11.0 ST is required/);
+	});
+
+	it("Should fail if the target is not a vesting contract", async () => {
+		const {erc20Contract} = deployParams;
+		const [, , otherAddress] = await ethers.getSigners();
+
+		await expect(hre.run("fund", {address: erc20Contract.address, amount: "1", silent: true})).to.be.rejectedWith(`${erc20Contract.address} is not a PalmEcosystemVestingWallet contract`);
+		await expect(hre.run("fund", {address: otherAddress.address, amount: "1", silent: true})).to.be.rejectedWith(`${otherAddress.address} is not a PalmEcosystemVestingWallet contract`);
+	});
+
+	it("Should not send anything on a dry run", async () => {
+		const {contract, erc20Contract} = deployParams;
+
+		await hre.run("fund", {address: contract.address, amount: "1000", dryRun: true, silent: true});
+		await hre.run("fund", {address: contract.address, amount: "1", token: erc20Contract.address, dryRun: true, silent: true});
+
+		expect(await ethers.provider.getBalance(contract.address)).to.equal(0);
+		expect(await erc20Contract.balanceOf(contract.address)).to.equal(0);
+	});
+
+	it("Should deploy and fund a vesting contract in one step", async () => {
+		const [, beneficiary] = await ethers.getSigners();
+
+		const address = await hre.run("deploy", {beneficiary: beneficiary.address, startDate: "2100-01-01", endDate: "2104-01-01", fundAmount: "1000", silent: true});
+
+		expect(await ethers.provider.getBalance(address)).to.equal(ONE_PALM.mul(1000));
+	});
+});
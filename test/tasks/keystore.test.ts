@@ -0,0 +1,118 @@
+import {takeSnapshot, SnapshotRestorer} from "@nomicfoundation/hardhat-network-helpers";
+import {BigNumber} from "ethers";
+import {ethers} from "hardhat";
+import hre from "hardhat";
+import {expect} from "chai";
+import {registryPath} from "../../tasks/registry";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const ONE_GWEI = BigNumber.from(1_000_000_000);
+const ONE_PALM = ONE_GWEI.mul(ONE_GWEI);
+
+describe("Keystore Tasks", function () {
+	const passphrase = "correct horse battery staple";
+	let tmpDir: string;
+	let initialSnapshot: SnapshotRestorer;
+	before(async () => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "keystore-"));
+		initialSnapshot = await takeSnapshot();
+	});
+
+	after(async () => {
+		await initialSnapshot.restore();
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+		fs.rmSync(registryPath(hre), {force: true});
+	});
+
+	// Stands in for e.g. --passphrase-fd 3 with 3<passphrase.txt
+	function secretFd(name: string, secret: string): number {
+		const file = path.join(tmpDir, name);
+		fs.writeFileSync(file, secret + "\n");
+		return fs.openSync(file, "r");
+	}
+
+	async function writeTestKeystore(name: string): Promise<{keystore: string, address: string}> {
+		const wallet = ethers.Wallet.createRandom();
+		const keystore = path.join(tmpDir, name);
+		fs.writeFileSync(keystore, await wallet.encrypt(passphrase, {scrypt: {N: 1024}}));
+		return {keystore, address: wallet.address};
+	}
+
+	it("Should create a new account in a keystore only the owner can read", async () => {
+		const output = path.join(tmpDir, "created.json");
+
+		const address = await hre.run("create-keystore", {output, passphraseFd: secretFd("created.txt", passphrase), silent: true});
+
+		expect(fs.statSync(output).mode & 0o777).to.equal(0o600);
+		const wallet = await ethers.Wallet.fromEncryptedJson(fs.readFileSync(output, "utf8"), passphrase);
+		expect(wallet.address).to.equal(address);
+	});
+
+	it("Should import a private key into a keystore", async () => {
+		const {privateKey, address} = ethers.Wallet.createRandom();
+		const output = path.join(tmpDir, "imported.json");
+
+		const result = await hre.run("import-keystore", {
+			output,
+			privateKeyFd: secretFd("private-key.txt", privateKey),
+			passphraseFd: secretFd("imported.txt", passphrase),
+			silent: true
+		});
+
+		expect(result).to.equal(address);
+		const wallet = await ethers.Wallet.fromEncryptedJson(fs.readFileSync(output, "utf8"), passphrase);
+		expect(wallet.privateKey).to.equal(privateKey);
+	});
+
+	it("Should refuse to overwrite an existing file", async () => {
+		const output = path.join(tmpDir, "existing.json");
+		fs.writeFileSync(output, "{}");
+
+		await expect(hre.run("create-keystore", {output, passphraseFd: secretFd("existing.txt", passphrase), silent: true}))
+			.to.be.rejectedWith(`Refusing to overwrite existing file ${output}`);
+		expect(fs.readFileSync(output, "utf8")).to.equal("{}");
+	});
+
+	it("Should reject an invalid private key or an empty passphrase", async () => {
+		await expect(hre.run("import-keystore", {
+			output: path.join(tmpDir, "invalid.json"),
+			privateKeyFd: secretFd("invalid-key.txt", "0x12"),
+			passphraseFd: secretFd("invalid.txt", passphrase),
+			silent: true
+		})).to.be.rejectedWith("Invalid private key: expecting a 32 byte hex string");
+		await expect(hre.run("create-keystore", {output: path.join(tmpDir, "empty.json"), passphraseFd: secretFd("empty.txt", ""), silent: true}))
+			.to.be.rejectedWith("The passphrase must not be empty");
+	});
+
+	it("Should fail to unlock a keystore with the wrong passphrase", async () => {
+		const {keystore} = await writeTestKeystore("wrong.json");
+
+		await expect(hre.run("fund", {address: ethers.constants.AddressZero, amount: "1", keystore, passphraseFd: secretFd("wrong.txt", "wrong"), silent: true}))
+			.to.be.rejectedWith(`Could not decrypt keystore ${keystore}`);
+	});
+
+	it("Should deploy, fund and administer a contract with a keystore", async () => {
+		const [funder, beneficiary] = await ethers.getSigners();
+		const {keystore, address} = await writeTestKeystore("deployer.json");
+		await funder.sendTransaction({to: address, value: ONE_PALM.mul(10)});
+
+		const contractAddress = await hre.run("deploy", {
+			beneficiary: beneficiary.address,
+			startDate: "2100-01-01",
+			duration: "4y",
+			fundAmount: "1",
+			keystore,
+			passphraseFd: secretFd("deployer.txt", passphrase),
+			silent: true
+		});
+		const contract = await ethers.getContractAt("PalmEcosystemVestingWallet", contractAddress);
+		expect(await contract.owner()).to.equal(address);
+		expect(await ethers.provider.getBalance(contractAddress)).to.equal(ONE_PALM);
+
+		const result = await hre.run("pause", {address: contractAddress, keystore, passphraseFd: secretFd("pause.txt", passphrase), silent: true});
+		expect(await contract.paused()).to.equal(true);
+		expect(result.events).to.deep.equal([{name: "Paused", args: {account: address}}]);
+	});
+});
@@ -0,0 +1,130 @@
+import {takeSnapshot, SnapshotRestorer} from "@nomicfoundation/hardhat-network-helpers";
+import {ethers} from "hardhat";
+import hre from "hardhat";
+import {expect} from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {readRegistry, registryPath, resolveWalletAddress} from "../../tasks/registry";
+
+describe("Deployment Registry", function () {
+	const startDate = "2100-01-01";
+	const endDate = "2104-01-01";
+	const vestingStartTime = new Date(startDate).getTime() / 1000;
+	const vestingDuration = new Date(endDate).getTime() / 1000 - vestingStartTime;
+
+	let initialSnapshot: SnapshotRestorer;
+	before(async () => {
+		initialSnapshot = await takeSnapshot();
+	});
+
+	beforeEach(async () => {
+		await initialSnapshot.restore();
+		fs.rmSync(registryPath(hre), {force: true});
+	});
+
+	after(() => {
+		fs.rmSync(registryPath(hre), {force: true});
+	});
+
+	async function deploy(label?: string): Promise<string> {
+		const [, beneficiary, finalOwner] = await ethers.getSigners();
+		return hre.run("deploy", {beneficiary: beneficiary.address, finalOwner: finalOwner.address, startDate, endDate, label, dryRun: false, silent: true});
+	}
+
+	it("Should record the deployment in the registry for the current network", async () => {
+		const [deployer, beneficiary, finalOwner] = await ethers.getSigners();
+
+		const address = await deploy("grantee-a");
+
+		const registry = await readRegistry(hre);
+		expect(registry.network).to.equal("hardhat");
+		expect(registry.chainId).to.equal(31337);
+		expect(registry.deployments).to.have.length(1);
+		const [entry] = registry.deployments;
+		const receipt = await ethers.provider.getTransactionReceipt(entry.txHash);
+		expect(entry).to.deep.equal({
+			label: "grantee-a",
+			address,
+			constructorArgs: {beneficiary: beneficiary.address, startTime: vestingStartTime, duration: vestingDuration, cliff: vestingStartTime, unlockInterval: 0},
+			deployer: deployer.address,
+			finalOwner: finalOwner.address,
+			blockNumber: receipt.blockNumber,
+			txHash: receipt.transactionHash,
+			compilerVersion: "0.8.9+commit.e5eed63a"
+		});
+		expect(receipt.contractAddress).to.equal(address);
+	});
+
+	it("Should record the shares, pauser and minimum delay the wallet was deployed with", async () => {
+		const [, beneficiary, otherBeneficiary, pauser] = await ethers.getSigners();
+		const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "registry-"));
+		const shares = path.join(tmpDir, "shares.csv");
+		fs.writeFileSync(shares, `beneficiary,shares\n${beneficiary.address},3\n${otherBeneficiary.address},1\n`);
+
+		try {
+			await hre.run("deploy", {shares, startDate, endDate, pauser: pauser.address, minDelay: "2w", dryRun: false, silent: true});
+
+			const [entry] = (await readRegistry(hre)).deployments;
+			expect(entry.constructorArgs.beneficiary).to.equal(beneficiary.address);
+			expect(entry.shares).to.deep.equal([{beneficiary: beneficiary.address, shares: 3}, {beneficiary: otherBeneficiary.address, shares: 1}]);
+			expect(entry.pauser).to.equal(pauser.address);
+			expect(entry.minDelay).to.equal(14 * 24 * 60 * 60);
+		} finally {
+			fs.rmSync(tmpDir, {recursive: true, force: true});
+		}
+	});
+
+	it("Should not record anything on a dry run", async () => {
+		const [, beneficiary] = await ethers.getSigners();
+
+		await hre.run("deploy", {beneficiary: beneficiary.address, startDate, endDate, label: "grantee-a", dryRun: true, silent: true});
+
+		expect(fs.existsSync(registryPath(hre))).to.equal(false);
+	});
+
+	it("Should resolve a wallet by label or by address", async () => {
+		const address = await deploy("grantee-a");
+
+		expect(await resolveWalletAddress(hre, "grantee-a")).to.equal(address);
+		expect(await resolveWalletAddress(hre, address.toLowerCase())).to.equal(address);
+		await expect(resolveWalletAddress(hre, "grantee-b")).to.be.rejectedWith(`No wallet labelled "grantee-b" in ${registryPath(hre)}`);
+	});
+
+	it("Should fail to deploy if the label is already registered", async () => {
+		const address = await deploy("grantee-a");
+
+		await expect(deploy("grantee-a")).to.be.rejectedWith(`Label "grantee-a" is already registered to ${address}`);
+		expect((await readRegistry(hre)).deployments).to.have.length(1);
+	});
+
+	it("Should replace a label that refers to a contract that no longer exists", async () => {
+		await deploy("grantee-a");
+		await initialSnapshot.restore();
+
+		const address = await deploy("grantee-a");
+
+		const registry = await readRegistry(hre);
+		expect(registry.deployments).to.have.length(1);
+		expect(registry.deployments[0].address).to.equal(address);
+	});
+
+	it("Should record each deployment of a batch under its label", async () => {
+		const [, beneficiary, otherBeneficiary] = await ethers.getSigners();
+		const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "registry-"));
+		const manifest = path.join(tmpDir, "manifest.json");
+		fs.writeFileSync(manifest, JSON.stringify([
+			{beneficiary: beneficiary.address, startDate, endDate, label: "grantee-a"},
+			{beneficiary: otherBeneficiary.address, startDate, endDate, label: "grantee-b"},
+		]));
+
+		try {
+			const deployments = await hre.run("deploy-batch", {manifest, dryRun: false, silent: true});
+
+			expect(await resolveWalletAddress(hre, "grantee-a")).to.equal(deployments[0].address);
+			expect(await resolveWalletAddress(hre, "grantee-b")).to.equal(deployments[1].address);
+		} finally {
+			fs.rmSync(tmpDir, {recursive: true, force: true});
+		}
+	});
+});
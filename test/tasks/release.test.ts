@@ -0,0 +1,98 @@
+import {loadFixture, time} from "@nomicfoundation/hardhat-network-helpers";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {BigNumber, Contract} from "ethers";
+import {ethers} from "hardhat";
+import hre from "hardhat";
+import {expect} from "chai";
+import {WalletRelease} from "../../tasks/release";
+
+const ONE_YEAR_IN_SECS = 365 * 24 * 60 * 60;
+const ONE_DAY_IN_SECONDS = 24 * 60 * 60;
+const ONE_GWEI = BigNumber.from(1_000_000_000);
+const ONE_PALM = ONE_GWEI.mul(ONE_GWEI);
+
+describe("Release Task", function () {
+	type DeployParams = { contracts: Contract[], erc20Contract: Contract, beneficiary: SignerWithAddress, vestingStartTime: number, vestingDuration: number, fundAmount: BigNumber };
+	async function deployFundedVestingContractsFixture(): Promise<DeployParams> {
+		const vestingStartTime = (await time.latest()) + ONE_DAY_IN_SECONDS * 7;
+		const vestingDuration = ONE_YEAR_IN_SECS;
+		const [deployer, beneficiary] = await ethers.getSigners();
+		const fundAmount = ONE_PALM.mul(1000);
+
+		const erc20Factory = await ethers.getContractFactory("SomeToken");
+		const erc20Contract = await erc20Factory.deploy();
+		await erc20Contract.deployed();
+
+		const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
+		const contracts: Contract[] = [];
+		for (let i = 0; i < 2; i++) {
+			const contract = await contractFactory.deploy(beneficiary.address, vestingStartTime, vestingDuration, vestingStartTime, 0);
+			await contract.deployed();
+			await deployer.sendTransaction({to: contract.address, value: fundAmount});
+			await erc20Contract.mint(contract.address, fundAmount);
+			contracts.push(contract);
+		}
+
+		return {contracts, erc20Contract, beneficiary, vestingStartTime, vestingDuration, fundAmount};
+	}
+
+	let deployParams: DeployParams;
+	beforeEach(async () => {
+		deployParams = await loadFixture(deployFundedVestingContractsFixture);
+	});
+
+	it("Should skip wallets with nothing releasable", async () => {
+		const {contracts} = deployParams;
+
+		const results: WalletRelease[] = await hre.run("release", {address: contracts[0].address, silent: true});
+
+		expect(results).to.have.length(1);
+		expect(results[0].skipped).to.equal("nothing releasable");
+		expect(results[0].releases).to.deep.equal([]);
+	});
+
+	it("Should release native and ERC-20 funds from every wallet and report the amounts", async () => {
+		const {contracts, erc20Contract, beneficiary, vestingStartTime, vestingDuration, fundAmount} = deployParams;
+		await time.increaseTo(vestingStartTime + vestingDuration);
+		const beneficiaryInitialBalance = await beneficiary.getBalance();
+
+		const results: WalletRelease[] = await hre.run("release", {
+			address: contracts.map(contract => contract.address).join(","),
+			token: erc20Contract.address,
+			silent: true
+		});
+
+		expect(results).to.have.length(2);
+		for (const [i, result] of results.entries()) {
+			expect(result.address).to.equal(contracts[i].address);
+			expect(result.beneficiary).to.equal(beneficiary.address);
+			expect(result.skipped).to.equal(undefined);
+			expect(result.releases.map(release => [release.symbol, release.amount])).to.deep.equal([["PALM", fundAmount], ["ST", fundAmount]]);
+			expect(result.releases[1].token).to.equal(erc20Contract.address);
+		}
+		expect(await beneficiary.getBalance()).to.equal(beneficiaryInitialBalance.add(fundAmount.mul(2)));
+		expect(await erc20Contract.balanceOf(beneficiary.address)).to.equal(fundAmount.mul(2));
+	});
+
+	it("Should skip paused wallets", async () => {
+		const {contracts, vestingStartTime, vestingDuration, fundAmount} = deployParams;
+		await contracts[0].pause();
+		await time.increaseTo(vestingStartTime + vestingDuration);
+
+		const results: WalletRelease[] = await hre.run("release", {address: contracts.map(contract => contract.address).join(","), silent: true});
+
+		expect(results[0].skipped).to.equal("paused");
+		expect(results[0].releases).to.deep.equal([]);
+		expect(results[1].releases.map(release => release.amount)).to.deep.equal([fundAmount]);
+	});
+
+	it("Should not release anything on a dry run", async () => {
+		const {contracts, vestingStartTime, vestingDuration} = deployParams;
+		await time.increaseTo(vestingStartTime + vestingDuration);
+
+		const results: WalletRelease[] = await hre.run("release", {address: contracts[0].address, dryRun: true, silent: true});
+
+		expect(results[0].releases).to.deep.equal([]);
+		expect(await contracts[0]["released()"]()).to.equal(0);
+	});
+});
@@ -0,0 +1,172 @@
+import {loadFixture, SnapshotRestorer, takeSnapshot, time} from "@nomicfoundation/hardhat-network-helpers";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {Contract} from "ethers";
+import {ethers} from "hardhat";
+import hre from "hardhat";
+import {expect} from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const ONE_YEAR_IN_SECS = 365 * 24 * 60 * 60;
+const ONE_DAY_IN_SECONDS = 24 * 60 * 60;
+const MIN_DELAY = 7 * ONE_DAY_IN_SECONDS;
+
+describe("Timelock Tasks", function () {
+	type DeployParams = { contract: Contract, beneficiary: SignerWithAddress, otherAddress: SignerWithAddress, vestingStartTime: number };
+	async function deployVestingContractFixture(): Promise<DeployParams> {
+		const vestingStartTime = (await time.latest()) + ONE_DAY_IN_SECONDS * 7;
+		const [, beneficiary, otherAddress] = await ethers.getSigners();
+
+		const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
+		const contract = await contractFactory.deploy(beneficiary.address, vestingStartTime, ONE_YEAR_IN_SECS, vestingStartTime, 0);
+		await contract.deployed();
+		await hre.run("set-min-delay", {address: contract.address, minDelay: "7d", silent: true});
+
+		return {contract, beneficiary, otherAddress, vestingStartTime};
+	}
+
+	// Executing changes moves time forward, so put it back for the tests that follow
+	let initialSnapshot: SnapshotRestorer;
+	before(async () => {
+		initialSnapshot = await takeSnapshot();
+	});
+
+	after(async () => {
+		await initialSnapshot.restore();
+	});
+
+	let deployParams: DeployParams;
+	beforeEach(async () => {
+		deployParams = await loadFixture(deployVestingContractFixture);
+	});
+
+	async function queueBeneficiaryChange(): Promise<{ id: string, readyTimestamp: number }> {
+		const {contract, otherAddress} = deployParams;
+		const {id} = await hre.run("queue-change", {address: contract.address, beneficiary: otherAddress.address, silent: true});
+		return {id, readyTimestamp: (await contract.queuedChange(id)).toNumber()};
+	}
+
+	it("Should require changes to the schedule to be queued once there is a minimum delay", async () => {
+		const {contract, otherAddress} = deployParams;
+		await contract.pause();
+
+		expect(await contract.minDelay()).to.equal(MIN_DELAY);
+		await expect(hre.run("set-beneficiary", {address: contract.address, beneficiary: otherAddress.address, silent: true}))
+			.to.be.rejectedWith("Change must be queued");
+		await expect(hre.run("change-schedule", {address: contract.address, beneficiary: otherAddress.address, silent: true}))
+			.to.be.rejectedWith("Change must be queued");
+		await expect(hre.run("set-min-delay", {address: contract.address, minDelay: "1d", silent: true}))
+			.to.be.rejectedWith("Change must be queued");
+	});
+
+	it("Should queue a change and list it as pending until it is ready", async () => {
+		const {contract, otherAddress} = deployParams;
+
+		const {id, readyTimestamp} = await queueBeneficiaryChange();
+
+		expect(readyTimestamp).to.equal((await time.latest()) + MIN_DELAY);
+		const changes = await hre.run("list-queued-changes", {address: contract.address, silent: true});
+		expect(changes).to.have.length(1);
+		expect(changes[0]).to.include({id, method: "setBeneficiary", readyTimestamp, ready: false});
+		expect(changes[0].args).to.deep.equal([otherAddress.address]);
+
+		await time.increaseTo(readyTimestamp);
+		expect((await hre.run("list-queued-changes", {address: contract.address, silent: true}))[0].ready).to.equal(true);
+	});
+
+	it("Should refuse to execute a change before the minimum delay has passed", async () => {
+		const {contract, beneficiary} = deployParams;
+		const {id, readyTimestamp} = await queueBeneficiaryChange();
+		await time.increaseTo(readyTimestamp - 10);
+
+		await expect(hre.run("execute-change", {address: contract.address, id, silent: true})).to.be.rejectedWith("Change not ready");
+		expect(await contract.beneficiary()).to.equal(beneficiary.address);
+		expect(await contract.paused()).to.equal(false);
+	});
+
+	it("Should pause the contract, execute the change and unpause it once the change is ready", async () => {
+		const {contract, otherAddress} = deployParams;
+		const {id, readyTimestamp} = await queueBeneficiaryChange();
+		await time.increaseTo(readyTimestamp);
+
+		const results = await hre.run("execute-change", {address: contract.address, id, silent: true});
+
+		expect(results.map((result: { events: { name: string }[] }) => result.events.map(({name}) => name)))
+			.to.deep.equal([["Paused"], ["BeneficiaryUpdated", "ChangeExecuted"], ["Unpaused"]]);
+		expect(await contract.beneficiary()).to.equal(otherAddress.address);
+		expect(await contract.paused()).to.equal(false);
+		expect(await hre.run("list-queued-changes", {address: contract.address, silent: true})).to.deep.equal([]);
+	});
+
+	it("Should cancel a queued change", async () => {
+		const {contract} = deployParams;
+		const {id, readyTimestamp} = await queueBeneficiaryChange();
+
+		const result = await hre.run("cancel-queued-change", {address: contract.address, id, silent: true});
+
+		expect(result.events).to.deep.equal([{name: "ChangeCancelled", args: {id}}]);
+		expect(await hre.run("list-queued-changes", {address: contract.address, silent: true})).to.deep.equal([]);
+		await time.increaseTo(readyTimestamp);
+		await expect(hre.run("execute-change", {address: contract.address, id, silent: true})).to.be.rejectedWith("Change not queued");
+	});
+
+	it("Should queue a change of the end date only once", async () => {
+		const {contract, vestingStartTime} = deployParams;
+		const endDate = `${vestingStartTime + 2 * ONE_YEAR_IN_SECS}`;
+
+		const {id} = await hre.run("queue-change", {address: contract.address, endDate, rebase: true, silent: true});
+
+		const [change] = await hre.run("list-queued-changes", {address: contract.address, silent: true});
+		expect(change).to.include({id, method: "rebaseDuration"});
+		expect(change.args).to.deep.equal([`${2 * ONE_YEAR_IN_SECS}`]);
+		await expect(hre.run("queue-change", {address: contract.address, endDate, rebase: true, silent: true}))
+			.to.be.rejectedWith(`rebaseDuration(${2 * ONE_YEAR_IN_SECS}) is already queued on vesting contract ${contract.address} with id ${id}`);
+	});
+
+	it("Should queue and execute a change of the shares", async () => {
+		const {contract, beneficiary, otherAddress} = deployParams;
+		const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "timelock-"));
+		const shares = path.join(tmpDir, "shares.csv");
+		fs.writeFileSync(shares, `beneficiary,shares\n${beneficiary.address},1\n${otherAddress.address},1\n`);
+
+		try {
+			const {id} = await hre.run("queue-change", {address: contract.address, shares, silent: true});
+
+			const [change] = await hre.run("list-queued-changes", {address: contract.address, silent: true});
+			expect(change).to.include({id, method: "setShares"});
+			expect(change.args).to.deep.equal([`[${beneficiary.address}, ${otherAddress.address}]`, "[1, 1]"]);
+			await time.increaseTo(change.readyTimestamp);
+			await hre.run("execute-change", {address: contract.address, id, silent: true});
+			expect(await contract.totalShares()).to.equal(2);
+			expect(await contract.paused()).to.equal(false);
+		} finally {
+			fs.rmSync(tmpDir, {recursive: true, force: true});
+		}
+	});
+
+	it("Should queue exactly one change at a time", async () => {
+		const {contract, otherAddress, vestingStartTime} = deployParams;
+
+		await expect(hre.run("queue-change", {address: contract.address, silent: true}))
+			.to.be.rejectedWith("Supply exactly one change to queue: a beneficiary, a shares file, an endDate or a minDelay");
+		await expect(hre.run("queue-change", {address: contract.address, beneficiary: otherAddress.address, endDate: `${vestingStartTime + ONE_DAY_IN_SECONDS}`, silent: true}))
+			.to.be.rejectedWith("Supply exactly one change to queue: a beneficiary, a shares file, an endDate or a minDelay");
+		await expect(hre.run("queue-change", {address: contract.address, minDelay: "7d", silent: true}))
+			.to.be.rejectedWith("New delay must differ from current delay");
+	});
+
+	it("Should change the minimum delay through the queue, without pausing the contract", async () => {
+		const {contract, otherAddress} = deployParams;
+		const {id} = await hre.run("queue-change", {address: contract.address, minDelay: "0", silent: true});
+		await time.increase(MIN_DELAY);
+
+		const result = await hre.run("execute-change", {address: contract.address, id, silent: true});
+
+		expect(result.events.map(({name}: { name: string }) => name)).to.deep.equal(["MinDelayUpdated", "ChangeExecuted"]);
+		expect(await contract.minDelay()).to.equal(0);
+		await contract.pause();
+		await hre.run("set-beneficiary", {address: contract.address, beneficiary: otherAddress.address, silent: true});
+		expect(await contract.beneficiary()).to.equal(otherAddress.address);
+	});
+});
@@ -0,0 +1,147 @@
+import {takeSnapshot, SnapshotRestorer} from "@nomicfoundation/hardhat-network-helpers";
+import {ethers} from "hardhat";
+import hre from "hardhat";
+import {expect} from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {registryPath} from "../../tasks/registry";
+import {VerificationCheck} from "../../tasks/verify-deployment";
+
+describe("Verify Deployment Task", function () {
+	const startDate = "2100-01-01";
+	const endDate = "2104-01-01";
+
+	let tmpDir: string;
+	let initialSnapshot: SnapshotRestorer;
+	before(async () => {
+		initialSnapshot = await takeSnapshot();
+	});
+
+	beforeEach(async () => {
+		await initialSnapshot.restore();
+		fs.rmSync(registryPath(hre), {force: true});
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "verify-deployment-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+	after(() => {
+		fs.rmSync(registryPath(hre), {force: true});
+	});
+
+	function statuses(checks: VerificationCheck[]): Record<string, string> {
+		return Object.fromEntries(checks.map(({check, status}) => [check, status]));
+	}
+
+	it("Should pass a registered wallet against its registry entry", async () => {
+		const [, beneficiary, finalOwner] = await ethers.getSigners();
+		const address = await hre.run("deploy", {beneficiary: beneficiary.address, finalOwner: finalOwner.address, startDate, endDate, label: "grantee", silent: true});
+		await (await ethers.getContractAt("PalmEcosystemVestingWallet", address, finalOwner)).acceptOwnership();
+
+		const checks: VerificationCheck[] = await hre.run("verify-deployment", {address: "grantee", silent: true});
+
+		expect(statuses(checks)).to.deep.equal({
+			"bytecode": "pass",
+			"beneficiary": "pass",
+			"start": "pass",
+			"duration": "pass",
+			"cliff": "pass",
+			"unlock interval": "pass",
+			"shares": "pass",
+			"owner": "pass",
+			"pauser": "pass",
+			"minimum delay": "pass",
+			"paused": "pass",
+			"pending owner": "pass"
+		});
+	});
+
+	it("Should fail until the final owner has accepted ownership", async () => {
+		const [deployer, beneficiary, finalOwner] = await ethers.getSigners();
+		const address = await hre.run("deploy", {beneficiary: beneficiary.address, finalOwner: finalOwner.address, startDate, endDate, silent: true});
+
+		await expect(hre.run("verify-deployment", {address, silent: true})).to.be.rejectedWith([
+			`Verification of ${address} failed:`,
+			`\towner: expected ${finalOwner.address}, but found ${deployer.address}`,
+			`\tpending owner: expected ${ethers.constants.AddressZero}, but found ${finalOwner.address}`
+		].join("\n"));
+	});
+
+	it("Should fail on any mismatch with the expected values", async () => {
+		const [, beneficiary, finalOwner, otherAddress] = await ethers.getSigners();
+		const address = await hre.run("deploy", {beneficiary: beneficiary.address, finalOwner: finalOwner.address, startDate, endDate, silent: true});
+
+		await expect(hre.run("verify-deployment", {address, beneficiary: otherAddress.address, silent: true}))
+			.to.be.rejectedWith(`Verification of ${address} failed:\n\tbeneficiary: expected ${otherAddress.address}, but found ${beneficiary.address}`);
+		await expect(hre.run("verify-deployment", {address, duration: "3y", silent: true}))
+			.to.be.rejectedWith(/duration: expected \d+, but found \d+/);
+		await expect(hre.run("verify-deployment", {address, paused: true, silent: true}))
+			.to.be.rejectedWith("paused: expected true, but found false");
+
+		const contract = await ethers.getContractAt("PalmEcosystemVestingWallet", address, finalOwner);
+		await contract.acceptOwnership();
+		await contract.transferOwnership(otherAddress.address);
+		await contract.connect(otherAddress).acceptOwnership();
+		await expect(hre.run("verify-deployment", {address, silent: true}))
+			.to.be.rejectedWith(`owner: expected ${finalOwner.address}, but found ${otherAddress.address}`);
+	});
+
+	it("Should check the shares, pauser and minimum delay against the registry", async () => {
+		const [deployer, beneficiary, otherBeneficiary, pauser] = await ethers.getSigners();
+		const shares = path.join(tmpDir, "shares.csv");
+		fs.writeFileSync(shares, `beneficiary,shares\n${beneficiary.address},3\n${otherBeneficiary.address},1\n`);
+		const address = await hre.run("deploy", {shares, startDate, endDate, pauser: pauser.address, minDelay: "2w", silent: true});
+
+		const checks: VerificationCheck[] = await hre.run("verify-deployment", {address, silent: true});
+		expect(statuses(checks)).to.deep.include({"shares": "pass", "pauser": "pass", "minimum delay": "pass"});
+
+		await (await ethers.getContractAt("PalmEcosystemVestingWallet", address, deployer)).setPauser(ethers.constants.AddressZero);
+		const evenShares = path.join(tmpDir, "even-shares.csv");
+		fs.writeFileSync(evenShares, `beneficiary,shares\n${beneficiary.address},1\n${otherBeneficiary.address},1\n`);
+		await expect(hre.run("verify-deployment", {address, shares: evenShares, minDelay: "1w", silent: true})).to.be.rejectedWith([
+			`Verification of ${address} failed:`,
+			`\tshares: expected ${beneficiary.address}: 1, ${otherBeneficiary.address}: 1, but found ${beneficiary.address}: 3, ${otherBeneficiary.address}: 1`,
+			`\tpauser: expected ${pauser.address}, but found ${ethers.constants.AddressZero}`,
+			`\tminimum delay: expected 604800, but found 1209600`
+		].join("\n"));
+	});
+
+	it("Should fail if the bytecode is not a vesting contract", async () => {
+		const token = await (await ethers.getContractFactory("SomeToken")).deploy();
+
+		await expect(hre.run("verify-deployment", {address: token.address, silent: true}))
+			.to.be.rejectedWith("bytecode: expected PalmEcosystemVestingWallet, but found unknown bytecode");
+	});
+
+	it("Should skip checks with no expected value for unregistered wallets", async () => {
+		const [, beneficiary] = await ethers.getSigners();
+		const address = await hre.run("deploy", {beneficiary: beneficiary.address, startDate, endDate, silent: true});
+		fs.rmSync(registryPath(hre), {force: true});
+
+		const checks: VerificationCheck[] = await hre.run("verify-deployment", {address, beneficiary: beneficiary.address, startDate, endDate, silent: true});
+
+		expect(statuses(checks)).to.deep.include({"beneficiary": "pass", "start": "pass", "duration": "pass", "owner": "skip"});
+	});
+
+	it("Should verify a row of a deploy-batch output manifest", async () => {
+		const [, beneficiary, finalOwner] = await ethers.getSigners();
+		const manifest = path.join(tmpDir, "manifest.json");
+		fs.writeFileSync(manifest, JSON.stringify([
+			{beneficiary: beneficiary.address, startDate, endDate, finalOwner: finalOwner.address},
+			{beneficiary: finalOwner.address, startDate, duration: "4y", finalOwner: beneficiary.address}
+		]));
+		const [, second] = await hre.run("deploy-batch", {manifest, silent: true});
+		fs.rmSync(registryPath(hre), {force: true});
+		await (await ethers.getContractAt("PalmEcosystemVestingWallet", second.address, beneficiary)).acceptOwnership();
+
+		const output = path.join(tmpDir, "manifest.deployments.json");
+		const checks: VerificationCheck[] = await hre.run("verify-deployment", {manifest: output, row: 2, silent: true});
+
+		expect(statuses(checks)).to.deep.include({"beneficiary": "pass", "start": "pass", "duration": "pass", "owner": "pass"});
+		await expect(hre.run("verify-deployment", {manifest: output, row: 3, silent: true}))
+			.to.be.rejectedWith("No deployment for row 3");
+	});
+});
@@ -0,0 +1,191 @@
+import {loadFixture, time} from "@nomicfoundation/hardhat-network-helpers";
+import {BigNumber, Contract} from "ethers";
+import {ethers} from "hardhat";
+import hre from "hardhat";
+import {expect} from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {ScheduleProjection} from "../../tasks/vesting-schedule";
+import {addMonths, vestedAmount} from "../../sdk";
+
+const ONE_DAY_IN_SECONDS = 24 * 60 * 60;
+const ONE_GWEI = BigNumber.from(1_000_000_000);
+const ONE_PALM = ONE_GWEI.mul(ONE_GWEI);
+
+describe("Vesting Schedule Task", function () {
+	const startDate = "2100-01-31";
+	const endDate = "2104-01-31";
+	const vestingStartTime = new Date(startDate).getTime() / 1000;
+	const vestingDuration = new Date(endDate).getTime() / 1000 - vestingStartTime;
+
+	type DeployParams = { contract: Contract, fundAmount: BigNumber, contractStartTime: number };
+	async function deployFundedVestingContractFixture(): Promise<DeployParams> {
+		const [deployer, beneficiary] = await ethers.getSigners();
+		const contractStartTime = (await time.latest()) + ONE_DAY_IN_SECONDS * 7;
+		const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
+		const contract = await contractFactory.deploy(beneficiary.address, contractStartTime, vestingDuration, contractStartTime, 0);
+		await contract.deployed();
+
+		// Use an amount that doesn't divide evenly, to exercise rounding
+		const fundAmount = ONE_PALM.mul(1000).add(7);
+		await deployer.sendTransaction({to: contract.address, value: fundAmount});
+
+		return {contract, fundAmount, contractStartTime};
+	}
+
+	let deployParams: DeployParams;
+	beforeEach(async () => {
+		deployParams = await loadFixture(deployFundedVestingContractFixture);
+	});
+
+	it("Should add calendar months, clamping to the end of shorter months", () => {
+		const jan31 = new Date("2100-01-31T12:00:00Z").getTime() / 1000;
+
+		expect(new Date(addMonths(jan31, 1) * 1000).toISOString()).to.equal("2100-02-28T12:00:00.000Z");
+		expect(new Date(addMonths(jan31, 2) * 1000).toISOString()).to.equal("2100-03-31T12:00:00.000Z");
+		expect(new Date(addMonths(jan31, 13) * 1000).toISOString()).to.equal("2101-02-28T12:00:00.000Z");
+		expect(new Date(addMonths(new Date("2104-01-31").getTime() / 1000, 1) * 1000).toISOString()).to.equal("2104-02-29T00:00:00.000Z");
+	});
+
+	it("Should project a schedule from dates and an amount without a contract", async () => {
+		const projection: ScheduleProjection = await hre.run("vesting-schedule", {startDate, endDate, amount: "1000", granularity: "quarterly", silent: true});
+
+		expect(projection.start).to.equal(vestingStartTime);
+		expect(projection.duration).to.equal(vestingDuration);
+		expect(projection.rows).to.have.length(16);
+		expect(projection.rows[0].periodStart).to.equal(vestingStartTime);
+		expect(new Date(projection.rows[0].periodEnd * 1000).toISOString()).to.equal("2100-04-30T00:00:00.000Z");
+		expect(projection.rows[15].periodEnd).to.equal(vestingStartTime + vestingDuration);
+		expect(projection.rows[15].vested).to.equal(ONE_PALM.mul(1000));
+		const total = projection.rows.reduce((sum, row) => sum.add(row.vestedInPeriod), BigNumber.from(0));
+		expect(total).to.equal(ONE_PALM.mul(1000));
+	});
+
+	it("Should truncate the final period at the end of vesting", async () => {
+		const projection: ScheduleProjection = await hre.run("vesting-schedule", {startDate, endDate: "2100-02-10", amount: "1", granularity: "weekly", silent: true});
+
+		expect(projection.rows.map(row => (row.periodEnd - row.periodStart) / ONE_DAY_IN_SECONDS)).to.deep.equal([7, 3]);
+	});
+
+	it("Should match the contract's vestedAmount exactly at every period end", async () => {
+		const {contract, fundAmount} = deployParams;
+
+		const projection: ScheduleProjection = await hre.run("vesting-schedule", {address: contract.address, granularity: "monthly", silent: true});
+
+		expect(projection.totalAllocation).to.equal(fundAmount);
+		expect(projection.rows.length).to.be.within(48, 49);
+		for (const row of projection.rows) {
+			expect(row.vested).to.equal(await contract["vestedAmount(uint64)"](row.periodEnd));
+		}
+	});
+
+	it("Should match the contract's vestedAmount exactly with a cliff and unlock interval", async () => {
+		const [deployer, beneficiary] = await ethers.getSigners();
+		const fundAmount = ONE_PALM.mul(10).add(7);
+		const start = (await time.latest()) + ONE_DAY_IN_SECONDS;
+		const unlockInterval = 45 * ONE_DAY_IN_SECONDS;
+		const cliff = start + 200 * ONE_DAY_IN_SECONDS + 1;
+		const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
+		const contract = await contractFactory.deploy(beneficiary.address, start, vestingDuration, cliff, unlockInterval);
+		await contract.deployed();
+		await deployer.sendTransaction({to: contract.address, value: fundAmount});
+
+		const projection: ScheduleProjection = await hre.run("vesting-schedule", {address: contract.address, granularity: "weekly", silent: true});
+
+		expect(projection.cliff).to.equal(cliff);
+		expect(projection.unlockInterval).to.equal(unlockInterval);
+		for (const row of projection.rows) {
+			expect(row.vested).to.equal(await contract["vestedAmount(uint64)"](row.periodEnd));
+		}
+		const boundaries = [cliff - 1, cliff, start + 5 * unlockInterval - 1, start + 5 * unlockInterval, start + vestingDuration - 1, start + vestingDuration];
+		for (const timestamp of boundaries) {
+			expect(vestedAmount(fundAmount, start, vestingDuration, timestamp, {cliff, unlockInterval})).to.equal(await contract["vestedAmount(uint64)"](timestamp));
+		}
+	});
+
+	it("Should project a cliff and unlock interval without a contract", async () => {
+		const projection: ScheduleProjection = await hre.run("vesting-schedule", {startDate, endDate, cliffDate: "2101-01-31", unlockInterval: "13w", amount: "1000", silent: true});
+
+		expect(projection.rows.slice(0, 11).every(row => row.vested.isZero())).to.be.true;
+		expect(projection.rows[11].vested).to.equal(vestedAmount(ONE_PALM.mul(1000), vestingStartTime, vestingDuration, projection.rows[11].periodEnd, projection));
+		expect(projection.rows[11].vested).to.not.equal(0);
+		await expect(hre.run("vesting-schedule", {startDate, endDate, cliffDate: "2105-01-01", amount: "1000", silent: true}))
+			.to.be.rejectedWith("The supplied cliffDate must be between the startDate and the endDate");
+	});
+
+	it("Should take the same duration and amount formats as deploy", async () => {
+		const projection: ScheduleProjection = await hre.run("vesting-schedule", {startDate, duration: "4y", amount: "1000 PALM", silent: true});
+
+		expect(projection.duration).to.equal(vestingDuration);
+		expect(projection.totalAllocation).to.equal(ONE_PALM.mul(1000));
+		await expect(hre.run("vesting-schedule", {startDate, endDate, amount: "1000 ST", silent: true}))
+			.to.be.rejectedWith("Invalid amount: expecting an amount of PALM, not ST");
+		await expect(hre.run("vesting-schedule", {startDate, endDate, duration: "4y", amount: "1000", silent: true}))
+			.to.be.rejectedWith("Supply either an endDate or a duration, but not both");
+	});
+
+	it("Should include released funds in the total allocation", async () => {
+		const {contract, fundAmount, contractStartTime} = deployParams;
+		await time.increaseTo(contractStartTime + vestingDuration / 2);
+		await contract["release()"]();
+
+		const projection: ScheduleProjection = await hre.run("vesting-schedule", {address: contract.address, silent: true});
+
+		expect(projection.released).to.not.equal(0);
+		expect(projection.totalAllocation).to.equal(fundAmount);
+	});
+
+	it("Should split the projection between several beneficiaries by their shares", async () => {
+		const {contract, fundAmount} = deployParams;
+		const [, beneficiary, otherAddress] = await ethers.getSigners();
+		await contract.pause();
+		await contract.setShares([beneficiary.address, otherAddress.address], [3, 1]);
+		const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "vesting-schedule-"));
+		const csvOutput = path.join(tmpDir, "schedule.csv");
+
+		try {
+			const projection: ScheduleProjection = await hre.run("vesting-schedule", {address: contract.address, output: csvOutput, silent: true});
+
+			const last = projection.rows[projection.rows.length - 1];
+			expect(last.vestedTo).to.deep.equal([fundAmount.sub(fundAmount.div(4)), fundAmount.div(4)]);
+			const lines = fs.readFileSync(csvOutput, "utf8").trim().split("\n");
+			expect(lines[0]).to.equal(`period,periodStart,periodEnd,vested,vestedInPeriod,vested:${beneficiary.address},vested:${otherAddress.address}`);
+			expect(lines[lines.length - 1].split(",").slice(5)).to.deep.equal(last.vestedTo?.map(String));
+		} finally {
+			fs.rmSync(tmpDir, {recursive: true, force: true});
+		}
+	});
+
+	it("Should write the projection as CSV or JSON", async () => {
+		const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "vesting-schedule-"));
+		const csvOutput = path.join(tmpDir, "schedule.csv");
+		const jsonOutput = path.join(tmpDir, "schedule.json");
+
+		try {
+			await hre.run("vesting-schedule", {startDate, endDate, amount: "1000", format: "csv", output: csvOutput, silent: true});
+			await hre.run("vesting-schedule", {startDate, endDate, amount: "1000", format: "json", output: jsonOutput, silent: true});
+
+			const lines = fs.readFileSync(csvOutput, "utf8").trim().split("\n");
+			expect(lines).to.have.length(49);
+			expect(lines[0]).to.equal("period,periodStart,periodEnd,vested,vestedInPeriod");
+			expect(lines[48]).to.equal(`48,2103-12-31T00:00:00.000Z,2104-01-31T00:00:00.000Z,${ONE_PALM.mul(1000)},${lines[48].split(",")[4]}`);
+			const json = JSON.parse(fs.readFileSync(jsonOutput, "utf8"));
+			expect(json.totalAllocation).to.equal(ONE_PALM.mul(1000).toString());
+			expect(json.rows).to.have.length(48);
+			expect(json.rows[47].vested).to.equal(ONE_PALM.mul(1000).toString());
+		} finally {
+			fs.rmSync(tmpDir, {recursive: true, force: true});
+		}
+	});
+
+	it("Should fail on an invalid granularity", async () => {
+		await expect(hre.run("vesting-schedule", {startDate, endDate, amount: "1000", granularity: "yearly", silent: true})).to.be.rejectedWith("Invalid granularity: must be one of daily, weekly, monthly, quarterly");
+	});
+
+	it("Should fail if both an address and dates are supplied", async () => {
+		const {contract} = deployParams;
+
+		await expect(hre.run("vesting-schedule", {address: contract.address, startDate, silent: true})).to.be.rejectedWith("Supply either an address, or a startDate, endDate (or duration) and amount, but not both");
+	});
+});
@@ -0,0 +1,124 @@
+import {loadFixture, time} from "@nomicfoundation/hardhat-network-helpers";
+import {BigNumber, Contract} from "ethers";
+import {ethers} from "hardhat";
+import hre from "hardhat";
+import {expect} from "chai";
+import {WalletStatus} from "../../sdk";
+
+const ONE_YEAR_IN_SECS = 365 * 24 * 60 * 60;
+const ONE_DAY_IN_SECONDS = 24 * 60 * 60;
+const ONE_GWEI = BigNumber.from(1_000_000_000);
+const ONE_PALM = ONE_GWEI.mul(ONE_GWEI);
+
+describe("Vesting Status Task", function () {
+	type DeployParams = { contract: Contract, erc20Contract: Contract, owner: string, beneficiary: string, vestingStartTime: number, vestingDuration: number, fundAmount: BigNumber };
+	async function deployFundedVestingContractFixture(): Promise<DeployParams> {
+		const vestingStartTime = (await time.latest()) + ONE_DAY_IN_SECONDS * 7;
+		const vestingDuration = ONE_YEAR_IN_SECS;
+		const [deployer, beneficiary] = await ethers.getSigners();
+
+		const contractFactory = await ethers.getContractFactory("PalmEcosystemVestingWallet");
+		const contract = await contractFactory.deploy(beneficiary.address, vestingStartTime, vestingDuration, vestingStartTime, 0);
+		await contract.deployed();
+		const erc20Factory = await ethers.getContractFactory("SomeToken");
+		const erc20Contract = await erc20Factory.deploy();
+		await erc20Contract.deployed();
+
+		const fundAmount = ONE_PALM.mul(1000);
+		await deployer.sendTransaction({to: contract.address, value: fundAmount});
+		await erc20Contract.mint(contract.address, fundAmount);
+
+		return {contract, erc20Contract, owner: deployer.address, beneficiary: beneficiary.address, vestingStartTime, vestingDuration, fundAmount};
+	}
+
+	let deployParams: DeployParams;
+	beforeEach(async () => {
+		deployParams = await loadFixture(deployFundedVestingContractFixture);
+	});
+
+	it("Should report the configuration of the contract", async () => {
+		const {contract, owner, beneficiary, vestingStartTime, vestingDuration} = deployParams;
+
+		const status: WalletStatus = await hre.run("vesting-status", {address: contract.address, silent: true});
+
+		expect(status.address).to.equal(contract.address);
+		expect(status.owner).to.equal(owner);
+		expect(status.paused).to.equal(false);
+		expect(status.beneficiary).to.equal(beneficiary);
+		expect(status.start).to.equal(vestingStartTime);
+		expect(status.duration).to.equal(vestingDuration);
+		expect(status.end).to.equal(vestingStartTime + vestingDuration);
+	});
+
+	it("Should report nothing vested before vesting begins", async () => {
+		const {contract, fundAmount} = deployParams;
+
+		const status: WalletStatus = await hre.run("vesting-status", {address: contract.address, silent: true});
+
+		expect(status.assets).to.have.length(1);
+		const [native] = status.assets;
+		expect(native.symbol).to.equal("PALM");
+		expect(native.balance).to.equal(fundAmount);
+		expect(native.released).to.equal(0);
+		expect(native.vested).to.equal(0);
+		expect(native.releasable).to.equal(0);
+		expect(native.percentVested).to.equal("0.00");
+	});
+
+	it("Should report native and ERC-20 progress halfway through vesting", async () => {
+		const {contract, erc20Contract, vestingStartTime, vestingDuration, fundAmount} = deployParams;
+		await time.increaseTo(vestingStartTime + vestingDuration / 2);
+
+		const status: WalletStatus = await hre.run("vesting-status", {address: contract.address, token: erc20Contract.address, silent: true});
+
+		expect(status.timestamp).to.equal(vestingStartTime + vestingDuration / 2);
+		const [native, token] = status.assets;
+		expect(native.vested).to.equal(fundAmount.div(2));
+		expect(native.releasable).to.equal(fundAmount.div(2));
+		expect(native.percentVested).to.equal("50.00");
+		expect(token.token).to.equal(erc20Contract.address);
+		expect(token.symbol).to.equal("ST");
+		expect(token.decimals).to.equal(18);
+		expect(token.balance).to.equal(fundAmount);
+		expect(token.vested).to.equal(fundAmount.div(2));
+		expect(token.percentVested).to.equal("50.00");
+	});
+
+	it("Should account for funds that have already been released", async () => {
+		const {contract, vestingStartTime, vestingDuration, fundAmount} = deployParams;
+		await time.setNextBlockTimestamp(vestingStartTime + vestingDuration / 2);
+		await contract["release()"]();
+
+		const status: WalletStatus = await hre.run("vesting-status", {address: contract.address, silent: true});
+
+		const [native] = status.assets;
+		expect(native.balance).to.equal(fundAmount.div(2));
+		expect(native.released).to.equal(fundAmount.div(2));
+		expect(native.vested).to.equal(fundAmount.div(2));
+		expect(native.releasable).to.equal(0);
+	});
+
+	it("Should report what each of several beneficiaries has received and can release", async () => {
+		const {contract, beneficiary, vestingStartTime, vestingDuration, fundAmount} = deployParams;
+		const [, , otherAddress] = await ethers.getSigners();
+		await contract.pause();
+		await contract.setShares([beneficiary, otherAddress.address], [1, 3]);
+		await contract.unpause();
+		await time.setNextBlockTimestamp(vestingStartTime + vestingDuration / 2);
+		await contract["release()"]();
+		await time.increaseTo(vestingStartTime + vestingDuration);
+
+		const status: WalletStatus = await hre.run("vesting-status", {address: contract.address, silent: true});
+
+		expect(status.beneficiaries).to.deep.equal([{beneficiary, shares: 1}, {beneficiary: otherAddress.address, shares: 3}]);
+		const [native] = status.assets;
+		expect(native.recipients.map(({released}) => released)).to.deep.equal([fundAmount.div(8), fundAmount.mul(3).div(8)]);
+		expect(native.recipients.map(({releasable}) => releasable)).to.deep.equal([fundAmount.div(8), fundAmount.mul(3).div(8)]);
+	});
+
+	it("Should fail if a token address is not formatted correctly", async () => {
+		const {contract} = deployParams;
+
+		await expect(hre.run("vesting-status", {address: contract.address, token: "0x01", silent: true})).to.be.rejectedWith("Invalid token address supplied: 0x01");
+	});
+});